@@ -22,6 +22,16 @@ export const config = {
   // Saudi Open Data
   saudiDataApi: process.env.SAUDI_DATA_API || 'https://open.data.gov.sa/data/api',
 
+  // Data source connectors
+  connectors: {
+    localRoot: process.env.LOCAL_DATA_ROOT || './data/sources', // جذر مجلدات المصادر المحلية
+  },
+
+  // User-uploaded private datasets (stored under <localRoot>/uploads)
+  privateDatasets: {
+    maxFileSizeMb: parseInt(process.env.PRIVATE_DATASET_MAX_MB || '50', 10),
+  },
+
   // OpenAI
   openaiApiKey: process.env.OPENAI_API_KEY || '',
   openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
@@ -42,6 +52,13 @@ export const config = {
     cacheRefreshInterval: 30 * 60 * 1000,   // 30 minutes
   },
 
+  // Persistent job queue
+  jobs: {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false', // عطّله في النسخ التي تخدم الـ API فقط
+    concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '3', 10),
+    historyDays: parseInt(process.env.JOB_HISTORY_DAYS || '30', 10),
+  },
+
   // SMTP
   smtp: {
     host: process.env.SMTP_HOST || '',
@@ -62,6 +79,13 @@ export const config = {
     secretKey: process.env.MOYASAR_SECRET_KEY || '',
   },
 
+  // Dataset verification workflow (defaults, overridable from settings)
+  verification: {
+    requiredReviews: parseInt(process.env.VERIFICATION_REQUIRED_REVIEWS || '2', 10),
+    reviewSlaHours: parseInt(process.env.VERIFICATION_REVIEW_SLA_HOURS || '48', 10),
+    decisionSlaHours: parseInt(process.env.VERIFICATION_DECISION_SLA_HOURS || '120', 10),
+  },
+
   // Rate limiting
   rateLimit: {
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -0,0 +1,68 @@
+/**
+ * خطط الاشتراك - Subscription Plans
+ * Plan definitions shared by the subscription controller and feature guards
+ */
+
+// Plan definitions
+export const PLANS = {
+  FREE: {
+    id: 'FREE',
+    nameAr: 'مجاني',
+    nameEn: 'Free',
+    monthlyPrice: 0,
+    annualPrice: 0,
+    features: ['browse_dashboards', 'limited_signals', 'basic_search'],
+    limits: { favorites: 10, dashboards: 0, exports: 0 },
+  },
+  ANALYST: {
+    id: 'ANALYST',
+    nameAr: 'محلل',
+    nameEn: 'Analyst',
+    monthlyPrice: 9900, // 99 SAR in halalas
+    annualPrice: 99000, // 990 SAR (2 months free)
+    features: ['browse_dashboards', 'full_signals', 'advanced_search', 'create_dashboards', 'custom_queries', 'export_data', 'ai_recommendations', 'instant_alerts', 'confidential_data'],
+    limits: { favorites: 50, dashboards: 10, exports: 100 },
+  },
+  EXPERT: {
+    id: 'EXPERT',
+    nameAr: 'خبير',
+    nameEn: 'Expert',
+    monthlyPrice: 29900, // 299 SAR
+    annualPrice: 299000, // 2990 SAR (2 months free)
+    features: ['browse_dashboards', 'full_signals', 'advanced_search', 'create_dashboards', 'custom_queries', 'export_data', 'ai_recommendations', 'instant_alerts', 'confidential_data', 'expert_studio', 'custom_reports', 'verification_tools', 'full_api', 'priority_support'],
+    limits: { favorites: -1, dashboards: -1, exports: -1 }, // -1 = unlimited
+  },
+} as const;
+
+export type PlanKey = keyof typeof PLANS;
+
+export interface PlanSubscriber {
+  subscriptionPlan: string | null;
+  subscriptionEnd: Date | null;
+  trialEndsAt: Date | null;
+}
+
+/**
+ * الخطة الفعلية بعد مراعاة انتهاء الاشتراك والفترة التجريبية
+ */
+export function getEffectivePlan(user: PlanSubscriber): PlanKey {
+  // Check if subscription is still valid
+  let effectivePlan = user.subscriptionPlan || 'FREE';
+  if (effectivePlan !== 'FREE' && user.subscriptionEnd && new Date(user.subscriptionEnd) < new Date()) {
+    effectivePlan = 'FREE';
+  }
+
+  // Check trial
+  if (effectivePlan === 'FREE' && user.trialEndsAt && new Date(user.trialEndsAt) > new Date()) {
+    effectivePlan = 'ANALYST'; // Trial gives Analyst access
+  }
+
+  return effectivePlan in PLANS ? (effectivePlan as PlanKey) : 'FREE';
+}
+
+/**
+ * هل تتضمن الخطة الميزة المطلوبة
+ */
+export function planHasFeature(plan: PlanKey, feature: string): boolean {
+  return (PLANS[plan].features as readonly string[]).includes(feature);
+}
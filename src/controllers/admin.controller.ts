@@ -13,6 +13,7 @@ import {
   triggerAIAnalysis,
   triggerContentGeneration,
 } from '../jobs/scheduler.js';
+import { listJobs, listJobTypes, getJob, enqueueJob, cancelJob, retryJob } from '../services/jobQueue.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
 
 const VALID_ROLES = ['USER', 'ANALYST', 'EXPERT', 'WRITER', 'DESIGNER', 'EDITOR', 'CONTENT_MANAGER', 'ADMIN', 'SUPER_ADMIN'];
@@ -58,7 +59,7 @@ export async function getSystemStats(
         total: totalContent,
       },
       recentSyncs,
-      jobs: getJobStatus(),
+      jobs: await getJobStatus(),
     };
 
     sendSuccess(res, stats);
@@ -67,88 +68,159 @@ export async function getSystemStats(
   }
 }
 
-// Get job status
+// Get job status per type + job history (filters: type, status)
 export async function getJobsStatus(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const status = getJobStatus();
-    sendSuccess(res, status);
+    const { type, status, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(parseInt(String(page), 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(String(limit), 10) || 20, 1), 100);
+
+    const [overview, history] = await Promise.all([
+      getJobStatus(),
+      listJobs({
+        type: type ? String(type) : undefined,
+        status: status ? String(status).toUpperCase() : undefined,
+        page: pageNum,
+        limit: limitNum,
+      }),
+    ]);
+
+    sendSuccess(res, { status: overview, types: listJobTypes(), jobs: history.jobs }, 200, {
+      page: pageNum,
+      limit: limitNum,
+      total: history.total,
+      totalPages: Math.ceil(history.total / limitNum),
+    });
   } catch (error) {
     next(error);
   }
 }
 
-// Trigger data sync
-export async function triggerSync(
-  _req: Request,
+// Get single job
+export async function getJobDetails(
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const result = await triggerFullSync();
-    sendSuccess(res, result, 'Sync triggered successfully', 'تم تشغيل المزامنة بنجاح');
+    sendSuccess(res, await getJob(String(req.params.jobId)));
   } catch (error) {
-    if (error instanceof Error && error.message.includes('already running')) {
-      sendError(res, 'Sync already running', 'المزامنة قيد التشغيل بالفعل', 409);
+    next(error);
+  }
+}
+
+// Queue any registered job type
+export async function enqueueAdminJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { type, payload } = req.body || {};
+
+    if (!type || typeof type !== 'string') {
+      sendError(res, 'Job type is required', 'نوع المهمة مطلوب', 400, { types: listJobTypes() });
       return;
     }
+
+    const job = await enqueueJob(type, {
+      payload: payload && typeof payload === 'object' ? payload : {},
+      trigger: 'manual',
+      createdById: req.user!.userId,
+    });
+    sendSuccess(res, job, 202);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Cancel a queued or running job
+export async function cancelAdminJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const job = await cancelJob(String(req.params.jobId));
+    const message = job.status === 'CANCELLED'
+      ? ['Job cancelled', 'تم إلغاء المهمة']
+      : ['Cancellation requested - the job stops at its next checkpoint', 'تم طلب الإلغاء - ستتوقف المهمة عند أول نقطة تحقق'];
+    sendSuccess(res, job, message[0], message[1]);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Re-queue a failed or cancelled job
+export async function retryAdminJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const job = await retryJob(String(req.params.jobId), req.user!.userId);
+    sendSuccess(res, job, 202);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Trigger data sync
+export async function triggerSync(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const job = await triggerFullSync({ createdById: req.user!.userId, force: req.body?.force === true });
+    sendSuccess(res, job, 'Sync queued successfully', 'تمت جدولة المزامنة بنجاح');
+  } catch (error) {
     next(error);
   }
 }
 
 // Trigger AI analysis
 export async function triggerAnalysis(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const result = await triggerAIAnalysis();
-    sendSuccess(res, result, 'Analysis triggered successfully', 'تم تشغيل التحليل بنجاح');
+    const job = await triggerAIAnalysis({ createdById: req.user!.userId });
+    sendSuccess(res, job, 'Analysis queued successfully', 'تمت جدولة التحليل بنجاح');
   } catch (error) {
-    if (error instanceof Error && error.message.includes('already running')) {
-      sendError(res, 'Analysis already running', 'التحليل قيد التشغيل بالفعل', 409);
-      return;
-    }
     next(error);
   }
 }
 
 // Trigger content generation
 export async function triggerContent(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const result = await triggerContentGeneration();
-    sendSuccess(res, result, 'Content generation triggered', 'تم تشغيل توليد المحتوى');
+    const job = await triggerContentGeneration({ createdById: req.user!.userId });
+    sendSuccess(res, job, 'Content generation queued', 'تمت جدولة توليد المحتوى');
   } catch (error) {
-    if (error instanceof Error && error.message.includes('already running')) {
-      sendError(res, 'Content generation already running', 'توليد المحتوى قيد التشغيل', 409);
-      return;
-    }
     next(error);
   }
 }
 
 // Trigger portal sync (Browserless)
 export async function triggerPortal(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const result = await triggerPortalSync();
-    sendSuccess(res, result, 'Portal sync triggered successfully', 'تم تشغيل المزامنة من المنصة بنجاح');
+    const job = await triggerPortalSync({ createdById: req.user!.userId });
+    sendSuccess(res, job, 'Portal sync queued successfully', 'تمت جدولة المزامنة من المنصة بنجاح');
   } catch (error) {
-    if (error instanceof Error && error.message.includes('already running')) {
-      sendError(res, 'Portal sync already running', 'المزامنة من المنصة قيد التشغيل بالفعل', 409);
-      return;
-    }
     next(error);
   }
 }
@@ -659,6 +731,10 @@ export async function getUsersStream(req: Request, res: Response, _next: NextFun
 export default {
   getSystemStats,
   getJobsStatus,
+  getJobDetails,
+  enqueueAdminJob,
+  cancelAdminJob,
+  retryAdminJob,
   triggerSync,
   triggerPortal,
   triggerAnalysis,
@@ -0,0 +1,558 @@
+/**
+ * Alert Rule Controller - قواعد التنبيه
+ * User-defined alert rules on signals and dataset metrics, with mute / snooze and delivery history
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AlertRule } from '@prisma/client';
+import { prisma } from '../services/database.js';
+import { sendSuccess, sendError, sendPaginated } from '../utils/response.js';
+import { getDatasetData } from '../services/onDemandData.js';
+import { extractTimeSeries, TimeSeriesError } from '../services/timeSeries.js';
+import { visibleDatasetsWhere } from '../services/privateDatasets.js';
+import {
+  authorizeDatasetAccess,
+  applyAccessDecision,
+  visibleColumns,
+  POLICY_SELECT,
+} from '../services/accessPolicy.js';
+import {
+  ALERT_CHANNELS,
+  signalConditionsSchema,
+  metricConditionsSchema,
+  MetricConditions,
+  hiddenMetricColumns,
+  isAllowedWebhookUrl,
+  generateWebhookSecret,
+  deliverAlert,
+} from '../services/alertRules.js';
+
+// =====================
+// Validation
+// =====================
+
+const MAX_RULES_PER_USER = 50;
+const MAX_SNOOZE_MINUTES = 30 * 24 * 60;
+
+const ruleBaseSchema = z.object({
+  name: z.string().min(1).max(150),
+  channels: z.array(z.enum(ALERT_CHANNELS)).min(1).max(3).optional(),
+  webhookUrl: z.string().url().max(500).nullable().optional(),
+  maxPerDay: z.number().int().min(1).max(100).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createRuleSchema = z.discriminatedUnion('kind', [
+  ruleBaseSchema.extend({
+    kind: z.literal('SIGNAL'),
+    conditions: signalConditionsSchema,
+  }),
+  ruleBaseSchema.extend({
+    kind: z.literal('DATASET_METRIC'),
+    datasetId: z.string().min(1),
+    conditions: metricConditionsSchema,
+  }),
+]);
+
+const updateRuleSchema = ruleBaseSchema.partial().extend({
+  conditions: z.record(z.unknown()).optional(),
+});
+
+const snoozeSchema = z.object({
+  minutes: z.number().int().min(1).max(MAX_SNOOZE_MINUTES).optional(),
+  until: z.string().datetime().optional(),
+}).refine((d) => d.minutes !== undefined || d.until !== undefined, {
+  message: 'minutes or until is required',
+});
+
+/**
+ * عرض القاعدة بدون سر الـ webhook، مع حالتها الحالية
+ */
+function formatAlertRule(rule: AlertRule) {
+  const { webhookSecret, ...rest } = rule;
+  const now = new Date();
+  return {
+    ...rest,
+    hasWebhookSecret: !!webhookSecret,
+    state: !rule.isActive
+      ? 'disabled'
+      : rule.mutedAt
+        ? 'muted'
+        : rule.snoozedUntil && rule.snoozedUntil > now
+          ? 'snoozed'
+          : 'active',
+  };
+}
+
+/**
+ * التحقق من قناة الـ webhook: عنوان مطلوب وآمن عند اختيارها
+ * عند الفشل يُرسل الخطأ ويرجع false
+ */
+async function validateWebhook(res: Response, channels: string[], webhookUrl: string | null | undefined): Promise<boolean> {
+  if (!channels.includes('webhook')) return true;
+
+  if (!webhookUrl || !(await isAllowedWebhookUrl(webhookUrl))) {
+    sendError(
+      res,
+      'Webhook channel requires a public HTTPS webhookUrl',
+      'قناة الـ webhook تتطلب رابط HTTPS عاماً',
+      400
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * التحقق من الـ Dataset وصلاحية الاستعلام عليه وأن السلسلة المطلوبة قابلة للاستخراج
+ * من البيانات كما يراها المستخدم (بعد فلاتر الصفوف والحجب والإخفاء)
+ * عند الفشل يُرسل الخطأ ويرجع null، وإلا يرجع معرف الـ Dataset الداخلي
+ */
+async function validateMetricTarget(
+  req: Request,
+  res: Response,
+  datasetId: string,
+  conditions: MetricConditions
+): Promise<string | null> {
+  const dataset = await prisma.dataset.findFirst({
+    where: {
+      OR: [{ id: datasetId }, { externalId: datasetId }],
+      isActive: true,
+      AND: [visibleDatasetsWhere(req.user)],
+    },
+    select: { id: true, externalId: true, ...POLICY_SELECT },
+  });
+
+  if (!dataset) {
+    sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+    return null;
+  }
+
+  const access = await authorizeDatasetAccess(dataset, req.user, 'QUERY');
+
+  const data = await getDatasetData(dataset.externalId);
+  if (!data) {
+    sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500);
+    return null;
+  }
+
+  const hidden = hiddenMetricColumns(data.columns, conditions, access);
+  if (hidden.length > 0) {
+    sendError(res, 'Column not available for this dataset', 'العمود غير متاح في مجموعة البيانات', 403, {
+      columns: hidden,
+    });
+    return null;
+  }
+
+  try {
+    const result = extractTimeSeries(applyAccessDecision(data.records, access).records, visibleColumns(data.columns, access), {
+      measure: conditions.measure,
+      aggregate: conditions.aggregate,
+      dimension: conditions.dimension,
+    });
+    if (conditions.seriesKey && !result.series.some((s) => s.key === conditions.seriesKey)) {
+      sendError(res, 'Series not found in dataset', 'السلسلة غير موجودة في مجموعة البيانات', 400, {
+        seriesKey: conditions.seriesKey,
+        available: result.series.map((s) => s.key),
+      });
+      return null;
+    }
+  } catch (error) {
+    if (error instanceof TimeSeriesError) {
+      sendError(res, error.message, error.messageAr, 400, error.details);
+      return null;
+    }
+    throw error;
+  }
+
+  return dataset.id;
+}
+
+async function findOwnRule(req: Request): Promise<AlertRule | null> {
+  return prisma.alertRule.findFirst({
+    where: { id: String(req.params.id), userId: req.user!.userId },
+  });
+}
+
+// =====================
+// Rules
+// =====================
+
+/**
+ * GET /alerts
+ */
+export async function getAlertRules(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { kind } = req.query;
+
+    const rules = await prisma.alertRule.findMany({
+      where: { userId: req.user!.userId, ...(kind && { kind: String(kind) }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    sendSuccess(res, rules.map(formatAlertRule));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /alerts/:id
+ */
+export async function getAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const rule = await findOwnRule(req);
+    if (!rule) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    sendSuccess(res, formatAlertRule(rule));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /alerts
+ * The webhook secret is returned once, in this response only
+ */
+export async function createAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const data = createRuleSchema.parse(req.body);
+    const channels = data.channels || ['in_app'];
+
+    const count = await prisma.alertRule.count({ where: { userId } });
+    if (count >= MAX_RULES_PER_USER) {
+      sendError(
+        res,
+        `Alert rule limit reached (${MAX_RULES_PER_USER})`,
+        `تم الوصول للحد الأقصى لقواعد التنبيه (${MAX_RULES_PER_USER})`,
+        403
+      );
+      return;
+    }
+
+    if (!(await validateWebhook(res, channels, data.webhookUrl))) return;
+
+    let datasetId: string | null = null;
+    if (data.kind === 'DATASET_METRIC') {
+      datasetId = await validateMetricTarget(req, res, data.datasetId, data.conditions as MetricConditions);
+      if (!datasetId) return;
+    }
+
+    const webhookSecret = channels.includes('webhook') ? generateWebhookSecret() : null;
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        userId,
+        name: data.name,
+        kind: data.kind,
+        conditions: data.conditions as any,
+        datasetId,
+        channels,
+        webhookUrl: data.webhookUrl || null,
+        webhookSecret,
+        maxPerDay: data.maxPerDay,
+        isActive: data.isActive,
+      },
+    });
+
+    sendSuccess(res, { ...formatAlertRule(rule), webhookSecret }, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /alerts/:id
+ * conditions are validated against the rule's kind (kind and dataset can't change)
+ */
+export async function updateAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = updateRuleSchema.parse(req.body);
+
+    const existing = await findOwnRule(req);
+    if (!existing) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    const channels = data.channels || (existing.channels as string[]);
+    const webhookUrl = data.webhookUrl !== undefined ? data.webhookUrl : existing.webhookUrl;
+    if (!(await validateWebhook(res, channels, webhookUrl))) return;
+
+    const updateData: Record<string, unknown> = {};
+    for (const field of ['name', 'channels', 'webhookUrl', 'maxPerDay', 'isActive'] as const) {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    }
+
+    if (existing.kind === 'SIGNAL') {
+      if (data.conditions !== undefined) {
+        updateData.conditions = signalConditionsSchema.parse(data.conditions);
+      }
+    } else {
+      // Access to the dataset is re-checked on every update, not only when the conditions change
+      const conditions = metricConditionsSchema.parse(data.conditions ?? existing.conditions);
+      if (!(await validateMetricTarget(req, res, existing.datasetId!, conditions))) return;
+      if (data.conditions !== undefined) updateData.conditions = conditions;
+    }
+
+    // First time the webhook channel is enabled: issue a signing secret
+    let webhookSecret: string | null = null;
+    if (channels.includes('webhook') && !existing.webhookSecret) {
+      webhookSecret = generateWebhookSecret();
+      updateData.webhookSecret = webhookSecret;
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data: updateData,
+    });
+
+    sendSuccess(res, { ...formatAlertRule(rule), ...(webhookSecret && { webhookSecret }) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /alerts/:id
+ */
+export async function deleteAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const existing = await findOwnRule(req);
+    if (!existing) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    await prisma.alertRule.delete({ where: { id: existing.id } });
+
+    sendSuccess(res, { message: 'Alert rule deleted' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// =====================
+// Mute / Snooze
+// =====================
+
+/**
+ * POST /alerts/:id/mute - until unmuted
+ */
+export async function muteAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const existing = await findOwnRule(req);
+    if (!existing) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data: { mutedAt: existing.mutedAt || new Date() },
+    });
+
+    sendSuccess(res, formatAlertRule(rule));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /alerts/:id/unmute - also clears any snooze
+ */
+export async function unmuteAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const existing = await findOwnRule(req);
+    if (!existing) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data: { mutedAt: null, snoozedUntil: null },
+    });
+
+    sendSuccess(res, formatAlertRule(rule));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /alerts/:id/snooze
+ * body: { minutes } or { until }
+ */
+export async function snoozeAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = snoozeSchema.parse(req.body);
+
+    const existing = await findOwnRule(req);
+    if (!existing) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    const now = Date.now();
+    const snoozedUntil = data.until ? new Date(data.until) : new Date(now + data.minutes! * 60 * 1000);
+    if (snoozedUntil.getTime() <= now || snoozedUntil.getTime() > now + MAX_SNOOZE_MINUTES * 60 * 1000) {
+      sendError(res, 'Snooze must end within the next 30 days', 'يجب أن ينتهي التأجيل خلال 30 يوماً', 400);
+      return;
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data: { snoozedUntil },
+    });
+
+    sendSuccess(res, formatAlertRule(rule));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// =====================
+// Delivery
+// =====================
+
+/**
+ * POST /alerts/:id/test
+ * Sends a sample alert through the rule's channels (not counted against the rate limit)
+ */
+export async function testAlertRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const rule = await findOwnRule(req);
+    if (!rule) {
+      sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rule.userId },
+      select: { name: true, email: true, emailVerified: true },
+    });
+
+    const deliveries = await deliverAlert(
+      rule,
+      {
+        subjectKey: 'test',
+        title: `Test alert: ${rule.name}`,
+        titleAr: `تنبيه تجريبي: ${rule.name}`,
+        message: 'This is a test alert. Your rule is configured correctly.',
+        messageAr: 'هذا تنبيه تجريبي. قاعدتك مُعدّة بشكل صحيح.',
+        link: '/alerts',
+        data: {},
+      },
+      user!,
+      { test: true }
+    );
+
+    sendSuccess(res, { deliveries });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /alerts/events
+ * GET /alerts/:id/events
+ * status: delivered | rate_limited
+ */
+export async function getAlertEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { status, page = '1', limit = '20' } = req.query;
+
+    const pageNum = parseInt(String(page), 10);
+    const limitNum = Math.min(parseInt(String(limit), 10), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    if (req.params.id) {
+      const rule = await findOwnRule(req);
+      if (!rule) {
+        sendError(res, 'Alert rule not found', 'قاعدة التنبيه غير موجودة', 404);
+        return;
+      }
+    }
+
+    const where = {
+      userId,
+      ...(req.params.id && { ruleId: String(req.params.id) }),
+      ...(status && { status: String(status) }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.alertEvent.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include: { rule: { select: { id: true, name: true, kind: true } } },
+      }),
+      prisma.alertEvent.count({ where }),
+    ]);
+
+    sendPaginated(res, events, pageNum, limitNum, total);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default {
+  getAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  muteAlertRule,
+  unmuteAlertRule,
+  snoozeAlertRule,
+  testAlertRule,
+  getAlertEvents,
+};
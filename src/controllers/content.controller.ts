@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../services/database.js';
 import { cacheGet, cacheSet, CacheKeys } from '../services/cache.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 import {
   generateArticleFromSignal,
   generateMarketReport,
@@ -74,6 +75,7 @@ export async function getFeed(
           tags: true,
           viewCount: true,
           publishedAt: true,
+          dataWarning: true,
         },
       }),
       prisma.content.count({ where }),
@@ -130,6 +132,7 @@ export async function getFeedStream(
         tags: true,
         viewCount: true,
         publishedAt: true,
+        dataWarning: true,
       },
     });
 
@@ -216,6 +219,7 @@ export async function getTimeline(
           excerptAr: true,
           tags: true,
           publishedAt: true,
+          dataWarning: true,
         },
       }),
       // Signals
@@ -244,7 +248,7 @@ export async function getTimeline(
       }),
       // Datasets - Recently updated/added
       prisma.dataset.findMany({
-        where: { isActive: true },
+        where: { isActive: true, ...PUBLIC_DATASETS_WHERE },
         skip: Math.floor(skip / 4),
         take: itemsPerSource,
         orderBy: { updatedAt: 'desc' },
@@ -298,7 +302,7 @@ export async function getTimeline(
           ],
         },
       }),
-      prisma.dataset.count({ where: { isActive: true } }),
+      prisma.dataset.count({ where: { isActive: true, ...PUBLIC_DATASETS_WHERE } }),
       prisma.syncLog.count({
         where: {
           status: 'SUCCESS',
@@ -321,6 +325,7 @@ export async function getTimeline(
         excerpt: c.excerpt,
         excerptAr: c.excerptAr,
         tags: c.tags,
+        dataWarning: c.dataWarning,
         itemType: 'content' as const,
         date: c.publishedAt,
       })),
@@ -424,6 +429,7 @@ export async function getTimelineStream(
         excerptAr: true,
         tags: true,
         publishedAt: true,
+        dataWarning: true,
       },
     });
 
@@ -436,6 +442,7 @@ export async function getTimelineStream(
         excerpt: c.excerpt,
         excerptAr: c.excerptAr,
         tags: c.tags,
+        dataWarning: c.dataWarning,
         itemType: 'content',
         date: c.publishedAt,
       });
@@ -484,7 +491,7 @@ export async function getTimelineStream(
 
     // Stream Datasets
     const datasets = await prisma.dataset.findMany({
-      where: { isActive: true },
+      where: { isActive: true, ...PUBLIC_DATASETS_WHERE },
       take: itemsPerSource,
       orderBy: { updatedAt: 'desc' },
       select: {
@@ -769,7 +776,8 @@ export async function generateFromSignal(
       return;
     }
 
-    const saved = await createGeneratedContent('ARTICLE', content);
+    // signalId in metadata links the article to its signal (lineage)
+    const saved = await createGeneratedContent('ARTICLE', content, undefined, { signalId });
     sendSuccess(res, saved, 'Content generated successfully', 'تم توليد المحتوى بنجاح');
   } catch (error) {
     next(error);
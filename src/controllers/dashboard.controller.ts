@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../services/database.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 // Dashboard categories mapped from real database categories
 const CATEGORY_MAP: Record<string, { id: string; label: string; labelEn: string }> = {
@@ -52,6 +53,7 @@ export async function getDashboards(
     // Build where clause
     const where: any = {
       isActive: true,
+      ...PUBLIC_DATASETS_WHERE,
       // Only real datasets with valid externalId (UUID format)
       externalId: { contains: '-' }
     };
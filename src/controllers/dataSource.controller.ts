@@ -0,0 +1,300 @@
+/**
+ * Data Source Controller - مصادر البيانات
+ * Registered connectors (CKAN portals, HTTP files, local directories) that datasets are fetched from
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { prisma } from '../services/database.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getConnector, listConnectorTypes } from '../services/dataConnectors.js';
+import { testDataSource, syncDataSource, registerSourceDataset } from '../services/dataSourceSync.js';
+
+// =====================
+// Validation
+// =====================
+
+const dataSourceSchema = z.object({
+  key: z.string().min(2).max(40).regex(/^[a-z0-9][a-z0-9-]*$/, 'Lowercase letters, digits and dashes only'),
+  name: z.string().min(1).max(150),
+  nameAr: z.string().min(1).max(150),
+  type: z.string().min(1),
+  config: z.record(z.unknown()).default({}),
+  isActive: z.boolean().optional(),
+});
+
+const registerDatasetSchema = z.object({
+  ref: z.string().min(1).max(2000),
+  category: z.string().max(100).optional(),
+});
+
+/**
+ * التحقق من إعدادات الموصل حسب نوعه
+ * عند الفشل يُرسل الخطأ ويرجع null
+ */
+function validateConnectorConfig(
+  res: Response,
+  type: string,
+  connectorConfig: unknown
+): Record<string, unknown> | null {
+  const connector = getConnector(type);
+  if (!connector) {
+    sendError(res, `Unknown connector type: ${type}`, `نوع موصل غير معروف: ${type}`, 400, {
+      supported: listConnectorTypes().map((c) => c.type),
+    });
+    return null;
+  }
+
+  const parsed = connector.configSchema.safeParse(connectorConfig);
+  if (!parsed.success) {
+    sendError(res, 'Invalid connector configuration', 'إعدادات الموصل غير صالحة', 400, parsed.error.errors);
+    return null;
+  }
+
+  return parsed.data as Record<string, unknown>;
+}
+
+// =====================
+// Sources
+// =====================
+
+/**
+ * GET /data-sources
+ */
+export async function getDataSources(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const sources = await prisma.dataSource.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { datasets: true } } },
+    });
+
+    sendSuccess(res, {
+      sources: sources.map(({ _count, ...source }) => ({ ...source, datasetCount: _count.datasets })),
+      connectorTypes: listConnectorTypes(),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /data-sources
+ */
+export async function createDataSource(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = dataSourceSchema.parse(req.body);
+
+    const connectorConfig = validateConnectorConfig(res, data.type, data.config);
+    if (!connectorConfig) return;
+
+    const existing = await prisma.dataSource.findUnique({ where: { key: data.key } });
+    if (existing) {
+      sendError(res, 'A data source with this key already exists', 'يوجد مصدر بيانات بنفس المفتاح', 409);
+      return;
+    }
+
+    const source = await prisma.dataSource.create({
+      data: {
+        key: data.key,
+        name: data.name,
+        nameAr: data.nameAr,
+        type: data.type,
+        config: connectorConfig as any,
+        isActive: data.isActive,
+      },
+    });
+
+    prisma.auditLog.create({
+      data: {
+        actorId: req.user!.userId,
+        action: 'DATA_SOURCE_CREATE',
+        targetType: 'DATA_SOURCE',
+        targetId: source.id,
+        details: JSON.stringify({ key: source.key, type: source.type }),
+      },
+    }).catch(() => {});
+
+    sendSuccess(res, source, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /data-sources/:id
+ * key and type are fixed after creation (externalIds of imported datasets depend on them)
+ */
+export async function updateDataSource(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const data = dataSourceSchema.omit({ key: true, type: true }).partial().parse(req.body);
+
+    const existing = await prisma.dataSource.findUnique({ where: { id } });
+    if (!existing) {
+      sendError(res, 'Data source not found', 'مصدر البيانات غير موجود', 404);
+      return;
+    }
+
+    let connectorConfig: Record<string, unknown> | undefined;
+    if (data.config) {
+      connectorConfig = validateConnectorConfig(res, existing.type, data.config);
+      if (!connectorConfig) return;
+    }
+
+    const source = await prisma.dataSource.update({
+      where: { id },
+      data: { ...data, ...(connectorConfig && { config: connectorConfig as any }) },
+    });
+
+    prisma.auditLog.create({
+      data: {
+        actorId: req.user!.userId,
+        action: 'DATA_SOURCE_UPDATE',
+        targetType: 'DATA_SOURCE',
+        targetId: id,
+        details: JSON.stringify({ fields: Object.keys(data) }),
+      },
+    }).catch(() => {});
+
+    sendSuccess(res, source);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /data-sources/:id
+ */
+export async function deleteDataSource(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const source = await prisma.dataSource.findUnique({
+      where: { id },
+      include: { _count: { select: { datasets: true } } },
+    });
+
+    if (!source) {
+      sendError(res, 'Data source not found', 'مصدر البيانات غير موجود', 404);
+      return;
+    }
+
+    if (source._count.datasets > 0) {
+      sendError(
+        res,
+        'Data source still has datasets - deactivate it instead',
+        'مصدر البيانات مرتبط بمجموعات بيانات - عطّله بدلاً من حذفه',
+        409,
+        { datasetCount: source._count.datasets }
+      );
+      return;
+    }
+
+    await prisma.dataSource.delete({ where: { id } });
+
+    prisma.auditLog.create({
+      data: {
+        actorId: req.user!.userId,
+        action: 'DATA_SOURCE_DELETE',
+        targetType: 'DATA_SOURCE',
+        targetId: id,
+        details: JSON.stringify({ key: source.key }),
+      },
+    }).catch(() => {});
+
+    sendSuccess(res, { deleted: true });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// =====================
+// Connector Actions
+// =====================
+
+/**
+ * POST /data-sources/:id/test
+ */
+export async function testDataSourceConnection(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    sendSuccess(res, await testDataSource(String(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /data-sources/:id/sync
+ */
+export async function syncDataSourceDatasets(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const source = await prisma.dataSource.findUnique({ where: { id }, select: { isActive: true } });
+    if (!source) {
+      sendError(res, 'Data source not found', 'مصدر البيانات غير موجود', 404);
+      return;
+    }
+    if (!source.isActive) {
+      sendError(res, 'Data source is inactive', 'مصدر البيانات معطّل', 400);
+      return;
+    }
+
+    const result = await syncDataSource(id);
+    sendSuccess(res, result, 'Data source synced', 'تمت مزامنة مصدر البيانات');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /data-sources/:id/datasets
+ */
+export async function registerDataSourceDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { ref, category } = registerDatasetSchema.parse(req.body);
+    const dataset = await registerSourceDataset(String(req.params.id), ref, { category });
+
+    sendSuccess(res, dataset, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default {
+  getDataSources,
+  createDataSource,
+  updateDataSource,
+  deleteDataSource,
+  testDataSourceConnection,
+  syncDataSourceDatasets,
+  registerDataSourceDataset,
+};
@@ -5,8 +5,9 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { Dataset } from '@prisma/client';
 import { prisma } from '../services/database.js';
-import { cacheGet, cacheSet, CacheKeys } from '../services/cache.js';
+import { cacheGet, cacheSet, cacheDel, CacheKeys } from '../services/cache.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
 import {
   getDatasetData as fetchOnDemandData,
@@ -15,7 +16,40 @@ import {
   clearDatasetCache,
   fetchDatasetsList,
   fetchAllDatasets,
+  MAX_FULL_READ_ROWS,
 } from '../services/onDemandData.js';
+import { executeQuery, findUnknownColumns, queryDefinitionSchema, DatasetQuery } from '../services/datasetQuery.js';
+import { diffSnapshots, parseVersion } from '../services/datasetVersioning.js';
+import { extractTimeSeries, TimeSeriesError } from '../services/timeSeries.js';
+import { joinDatasets, JoinInput } from '../services/datasetJoin.js';
+import { getDatasetLineage as buildDatasetLineage, summarizeImpact } from '../services/lineage.js';
+import {
+  getWorkflowConfig,
+  updateWorkflowConfig,
+  applyVerificationDecision,
+  assignReviewers,
+  claimReview,
+  submitReview,
+  resolveDisagreement,
+  getDatasetReviews as fetchDatasetReviews,
+  reviewQueueWhere,
+  getVerificationSla,
+  ReviewInput,
+} from '../services/verificationWorkflow.js';
+import { parsePiiColumns, updatePiiScan, PiiProposal } from '../services/piiScanner.js';
+import { QualityDetails } from '../services/qualityScoring.js';
+import {
+  authorizeDatasetAccess,
+  applyAccessDecision,
+  applyAccessToDictionary,
+  applyAccessToDiff,
+  visibleColumns,
+  parseAccessPolicy,
+  accessPolicySchema,
+  POLICY_SELECT,
+  AccessDecision,
+} from '../services/accessPolicy.js';
+import { PUBLIC_DATASETS_WHERE, visibleDatasetsWhere } from '../services/privateDatasets.js';
 import { logger } from '../utils/logger.js';
 
 // ═══════════════════════════════════════════════════════════════════
@@ -34,9 +68,10 @@ export async function getDatasets(
     const limitNum = parseInt(String(limit), 10);
     const skip = (pageNum - 1) * limitNum;
 
-    // Build filter
+    // Build filter (private uploads are never listed publicly)
     const where: Record<string, unknown> = {
       isActive: true,
+      ...PUBLIC_DATASETS_WHERE,
     };
 
     if (category) {
@@ -112,6 +147,14 @@ export async function getDatasets(
 // Get single dataset (metadata from DB)
 // ═══════════════════════════════════════════════════════════════════
 
+// Governance internals (access policy, PII findings) are returned to admins only
+const ADMIN_ONLY_FIELDS = ['accessPolicy', 'piiColumns', 'piiProposal'] as const;
+
+type DatasetDetails = Omit<Dataset, 'columns' | 'dataPreview'> & {
+  columns: string[];
+  dataPreview: Record<string, unknown>[];
+};
+
 export async function getDataset(
   req: Request,
   res: Response,
@@ -120,37 +163,51 @@ export async function getDataset(
   try {
     const id = String(req.params.id);
 
-    // Try cache first
-    const cached = await cacheGet(CacheKeys.dataset(id));
-    if (cached) {
-      sendSuccess(res, cached);
-      return;
-    }
-
-    const dataset = await prisma.dataset.findFirst({
-      where: {
-        OR: [{ id }, { externalId: id }],
-        isActive: true,
-      },
-    });
+    // The cache holds the stored dataset (public datasets only); access is applied per viewer
+    let dataset = await cacheGet<DatasetDetails>(CacheKeys.dataset(id));
 
     if (!dataset) {
-      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
-      return;
+      const row = await prisma.dataset.findFirst({
+        where: {
+          OR: [{ id }, { externalId: id }],
+          isActive: true,
+          AND: [visibleDatasetsWhere(req.user)],
+        },
+      });
+
+      if (!row) {
+        sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+        return;
+      }
+
+      // Parse JSON fields
+      dataset = {
+        ...row,
+        columns: row.columns ? JSON.parse(row.columns) : [],
+        dataPreview: row.dataPreview ? JSON.parse(row.dataPreview) : [],
+        resources: row.resources || [],
+      };
+
+      if (!row.ownerUserId) {
+        await cacheSet(CacheKeys.dataset(id), dataset, 600);
+      }
     }
 
-    // Parse JSON fields
-    const formattedDataset = {
-      ...dataset,
-      columns: dataset.columns ? JSON.parse(dataset.columns) : [],
-      dataPreview: dataset.dataPreview ? JSON.parse(dataset.dataPreview) : [],
-      resources: dataset.resources || [],
-    };
+    // Sensitivity level, hidden / masked columns and row filters for this user
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
 
-    // Cache result
-    await cacheSet(CacheKeys.dataset(id), formattedDataset, 600);
+    const isAdmin = ['ADMIN', 'SUPER_ADMIN'].includes(req.user?.role || '');
+    const details: Record<string, unknown> = { ...dataset };
+    if (!isAdmin) {
+      for (const field of ADMIN_ONLY_FIELDS) delete details[field];
+    }
 
-    sendSuccess(res, formattedDataset);
+    sendSuccess(res, {
+      ...details,
+      columns: visibleColumns(dataset.columns, access),
+      dataPreview: Array.isArray(dataset.dataPreview) ? applyAccessDecision(dataset.dataPreview, access).records : [],
+      dataDictionary: applyAccessToDictionary(dataset.dataDictionary, access),
+    });
   } catch (error) {
     next(error);
   }
@@ -172,6 +229,7 @@ export async function getDatasetData(
       page = '1',
       limit = '100',
       refresh = 'false',
+      sheet,
     } = req.query;
 
     const pageNum = parseInt(String(page), 10);
@@ -193,6 +251,7 @@ export async function getDatasetData(
         columns: true,
         recordCount: true,
         resources: true,
+        ...POLICY_SELECT,
       },
     });
 
@@ -201,13 +260,18 @@ export async function getDatasetData(
       return;
     }
 
+    // Sensitivity level, column masking and row filters for this user
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
+    const rowFiltered = access.rowFilters.length > 0;
+
     logger.info(`📊 Fetching on-demand data for: ${dataset.nameAr}`);
 
     // Fetch data ON-DEMAND from Saudi Open Data API
+    // Row filters need the whole dataset so that paging counts only the visible rows
     const data = await fetchOnDemandData(dataset.externalId, {
-      limit: limitNum,
-      offset,
+      ...(!rowFiltered && { limit: limitNum, offset }),
       forceRefresh,
+      sheet: sheet ? String(sheet) : undefined,
     });
 
     if (!data) {
@@ -215,6 +279,10 @@ export async function getDatasetData(
       return;
     }
 
+    const visible = applyAccessDecision(data.records, access);
+    const total = rowFiltered ? visible.records.length : data.totalRecords;
+    const records = rowFiltered ? visible.records.slice(offset, offset + limitNum) : visible.records;
+
     sendSuccess(res, {
       dataset: {
         id: dataset.id,
@@ -222,15 +290,21 @@ export async function getDatasetData(
         name: dataset.name,
         nameAr: dataset.nameAr,
       },
-      records: data.records,
-      columns: data.columns,
+      records,
+      columns: visibleColumns(data.columns, access),
       meta: {
+        sensitivityLevel: access.level,
+        maskedColumns: visible.maskedColumns,
+        rowFiltered,
         page: pageNum,
         limit: limitNum,
-        total: data.totalRecords,
-        totalPages: Math.ceil(data.totalRecords / limitNum),
+        total,
+        totalPages: Math.ceil(total / limitNum),
         fetchedAt: data.fetchedAt,
         source: data.source, // 'api' or 'cache'
+        format: data.format,
+        sheets: data.sheets,
+        sheet: data.sheet,
       },
     });
   } catch (error) {
@@ -249,7 +323,7 @@ export async function getDatasetPreviewData(
 ): Promise<void> {
   try {
     const id = String(req.params.id);
-    const { count = '10' } = req.query;
+    const { count = '10', sheet } = req.query;
     const previewCount = Math.min(parseInt(String(count), 10), 50);
 
     // Find dataset
@@ -263,6 +337,7 @@ export async function getDatasetPreviewData(
         externalId: true,
         name: true,
         nameAr: true,
+        ...POLICY_SELECT,
       },
     });
 
@@ -271,23 +346,33 @@ export async function getDatasetPreviewData(
       return;
     }
 
+    const access = await authorizeDatasetAccess(dataset, req.user, 'PREVIEW');
+
     // Fetch preview ON-DEMAND
-    const preview = await getDatasetPreview(dataset.externalId, previewCount);
+    const preview = sheet
+      ? await fetchOnDemandData(dataset.externalId, { limit: previewCount, sheet: String(sheet) })
+      : await getDatasetPreview(dataset.externalId, previewCount);
 
     if (!preview) {
       sendError(res, 'Failed to fetch preview', 'فشل في جلب المعاينة', 500);
       return;
     }
 
+    const { records, maskedColumns } = applyAccessDecision(preview.records, access);
+
     sendSuccess(res, {
       dataset: {
         id: dataset.id,
         name: dataset.name,
         nameAr: dataset.nameAr,
       },
-      preview: preview.records,
-      columns: preview.columns,
+      preview: records,
+      maskedColumns,
+      columns: visibleColumns(preview.columns, access),
       totalRecords: preview.totalRecords,
+      format: preview.format,
+      sheets: preview.sheets,
+      sheet: preview.sheet,
     });
   } catch (error) {
     next(error);
@@ -322,8 +407,8 @@ export async function refreshDatasetCache(
     // Clear cache
     await clearDatasetCache(dataset.externalId);
 
-    // Pre-fetch to warm cache
-    const data = await fetchOnDemandData(dataset.externalId, { forceRefresh: true });
+    // Pre-fetch to warm cache (one record is enough - the whole file is streamed into the store)
+    const data = await fetchOnDemandData(dataset.externalId, { forceRefresh: true, limit: 1 });
 
     sendSuccess(res, {
       message: 'Cache refreshed successfully',
@@ -348,7 +433,7 @@ export async function getCategories(
   try {
     const categories = await prisma.dataset.groupBy({
       by: ['category'],
-      where: { isActive: true },
+      where: { isActive: true, ...PUBLIC_DATASETS_WHERE },
       _count: { category: true },
       orderBy: { _count: { category: 'desc' } },
     });
@@ -585,11 +670,11 @@ export async function getUnverifiedDatasets(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { page = '1', limit = '20', search, category, status } = req.query;
+    const { page = '1', limit = '20', search, category, status, queue } = req.query;
     const pageNum = parseInt(page as string, 10);
     const limitNum = Math.min(parseInt(limit as string, 10), 50);
 
-    const where: any = { isActive: true };
+    const where: any = { isActive: true, ...PUBLIC_DATASETS_WHERE };
 
     if (status && status !== 'all') {
       where.verificationStatus = status as string;
@@ -607,7 +692,17 @@ export async function getUnverifiedDatasets(
       where.category = category as string;
     }
 
-    const [datasets, total] = await Promise.all([
+    // Review queues: mine | unassigned | overdue | disagreement
+    if (queue && queue !== 'all') {
+      const queueWhere = reviewQueueWhere(String(queue), req.user!.userId);
+      if (!queueWhere) {
+        sendError(res, 'Invalid review queue', 'قائمة مراجعة غير صالحة', 400);
+        return;
+      }
+      where.AND = [queueWhere];
+    }
+
+    const [datasets, total, workflow] = await Promise.all([
       prisma.dataset.findMany({
         where,
         orderBy: { updatedAt: 'desc' },
@@ -618,13 +713,34 @@ export async function getUnverifiedDatasets(
           recordCount: true, syncStatus: true, lastSyncAt: true,
           verificationStatus: true, verifiedBy: true, verifiedAt: true,
           verificationNote: true, verificationNoteAr: true,
+          reviewRound: true, reviewState: true, reviewStartedAt: true,
+          reviews: {
+            where: { status: { in: ['ASSIGNED', 'SUBMITTED'] } },
+            select: { reviewerId: true, round: true, status: true, decision: true, dueAt: true },
+          },
           updatedAt: true,
         },
       }),
       prisma.dataset.count({ where }),
+      getWorkflowConfig(),
     ]);
 
-    sendPaginated(res, datasets, total, pageNum, limitNum);
+    const now = Date.now();
+    const items = datasets.map(({ reviews, ...dataset }) => {
+      const round = reviews.filter((r) => r.round === dataset.reviewRound);
+      return {
+        ...dataset,
+        review: {
+          required: workflow.requiredReviews,
+          assigned: round.length,
+          submitted: round.filter((r) => r.status === 'SUBMITTED').length,
+          assignedToMe: round.some((r) => r.reviewerId === req.user!.userId),
+          overdue: round.some((r) => r.status === 'ASSIGNED' && !!r.dueAt && r.dueAt.getTime() < now),
+        },
+      };
+    });
+
+    sendPaginated(res, items, total, pageNum, limitNum);
   } catch (error) {
     next(error);
   }
@@ -653,9 +769,13 @@ export async function getVerificationStats(
       },
     });
 
+    // Review SLA (turnaround, overdue reviews, per-reviewer throughput)
+    const sla = await getVerificationSla();
+
     sendSuccess(res, {
       unverified, verified, needsReview, rejected, verifiedThisWeek,
       total: unverified + verified + needsReview + rejected,
+      sla,
     });
   } catch (error) {
     next(error);
@@ -683,29 +803,180 @@ export async function verifyDataset(
       return;
     }
 
-    const updated = await prisma.dataset.update({
-      where: { id },
-      data: {
-        verificationStatus: status,
-        verifiedBy: userId,
-        verifiedAt: new Date(),
-        verificationNote: note || null,
-        verificationNoteAr: noteAr || null,
+    // With multi-reviewer verification, experts go through reviews; a direct decision is an admin override
+    const isAdmin = ['ADMIN', 'SUPER_ADMIN'].includes(req.user!.role);
+    const { requiredReviews } = await getWorkflowConfig();
+    if (!isAdmin && requiredReviews > 1) {
+      sendError(
+        res,
+        `This dataset requires ${requiredReviews} independent reviews. Submit a review instead`,
+        `تتطلب هذه المجموعة ${requiredReviews} مراجعات مستقلة. قدّم مراجعة بدلاً من ذلك`,
+        409
+      );
+      return;
+    }
+
+    // Rejection affects everything built on the dataset - report the downstream impact
+    let impact: ReturnType<typeof summarizeImpact> | null = null;
+    if (status === 'REJECTED') {
+      const lineage = await buildDatasetLineage(dataset.id, { userId, role: req.user!.role }).catch(() => null);
+      impact = lineage ? summarizeImpact(lineage) : null;
+    }
+
+    const { dataset: updated, cascade } = await applyVerificationDecision({
+      datasetId: dataset.id,
+      status,
+      actorId: userId,
+      note,
+      noteAr,
+      action: `VERIFY_DATASET_${status}`,
+      auditDetails: {
+        ...(impact && { impact: impact.downstream }),
+        ...(isAdmin && requiredReviews > 1 && { override: true }),
       },
     });
 
-    // Log the action
+    sendSuccess(res, { ...updated, ...(impact && { impact }), cascade }, 'Dataset verification updated', 'تم تحديث حالة التحقق');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Multi-reviewer verification workflow
+// ═══════════════════════════════════════════════════════════════════
+
+const checklistEntrySchema = z.object({
+  result: z.enum(['PASS', 'FAIL', 'NA']),
+  comment: z.string().max(1000).optional(),
+});
+
+const submitReviewSchema = z.object({
+  decision: z.enum(['VERIFIED', 'REJECTED', 'NEEDS_REVIEW']),
+  checklist: z.object({
+    sourceAuthenticity: checklistEntrySchema,
+    licensing: checklistEntrySchema,
+    pii: checklistEntrySchema,
+  }),
+  note: z.string().max(2000).optional(),
+  noteAr: z.string().max(2000).optional(),
+});
+
+const assignReviewersSchema = z.object({
+  reviewerIds: z.array(z.string().min(1)).min(1).max(10),
+});
+
+const resolveReviewSchema = z.object({
+  decision: z.enum(['VERIFIED', 'REJECTED', 'NEEDS_REVIEW']),
+  note: z.string().max(2000).optional(),
+  noteAr: z.string().max(2000).optional(),
+});
+
+const workflowConfigSchema = z.object({
+  requiredReviews: z.number().int().min(1).max(10).optional(),
+  reviewSlaHours: z.number().int().min(1).max(24 * 30).optional(),
+  decisionSlaHours: z.number().int().min(1).max(24 * 90).optional(),
+});
+
+export async function getVerificationConfig(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    sendSuccess(res, await getWorkflowConfig());
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateVerificationConfig(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const update = workflowConfigSchema.parse(req.body);
+    const workflow = await updateWorkflowConfig(update);
+
     await prisma.auditLog.create({
       data: {
-        actorId: userId,
-        action: `VERIFY_DATASET_${status}`,
-        targetType: 'DATASET',
-        targetId: id,
-        details: JSON.stringify({ previousStatus: dataset.verificationStatus, newStatus: status, note }),
+        actorId: req.user!.userId,
+        action: 'UPDATE_VERIFICATION_CONFIG',
+        targetType: 'SETTING',
+        targetId: 'verification',
+        details: JSON.stringify(update),
       },
-    }).catch(() => {}); // non-critical
+    }).catch(() => {});
+
+    sendSuccess(res, workflow, 'Verification workflow updated', 'تم تحديث إعدادات التحقق');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDatasetReviews(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    sendSuccess(res, await fetchDatasetReviews(String(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function submitDatasetReview(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const input = submitReviewSchema.parse(req.body) as ReviewInput;
+    const result = await submitReview(String(req.params.id), req.user!.userId, input);
+    sendSuccess(res, result, 'Review submitted', 'تم تقديم المراجعة');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function assignDatasetReviewers(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { reviewerIds } = assignReviewersSchema.parse(req.body);
+    const reviews = await assignReviewers(String(req.params.id), reviewerIds, req.user!.userId);
+    sendSuccess(res, reviews, 'Reviewers assigned', 'تم إسناد المراجعين');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function claimDatasetReview(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const review = await claimReview(String(req.params.id), req.user!.userId);
+    sendSuccess(res, review, 'Review claimed', 'تم استلام المراجعة');
+  } catch (error) {
+    next(error);
+  }
+}
 
-    sendSuccess(res, updated, 'Dataset verification updated', 'تم تحديث حالة التحقق');
+export async function resolveDatasetReview(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { decision, note, noteAr } = resolveReviewSchema.parse(req.body);
+    const result = await resolveDisagreement(String(req.params.id), req.user!.userId, decision, note, noteAr);
+    sendSuccess(res, result, 'Disagreement resolved', 'تم حسم الاختلاف');
   } catch (error) {
     next(error);
   }
@@ -721,6 +992,7 @@ const updateMetadataSchema = z.object({
   // Level 1: Business Metadata
   owner: z.string().max(200).optional().nullable(),
   ownerAr: z.string().max(200).optional().nullable(),
+  entityId: z.string().max(50).optional().nullable(),
   steward: z.string().max(200).optional().nullable(),
   stewardAr: z.string().max(200).optional().nullable(),
   businessDomain: z.string().max(100).optional().nullable(),
@@ -730,12 +1002,8 @@ const updateMetadataSchema = z.object({
   language: z.string().max(10).optional().nullable(),
 
   // Level 2: Governance / Quality / Risk
+  // Quality scores are computed on sync; experts override them via PUT /:id/quality with a reason
   sensitivityLevel: z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED']).optional().nullable(),
-  qualityScore: z.number().min(0).max(100).optional().nullable(),
-  completeness: z.number().min(0).max(100).optional().nullable(),
-  accuracy: z.number().min(0).max(100).optional().nullable(),
-  timeliness: z.number().min(0).max(100).optional().nullable(),
-  consistency: z.number().min(0).max(100).optional().nullable(),
   riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional().nullable(),
   complianceNotes: z.string().max(2000).optional().nullable(),
   retentionPolicy: z.string().max(500).optional().nullable(),
@@ -762,22 +1030,22 @@ export async function getDatasetMetadata(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { id } = req.params;
+    const id = String(req.params.id);
 
-    const dataset = await prisma.dataset.findUnique({
-      where: { id },
+    const dataset = await prisma.dataset.findFirst({
+      where: { id, AND: [visibleDatasetsWhere(req.user)] },
       select: {
         id: true, name: true, nameAr: true, category: true, source: true,
         description: true, descriptionAr: true, recordCount: true, columns: true,
         // Level 1
-        owner: true, ownerAr: true, steward: true, stewardAr: true,
+        owner: true, ownerAr: true, entityId: true, steward: true, stewardAr: true,
         businessDomain: true, tags: true, updateFrequency: true,
         license: true, language: true,
         // Level 2
         sensitivityLevel: true, qualityScore: true, completeness: true,
-        accuracy: true, timeliness: true, consistency: true,
+        accuracy: true, timeliness: true, consistency: true, qualityOverridden: true,
         riskLevel: true, complianceNotes: true, retentionPolicy: true,
-        accessRestrictions: true, hasPII: true,
+        accessRestrictions: true, hasPII: true, ...POLICY_SELECT,
         // Level 3
         formatType: true, encoding: true, fileSize: true,
         dataDictionary: true, dataLineage: true, apiEndpoint: true,
@@ -794,9 +1062,13 @@ export async function getDatasetMetadata(
       return;
     }
 
+    // Column profiles carry sample values and min / max: same policy as the data itself
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
+
     // Parse columns for column count
-    let columnCount = 0;
-    try { columnCount = JSON.parse(dataset.columns || '[]').length; } catch {}
+    let columnNames: string[] = [];
+    try { columnNames = visibleColumns(JSON.parse(dataset.columns || '[]'), access); } catch {}
+    const columnCount = columnNames.length;
 
     // Build structured response
     const result = {
@@ -811,6 +1083,7 @@ export async function getDatasetMetadata(
         descriptionAr: dataset.descriptionAr,
         owner: dataset.owner,
         ownerAr: dataset.ownerAr,
+        entityId: dataset.entityId,
         steward: dataset.steward,
         stewardAr: dataset.stewardAr,
         businessDomain: dataset.businessDomain,
@@ -827,6 +1100,7 @@ export async function getDatasetMetadata(
         accuracy: dataset.accuracy,
         timeliness: dataset.timeliness,
         consistency: dataset.consistency,
+        qualityOverridden: dataset.qualityOverridden,
         riskLevel: dataset.riskLevel,
         complianceNotes: dataset.complianceNotes,
         retentionPolicy: dataset.retentionPolicy,
@@ -840,10 +1114,11 @@ export async function getDatasetMetadata(
       technicalMetadata: {
         recordCount: dataset.recordCount,
         columnCount,
+        columns: columnNames,
         formatType: dataset.formatType,
         encoding: dataset.encoding,
         fileSize: dataset.fileSize,
-        dataDictionary: dataset.dataDictionary,
+        dataDictionary: applyAccessToDictionary(dataset.dataDictionary, access),
         dataLineage: dataset.dataLineage,
         apiEndpoint: dataset.apiEndpoint,
         schemaVersion: dataset.schemaVersion,
@@ -873,6 +1148,19 @@ export async function updateDatasetMetadata(
   try {
     const { id } = req.params;
     const userId = (req as any).user!.userId;
+
+    const scoreFields = QUALITY_FIELDS.filter((field) => req.body?.[field] !== undefined);
+    if (scoreFields.length > 0) {
+      sendError(
+        res,
+        'Quality scores are overridden through PUT /datasets/:id/quality with a reason',
+        'تُعدَّل درجات الجودة عبر PUT /datasets/:id/quality مع ذكر السبب',
+        400,
+        { fields: scoreFields }
+      );
+      return;
+    }
+
     const data = updateMetadataSchema.parse(req.body);
 
     const dataset = await prisma.dataset.findUnique({ where: { id } });
@@ -889,18 +1177,6 @@ export async function updateDatasetMetadata(
       }
     }
 
-    // Auto-calculate qualityScore if individual scores provided
-    const scores = [
-      data.completeness ?? (dataset as any).completeness,
-      data.accuracy ?? (dataset as any).accuracy,
-      data.timeliness ?? (dataset as any).timeliness,
-      data.consistency ?? (dataset as any).consistency,
-    ].filter((s): s is number => s !== null && s !== undefined);
-
-    if (scores.length > 0 && data.qualityScore === undefined) {
-      updateData.qualityScore = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
-    }
-
     const updated = await prisma.dataset.update({
       where: { id },
       data: updateData,
@@ -917,6 +1193,10 @@ export async function updateDatasetMetadata(
       },
     }).catch(() => {});
 
+    // Sensitivity and other metadata are read through the cached dataset
+    await cacheDel(CacheKeys.dataset(dataset.id));
+    await cacheDel(CacheKeys.dataset(dataset.externalId));
+
     logger.info(`Dataset ${id} metadata updated by ${userId}`);
     sendSuccess(res, updated, 'Metadata updated', 'تم تحديث البيانات الوصفية');
   } catch (error) {
@@ -980,6 +1260,977 @@ export async function getMetadataStats(
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════
+// محرك الاستعلام - Query Engine (filter, group, aggregate)
+// ═══════════════════════════════════════════════════════════════════
+
+const datasetQueryRequestSchema = queryDefinitionSchema.extend({
+  refresh: z.boolean().optional(),
+  sheet: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * POST /datasets/:id/query
+ * Run filters / group-by / aggregates over the cached on-demand records
+ */
+export async function queryDatasetData(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const { refresh, sheet, ...parsed } = datasetQueryRequestSchema.parse(req.body);
+    const query = parsed as DatasetQuery;
+
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        isActive: true,
+      },
+      select: { id: true, externalId: true, name: true, nameAr: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const access = await authorizeDatasetAccess(dataset, req.user, 'QUERY');
+
+    const data = await fetchOnDemandData(dataset.externalId, { forceRefresh: refresh === true, sheet });
+
+    if (!data) {
+      sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500);
+      return;
+    }
+
+    // Hidden columns cannot be queried; masked values are masked before filtering and grouping
+    const unknownColumns = findUnknownColumns(query, visibleColumns(data.columns, access));
+    if (unknownColumns.length > 0) {
+      sendError(res, 'Unknown columns in query', 'أعمدة غير موجودة في الاستعلام', 400, { unknownColumns });
+      return;
+    }
+
+    const visible = applyAccessDecision(data.records, access);
+    const result = executeQuery(visible.records, query);
+
+    sendSuccess(res, {
+      dataset: {
+        id: dataset.id,
+        externalId: dataset.externalId,
+        name: dataset.name,
+        nameAr: dataset.nameAr,
+      },
+      ...result,
+      meta: {
+        sensitivityLevel: access.level,
+        maskedColumns: visible.maskedColumns,
+        rowFiltered: access.rowFilters.length > 0,
+        fetchedAt: data.fetchedAt,
+        source: data.source,
+        sheet: data.sheet,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// جودة البيانات - Data Quality (computed scores + expert override)
+// ═══════════════════════════════════════════════════════════════════
+
+const QUALITY_FIELDS = ['qualityScore', 'completeness', 'accuracy', 'timeliness', 'consistency'] as const;
+
+const qualityOverrideSchema = z.object({
+  qualityScore: z.number().int().min(0).max(100).optional(),
+  completeness: z.number().int().min(0).max(100).optional(),
+  accuracy: z.number().int().min(0).max(100).optional(),
+  timeliness: z.number().int().min(0).max(100).optional(),
+  consistency: z.number().int().min(0).max(100).optional(),
+  reason: z.string().trim().min(5).max(1000),
+}).refine((d) => QUALITY_FIELDS.some((f) => d[f] !== undefined), {
+  message: 'At least one score is required',
+});
+
+// تفاصيل الجودة المحفوظة بعد إخفاء الأعمدة المحجوبة (مع فلاتر الصفوف تُحجب أعداد الصفوف الكاملة)
+function parseQualityHistory<T extends { details: string }>(entry: T, access: AccessDecision) {
+  let details: Partial<QualityDetails> = {};
+  try { details = JSON.parse(entry.details); } catch {}
+
+  if (Array.isArray(details.columns)) {
+    const visible = visibleColumns(details.columns.map((column) => column.name), access);
+    details.columns = details.columns.filter((column) => visible.includes(column.name));
+  }
+  if (details.schemaDrift) {
+    const { added, removed, typeChanged } = details.schemaDrift;
+    const changed = visibleColumns(typeChanged.map((change) => change.column), access);
+    details.schemaDrift = {
+      added: visibleColumns(added, access),
+      removed: visibleColumns(removed, access),
+      typeChanged: typeChanged.filter((change) => changed.includes(change.column)),
+    };
+  }
+  if (access.rowFilters.length > 0) {
+    delete details.rowCount;
+    delete details.duplicateRows;
+  }
+
+  return { ...entry, details };
+}
+
+/**
+ * GET /datasets/:id/quality
+ * Current quality scores with the scoring history
+ */
+export async function getDatasetQuality(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '30'), 10) || 30, 1), 200);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        isActive: true,
+        AND: [visibleDatasetsWhere(req.user)],
+      },
+      select: {
+        id: true, externalId: true, name: true, nameAr: true, updateFrequency: true,
+        qualityScore: true, completeness: true, accuracy: true, timeliness: true,
+        consistency: true, qualityOverridden: true, ...POLICY_SELECT,
+      },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
+
+    const history = await prisma.datasetQualityHistory.findMany({
+      where: { datasetId: dataset.id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    sendSuccess(res, {
+      dataset: {
+        id: dataset.id,
+        externalId: dataset.externalId,
+        name: dataset.name,
+        nameAr: dataset.nameAr,
+        updateFrequency: dataset.updateFrequency,
+      },
+      scores: {
+        qualityScore: dataset.qualityScore,
+        completeness: dataset.completeness,
+        accuracy: dataset.accuracy,
+        timeliness: dataset.timeliness,
+        consistency: dataset.consistency,
+      },
+      overridden: dataset.qualityOverridden,
+      history: history.map((entry) => parseQualityHistory(entry, access)),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /datasets/:id/quality
+ * Expert override of the computed quality scores (reason required)
+ */
+export async function overrideDatasetQuality(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const { reason, ...scores } = qualityOverrideSchema.parse(req.body);
+
+    const dataset = await prisma.dataset.findUnique({ where: { id } });
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const previous = Object.fromEntries(QUALITY_FIELDS.map((f) => [f, dataset[f]]));
+    const overrideScores = { ...previous, ...scores } as Record<typeof QUALITY_FIELDS[number], number | null>;
+
+    // Recalculate overall score unless the expert set it explicitly
+    if (scores.qualityScore === undefined) {
+      const parts = [overrideScores.completeness, overrideScores.accuracy, overrideScores.timeliness, overrideScores.consistency]
+        .filter((s): s is number => s !== null && s !== undefined);
+      if (parts.length > 0) {
+        overrideScores.qualityScore = Math.round(parts.reduce((a, b) => a + b, 0) / parts.length);
+      }
+    }
+
+    const updated = await prisma.dataset.update({
+      where: { id },
+      data: { ...overrideScores, qualityOverridden: true },
+    });
+
+    await prisma.datasetQualityHistory.create({
+      data: {
+        datasetId: id,
+        source: 'OVERRIDE',
+        ...overrideScores,
+        details: JSON.stringify({ previous }),
+        actorId: userId,
+        reason,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'OVERRIDE_DATASET_QUALITY',
+        targetType: 'DATASET',
+        targetId: id,
+        details: JSON.stringify({ previous, scores: overrideScores, reason }),
+      },
+    }).catch(() => {});
+
+    await cacheDel(CacheKeys.dataset(id));
+    await cacheDel(CacheKeys.dataset(dataset.externalId));
+
+    logger.info(`Dataset ${id} quality overridden by ${userId}`);
+    sendSuccess(res, updated, 'Quality scores overridden', 'تم تعديل درجات الجودة');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /datasets/:id/quality/override
+ * Remove the expert override and restore the latest computed scores
+ */
+export async function clearDatasetQualityOverride(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() || null : null;
+
+    const dataset = await prisma.dataset.findUnique({ where: { id } });
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    if (!dataset.qualityOverridden) {
+      sendError(res, 'Quality scores are not overridden', 'درجات الجودة غير معدلة يدوياً', 400);
+      return;
+    }
+
+    const computed = await prisma.datasetQualityHistory.findFirst({
+      where: { datasetId: id, source: 'COMPUTED' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const restored = Object.fromEntries(
+      QUALITY_FIELDS.map((f) => [f, computed ? computed[f] : null])
+    ) as Record<typeof QUALITY_FIELDS[number], number | null>;
+
+    const updated = await prisma.dataset.update({
+      where: { id },
+      data: { ...restored, qualityOverridden: false },
+    });
+
+    await prisma.datasetQualityHistory.create({
+      data: {
+        datasetId: id,
+        source: 'OVERRIDE_CLEARED',
+        ...restored,
+        actorId: userId,
+        reason,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'CLEAR_DATASET_QUALITY_OVERRIDE',
+        targetType: 'DATASET',
+        targetId: id,
+        details: JSON.stringify({ restored, reason }),
+      },
+    }).catch(() => {});
+
+    await cacheDel(CacheKeys.dataset(id));
+    await cacheDel(CacheKeys.dataset(dataset.externalId));
+
+    sendSuccess(res, updated, 'Quality override cleared', 'تم إلغاء التعديل اليدوي لدرجات الجودة');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// نسخ البيانات - Dataset Versions & Diff
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * GET /datasets/:id/versions
+ * List version snapshots recorded on each fetch (newest first)
+ */
+export async function getDatasetVersions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const { page = '1', limit = '20' } = req.query;
+
+    const pageNum = Math.max(parseInt(String(page), 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(String(limit), 10) || 20, 1), 100);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        isActive: true,
+        AND: [visibleDatasetsWhere(req.user)],
+      },
+      select: { id: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
+
+    const [versions, total] = await Promise.all([
+      prisma.datasetVersion.findMany({
+        where: { datasetId: dataset.id },
+        orderBy: { version: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        select: {
+          id: true, version: true, rowCount: true, columns: true, contentHash: true,
+          source: true, fetchCount: true, createdAt: true, lastSeenAt: true,
+        },
+      }),
+      prisma.datasetVersion.count({ where: { datasetId: dataset.id } }),
+    ]);
+
+    const result = versions.map((v) => {
+      let columns: string[] = [];
+      try { columns = visibleColumns(JSON.parse(v.columns), access); } catch {}
+      return { ...v, columns, columnCount: columns.length };
+    });
+
+    sendPaginated(res, result, pageNum, limitNum, total);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /datasets/:id/diff?from=&to=
+ * Compare two versions: columns, row counts and aggregate values
+ * Defaults: to = latest version, from = the version before it
+ */
+export async function getDatasetDiff(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        isActive: true,
+        AND: [visibleDatasetsWhere(req.user)],
+      },
+      select: { id: true, externalId: true, name: true, nameAr: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    // Aggregates (min / max / sum / mean) follow the dataset access policy
+    const access = await authorizeDatasetAccess(dataset, req.user, 'VIEW');
+
+    const latest = await prisma.datasetVersion.findFirst({
+      where: { datasetId: dataset.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const toVersion = req.query.to ? parseInt(String(req.query.to), 10) : latest?.version;
+    const fromVersion = req.query.from ? parseInt(String(req.query.from), 10) : (toVersion ?? 0) - 1;
+
+    if (!toVersion || !fromVersion || isNaN(toVersion) || isNaN(fromVersion) || fromVersion < 1) {
+      sendError(res, 'At least two versions are required to compare', 'يلزم وجود نسختين على الأقل للمقارنة', 400);
+      return;
+    }
+
+    const [from, to] = await Promise.all([
+      prisma.datasetVersion.findUnique({ where: { datasetId_version: { datasetId: dataset.id, version: fromVersion } } }),
+      prisma.datasetVersion.findUnique({ where: { datasetId_version: { datasetId: dataset.id, version: toVersion } } }),
+    ]);
+
+    if (!from || !to) {
+      sendError(res, 'Version not found', 'النسخة غير موجودة', 404, {
+        missing: [!from && fromVersion, !to && toVersion].filter(Boolean),
+      });
+      return;
+    }
+
+    sendSuccess(res, {
+      dataset: {
+        id: dataset.id,
+        externalId: dataset.externalId,
+        name: dataset.name,
+        nameAr: dataset.nameAr,
+      },
+      from: { version: from.version, createdAt: from.createdAt, contentHash: from.contentHash },
+      to: { version: to.version, createdAt: to.createdAt, contentHash: to.contentHash },
+      ...applyAccessToDiff(diffSnapshots(parseVersion(from), parseVersion(to)), access),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// السلاسل الزمنية - Time Series
+// ═══════════════════════════════════════════════════════════════════
+
+const timeSeriesQuerySchema = z.object({
+  measure: z.string().min(1).optional(),
+  dimension: z.string().min(1).optional(),
+  period: z.string().min(1).optional(),
+  agg: z.enum(['sum', 'avg', 'min', 'max', 'count']).optional(),
+  maxSeries: z.coerce.number().int().min(1).max(200).optional(),
+  sheet: z.string().min(1).max(100).optional(),
+  refresh: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * GET /datasets/:id/timeseries?measure=&dimension=
+ * Normalized time series (ISO periods) from long or wide period tables
+ */
+export async function getDatasetTimeSeries(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const query = timeSeriesQuerySchema.parse(req.query);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        isActive: true,
+      },
+      select: { id: true, externalId: true, name: true, nameAr: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const access = await authorizeDatasetAccess(dataset, req.user, 'TIMESERIES');
+
+    const data = await fetchOnDemandData(dataset.externalId, {
+      forceRefresh: query.refresh === 'true',
+      sheet: query.sheet,
+    });
+
+    if (!data) {
+      sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500);
+      return;
+    }
+
+    let result;
+    try {
+      result = extractTimeSeries(applyAccessDecision(data.records, access).records, visibleColumns(data.columns, access), {
+        measure: query.measure,
+        dimension: query.dimension,
+        periodColumn: query.period,
+        aggregate: query.agg,
+        maxSeries: query.maxSeries,
+      });
+    } catch (error) {
+      if (error instanceof TimeSeriesError) {
+        sendError(res, error.message, error.messageAr, 400, error.details);
+        return;
+      }
+      throw error;
+    }
+
+    sendSuccess(res, {
+      dataset: {
+        id: dataset.id,
+        externalId: dataset.externalId,
+        name: dataset.name,
+        nameAr: dataset.nameAr,
+      },
+      ...result,
+      meta: {
+        fetchedAt: data.fetchedAt,
+        source: data.source,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// ربط مجموعات البيانات - Cross-Dataset Join
+// ═══════════════════════════════════════════════════════════════════
+
+const joinSchema = z.object({
+  datasets: z.array(z.object({
+    id: z.string().min(1),
+    alias: z.string().min(1).max(50).regex(/^[^.]+$/, 'alias cannot contain dots').optional(),
+    key: z.array(z.string().min(1)).min(1).max(5),
+    select: z.array(z.string().min(1)).max(100).optional(),
+    rename: z.record(z.string().min(1).max(100)).optional(),
+  })).min(2).max(5),
+  type: z.enum(['inner', 'left', 'right', 'full']).optional(),
+  keyNames: z.array(z.string().min(1).max(100)).max(5).optional(),
+  normalizeKeys: z.boolean().optional(),
+  limit: z.number().int().min(1).max(50000).optional(),
+}).refine((d) => d.datasets.every((ds) => ds.key.length === d.datasets[0].key.length), {
+  message: 'All datasets must use the same number of key columns',
+}).refine((d) => !d.keyNames || d.keyNames.length === d.datasets[0].key.length, {
+  message: 'keyNames must match the number of key columns',
+});
+
+function sendJoinTooLarge(res: Response, totalRecords: number): void {
+  sendError(
+    res,
+    `Joined datasets exceed ${MAX_FULL_READ_ROWS} rows combined`,
+    `مجموعات البيانات المربوطة تتجاوز ${MAX_FULL_READ_ROWS} صف مجتمعة`,
+    413,
+    { totalRecords, maxRecords: MAX_FULL_READ_ROWS }
+  );
+}
+
+/**
+ * POST /datasets/join
+ * Join two or more datasets on a shared key with match statistics
+ */
+export async function joinDatasetsData(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = joinSchema.parse(req.body);
+    const ids = body.datasets.map((d) => d.id);
+
+    const datasets = await prisma.dataset.findMany({
+      where: {
+        OR: [{ id: { in: ids } }, { externalId: { in: ids } }],
+        isActive: true,
+      },
+      select: { id: true, externalId: true, name: true, nameAr: true, recordCount: true, ...POLICY_SELECT },
+    });
+
+    const resolved = body.datasets.map((d) => datasets.find((ds) => ds.id === d.id || ds.externalId === d.id));
+    const missing = body.datasets.filter((_, i) => !resolved[i]).map((d) => d.id);
+    if (missing.length > 0) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404, { missing });
+      return;
+    }
+
+    // Every joined dataset must be accessible; policies apply before the join
+    const access = [];
+    for (const dataset of resolved) {
+      access.push(await authorizeDatasetAccess(dataset!, req.user, 'JOIN'));
+    }
+
+    // All joined datasets are held in memory together: cap their combined size
+    const totalRecords = resolved.reduce((sum, ds) => sum + (ds!.recordCount || 0), 0);
+    if (totalRecords > MAX_FULL_READ_ROWS) {
+      sendJoinTooLarge(res, totalRecords);
+      return;
+    }
+
+    const inputs: JoinInput[] = [];
+    const unknownColumns: { dataset: string; columns: string[] }[] = [];
+    let loadedRecords = 0;
+
+    for (const [i, spec] of body.datasets.entries()) {
+      const dataset = resolved[i]!;
+      // recordCount may be stale: read at most one row past the remaining budget
+      const remaining = MAX_FULL_READ_ROWS - loadedRecords;
+      const fetched = await fetchOnDemandData(dataset.externalId, { limit: remaining + 1 });
+      if (!fetched) {
+        sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500, { dataset: spec.id });
+        return;
+      }
+      if (fetched.records.length > remaining) {
+        sendJoinTooLarge(res, loadedRecords + fetched.records.length);
+        return;
+      }
+      loadedRecords += fetched.records.length;
+
+      const columns = visibleColumns(fetched.columns, access[i]);
+      const requested = [...spec.key, ...(spec.select || []), ...Object.keys(spec.rename || {})];
+      const unknown = requested.filter((c) => !columns.includes(c));
+      if (unknown.length > 0) unknownColumns.push({ dataset: spec.id, columns: [...new Set(unknown)] });
+
+      inputs.push({
+        alias: spec.alias || `ds${i + 1}`,
+        records: applyAccessDecision(fetched.records, access[i]).records,
+        columns,
+        key: spec.key,
+        select: spec.select,
+        rename: spec.rename as Record<string, string> | undefined,
+      });
+    }
+
+    if (unknownColumns.length > 0) {
+      sendError(res, 'Unknown columns in join', 'أعمدة غير موجودة في الربط', 400, { unknownColumns });
+      return;
+    }
+
+    const aliases = inputs.map((input) => input.alias);
+    if (new Set(aliases).size !== aliases.length) {
+      sendError(res, 'Dataset aliases must be unique', 'يجب أن تكون الأسماء المستعارة فريدة', 400);
+      return;
+    }
+
+    const result = joinDatasets(inputs, {
+      type: body.type,
+      keyNames: body.keyNames,
+      normalizeKeys: body.normalizeKeys,
+      limit: body.limit,
+    });
+
+    sendSuccess(res, {
+      datasets: resolved.map((ds, i) => ({
+        id: ds!.id,
+        externalId: ds!.externalId,
+        name: ds!.name,
+        nameAr: ds!.nameAr,
+        alias: inputs[i].alias,
+      })),
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// البيانات الشخصية - PII Detection
+// ═══════════════════════════════════════════════════════════════════
+
+const applyPiiSchema = z.object({
+  hasPII: z.boolean().optional(),
+  sensitivityLevel: z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED']).optional(),
+  accessRestrictions: z.string().max(2000).optional().nullable(),
+});
+
+/**
+ * GET /datasets/:id/pii
+ * Detected personal data columns, the proposed governance values and the current ones
+ */
+export async function getDatasetPII(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: { OR: [{ id }, { externalId: id }] },
+      select: {
+        id: true, externalId: true, name: true, nameAr: true,
+        hasPII: true, sensitivityLevel: true, accessRestrictions: true,
+        piiColumns: true, piiProposal: true, piiScannedAt: true,
+      },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const { piiColumns, piiProposal, piiScannedAt, hasPII, sensitivityLevel, accessRestrictions, ...info } = dataset;
+
+    sendSuccess(res, {
+      dataset: info,
+      columns: parsePiiColumns(piiColumns),
+      proposal: piiProposal,
+      current: { hasPII, sensitivityLevel, accessRestrictions },
+      scannedAt: piiScannedAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /datasets/:id/pii/scan
+ * Re-scan the fetched records now instead of waiting for the next fetch
+ */
+export async function scanDatasetPII(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: { OR: [{ id }, { externalId: id }], isActive: true },
+      select: { externalId: true },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    // The scanner samples rows anyway: large datasets are scanned on their first MAX_FULL_READ_ROWS rows
+    const data = await fetchOnDemandData(dataset.externalId, { limit: MAX_FULL_READ_ROWS });
+    if (!data) {
+      sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500);
+      return;
+    }
+
+    const scan = await updatePiiScan(dataset.externalId, data.records, data.columns);
+    if (!scan) {
+      sendError(res, 'PII scan failed', 'فشل فحص البيانات الشخصية', 500);
+      return;
+    }
+
+    sendSuccess(res, { columns: scan.findings, proposal: scan.proposal, scannedRecords: data.records.length });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /datasets/:id/pii/apply
+ * Accept the proposed hasPII / sensitivityLevel / accessRestrictions (body values override the proposal)
+ */
+export async function applyDatasetPIIProposal(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const overrides = applyPiiSchema.parse(req.body || {});
+
+    const dataset = await prisma.dataset.findUnique({
+      where: { id },
+      select: {
+        id: true, externalId: true, piiProposal: true,
+        hasPII: true, sensitivityLevel: true, accessRestrictions: true,
+      },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const proposal = dataset.piiProposal as unknown as PiiProposal | null;
+    if (!proposal && Object.keys(overrides).length === 0) {
+      sendError(res, 'Dataset has not been scanned yet', 'لم يتم فحص مجموعة البيانات بعد', 409);
+      return;
+    }
+
+    const values = { ...proposal, ...overrides };
+    const previous = {
+      hasPII: dataset.hasPII,
+      sensitivityLevel: dataset.sensitivityLevel,
+      accessRestrictions: dataset.accessRestrictions,
+    };
+
+    const updated = await prisma.dataset.update({
+      where: { id },
+      data: {
+        hasPII: values.hasPII,
+        sensitivityLevel: values.sensitivityLevel,
+        accessRestrictions: values.accessRestrictions,
+      },
+      select: { id: true, hasPII: true, sensitivityLevel: true, accessRestrictions: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'APPLY_DATASET_PII_CLASSIFICATION',
+        targetType: 'DATASET',
+        targetId: id,
+        details: JSON.stringify({ previous, applied: values, proposal }),
+      },
+    }).catch(() => {});
+
+    await cacheDel(CacheKeys.dataset(id));
+    await cacheDel(CacheKeys.dataset(dataset.externalId));
+
+    sendSuccess(res, updated, 'Data classification updated', 'تم تحديث تصنيف البيانات');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// سياسات الوصول - Access Policies
+// ═══════════════════════════════════════════════════════════════════
+
+const updateAccessPolicySchema = accessPolicySchema.extend({
+  sensitivityLevel: z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED']).optional(),
+});
+
+/**
+ * GET /datasets/:id/access-policy
+ * Sensitivity level, column rules, row filters and the detected PII columns masked on top of them
+ */
+export async function getDatasetAccessPolicy(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const dataset = await prisma.dataset.findFirst({
+      where: { OR: [{ id }, { externalId: id }] },
+      select: { id: true, externalId: true, accessRestrictions: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    sendSuccess(res, {
+      datasetId: dataset.id,
+      sensitivityLevel: dataset.sensitivityLevel || 'PUBLIC',
+      accessRestrictions: dataset.accessRestrictions,
+      ...parseAccessPolicy(dataset.accessPolicy),
+      piiColumns: parsePiiColumns(dataset.piiColumns),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /datasets/:id/access-policy
+ * Replace the column rules and row filters (and optionally the sensitivity level)
+ */
+export async function updateDatasetAccessPolicy(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const { sensitivityLevel, ...policy } = updateAccessPolicySchema.parse(req.body);
+
+    const dataset = await prisma.dataset.findUnique({
+      where: { id },
+      select: { id: true, externalId: true, sensitivityLevel: true, accessPolicy: true },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const updated = await prisma.dataset.update({
+      where: { id },
+      data: {
+        accessPolicy: policy as unknown as object,
+        ...(sensitivityLevel && { sensitivityLevel }),
+      },
+      select: { id: true, sensitivityLevel: true, accessPolicy: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: userId,
+        action: 'UPDATE_DATASET_ACCESS_POLICY',
+        targetType: 'DATASET',
+        targetId: id,
+        details: JSON.stringify({
+          previous: { sensitivityLevel: dataset.sensitivityLevel, accessPolicy: dataset.accessPolicy },
+          sensitivityLevel: updated.sensitivityLevel,
+          accessPolicy: policy,
+        }),
+      },
+    }).catch(() => {});
+
+    await cacheDel(CacheKeys.dataset(id));
+    await cacheDel(CacheKeys.dataset(dataset.externalId));
+
+    sendSuccess(res, {
+      datasetId: updated.id,
+      sensitivityLevel: updated.sensitivityLevel,
+      ...parseAccessPolicy(updated.accessPolicy),
+    }, 'Access policy updated', 'تم تحديث سياسة الوصول');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// تتبع أصل البيانات - Data Lineage
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * GET /datasets/:id/lineage
+ * Graph of the dataset's source (upstream) and the signals, content,
+ * saved queries and dashboards built on it (downstream)
+ */
+export async function getDatasetLineage(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const lineage = await buildDatasetLineage(id, { userId: req.user?.userId, role: req.user?.role });
+
+    if (!lineage) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    sendSuccess(res, lineage);
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // Export
 // ═══════════════════════════════════════════════════════════════════
@@ -996,8 +2247,29 @@ export default {
   getAllSaudiDatasets,
   getUnverifiedDatasets,
   getVerificationStats,
+  getVerificationConfig,
+  updateVerificationConfig,
+  getDatasetReviews,
+  submitDatasetReview,
+  assignDatasetReviewers,
+  claimDatasetReview,
+  resolveDatasetReview,
   verifyDataset,
   getDatasetMetadata,
   updateDatasetMetadata,
   getMetadataStats,
+  queryDatasetData,
+  getDatasetQuality,
+  overrideDatasetQuality,
+  clearDatasetQualityOverride,
+  getDatasetVersions,
+  getDatasetDiff,
+  getDatasetTimeSeries,
+  joinDatasetsData,
+  getDatasetLineage,
+  getDatasetPII,
+  scanDatasetPII,
+  applyDatasetPIIProposal,
+  getDatasetAccessPolicy,
+  updateDatasetAccessPolicy,
 };
@@ -1,16 +1,17 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import {
   findNewDatasets,
   addNewDatasets,
   getDiscoveryStats,
-  discoverAllDatasets,
   getAvailableCategories,
   SAUDI_DATA_CATEGORIES,
 } from '../services/discovery.js';
+import { listDiscoveryRuns, getDiscoveryRun, getResumableDiscoveryRun } from '../services/discoveryRuns.js';
+import { triggerFullDiscovery } from '../jobs/scheduler.js';
 import { syncAllDatasets, syncSingleDataset } from '../services/saudiDataSync.js';
 import { fetchDatasetMetadata } from '../services/onDemandData.js';
 import { prisma } from '../services/database.js';
-import { sendSuccess, sendError } from '../utils/response.js';
+import { sendSuccess, sendError, sendPaginated } from '../utils/response.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -20,7 +21,7 @@ import { logger } from '../utils/logger.js';
 export async function discover(req: Request, res: Response) {
   try {
     logger.info('🔍 Starting quick dataset discovery...');
-    const result = await findNewDatasets(false);
+    const result = await findNewDatasets();
 
     return sendSuccess(res, {
       message: `تم اكتشاف ${result.newIds.length} dataset جديدة`,
@@ -35,24 +36,18 @@ export async function discover(req: Request, res: Response) {
 /**
  * اكتشاف شامل - كل الأقسام (يستغرق وقت طويل)
  * GET /api/discovery/discover-all
+ * يُجدول كمهمة full-discovery (تشغيل محفوظ) - التقدم عبر /runs والنتيجة عبر /admin/jobs
  */
-export async function discoverAll(req: Request, res: Response) {
+export async function discoverAll(req: Request, res: Response, next: NextFunction) {
   try {
-    logger.info('🔍 Starting FULL dataset discovery (all categories)...');
+    logger.info('🔍 Queueing FULL dataset discovery (all categories)...');
     logger.info(`📊 Will scan ${SAUDI_DATA_CATEGORIES.length} categories`);
 
-    const result = await findNewDatasets(true);
+    const job = await triggerFullDiscovery({ createdById: req.user?.userId, fresh: true });
 
-    return sendSuccess(res, {
-      message: `تم اكتشاف ${result.newIds.length} dataset جديدة من ${result.total} إجمالي`,
-      data: {
-        ...result,
-        categoriesScanned: SAUDI_DATA_CATEGORIES.length,
-      },
-    });
+    return sendSuccess(res, job, 202);
   } catch (err) {
-    logger.error('Full discovery failed:', err);
-    return sendError(res, 'Full discovery failed', 'فشل الاكتشاف الشامل', 500);
+    next(err);
   }
 }
 
@@ -134,13 +129,19 @@ export async function stats(req: Request, res: Response) {
  * اكتشاف سريع ومزامنة
  * POST /api/discovery/discover-and-sync
  */
-export async function discoverAndSync(req: Request, res: Response) {
+export async function discoverAndSync(req: Request, res: Response, next: NextFunction) {
   try {
     const { fullDiscovery = false } = req.body;
 
+    // Full discovery runs as a queued job that adds the new datasets and syncs afterwards
+    if (fullDiscovery) {
+      const job = await triggerFullDiscovery({ createdById: req.user?.userId, fresh: true, sync: true });
+      return sendSuccess(res, job, 202);
+    }
+
     // Step 1: Discover new datasets
-    logger.info(`🔍 Step 1: Discovering datasets (${fullDiscovery ? 'full' : 'quick'})...`);
-    const discoveryResult = await findNewDatasets(fullDiscovery);
+    logger.info('🔍 Step 1: Discovering datasets (quick)...');
+    const discoveryResult = await findNewDatasets();
 
     // Step 2: Add new datasets if found
     if (discoveryResult.newIds.length > 0) {
@@ -155,7 +156,7 @@ export async function discoverAndSync(req: Request, res: Response) {
     return sendSuccess(res, {
       message: 'تم الاكتشاف والمزامنة بنجاح',
       discovery: {
-        mode: fullDiscovery ? 'full' : 'quick',
+        mode: 'quick',
         total: discoveryResult.total,
         newFound: discoveryResult.newIds.length,
       },
@@ -167,60 +168,24 @@ export async function discoverAndSync(req: Request, res: Response) {
     });
   } catch (err) {
     logger.error('Discover and sync failed:', err);
-    return sendError(res, 'Discover and sync failed', 'فشل الاكتشاف والمزامنة', 500);
+    next(err);
   }
 }
 
 /**
  * اكتشاف شامل ومزامنة - العملية الكاملة
  * POST /api/discovery/full-discover-and-sync
- * تحذير: قد يستغرق ساعات!
+ * يُجدول كمهمة full-discovery تزامن كل الـ Datasets بعد الاكتشاف (قد تستغرق ساعات)
  */
-export async function fullDiscoverAndSync(req: Request, res: Response) {
+export async function fullDiscoverAndSync(req: Request, res: Response, next: NextFunction) {
   try {
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('🚀 Starting FULL discovery and sync process');
-    logger.info(`📊 Categories to scan: ${SAUDI_DATA_CATEGORIES.length}`);
-    logger.info('⚠️ This may take several hours!');
-    logger.info('═══════════════════════════════════════════════════════');
-
-    // Step 1: Full discovery
-    logger.info('🔍 Step 1: Full discovery (all categories)...');
-    const discoveryResult = await findNewDatasets(true);
-
-    // Step 2: Add all new datasets
-    let addedCount = 0;
-    if (discoveryResult.newIds.length > 0) {
-      logger.info(`➕ Step 2: Adding ${discoveryResult.newIds.length} new datasets...`);
-      addedCount = await addNewDatasets(discoveryResult.newIds);
-    }
+    logger.info(`🚀 Queueing FULL discovery and sync (${SAUDI_DATA_CATEGORIES.length} categories)`);
 
-    // Step 3: Sync all
-    logger.info('🔄 Step 3: Syncing all datasets...');
-    const syncResult = await syncAllDatasets();
+    const job = await triggerFullDiscovery({ createdById: req.user?.userId, fresh: true, sync: true });
 
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('✅ FULL discovery and sync completed!');
-    logger.info('═══════════════════════════════════════════════════════');
-
-    return sendSuccess(res, {
-      message: 'تم الاكتشاف الشامل والمزامنة بنجاح',
-      discovery: {
-        mode: 'full',
-        categoriesScanned: SAUDI_DATA_CATEGORIES.length,
-        totalFound: discoveryResult.total,
-        newFound: discoveryResult.newIds.length,
-        added: addedCount,
-      },
-      sync: {
-        total: syncResult.total,
-        success: syncResult.success,
-        failed: syncResult.failed,
-      },
-    });
+    return sendSuccess(res, job, 202);
   } catch (err) {
-    logger.error('Full discover and sync failed:', err);
-    return sendError(res, 'Full discover and sync failed', 'فشل الاكتشاف الشامل والمزامنة', 500);
+    next(err);
   }
 }
 
@@ -230,11 +195,12 @@ export async function fullDiscoverAndSync(req: Request, res: Response) {
  */
 export async function syncAll(req: Request, res: Response) {
   try {
-    logger.info('🔄 Starting full sync...');
-    const result = await syncAllDatasets();
+    const force = req.body?.force === true || req.query.force === 'true';
+    logger.info(`🔄 Starting full sync${force ? ' (forced)' : ''}...`);
+    const result = await syncAllDatasets({ force });
 
     return sendSuccess(res, {
-      message: `تم مزامنة ${result.success}/${result.total} dataset`,
+      message: `تم مزامنة ${result.success}/${result.total} dataset (${result.unchanged} بدون تغيير)`,
       data: result,
     });
   } catch (err) {
@@ -256,7 +222,9 @@ export async function syncOne(req: Request, res: Response) {
     }
 
     logger.info(`🔄 Syncing dataset: ${datasetId}`);
-    const result = await syncSingleDataset(datasetId);
+    const result = await syncSingleDataset(datasetId, {
+      force: req.body?.force === true || req.query.force === 'true',
+    });
 
     if (result.success) {
       return sendSuccess(res, {
@@ -342,6 +310,67 @@ export async function cleanupInvalidDatasets(req: Request, res: Response) {
   }
 }
 
+// =====================
+// Discovery Runs
+// =====================
+
+/**
+ * قائمة تشغيلات الاكتشاف الشامل مع التقدم
+ * GET /api/discovery/runs
+ */
+export async function getRuns(req: Request, res: Response, next: NextFunction) {
+  try {
+    const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), 100);
+
+    const { runs, total } = await listDiscoveryRuns(page, limit);
+    return sendPaginated(res, runs, page, limit, total);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * تفاصيل تشغيل: نقطة الاستئناف وحالة كل قسم
+ * GET /api/discovery/runs/:id
+ */
+export async function getRun(req: Request, res: Response, next: NextFunction) {
+  try {
+    return sendSuccess(res, await getDiscoveryRun(String(req.params.id)));
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * بدء تشغيل شامل جديد (مهمة full-discovery في الطابور)
+ * POST /api/discovery/runs
+ */
+export async function startRun(req: Request, res: Response, next: NextFunction) {
+  try {
+    const job = await triggerFullDiscovery({ createdById: req.user?.userId, fresh: true });
+
+    return sendSuccess(res, job, 202);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * استئناف تشغيل فاشل أو متوقف من آخر نقطة حفظ (مهمة full-discovery في الطابور)
+ * POST /api/discovery/runs/:id/resume
+ */
+export async function resumeRun(req: Request, res: Response, next: NextFunction) {
+  try {
+    const run = await getResumableDiscoveryRun(String(req.params.id));
+    const job = await triggerFullDiscovery({ createdById: req.user?.userId, runId: run.id });
+
+    return sendSuccess(res, job, 'Discovery run resume queued', 'تمت جدولة استئناف تشغيل الاكتشاف');
+  } catch (err) {
+    next(err);
+  }
+}
+
 export default {
   discover,
   discoverAll,
@@ -353,4 +382,8 @@ export default {
   syncAll,
   syncOne,
   cleanupInvalidDatasets,
+  getRuns,
+  getRun,
+  startRun,
+  resumeRun,
 };
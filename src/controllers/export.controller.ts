@@ -7,6 +7,9 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import Papa from 'papaparse';
 import { sendError } from '../utils/response.js';
+import { authorizeDatasetAccess, applyAccessDecision, POLICY_SELECT } from '../services/accessPolicy.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { visibleDatasetsWhere } from '../services/privateDatasets.js';
 
 const prisma = new PrismaClient();
 
@@ -17,7 +20,7 @@ const prisma = new PrismaClient();
 export async function exportDatasets(req: Request, res: Response) {
   try {
     const datasets = await prisma.dataset.findMany({
-      where: { isActive: true },
+      where: { isActive: true, AND: [visibleDatasetsWhere(req.user)] },
       select: {
         id: true,
         externalId: true,
@@ -209,13 +212,15 @@ export async function exportDatasetData(req: Request, res: Response) {
 
     const dataset = await prisma.dataset.findUnique({
       where: { id },
-      select: { id: true, name: true, nameAr: true },
+      select: { id: true, name: true, nameAr: true, ...POLICY_SELECT },
     });
 
     if (!dataset) {
       return sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
     }
 
+    const access = await authorizeDatasetAccess(dataset, req.user, 'EXPORT');
+
     const records = await prisma.dataRecord.findMany({
       where: { datasetId: id },
       select: { data: true },
@@ -234,9 +239,15 @@ export async function exportDatasetData(req: Request, res: Response) {
       }
     });
 
+    // Row filters, hidden and masked columns from the dataset access policy
+    const { records: masked } = applyAccessDecision(rows as Record<string, unknown>[], access);
+
     const filename = (dataset.nameAr || dataset.name).replace(/[^a-zA-Z0-9\u0600-\u06FF]/g, '_');
-    return sendCsv(res, rows as Record<string, unknown>[], filename);
+    return sendCsv(res, masked, filename);
   } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.messageAr, error.statusCode);
+    }
     console.error('Export dataset data error:', error);
     return sendError(res, 'Export failed', 'فشل التصدير', 500);
   }
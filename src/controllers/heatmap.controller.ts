@@ -4,6 +4,7 @@ import { sendSuccess } from '../utils/response.js';
 import { sendError } from '../utils/response.js';
 import { logger } from '../utils/logger.js';
 import { cacheGet, cacheSet } from '../services/cache.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 const CACHE_TTL = 120; // 2 minutes
 
@@ -31,6 +32,7 @@ export const getHeatmapData = async (
       prisma.dataset.groupBy({
         by: ['category'],
         _count: { id: true },
+        where: PUBLIC_DATASETS_WHERE,
         orderBy: { _count: { id: 'desc' } },
       }),
       prisma.signal.groupBy({
@@ -100,7 +102,7 @@ export const getHeatmapData = async (
         orderBy: { createdAt: 'asc' },
       }),
       prisma.dataset.findMany({
-        where: { updatedAt: { gte: twelveMonthsAgo } },
+        where: { updatedAt: { gte: twelveMonthsAgo }, ...PUBLIC_DATASETS_WHERE },
         select: { updatedAt: true },
         orderBy: { updatedAt: 'asc' },
       }),
@@ -198,6 +200,7 @@ export const getHeatmapStream = async (
       prisma.dataset.groupBy({
         by: ['category'],
         _count: { id: true },
+        where: PUBLIC_DATASETS_WHERE,
         orderBy: { _count: { id: 'desc' } },
       }),
       prisma.signal.groupBy({
@@ -266,7 +269,7 @@ export const getHeatmapStream = async (
         orderBy: { createdAt: 'asc' },
       }),
       prisma.dataset.findMany({
-        where: { updatedAt: { gte: twelveMonthsAgo } },
+        where: { updatedAt: { gte: twelveMonthsAgo }, ...PUBLIC_DATASETS_WHERE },
         select: { updatedAt: true },
         orderBy: { updatedAt: 'asc' },
       }),
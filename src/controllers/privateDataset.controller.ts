@@ -0,0 +1,354 @@
+/**
+ * Private Dataset Controller - مجموعات البيانات الخاصة
+ * CSV / Excel files uploaded by a user, shared with team members and queried like portal datasets
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prisma } from '../services/database.js';
+import { config } from '../config/index.js';
+import { sendSuccess, sendError, sendPaginated } from '../utils/response.js';
+import { analyzeDataset } from '../services/aiAnalysis.js';
+import {
+  createPrivateDataset,
+  parsePrivateDataset,
+  deletePrivateDataset,
+  findOwnedDataset,
+  sharePrivateDataset,
+  unsharePrivateDataset,
+  userUploadDir,
+  uploadFormat,
+  visibleDatasetsWhere,
+  PrivateDatasetInput,
+} from '../services/privateDatasets.js';
+import { authorizeDatasetAccess, POLICY_SELECT } from '../services/accessPolicy.js';
+
+const storage = multer.diskStorage({
+  destination: (req, _file, cb) => {
+    cb(null, userUploadDir(req.user!.userId));
+  },
+  filename: (_req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    cb(null, `${crypto.randomBytes(16).toString('hex')}${ext}`);
+  },
+});
+
+export const datasetUpload = multer({
+  storage,
+  limits: { fileSize: config.privateDatasets.maxFileSizeMb * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (uploadFormat(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('نوع الملف غير مدعوم. الأنواع المسموحة: CSV, XLSX, XLS'));
+    }
+  },
+});
+
+// =====================
+// Validation
+// =====================
+
+const datasetInfoSchema = z.object({
+  name: z.string().min(1).max(200),
+  nameAr: z.string().max(200).optional(),
+  description: z.string().max(5000).optional(),
+  descriptionAr: z.string().max(5000).optional(),
+  category: z.string().max(100).optional(),
+});
+
+const shareSchema = z.object({
+  userIds: z.array(z.string().min(1)).max(100).optional(),
+  emails: z.array(z.string().email()).max(100).optional(),
+}).refine((d) => (d.userIds?.length || 0) + (d.emails?.length || 0) > 0, {
+  message: 'userIds or emails is required',
+});
+
+const listSelect = {
+  id: true,
+  externalId: true,
+  name: true,
+  nameAr: true,
+  description: true,
+  descriptionAr: true,
+  category: true,
+  recordCount: true,
+  columns: true,
+  formatType: true,
+  fileSize: true,
+  syncStatus: true,
+  syncError: true,
+  ownerUserId: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { shares: true } },
+} as const;
+
+// =====================
+// Datasets
+// =====================
+
+/**
+ * GET /my-datasets
+ * scope: all (default) | mine | shared
+ */
+export async function getPrivateDatasets(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { scope = 'all', page = '1', limit = '20' } = req.query;
+
+    const pageNum = Math.max(parseInt(String(page), 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(String(limit), 10) || 20, 1), 100);
+
+    const mine = { ownerUserId: userId };
+    const shared = { ownerUserId: { not: null }, shares: { some: { userId } } };
+    const where = scope === 'mine' ? mine : scope === 'shared' ? shared : { OR: [mine, shared] };
+
+    const [datasets, total] = await Promise.all([
+      prisma.dataset.findMany({
+        where,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        orderBy: { updatedAt: 'desc' },
+        select: listSelect,
+      }),
+      prisma.dataset.count({ where }),
+    ]);
+
+    sendPaginated(
+      res,
+      datasets.map(({ _count, ...dataset }) => ({
+        ...dataset,
+        columns: JSON.parse(dataset.columns || '[]'),
+        isOwner: dataset.ownerUserId === userId,
+        shareCount: _count.shares,
+      })),
+      pageNum,
+      limitNum,
+      total
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /my-datasets (multipart: file + name, nameAr, description, category)
+ */
+export async function uploadPrivateDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      sendError(res, 'No file uploaded', 'لم يتم رفع أي ملف', 400);
+      return;
+    }
+
+    const input = datasetInfoSchema.safeParse({
+      ...req.body,
+      name: req.body?.name || path.parse(req.file.originalname).name,
+    });
+    if (!input.success) {
+      sendError(res, 'Invalid dataset details', 'بيانات مجموعة البيانات غير صالحة', 400, input.error.errors);
+      return;
+    }
+
+    const dataset = await createPrivateDataset(req.user!.userId, req.file, input.data as PrivateDatasetInput);
+
+    sendSuccess(res, {
+      ...dataset,
+      columns: JSON.parse(dataset.columns || '[]'),
+      dataPreview: JSON.parse(dataset.dataPreview || '[]'),
+    }, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /my-datasets/:id
+ */
+export async function updatePrivateDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = datasetInfoSchema.partial().parse(req.body);
+    const dataset = await findOwnedDataset(String(req.params.id), req.user!);
+
+    const updated = await prisma.dataset.update({
+      where: { id: dataset.id },
+      data,
+      select: listSelect,
+    });
+
+    sendSuccess(res, updated);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /my-datasets/:id
+ */
+export async function removePrivateDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await deletePrivateDataset(String(req.params.id), req.user!);
+    sendSuccess(res, { deleted: true });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /my-datasets/:id/reparse
+ * Re-run parsing, profiling and PII scanning on the stored file
+ */
+export async function reparsePrivateDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const dataset = await findOwnedDataset(String(req.params.id), req.user!);
+    const parsed = await parsePrivateDataset(dataset.externalId);
+
+    sendSuccess(res, {
+      id: parsed.id,
+      recordCount: parsed.recordCount,
+      columns: JSON.parse(parsed.columns || '[]'),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /my-datasets/:id/analyze
+ * Signal analysis on the uploaded data (results are returned, not published)
+ */
+export async function analyzePrivateDataset(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    // Owner and shared team members can analyze
+    const dataset = await prisma.dataset.findFirst({
+      where: {
+        OR: [{ id }, { externalId: id }],
+        ownerUserId: { not: null },
+        AND: [visibleDatasetsWhere(req.user)],
+      },
+      select: { id: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Private dataset not found', 'مجموعة البيانات الخاصة غير موجودة', 404);
+      return;
+    }
+
+    // The sample sent for analysis is the requester's view: hidden columns dropped, PII masked
+    const access = await authorizeDatasetAccess(dataset, req.user, 'QUERY');
+    const signals = await analyzeDataset(dataset.id, access);
+
+    if (signals === null) {
+      sendError(res, 'Analysis failed', 'فشل تحليل البيانات', 500);
+      return;
+    }
+
+    sendSuccess(res, { signals }, 'Dataset analyzed', 'تم تحليل البيانات');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// =====================
+// Sharing
+// =====================
+
+/**
+ * GET /my-datasets/:id/shares
+ */
+export async function getPrivateDatasetShares(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const dataset = await findOwnedDataset(String(req.params.id), req.user!);
+
+    const shares = await prisma.datasetShare.findMany({
+      where: { datasetId: dataset.id },
+      include: { user: { select: { id: true, name: true, nameAr: true, email: true, avatar: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    sendSuccess(res, shares);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /my-datasets/:id/shares
+ */
+export async function sharePrivateDatasetWith(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const recipients = shareSchema.parse(req.body);
+    const shares = await sharePrivateDataset(String(req.params.id), req.user!, recipients);
+
+    sendSuccess(res, shares, 'Dataset shared', 'تمت مشاركة مجموعة البيانات');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /my-datasets/:id/shares/:userId
+ */
+export async function unsharePrivateDatasetWith(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await unsharePrivateDataset(String(req.params.id), req.user!, String(req.params.userId));
+    sendSuccess(res, { removed: true });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default {
+  datasetUpload,
+  getPrivateDatasets,
+  uploadPrivateDataset,
+  updatePrivateDataset,
+  removePrivateDataset,
+  reparsePrivateDataset,
+  analyzePrivateDataset,
+  getPrivateDatasetShares,
+  sharePrivateDatasetWith,
+  unsharePrivateDatasetWith,
+};
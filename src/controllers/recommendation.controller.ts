@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../services/database.js';
 import { sendSuccess } from '../utils/response.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 /**
  * Get personalized recommendations based on:
@@ -82,7 +83,7 @@ export async function getRecommendations(
 
       // Trending datasets (most records, recently updated)
       prisma.dataset.findMany({
-        where: { isActive: true, recordCount: { gt: 0 } },
+        where: { isActive: true, recordCount: { gt: 0 }, ...PUBLIC_DATASETS_WHERE },
         orderBy: [{ recordCount: 'desc' }],
         take: 5,
         select: {
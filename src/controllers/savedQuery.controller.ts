@@ -0,0 +1,501 @@
+/**
+ * Saved Query Controller - الاستعلامات المحفوظة
+ * Named query definitions on datasets that can be re-run on fresh data and shared
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { prisma } from '../services/database.js';
+import { sendSuccess, sendError, sendPaginated } from '../utils/response.js';
+import { getDatasetData as fetchOnDemandData } from '../services/onDemandData.js';
+import { findUnknownColumns, queryDefinitionSchema, DatasetQuery } from '../services/datasetQuery.js';
+import {
+  runSavedQuery as executeSavedQuery,
+  accessibleQueriesWhere,
+  formatSavedQuery,
+  SavedQueryError,
+} from '../services/savedQueries.js';
+import { visibleDatasetsWhere } from '../services/privateDatasets.js';
+import { authorizeDatasetAccess, visibleColumns, POLICY_SELECT } from '../services/accessPolicy.js';
+
+// =====================
+// Validation
+// =====================
+
+const chartHintSchema = z.object({
+  type: z.enum(['line', 'bar', 'pie', 'area', 'kpi', 'table', 'map', 'scatter']),
+  x: z.string().min(1).optional(),
+  y: z.array(z.string().min(1)).max(10).optional(),
+  series: z.string().min(1).optional(),
+});
+
+const savedQuerySchema = z.object({
+  datasetId: z.string().min(1),
+  name: z.string().min(1).max(150),
+  nameAr: z.string().max(150).optional(),
+  description: z.string().max(2000).optional(),
+  query: queryDefinitionSchema,
+  sheet: z.string().min(1).max(100).optional(),
+  chartHint: chartHintSchema.nullable().optional(),
+  visibility: z.enum(['PRIVATE', 'SHARED', 'PUBLIC']).optional(),
+});
+
+const runSchema = z.object({
+  refresh: z.boolean().optional(),
+  limit: z.number().int().min(1).max(10000).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+const shareSchema = z.object({
+  userIds: z.array(z.string().min(1)).max(100).optional(),
+  emails: z.array(z.string().email()).max(100).optional(),
+}).refine((d) => (d.userIds?.length || 0) + (d.emails?.length || 0) > 0, {
+  message: 'userIds or emails is required',
+});
+
+const ownerSelect = { id: true, name: true, nameAr: true, avatar: true } as const;
+
+/**
+ * التحقق من الـ Dataset والأعمدة المستخدمة في الاستعلام (الأعمدة المخفية بالسياسة تُعامل كغير موجودة)
+ * عند الفشل يُرسل الخطأ ويرجع null، وإلا يرجع معرف الـ Dataset الداخلي
+ */
+async function validateQueryTarget(
+  req: Request,
+  res: Response,
+  datasetId: string,
+  query: DatasetQuery,
+  sheet?: string
+): Promise<string | null> {
+  const dataset = await prisma.dataset.findFirst({
+    where: {
+      OR: [{ id: datasetId }, { externalId: datasetId }],
+      isActive: true,
+      AND: [visibleDatasetsWhere(req.user)],
+    },
+    select: { id: true, externalId: true, ...POLICY_SELECT },
+  });
+
+  if (!dataset) {
+    sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+    return null;
+  }
+
+  const access = await authorizeDatasetAccess(dataset, req.user, 'QUERY');
+
+  const data = await fetchOnDemandData(dataset.externalId, { limit: 1, sheet });
+  if (!data) {
+    sendError(res, 'Failed to fetch data', 'فشل في جلب البيانات', 500);
+    return null;
+  }
+
+  const unknownColumns = findUnknownColumns(query, visibleColumns(data.columns, access));
+  if (unknownColumns.length > 0) {
+    sendError(res, 'Unknown columns in query', 'أعمدة غير موجودة في الاستعلام', 400, { unknownColumns });
+    return null;
+  }
+
+  return dataset.id;
+}
+
+// =====================
+// Queries
+// =====================
+
+/**
+ * GET /queries
+ * scope: all (default) | mine | shared | public
+ */
+export async function getSavedQueries(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user?.userId;
+    const { scope = 'all', datasetId, search, page = '1', limit = '20' } = req.query;
+
+    const pageNum = parseInt(String(page), 10);
+    const limitNum = Math.min(parseInt(String(limit), 10), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    if ((scope === 'mine' || scope === 'shared') && !userId) {
+      sendError(res, 'Authentication required', 'المصادقة مطلوبة', 401);
+      return;
+    }
+
+    let where: any;
+    switch (scope) {
+      case 'mine':
+        where = { userId };
+        break;
+      case 'shared':
+        where = { visibility: 'SHARED', shares: { some: { userId } } };
+        break;
+      case 'public':
+        where = { visibility: 'PUBLIC' };
+        break;
+      default:
+        where = accessibleQueriesWhere(userId);
+    }
+
+    if (datasetId) {
+      where = { AND: [where, { datasetId: String(datasetId) }] };
+    }
+
+    if (search) {
+      where = {
+        AND: [where, {
+          OR: [
+            { name: { contains: String(search), mode: 'insensitive' } },
+            { nameAr: { contains: String(search) } },
+            { description: { contains: String(search), mode: 'insensitive' } },
+          ],
+        }],
+      };
+    }
+
+    const [queries, total] = await Promise.all([
+      prisma.savedQuery.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { updatedAt: 'desc' },
+        include: { user: { select: ownerSelect } },
+      }),
+      prisma.savedQuery.count({ where }),
+    ]);
+
+    sendPaginated(res, queries.map(formatSavedQuery), pageNum, limitNum, total);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /queries/:id
+ */
+export async function getSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user?.userId;
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, ...accessibleQueriesWhere(userId) },
+      include: { user: { select: ownerSelect } },
+    });
+
+    if (!savedQuery) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    sendSuccess(res, formatSavedQuery(savedQuery));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /queries
+ */
+export async function createSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const data = savedQuerySchema.parse(req.body);
+    const query = data.query as DatasetQuery;
+
+    const datasetId = await validateQueryTarget(req, res, data.datasetId, query, data.sheet);
+    if (!datasetId) return;
+
+    const savedQuery = await prisma.savedQuery.create({
+      data: {
+        userId,
+        datasetId,
+        name: data.name,
+        nameAr: data.nameAr,
+        description: data.description,
+        query: JSON.stringify(query),
+        sheet: data.sheet,
+        chartHint: data.chartHint ? JSON.stringify(data.chartHint) : null,
+        visibility: data.visibility || 'PRIVATE',
+      },
+    });
+
+    sendSuccess(res, formatSavedQuery(savedQuery), 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /queries/:id
+ */
+export async function updateSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const data = savedQuerySchema.partial().parse(req.body);
+
+    // Check ownership
+    const existing = await prisma.savedQuery.findFirst({
+      where: { id, userId },
+    });
+
+    if (!existing) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    const updateData: Record<string, unknown> = {};
+    for (const field of ['name', 'nameAr', 'description', 'visibility'] as const) {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    }
+    if (data.chartHint !== undefined) {
+      updateData.chartHint = data.chartHint ? JSON.stringify(data.chartHint) : null;
+    }
+
+    // تغيير التعريف أو المصدر يتطلب إعادة التحقق من الأعمدة
+    if (data.query || data.datasetId || data.sheet !== undefined) {
+      const query = (data.query || JSON.parse(existing.query)) as DatasetQuery;
+      const sheet = data.sheet !== undefined ? data.sheet : existing.sheet || undefined;
+      const datasetId = await validateQueryTarget(req, res, data.datasetId || existing.datasetId, query, sheet);
+      if (!datasetId) return;
+
+      updateData.datasetId = datasetId;
+      updateData.query = JSON.stringify(query);
+      updateData.sheet = sheet || null;
+    }
+
+    const savedQuery = await prisma.savedQuery.update({
+      where: { id },
+      data: updateData,
+    });
+
+    sendSuccess(res, formatSavedQuery(savedQuery));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /queries/:id
+ */
+export async function deleteSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+
+    // Check ownership
+    const existing = await prisma.savedQuery.findFirst({
+      where: { id, userId },
+    });
+
+    if (!existing) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    await prisma.savedQuery.delete({ where: { id } });
+
+    sendSuccess(res, { message: 'Saved query deleted' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /queries/:id/run
+ * Re-run the saved definition on current data (refresh: true bypasses the cache)
+ */
+export async function runSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user?.userId;
+    const options = runSchema.parse(req.body || {});
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, ...accessibleQueriesWhere(userId) },
+    });
+
+    if (!savedQuery) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    const result = await executeSavedQuery(savedQuery, {
+      forceRefresh: options.refresh === true,
+      limit: options.limit,
+      offset: options.offset,
+      user: req.user,
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    if (error instanceof SavedQueryError) {
+      sendError(res, error.message, error.messageAr, error.statusCode, error.details);
+      return;
+    }
+    next(error);
+  }
+}
+
+// =====================
+// Sharing
+// =====================
+
+/**
+ * GET /queries/:id/shares
+ */
+export async function getSavedQueryShares(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, userId },
+      select: {
+        id: true,
+        visibility: true,
+        shares: {
+          orderBy: { createdAt: 'desc' },
+          select: { createdAt: true, user: { select: { ...ownerSelect, email: true } } },
+        },
+      },
+    });
+
+    if (!savedQuery) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    sendSuccess(res, savedQuery);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /queries/:id/shares
+ * Share with specific users (by id or email); a private query becomes SHARED
+ */
+export async function shareSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const { userIds = [], emails = [] } = shareSchema.parse(req.body);
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, userId },
+      select: { id: true, visibility: true },
+    });
+
+    if (!savedQuery) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [{ id: { in: userIds } }, { email: { in: emails.map((e) => e.toLowerCase()) } }],
+        isActive: true,
+        NOT: { id: userId },
+      },
+      select: { id: true, email: true },
+    });
+
+    const found = new Set(users.flatMap((u) => [u.id, u.email.toLowerCase()]));
+    const notFound = [...userIds, ...emails].filter((v) => !found.has(v) && !found.has(v.toLowerCase()));
+
+    if (users.length === 0) {
+      sendError(res, 'No matching users found', 'لم يتم العثور على مستخدمين مطابقين', 404, { notFound });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.savedQueryShare.createMany({
+        data: users.map((u) => ({ queryId: id, userId: u.id })),
+        skipDuplicates: true,
+      }),
+      ...(savedQuery.visibility === 'PRIVATE'
+        ? [prisma.savedQuery.update({ where: { id }, data: { visibility: 'SHARED' } })]
+        : []),
+    ]);
+
+    sendSuccess(res, { sharedWith: users.map((u) => u.id), notFound });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /queries/:id/shares/:userId
+ */
+export async function unshareSavedQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const targetUserId = String(req.params.userId);
+    const userId = req.user!.userId;
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+
+    if (!savedQuery) {
+      sendError(res, 'Saved query not found', 'الاستعلام المحفوظ غير موجود', 404);
+      return;
+    }
+
+    await prisma.savedQueryShare.deleteMany({
+      where: { queryId: id, userId: targetUserId },
+    });
+
+    sendSuccess(res, { message: 'Share removed' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default {
+  getSavedQueries,
+  getSavedQuery,
+  createSavedQuery,
+  updateSavedQuery,
+  deleteSavedQuery,
+  runSavedQuery,
+  getSavedQueryShares,
+  shareSavedQuery,
+  unshareSavedQuery,
+};
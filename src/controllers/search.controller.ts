@@ -6,6 +6,7 @@
 import { Request, Response } from 'express';
 import { prisma } from '../services/database.js';
 import { sendSuccess, sendError } from '../utils/response.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 /**
  * GET /api/search?q=...&type=...&page=...&limit=...
@@ -86,6 +87,7 @@ export async function search(req: Request, res: Response) {
     if (type === 'all' || type === 'datasets') {
       const datasetWhere = {
         isActive: true,
+        ...PUBLIC_DATASETS_WHERE,
         OR: [
           { name: { contains: q, mode: 'insensitive' as const } },
           { nameAr: { contains: q, mode: 'insensitive' as const } },
@@ -262,6 +264,7 @@ export async function searchSuggestions(req: Request, res: Response) {
       prisma.dataset.findMany({
         where: {
           isActive: true,
+          ...PUBLIC_DATASETS_WHERE,
           OR: [
             { name: { contains: q, mode: 'insensitive' } },
             { nameAr: { contains: q, mode: 'insensitive' } },
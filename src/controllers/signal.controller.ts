@@ -4,7 +4,12 @@ import { cacheGet, cacheSet, CacheKeys } from '../services/cache.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
 import { analyzeDatasets, generateDailySummary, analyzeDataset } from '../services/aiAnalysis.js';
 import { generateAndSaveRealSignals } from '../services/realSignalGenerator.js';
-import { getPatternsCached, detectPatterns } from '../services/patternRecognition.js';
+import { getPatternsCached, getActivePatterns } from '../services/patternRecognition.js';
+import { triggerPatternDetection as enqueuePatternDetection } from '../jobs/scheduler.js';
+import { getSignalLineage as buildSignalLineage } from '../services/lineage.js';
+import { getSignalHistory as loadSignalHistory } from '../services/signalLifecycle.js';
+import { authorizeDatasetAccess, POLICY_SELECT } from '../services/accessPolicy.js';
+import { getBacktestReport as buildBacktestReport, SignalGenerator } from '../services/signalBacktest.js';
 
 // Get all signals
 export async function getSignals(
@@ -148,7 +153,7 @@ export async function getSignalStats(
   next: NextFunction
 ): Promise<void> {
   try {
-    const [typeStats, trendStats, totalActive] = await Promise.all([
+    const [typeStats, trendStats, totalActive, backtest] = await Promise.all([
       prisma.signal.groupBy({
         by: ['type'],
         where: { isActive: true },
@@ -169,6 +174,7 @@ export async function getSignalStats(
           ],
         },
       }),
+      buildBacktestReport(),
     ]);
 
     sendSuccess(res, {
@@ -182,6 +188,12 @@ export async function getSignalStats(
         trend: t.trend,
         count: t._count.trend,
       })),
+      // Track record: predictions checked against realized values
+      accuracy: {
+        overall: backtest.overall,
+        byGenerator: backtest.byGenerator,
+        byType: backtest.byType,
+      },
     });
   } catch (error) {
     next(error);
@@ -267,7 +279,18 @@ export async function analyzeDatasetSignals(
   try {
     const datasetId = String(req.params.datasetId);
 
-    const signals = await analyzeDataset(datasetId);
+    const dataset = await prisma.dataset.findUnique({
+      where: { id: datasetId },
+      select: { id: true, ...POLICY_SELECT },
+    });
+
+    if (!dataset) {
+      sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+      return;
+    }
+
+    const access = await authorizeDatasetAccess(dataset, req.user, 'QUERY');
+    const signals = await analyzeDataset(dataset.id, access);
 
     if (signals === null) {
       sendError(res, 'Dataset not found', 'مجموعة البيانات غير موجودة', 404);
@@ -395,39 +418,126 @@ export async function streamSignals(
   }
 }
 
-// Get detected patterns (cached)
+// Get detected patterns (cached when unfiltered)
 export async function getPatterns(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const patterns = await getPatternsCached();
+    const { type, datasetId, sector, limit } = req.query;
+
+    const patterns = type || datasetId || sector || limit
+      ? await getActivePatterns({
+          type: type ? String(type).toUpperCase() : undefined,
+          datasetId: datasetId ? String(datasetId) : undefined,
+          sector: sector ? String(sector) : undefined,
+          limit: limit ? parseInt(String(limit), 10) : undefined,
+        })
+      : await getPatternsCached();
+
     sendSuccess(res, patterns);
   } catch (error) {
     next(error);
   }
 }
 
-// Trigger pattern detection (admin only, refreshes cache)
+// Trigger pattern detection (admin only) - runs as a background job
 export async function triggerPatternDetection(
-  _req: Request,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const job = await enqueuePatternDetection({ createdById: req.user!.userId });
+    sendSuccess(res, job, 'Pattern detection queued successfully', 'تمت جدولة اكتشاف الأنماط بنجاح');
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Get signal lineage: source datasets upstream, articles and dashboards downstream
+export async function getSignalLineage(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+
+    const lineage = await buildSignalLineage(id, { userId: req.user?.userId, role: req.user?.role });
+
+    if (!lineage) {
+      sendError(res, 'Signal not found', 'الإشارة غير موجودة', 404);
+      return;
+    }
+
+    sendSuccess(res, lineage);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Get signal version history: newer versions first, each superseding the previous
+export async function getSignalHistory(
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const patterns = await detectPatterns();
+    const id = String(req.params.id);
+
+    const history = await loadSignalHistory(id);
+
+    if (!history) {
+      sendError(res, 'Signal not found', 'الإشارة غير موجودة', 404);
+      return;
+    }
+
     sendSuccess(res, {
-      patternsDetected: patterns.length,
-      patterns,
-      message: 'Pattern detection completed',
-      messageAr: 'تم اكتشاف الأنماط بنجاح',
+      current: history.find((s) => s.isActive) || null,
+      versions: history,
     });
   } catch (error) {
     next(error);
   }
 }
 
+// Backtest report - hit-rate and calibration by generator, type and sector
+export async function getBacktestReport(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { from, to, generator, type, sector } = req.query;
+
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      sendError(res, 'Invalid date range', 'نطاق تاريخ غير صالح', 400);
+      return;
+    }
+
+    if (generator && generator !== 'AI' && generator !== 'RULE_BASED') {
+      sendError(res, 'Generator must be AI or RULE_BASED', 'المولّد يجب أن يكون AI أو RULE_BASED', 400);
+      return;
+    }
+
+    const report = await buildBacktestReport({
+      from: fromDate,
+      to: toDate,
+      generator: generator as SignalGenerator | undefined,
+      type: type ? String(type) : undefined,
+      sector: sector ? String(sector) : undefined,
+    });
+
+    sendSuccess(res, report);
+  } catch (error) {
+    next(error);
+  }
+}
+
 export default {
   getSignals,
   getSignal,
@@ -440,4 +550,7 @@ export default {
   streamSignals,
   getPatterns,
   triggerPatternDetection,
+  getSignalLineage,
+  getSignalHistory,
+  getBacktestReport,
 };
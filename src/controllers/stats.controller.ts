@@ -3,6 +3,7 @@ import { prisma } from '../services/database.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { logger } from '../utils/logger.js';
 import { cacheGet, cacheSet } from '../services/cache.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 const CACHE_TTL = 60; // 1 minute cache for fresh data
 
@@ -253,6 +254,7 @@ export const getRecentActivity = async (_req: Request, res: Response) => {
 
     // Get latest datasets
     const latestDatasets = await prisma.dataset.findMany({
+      where: PUBLIC_DATASETS_WHERE,
       select: {
         id: true,
         name: true,
@@ -10,39 +10,7 @@ import { prisma } from '../services/database.js';
 import { config } from '../config/index.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { logger } from '../utils/logger.js';
-
-// Plan definitions
-const PLANS = {
-  FREE: {
-    id: 'FREE',
-    nameAr: 'مجاني',
-    nameEn: 'Free',
-    monthlyPrice: 0,
-    annualPrice: 0,
-    features: ['browse_dashboards', 'limited_signals', 'basic_search'],
-    limits: { favorites: 10, dashboards: 0, exports: 0 },
-  },
-  ANALYST: {
-    id: 'ANALYST',
-    nameAr: 'محلل',
-    nameEn: 'Analyst',
-    monthlyPrice: 9900, // 99 SAR in halalas
-    annualPrice: 99000, // 990 SAR (2 months free)
-    features: ['browse_dashboards', 'full_signals', 'advanced_search', 'create_dashboards', 'custom_queries', 'export_data', 'ai_recommendations', 'instant_alerts'],
-    limits: { favorites: 50, dashboards: 10, exports: 100 },
-  },
-  EXPERT: {
-    id: 'EXPERT',
-    nameAr: 'خبير',
-    nameEn: 'Expert',
-    monthlyPrice: 29900, // 299 SAR
-    annualPrice: 299000, // 2990 SAR (2 months free)
-    features: ['browse_dashboards', 'full_signals', 'advanced_search', 'create_dashboards', 'custom_queries', 'export_data', 'ai_recommendations', 'instant_alerts', 'expert_studio', 'custom_reports', 'verification_tools', 'full_api', 'priority_support'],
-    limits: { favorites: -1, dashboards: -1, exports: -1 }, // -1 = unlimited
-  },
-} as const;
-
-type PlanKey = keyof typeof PLANS;
+import { PLANS, PlanKey, getEffectivePlan, planHasFeature } from '../config/plans.js';
 
 /**
  * GET /subscriptions/plans
@@ -501,19 +469,8 @@ export async function checkFeature(
       return;
     }
 
-    // Check if subscription is still valid
-    let effectivePlan = user.subscriptionPlan || 'FREE';
-    if (effectivePlan !== 'FREE' && user.subscriptionEnd && new Date(user.subscriptionEnd) < new Date()) {
-      effectivePlan = 'FREE';
-    }
-
-    // Check trial
-    if (effectivePlan === 'FREE' && user.trialEndsAt && new Date(user.trialEndsAt) > new Date()) {
-      effectivePlan = 'ANALYST'; // Trial gives Analyst access
-    }
-
-    const plan = PLANS[effectivePlan as PlanKey] || PLANS.FREE;
-    const hasAccess = plan.features.includes(feature);
+    const effectivePlan = getEffectivePlan(user);
+    const hasAccess = planHasFeature(effectivePlan, String(feature));
 
     sendSuccess(res, { hasAccess, currentPlan: effectivePlan, feature });
   } catch (error) {
@@ -3,13 +3,21 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { syncAllDatasets, getSyncStatus } from '../services/datasetSync.js';
+import { getSyncStatus } from '../services/datasetSync.js';
+import { prisma } from '../services/database.js';
+import { enqueueJob, waitForJob } from '../services/jobQueue.js';
+import { JOB_TYPES } from '../jobs/scheduler.js';
+import { AppError } from '../middleware/errorHandler.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { logger } from '../utils/logger.js';
 
-// Track if sync is currently running
-let isSyncRunning = false;
-let lastSyncStartTime: Date | null = null;
+// Portal sync runs through the persistent job queue (one at a time across instances)
+function findActiveSync() {
+  return prisma.job.findFirst({
+    where: { type: JOB_TYPES.portalSync, status: { in: ['QUEUED', 'RUNNING'] } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
 
 /**
  * Trigger manual sync (Admin only)
@@ -20,17 +28,6 @@ export async function triggerSync(
   next: NextFunction
 ): Promise<void> {
   try {
-    // Check if sync is already running
-    if (isSyncRunning) {
-      sendError(
-        res,
-        'Sync is already running',
-        'عملية المزامنة قيد التشغيل بالفعل',
-        409
-      );
-      return;
-    }
-
     // Check for admin key (simple auth for now)
     const adminKey = req.headers['x-admin-key'] || req.query.adminKey;
     const expectedKey = process.env.ADMIN_SYNC_KEY || 'investor-sync-2024';
@@ -42,25 +39,14 @@ export async function triggerSync(
 
     logger.info('🚀 Manual sync triggered');
 
-    // Start sync in background
-    isSyncRunning = true;
-    lastSyncStartTime = new Date();
-
-    // Don't await - run in background
-    syncAllDatasets()
-      .then((result) => {
-        logger.info(`✅ Background sync completed: ${result.totalSynced} datasets`);
-        isSyncRunning = false;
-      })
-      .catch((error) => {
-        logger.error('❌ Background sync failed:', error);
-        isSyncRunning = false;
-      });
+    // Queue the sync - the job worker runs it in the background
+    const job = await enqueueJob(JOB_TYPES.portalSync, { trigger: 'manual' });
 
     sendSuccess(res, {
       message: 'Sync started in background',
       messageAr: 'بدأت عملية المزامنة في الخلفية',
-      startedAt: lastSyncStartTime.toISOString(),
+      jobId: job.id,
+      startedAt: job.createdAt.toISOString(),
     });
   } catch (error) {
     next(error);
@@ -76,11 +62,13 @@ export async function getStatus(
   next: NextFunction
 ): Promise<void> {
   try {
-    const status = await getSyncStatus();
+    const [status, activeJob] = await Promise.all([getSyncStatus(), findActiveSync()]);
 
     sendSuccess(res, {
-      isRunning: isSyncRunning,
-      currentSyncStartedAt: lastSyncStartTime?.toISOString() || null,
+      isRunning: activeJob?.status === 'RUNNING',
+      isQueued: activeJob?.status === 'QUEUED',
+      jobId: activeJob?.id || null,
+      currentSyncStartedAt: activeJob?.startedAt?.toISOString() || null,
       lastCompletedSync: status.lastSync?.toISOString() || null,
       totalDatasets: status.totalDatasets,
       latestLog: status.latestLog,
@@ -108,38 +96,41 @@ export async function cronSync(
       return;
     }
 
-    if (isSyncRunning) {
-      sendSuccess(res, {
-        message: 'Sync already running, skipping',
-        messageAr: 'المزامنة قيد التشغيل، تم التخطي',
-        skipped: true,
-      });
-      return;
-    }
-
     logger.info('🕐 Cron sync triggered');
 
-    isSyncRunning = true;
-    lastSyncStartTime = new Date();
+    let jobId: string;
+    try {
+      jobId = (await enqueueJob(JOB_TYPES.portalSync, { trigger: 'cron' })).id;
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 409) {
+        sendSuccess(res, {
+          message: 'Sync already running, skipping',
+          messageAr: 'المزامنة قيد التشغيل، تم التخطي',
+          skipped: true,
+        });
+        return;
+      }
+      throw error;
+    }
 
-    // Run sync (await for cron to know result)
-    const result = await syncAllDatasets();
-    isSyncRunning = false;
+    // Wait for the job (cron needs to know the result)
+    const job = await waitForJob(jobId);
+    const result = (job.result || {}) as Record<string, unknown>;
 
     sendSuccess(res, {
-      message: 'Sync completed',
-      messageAr: 'اكتملت المزامنة',
+      message: job.status === 'COMPLETED' ? 'Sync completed' : `Sync ${job.status.toLowerCase()}`,
+      messageAr: job.status === 'COMPLETED' ? 'اكتملت المزامنة' : 'لم تكتمل المزامنة',
+      jobId,
       result: {
-        success: result.success,
-        totalSynced: result.totalSynced,
-        newDatasets: result.newDatasets,
-        updatedDatasets: result.updatedDatasets,
-        duration: result.duration,
-        errors: result.errors.length,
+        success: job.status === 'COMPLETED',
+        totalSynced: result.totalSynced ?? 0,
+        newDatasets: result.newDatasets ?? 0,
+        updatedDatasets: result.updatedDatasets ?? 0,
+        duration: result.duration ?? null,
+        errors: job.error ? 1 : (result.errors ?? 0),
       },
     });
   } catch (error) {
-    isSyncRunning = false;
     next(error);
   }
 }
@@ -2,6 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../services/database.js';
 import { sendSuccess, sendError, sendPaginated } from '../utils/response.js';
+import { findInaccessibleWidgetQueries, resolveDashboardWidgets } from '../services/savedQueries.js';
+import {
+  DELIVERY_MODES,
+  DatasetUpdateDelivery,
+  getNotificationPreferences as loadNotificationPreferences,
+  updateNotificationPreferences as saveNotificationPreferences,
+} from '../services/datasetNotifications.js';
 
 // =====================
 // Favorites
@@ -249,6 +256,36 @@ const dashboardSchema = z.object({
   isPublic: z.boolean().optional(),
 });
 
+function parseWidgets(widgets: string): unknown[] | null {
+  try {
+    const parsed = JSON.parse(widgets);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Widgets may use a saved query as their data source:
+ * { "source": { "type": "savedQuery", "queryId": "..." } }
+ * Returns false (after sending the error) if the widgets are invalid or reference inaccessible queries.
+ */
+async function validateWidgets(res: Response, widgets: string, userId: string): Promise<boolean> {
+  const parsed = parseWidgets(widgets);
+  if (!parsed) {
+    sendError(res, 'Widgets must be a JSON array', 'يجب أن تكون العناصر مصفوفة JSON', 400);
+    return false;
+  }
+
+  const inaccessible = await findInaccessibleWidgetQueries(parsed, userId);
+  if (inaccessible.length > 0) {
+    sendError(res, 'Saved query not found or not shared with you', 'الاستعلام المحفوظ غير موجود أو غير مشارك معك', 400, { queryIds: inaccessible });
+    return false;
+  }
+
+  return true;
+}
+
 export async function getDashboards(
   req: Request,
   res: Response,
@@ -308,6 +345,46 @@ export async function getDashboard(
   }
 }
 
+/**
+ * GET /users/dashboards/:id/data
+ * Dashboard with saved-query widgets resolved against current data
+ */
+export async function getDashboardData(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const id = String(req.params.id);
+    const userId = req.user!.userId;
+    const refresh = req.query.refresh === 'true';
+
+    const dashboard = await prisma.dashboard.findFirst({
+      where: {
+        id,
+        OR: [
+          { userId },
+          { isPublic: true },
+        ],
+      },
+    });
+
+    if (!dashboard) {
+      sendError(res, 'Dashboard not found', 'اللوحة غير موجودة', 404);
+      return;
+    }
+
+    const widgets = await resolveDashboardWidgets(parseWidgets(dashboard.widgets) || [], userId, {
+      forceRefresh: refresh,
+      user: req.user,
+    });
+
+    sendSuccess(res, { ...dashboard, widgets });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function createDashboard(
   req: Request,
   res: Response,
@@ -317,6 +394,8 @@ export async function createDashboard(
     const data = dashboardSchema.parse(req.body);
     const userId = req.user!.userId;
 
+    if (data.widgets && !(await validateWidgets(res, data.widgets, userId))) return;
+
     const dashboard = await prisma.dashboard.create({
       data: {
         userId,
@@ -355,6 +434,8 @@ export async function updateDashboard(
       return;
     }
 
+    if (data.widgets && !(await validateWidgets(res, data.widgets, userId))) return;
+
     const dashboard = await prisma.dashboard.update({
       where: { id },
       data,
@@ -529,6 +610,40 @@ export async function markAllNotificationsRead(
   }
 }
 
+const notificationPreferencesSchema = z.object({
+  datasetUpdates: z.enum(DELIVERY_MODES as [DatasetUpdateDelivery, ...DatasetUpdateDelivery[]]),
+});
+
+/**
+ * تفضيلات إشعارات تحديث الـ Datasets (فوري / ملخص يومي / ملخص أسبوعي / إيقاف)
+ */
+export async function getNotificationPreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const preferences = await loadNotificationPreferences(req.user!.userId);
+    sendSuccess(res, preferences);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateNotificationPreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = notificationPreferencesSchema.parse(req.body) as { datasetUpdates: DatasetUpdateDelivery };
+    const preferences = await saveNotificationPreferences(req.user!.userId, data);
+    sendSuccess(res, preferences, 'Notification preferences updated', 'تم تحديث تفضيلات الإشعارات');
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * SSE Stream for notifications - WebFlux style
  */
@@ -618,11 +733,14 @@ export default {
   checkFavorite,
   getDashboards,
   getDashboard,
+  getDashboardData,
   createDashboard,
   updateDashboard,
   deleteDashboard,
   getNotifications,
   markNotificationRead,
   markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
   getNotificationsStream,
 };
@@ -6,6 +6,7 @@
 
 import { Request, Response } from 'express';
 import { prisma } from '../services/database.js';
+import { PUBLIC_DATASETS_WHERE } from '../services/privateDatasets.js';
 
 // Widget types
 type AtomicWidgetType = 'metric' | 'sparkline' | 'progress' | 'donut' | 'status' | 'gauge';
@@ -103,7 +104,7 @@ export const getWidgets = async (req: Request, res: Response) => {
     const skip = (pageNum - 1) * limitNum;
 
     // Build where clause
-    const where: any = { isActive: true };
+    const where: any = { isActive: true, ...PUBLIC_DATASETS_WHERE };
     if (category && category !== 'ALL' && category !== 'all') {
       where.category = category;
     }
@@ -178,7 +179,7 @@ export const getWidgetsStream = async (req: Request, res: Response) => {
   };
 
   try {
-    const where: any = { isActive: true };
+    const where: any = { isActive: true, ...PUBLIC_DATASETS_WHERE };
     if (category && category !== 'ALL' && category !== 'all') {
       where.category = category;
     }
@@ -193,7 +194,7 @@ export const getWidgetsStream = async (req: Request, res: Response) => {
       prisma.dataset.count({ where }),
       prisma.dataset.groupBy({
         by: ['category'],
-        where: { isActive: true },
+        where: { isActive: true, ...PUBLIC_DATASETS_WHERE },
         _count: { id: true }
       })
     ]);
@@ -3,6 +3,9 @@ import { config } from './config/index.js';
 import { connectDatabase, disconnectDatabase } from './services/database.js';
 import { connectRedis, disconnectRedis } from './services/cache.js';
 import { initializeScheduler } from './jobs/scheduler.js';
+import { startJobWorker, stopJobWorker } from './services/jobQueue.js';
+import { registerDatasetUpdateNotifications } from './services/datasetNotifications.js';
+import { registerAlertRuleEvaluation } from './services/alertRules.js';
 import { logger } from './utils/logger.js';
 
 async function main() {
@@ -30,11 +33,23 @@ async function main() {
       } else {
         logger.info('⏭️ Skipping scheduler in development mode');
       }
+
+      // Notify favoriters / entity followers when a dataset changes
+      registerDatasetUpdateNotifications();
+
+      // Evaluate users' dataset metric alert rules on dataset changes
+      registerAlertRuleEvaluation();
+
+      // Process queued jobs (scheduled and manually triggered)
+      if (config.jobs.workerEnabled) {
+        startJobWorker();
+      }
     });
 
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`\n${signal} received. Shutting down gracefully...`);
+      stopJobWorker();
 
       server.close(async () => {
         logger.info('HTTP server closed');
@@ -5,206 +5,342 @@ import { analyzeDatasets, generateDailySummary } from '../services/aiAnalysis.js
 import { generateAndSaveRealSignals } from '../services/realSignalGenerator.js';
 import { generateMarketReport, createGeneratedContent } from '../services/contentGeneration.js';
 import { findNewDatasets, addNewDatasets, SAUDI_DATA_CATEGORIES } from '../services/discovery.js';
+import {
+  getActiveDiscoveryRun,
+  startDiscoveryRun,
+  resumeDiscoveryRun,
+  startOrResumeDiscoveryRun,
+  executeDiscoveryRun,
+  recoverInterruptedRuns,
+  summarizeDiscoveryRun,
+} from '../services/discoveryRuns.js';
+import { registerJob, enqueueJob, getJobsOverview, EnqueueOptions } from '../services/jobQueue.js';
+import { AppError } from '../middleware/errorHandler.js';
 import { preFetchTopDatasets } from '../services/dataPreFetch.js';
+import { sendDatasetUpdateDigests, DigestFrequency } from '../services/datasetNotifications.js';
+import { archiveStaleSignals } from '../services/signalLifecycle.js';
+import { evaluateSignalOutcomes } from '../services/signalBacktest.js';
+import { detectPatterns } from '../services/patternRecognition.js';
 import { prisma } from '../services/database.js';
 import { logger } from '../utils/logger.js';
 
-// Job status tracking
-const jobStatus = {
-  fullSync: { running: false, lastRun: null as Date | null, lastResult: null as string | null },
-  portalSync: { running: false, lastRun: null as Date | null, totalSynced: 0, newDatasets: 0 },
-  quickCheck: { running: false, lastRun: null as Date | null },
-  aiAnalysis: { running: false, lastRun: null as Date | null, signalsGenerated: 0 },
-  contentGen: { running: false, lastRun: null as Date | null, contentGenerated: 0 },
-  discovery: { running: false, lastRun: null as Date | null, newFound: 0 },
-  fullDiscovery: { running: false, lastRun: null as Date | null, newFound: 0, categoriesScanned: 0 },
-  preFetch: { running: false, lastRun: null as Date | null, success: 0, failed: 0 },
-};
+// ═══════════════════════════════════════════════════════════════════
+// Job Handlers
+// Jobs run through the persistent queue (services/jobQueue.ts): status, locking,
+// retries and history live in the database instead of module-level flags
+// ═══════════════════════════════════════════════════════════════════
+
+export const JOB_TYPES = {
+  fullSync: 'full-sync',
+  portalSync: 'portal-sync',
+  signalArchival: 'signal-archival',
+  signalOutcomes: 'signal-outcome-evaluation',
+  patternDetection: 'pattern-detection',
+  aiAnalysis: 'ai-analysis',
+  contentGen: 'content-generation',
+  preFetch: 'pre-fetch',
+  discovery: 'discovery',
+  fullDiscovery: 'full-discovery',
+  datasetDigest: 'dataset-update-digest',
+} as const;
+
+// Unchanged datasets (same HTTP validators / content hash) are skipped unless force is set
+registerJob<{ force?: boolean }>({
+  type: JOB_TYPES.fullSync,
+  label: 'Full data sync',
+  labelAr: 'المزامنة الكاملة',
+  handler: async ({ payload }) => {
+    const result = await syncAllDatasets({ force: payload.force === true });
+    logger.info(`⏰ Full sync completed: ${result.success}/${result.total} datasets (${result.unchanged} unchanged, ${result.updated} updated)`);
+    return {
+      total: result.total,
+      success: result.success,
+      failed: result.failed,
+      unchanged: result.unchanged,
+      updated: result.updated,
+    };
+  },
+});
+
+// Compares due signal predictions with the realized values in their linked datasets
+registerJob({
+  type: JOB_TYPES.signalOutcomes,
+  label: 'Signal outcome evaluation',
+  labelAr: 'تقييم نتائج الإشارات',
+  maxAttempts: 2,
+  handler: async () => evaluateSignalOutcomes(),
+});
+
+// Seasonality, trends, changepoints and correlations over dataset time series (persisted in detected_patterns)
+registerJob({
+  type: JOB_TYPES.patternDetection,
+  label: 'Pattern detection',
+  labelAr: 'اكتشاف الأنماط',
+  maxAttempts: 1,
+  handler: async () => detectPatterns(),
+});
 
-// Full data sync - every 6 hours (0 */6 * * *)
-export function scheduleFullSync() {
-  cron.schedule('0 */6 * * *', async () => {
-    if (jobStatus.fullSync.running) {
-      logger.warn('Full sync already running, skipping...');
-      return;
-    }
+// Uses Browserless to fetch ALL datasets from Saudi Open Data Portal
+registerJob({
+  type: JOB_TYPES.portalSync,
+  label: 'Portal sync',
+  labelAr: 'المزامنة من المنصة',
+  backoffMs: 5 * 60 * 1000,
+  handler: async () => {
+    logger.info('═══════════════════════════════════════════════════════');
+    logger.info('⏰ Portal sync starting (Browserless)');
+    logger.info('═══════════════════════════════════════════════════════');
 
-    jobStatus.fullSync.running = true;
-    logger.info('⏰ Scheduled: Starting full data sync');
+    const result = await syncFromPortal();
+    if (!result.success) {
+      throw new Error(result.errors[result.errors.length - 1] || 'Portal sync failed');
+    }
 
-    try {
-      const result = await syncAllDatasets();
-      jobStatus.fullSync.lastResult = `${result.success}/${result.total} datasets`;
-      logger.info(`⏰ Full sync completed: ${result.success}/${result.total} datasets`);
-    } catch (error) {
-      logger.error('⏰ Full sync failed:', error);
-      jobStatus.fullSync.lastResult = 'Failed';
-    } finally {
-      jobStatus.fullSync.running = false;
-      jobStatus.fullSync.lastRun = new Date();
+    logger.info(`⏰ Portal sync completed: ${result.totalSynced} synced, ${result.newDatasets} new`);
+    return {
+      totalSynced: result.totalSynced,
+      newDatasets: result.newDatasets,
+      updatedDatasets: result.updatedDatasets,
+      errors: result.errors.length,
+      duration: result.duration,
+    };
+  },
+});
+
+// Deactivates expired signals and signals older than their type's default TTL
+registerJob({
+  type: JOB_TYPES.signalArchival,
+  label: 'Signal archival',
+  labelAr: 'أرشفة الإشارات',
+  maxAttempts: 1, // runs again next hour anyway
+  handler: async () => {
+    const result = await archiveStaleSignals();
+    if (result.expired + result.aged > 0) {
+      logger.info(`⏰ Archived ${result.expired} expired and ${result.aged} aged signals`);
     }
-  });
+    return result;
+  },
+});
+
+// NO MOCK DATA
+registerJob({
+  type: JOB_TYPES.aiAnalysis,
+  label: 'AI analysis',
+  labelAr: 'التحليل الذكي',
+  maxAttempts: 2,
+  handler: async ({ throwIfCancelled }) => {
+    // Try OpenAI first
+    let result = await analyzeDatasets();
 
-  logger.info('📅 Scheduled: Full data sync (every 6 hours)');
-}
+    // If OpenAI fails, use real data analysis (NO MOCK DATA)
+    if (!result || result.signals.length === 0) {
+      logger.info('⏰ OpenAI unavailable, generating signals from real data...');
+      throwIfCancelled();
+      result = await generateAndSaveRealSignals();
+    }
 
-// Portal Sync - Daily at 3 AM (0 3 * * *)
-// Uses Browserless to fetch ALL datasets from Saudi Open Data Portal
-export function schedulePortalSync() {
-  cron.schedule('0 3 * * *', async () => {
-    if (jobStatus.portalSync.running) {
-      logger.warn('Portal sync already running, skipping...');
-      return;
+    if (!result || result.signals.length === 0) {
+      logger.info('⏰ AI analysis completed: No data available for analysis');
+      return { signalsGenerated: 0, dailySummary: false };
     }
 
-    jobStatus.portalSync.running = true;
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('⏰ Scheduled: Portal sync starting (Browserless)');
-    logger.info('═══════════════════════════════════════════════════════');
+    logger.info(`⏰ AI analysis completed: ${result.signals.length} REAL signals generated`);
+    throwIfCancelled();
 
-    try {
-      const result = await syncFromPortal();
-      jobStatus.portalSync.totalSynced = result.totalSynced;
-      jobStatus.portalSync.newDatasets = result.newDatasets;
-      logger.info(`⏰ Portal sync completed: ${result.totalSynced} synced, ${result.newDatasets} new`);
-    } catch (error) {
-      logger.error('⏰ Portal sync failed:', error);
-    } finally {
-      jobStatus.portalSync.running = false;
-      jobStatus.portalSync.lastRun = new Date();
+    // Generate daily summary
+    const summary = await generateDailySummary();
+    if (summary) {
+      logger.info('⏰ Daily summary generated');
     }
-  });
 
-  logger.info('📅 Scheduled: Portal sync (daily at 3 AM - uses Browserless)');
-}
+    return { signalsGenerated: result.signals.length, dailySummary: !!summary };
+  },
+});
 
-// Quick check - every hour (0 * * * *)
-export function scheduleQuickCheck() {
-  cron.schedule('0 * * * *', async () => {
-    if (jobStatus.quickCheck.running) {
-      logger.warn('Quick check already running, skipping...');
-      return;
+registerJob({
+  type: JOB_TYPES.contentGen,
+  label: 'Content generation',
+  labelAr: 'توليد المحتوى',
+  maxAttempts: 2,
+  handler: async () => {
+    let contentCount = 0;
+    let contentId: string | null = null;
+
+    // 1. Generate daily market report
+    const report = await generateMarketReport();
+    if (report) {
+      const saved = await createGeneratedContent('REPORT', report);
+      contentId = saved?.id || null;
+      contentCount++;
+      logger.info('⏰ Market report generated');
     }
 
-    jobStatus.quickCheck.running = true;
-    logger.info('⏰ Scheduled: Quick check starting');
+    // 2. Articles from recent high-impact signals would go here
+    // Skipping for now to avoid API rate limits
 
-    try {
-      // Check for expired signals and deactivate them
-      const expiredSignals = await prisma.signal.updateMany({
-        where: {
-          isActive: true,
-          expiresAt: { lt: new Date() },
-        },
-        data: { isActive: false },
-      });
-
-      if (expiredSignals.count > 0) {
-        logger.info(`⏰ Deactivated ${expiredSignals.count} expired signals`);
-      }
+    logger.info(`⏰ Content generation completed: ${contentCount} items created`);
+    return { contentGenerated: contentCount, contentId };
+  },
+});
 
-      logger.info('⏰ Quick check completed');
-    } catch (error) {
-      logger.error('⏰ Quick check failed:', error);
-    } finally {
-      jobStatus.quickCheck.running = false;
-      jobStatus.quickCheck.lastRun = new Date();
+// جلب البيانات مسبقاً وتخزينها في Redis
+registerJob<{ limit?: number }>({
+  type: JOB_TYPES.preFetch,
+  label: 'Data pre-fetch',
+  labelAr: 'الجلب المسبق للبيانات',
+  maxAttempts: 2,
+  handler: async ({ payload }) => {
+    const result = await preFetchTopDatasets(payload.limit || 100);
+    logger.info(`⏰ Pre-fetch completed: ${result.success} success, ${result.failed} failed`);
+    return result;
+  },
+});
+
+// Quick discovery (main page only)
+registerJob<{ sync?: boolean }>({
+  type: JOB_TYPES.discovery,
+  label: 'Quick discovery',
+  labelAr: 'الاكتشاف السريع',
+  maxAttempts: 2,
+  backoffMs: 10 * 60 * 1000,
+  handler: async ({ payload, throwIfCancelled }) => {
+    const result = await findNewDatasets();
+
+    if (result.newIds.length === 0) {
+      logger.info('⏰ Quick discovery completed: No new datasets found');
+      return { total: result.total, newFound: 0, added: 0 };
     }
-  });
 
-  logger.info('📅 Scheduled: Quick check (every hour)');
-}
+    // Add new datasets to database
+    const added = await addNewDatasets(result.newIds);
+    logger.info(`⏰ Quick discovery completed: ${result.newIds.length} new datasets found and added`);
 
-// AI Analysis - every 6 hours (30 */6 * * *) - NO MOCK DATA
-export function scheduleAIAnalysis() {
-  cron.schedule('30 */6 * * *', async () => {
-    if (jobStatus.aiAnalysis.running) {
-      logger.warn('AI analysis already running, skipping...');
-      return;
+    if (payload.sync) {
+      throwIfCancelled();
+      logger.info('⏰ Triggering sync for new datasets...');
+      await syncAllDatasets();
     }
 
-    jobStatus.aiAnalysis.running = true;
-    logger.info('⏰ Scheduled: AI analysis starting (REAL DATA ONLY)');
+    return { total: result.total, newFound: result.newIds.length, added };
+  },
+});
 
-    try {
-      // Try OpenAI first
-      let result = await analyzeDatasets();
+// Scans ALL categories to find ALL 15,500+ datasets
+// The crawl itself is checkpointed as a DiscoveryRun: a retry resumes the unfinished run instead of starting over.
+// This job is the only place runs are started or resumed, so the queue keeps a single crawl in flight.
+// payload.runId resumes that run, payload.fresh starts a new one, otherwise the latest unfinished run is resumed
+registerJob<{ runId?: string; fresh?: boolean; sync?: boolean }>({
+  type: JOB_TYPES.fullDiscovery,
+  label: 'Full discovery',
+  labelAr: 'الاكتشاف الشامل',
+  backoffMs: 15 * 60 * 1000,
+  handler: async ({ job, payload, signal, throwIfCancelled }) => {
+    if (await getActiveDiscoveryRun()) {
+      logger.warn('Discovery run already in progress, skipping full discovery...');
+      return { skipped: true };
+    }
 
-      // If OpenAI fails, use real data analysis (NO MOCK DATA)
-      if (!result || result.signals.length === 0) {
-        logger.info('⏰ OpenAI unavailable, generating signals from real data...');
-        result = await generateAndSaveRealSignals();
-      }
+    logger.info('═══════════════════════════════════════════════════════');
+    logger.info('⏰ FULL dataset discovery starting');
+    logger.info(`📊 Scanning ${SAUDI_DATA_CATEGORIES.length} categories`);
+    logger.info('⚠️ This may take several hours!');
+    logger.info('═══════════════════════════════════════════════════════');
 
-      if (result && result.signals.length > 0) {
-        jobStatus.aiAnalysis.signalsGenerated = result.signals.length;
-        logger.info(`⏰ AI analysis completed: ${result.signals.length} REAL signals generated`);
-
-        // Generate daily summary
-        const summary = await generateDailySummary();
-        if (summary) {
-          logger.info('⏰ Daily summary generated');
-        }
-      } else {
-        logger.info('⏰ AI analysis completed: No data available for analysis');
-      }
-    } catch (error) {
-      logger.error('⏰ AI analysis failed:', error);
-    } finally {
-      jobStatus.aiAnalysis.running = false;
-      jobStatus.aiAnalysis.lastRun = new Date();
+    const trigger = job.trigger === 'manual' ? 'manual' : 'schedule';
+    const createdById = job.createdById || undefined;
+    const run = payload.runId
+      ? await resumeDiscoveryRun(payload.runId)
+      : payload.fresh && job.attempts === 1
+        ? await startDiscoveryRun(trigger, createdById)
+        : await startOrResumeDiscoveryRun(trigger, createdById);
+    const result = await executeDiscoveryRun(run.id, signal);
+
+    if (result.added > 0) {
+      logger.info(`⏰ Full discovery completed: ${result.added} new datasets added`);
+    } else {
+      logger.info('⏰ Full discovery completed: No new datasets found');
     }
-  });
 
-  logger.info('📅 Scheduled: AI Analysis (every 6 hours, offset 30min) - REAL DATA ONLY');
-}
+    if (result.added > 0 || payload.sync) {
+      throwIfCancelled();
+      logger.info('⏰ Triggering sync for new datasets...');
+      await syncAllDatasets();
+    }
 
-// Content Generation - daily at 6 AM (0 6 * * *)
-export function scheduleContentGeneration() {
-  cron.schedule('0 6 * * *', async () => {
-    if (jobStatus.contentGen.running) {
-      logger.warn('Content generation already running, skipping...');
+    return { runId: run.id, total: result.total, newFound: result.newIds.length, added: result.added };
+  },
+});
+
+// Dataset update digest for users who chose daily / weekly delivery
+registerJob<{ frequency?: DigestFrequency }>({
+  type: JOB_TYPES.datasetDigest,
+  label: 'Dataset update digest',
+  labelAr: 'ملخص تحديثات البيانات',
+  maxAttempts: 2,
+  handler: async ({ payload }) => {
+    return sendDatasetUpdateDigests(payload.frequency === 'weekly' ? 'weekly' : 'daily');
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// Cron Schedules
+// Every instance runs the crons; the dedupe key (type + minute) lets only one of them enqueue
+// ═══════════════════════════════════════════════════════════════════
+
+async function enqueueScheduled(type: string, payload: Record<string, unknown> = {}) {
+  const slot = new Date().toISOString().slice(0, 16);
+
+  try {
+    const job = await enqueueJob(type, { payload, trigger: 'schedule', dedupeKey: `${type}@${slot}` });
+    logger.info(`⏰ Scheduled: ${type} queued (${job.id})`);
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 409) {
+      logger.warn(`${type} already queued or running, skipping...`);
       return;
     }
+    logger.error(`⏰ Failed to queue ${type}:`, error);
+  }
+}
 
-    jobStatus.contentGen.running = true;
-    logger.info('⏰ Scheduled: Content generation starting');
+// Full data sync - every 6 hours (0 */6 * * *)
+export function scheduleFullSync() {
+  cron.schedule('0 */6 * * *', () => enqueueScheduled(JOB_TYPES.fullSync));
+  logger.info('📅 Scheduled: Full data sync (every 6 hours)');
+}
 
-    try {
-      let contentCount = 0;
-
-      // 1. Generate daily market report
-      const report = await generateMarketReport();
-      if (report) {
-        await createGeneratedContent('REPORT', report);
-        contentCount++;
-        logger.info('⏰ Market report generated');
-      }
+// Portal Sync - Daily at 3 AM (0 3 * * *)
+export function schedulePortalSync() {
+  cron.schedule('0 3 * * *', () => enqueueScheduled(JOB_TYPES.portalSync));
+  logger.info('📅 Scheduled: Portal sync (daily at 3 AM - uses Browserless)');
+}
 
-      // 2. Generate articles from recent high-impact signals
-      const recentSignals = await prisma.signal.findMany({
-        where: {
-          isActive: true,
-          impactScore: { gte: 75 },
-          createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
-        },
-        orderBy: { impactScore: 'desc' },
-        take: 3,
-      });
-
-      // Note: Article generation from signals would go here
-      // Skipping for now to avoid API rate limits
-
-      jobStatus.contentGen.contentGenerated = contentCount;
-      logger.info(`⏰ Content generation completed: ${contentCount} items created`);
-    } catch (error) {
-      logger.error('⏰ Content generation failed:', error);
-    } finally {
-      jobStatus.contentGen.running = false;
-      jobStatus.contentGen.lastRun = new Date();
-    }
-  });
+// Signal archival - every hour (0 * * * *)
+export function scheduleSignalArchival() {
+  cron.schedule('0 * * * *', () => enqueueScheduled(JOB_TYPES.signalArchival));
+  logger.info('📅 Scheduled: Signal archival (every hour)');
+}
 
+// Signal outcome evaluation - daily at 5 AM (0 5 * * *)
+export function scheduleSignalOutcomeEvaluation() {
+  cron.schedule('0 5 * * *', () => enqueueScheduled(JOB_TYPES.signalOutcomes));
+  logger.info('📅 Scheduled: Signal outcome evaluation (daily at 5 AM)');
+}
+
+// Pattern detection - daily at 4 AM (0 4 * * *), after the 3 AM portal sync
+export function schedulePatternDetection() {
+  cron.schedule('0 4 * * *', () => enqueueScheduled(JOB_TYPES.patternDetection));
+  logger.info('📅 Scheduled: Pattern detection (daily at 4 AM)');
+}
+
+// AI Analysis - every 6 hours (30 */6 * * *) - NO MOCK DATA
+export function scheduleAIAnalysis() {
+  cron.schedule('30 */6 * * *', () => enqueueScheduled(JOB_TYPES.aiAnalysis));
+  logger.info('📅 Scheduled: AI Analysis (every 6 hours, offset 30min) - REAL DATA ONLY');
+}
+
+// Content Generation - daily at 6 AM (0 6 * * *)
+export function scheduleContentGeneration() {
+  cron.schedule('0 6 * * *', () => enqueueScheduled(JOB_TYPES.contentGen));
   logger.info('📅 Scheduled: Content generation (daily at 6 AM)');
 }
 
@@ -219,123 +355,49 @@ export function scheduleCacheRefresh() {
 }
 
 // Data Pre-Fetch - every 2 hours (0 */2 * * *)
-// جلب البيانات مسبقاً وتخزينها في Redis
 export function scheduleDataPreFetch() {
-  cron.schedule('0 */2 * * *', async () => {
-    if (jobStatus.preFetch.running) {
-      logger.warn('Pre-fetch already running, skipping...');
-      return;
-    }
-
-    jobStatus.preFetch.running = true;
-    logger.info('⏰ Scheduled: Data pre-fetch starting');
-
-    try {
-      // Pre-fetch top 100 datasets
-      const result = await preFetchTopDatasets(100);
-
-      jobStatus.preFetch.success = result.success;
-      jobStatus.preFetch.failed = result.failed;
-
-      logger.info(`⏰ Pre-fetch completed: ${result.success} success, ${result.failed} failed`);
-    } catch (error) {
-      logger.error('⏰ Pre-fetch failed:', error);
-    } finally {
-      jobStatus.preFetch.running = false;
-      jobStatus.preFetch.lastRun = new Date();
-    }
-  });
-
+  cron.schedule('0 */2 * * *', () => enqueueScheduled(JOB_TYPES.preFetch, { limit: 100 }));
   logger.info('📅 Scheduled: Data pre-fetch (every 2 hours)');
 }
 
 // Quick Discovery - weekly on Sunday at 3 AM (0 3 * * 0)
 export function scheduleDiscovery() {
-  cron.schedule('0 3 * * 0', async () => {
-    if (jobStatus.discovery.running) {
-      logger.warn('Discovery already running, skipping...');
-      return;
-    }
-
-    jobStatus.discovery.running = true;
-    logger.info('⏰ Scheduled: Quick dataset discovery starting');
-
-    try {
-      // Quick discover (main page only)
-      const result = await findNewDatasets(false);
-
-      if (result.newIds.length > 0) {
-        // Add new datasets to database
-        await addNewDatasets(result.newIds);
-        jobStatus.discovery.newFound = result.newIds.length;
-        logger.info(`⏰ Quick discovery completed: ${result.newIds.length} new datasets found and added`);
-
-        // Trigger sync for new datasets
-        logger.info('⏰ Triggering sync for new datasets...');
-        await syncAllDatasets();
-      } else {
-        jobStatus.discovery.newFound = 0;
-        logger.info('⏰ Quick discovery completed: No new datasets found');
-      }
-    } catch (error) {
-      logger.error('⏰ Quick discovery failed:', error);
-    } finally {
-      jobStatus.discovery.running = false;
-      jobStatus.discovery.lastRun = new Date();
-    }
-  });
-
+  cron.schedule('0 3 * * 0', () => enqueueScheduled(JOB_TYPES.discovery, { sync: true }));
   logger.info('📅 Scheduled: Quick dataset discovery (weekly on Sunday at 3 AM)');
 }
 
 // Full Discovery - monthly on 1st at 2 AM (0 2 1 * *)
-// Scans ALL categories to find ALL 15,500+ datasets
 export function scheduleFullDiscovery() {
-  cron.schedule('0 2 1 * *', async () => {
-    if (jobStatus.fullDiscovery.running || jobStatus.discovery.running) {
-      logger.warn('Discovery already running, skipping full discovery...');
-      return;
-    }
+  cron.schedule('0 2 1 * *', () => enqueueScheduled(JOB_TYPES.fullDiscovery));
+  logger.info('📅 Scheduled: FULL dataset discovery (monthly on 1st at 2 AM - scans all categories)');
+}
 
-    jobStatus.fullDiscovery.running = true;
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('⏰ Scheduled: FULL dataset discovery starting');
-    logger.info(`📊 Scanning ${SAUDI_DATA_CATEGORIES.length} categories`);
-    logger.info('⚠️ This may take several hours!');
-    logger.info('═══════════════════════════════════════════════════════');
+// Dataset update digest - daily at 7 AM (0 7 * * *), weekly digest on Sunday
+export function scheduleDatasetDigest() {
+  cron.schedule('0 7 * * *', () =>
+    enqueueScheduled(JOB_TYPES.datasetDigest, { frequency: new Date().getDay() === 0 ? 'weekly' : 'daily' })
+  );
+  logger.info('📅 Scheduled: Dataset update digest (daily at 7 AM, weekly on Sunday)');
+}
 
+// Discovery run recovery - every 10 minutes (*/10 * * * *)
+// Runs whose heartbeat stopped (restart / crash) are marked interrupted and resumed from their checkpoint by a queued full-discovery job
+export function scheduleDiscoveryRecovery() {
+  const recover = async () => {
     try {
-      // Full discover (all categories)
-      const result = await findNewDatasets(true);
-
-      jobStatus.fullDiscovery.categoriesScanned = SAUDI_DATA_CATEGORIES.length;
-
-      if (result.newIds.length > 0) {
-        // Add new datasets to database
-        await addNewDatasets(result.newIds);
-        jobStatus.fullDiscovery.newFound = result.newIds.length;
-        logger.info(`⏰ Full discovery completed: ${result.newIds.length} new datasets found and added`);
-
-        // Trigger sync for new datasets
-        logger.info('⏰ Triggering sync for new datasets...');
-        await syncAllDatasets();
-      } else {
-        jobStatus.fullDiscovery.newFound = 0;
-        logger.info('⏰ Full discovery completed: No new datasets found');
+      const runId = await recoverInterruptedRuns();
+      if (runId) {
+        await enqueueScheduled(JOB_TYPES.fullDiscovery, { runId });
       }
-
-      logger.info('═══════════════════════════════════════════════════════');
-      logger.info('✅ Full discovery job completed');
-      logger.info('═══════════════════════════════════════════════════════');
     } catch (error) {
-      logger.error('⏰ Full discovery failed:', error);
-    } finally {
-      jobStatus.fullDiscovery.running = false;
-      jobStatus.fullDiscovery.lastRun = new Date();
+      logger.error('⏰ Discovery run recovery failed:', error);
     }
-  });
+  };
 
-  logger.info('📅 Scheduled: FULL dataset discovery (monthly on 1st at 2 AM - scans all categories)');
+  cron.schedule('*/10 * * * *', recover);
+  recover();
+
+  logger.info('📅 Scheduled: Discovery run recovery (every 10 minutes)');
 }
 
 // Initialize all scheduled jobs
@@ -344,184 +406,83 @@ export function initializeScheduler() {
 
   scheduleFullSync();
   schedulePortalSync();
-  scheduleQuickCheck();
+  scheduleSignalArchival();
+  scheduleSignalOutcomeEvaluation();
+  schedulePatternDetection();
   scheduleAIAnalysis();
   scheduleContentGeneration();
   scheduleCacheRefresh();
   scheduleDiscovery();
   scheduleFullDiscovery();
+  scheduleDiscoveryRecovery();
   scheduleDataPreFetch();
+  scheduleDatasetDigest();
 
   logger.info('✅ All jobs scheduled');
   logger.info(`📊 Available categories for full discovery: ${SAUDI_DATA_CATEGORIES.length}`);
 }
 
-// Get job status
-export function getJobStatus() {
-  return jobStatus;
+// Get job status (per job type, from the queue) + latest full discovery run
+export async function getJobStatus() {
+  const [jobs, lastRun] = await Promise.all([
+    getJobsOverview(),
+    prisma.discoveryRun.findFirst({ orderBy: { startedAt: 'desc' } }),
+  ]);
+
+  return {
+    ...jobs,
+    fullDiscoveryRun: lastRun ? summarizeDiscoveryRun(lastRun) : null,
+  };
 }
 
-// Manual trigger functions
-export async function triggerFullSync() {
-  if (jobStatus.fullSync.running) {
-    throw new Error('Full sync already running');
-  }
+// ═══════════════════════════════════════════════════════════════════
+// Manual Triggers
+// Return the queued job; progress and results are read from GET /admin/jobs
+// ═══════════════════════════════════════════════════════════════════
 
-  jobStatus.fullSync.running = true;
+type TriggerOptions = Pick<EnqueueOptions, 'createdById' | 'trigger'>;
 
-  try {
-    const result = await syncAllDatasets();
-    jobStatus.fullSync.lastResult = `${result.success}/${result.total}`;
-    return result;
-  } finally {
-    jobStatus.fullSync.running = false;
-    jobStatus.fullSync.lastRun = new Date();
-  }
+export function triggerFullSync(options: TriggerOptions & { force?: boolean } = {}) {
+  const { force, ...rest } = options;
+  return enqueueJob(JOB_TYPES.fullSync, { ...rest, payload: { force: force === true } });
 }
 
 // Trigger portal sync manually (uses Browserless)
-export async function triggerPortalSync() {
-  if (jobStatus.portalSync.running) {
-    throw new Error('Portal sync already running');
-  }
-
-  jobStatus.portalSync.running = true;
-
-  try {
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('🔍 Manual: Portal sync starting (Browserless)');
-    logger.info('═══════════════════════════════════════════════════════');
-
-    const result = await syncFromPortal();
-    jobStatus.portalSync.totalSynced = result.totalSynced;
-    jobStatus.portalSync.newDatasets = result.newDatasets;
-    return result;
-  } finally {
-    jobStatus.portalSync.running = false;
-    jobStatus.portalSync.lastRun = new Date();
-  }
+export function triggerPortalSync(options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.portalSync, options);
 }
 
-export async function triggerAIAnalysis() {
-  if (jobStatus.aiAnalysis.running) {
-    throw new Error('AI analysis already running');
-  }
-
-  jobStatus.aiAnalysis.running = true;
-
-  try {
-    // Try OpenAI first
-    let result = await analyzeDatasets();
-
-    // If OpenAI fails, use real data analysis (NO MOCK DATA)
-    if (!result || result.signals.length === 0) {
-      logger.info('OpenAI unavailable, generating signals from real data...');
-      result = await generateAndSaveRealSignals();
-    }
-
-    if (result) {
-      jobStatus.aiAnalysis.signalsGenerated = result.signals.length;
-    }
-    return result;
-  } finally {
-    jobStatus.aiAnalysis.running = false;
-    jobStatus.aiAnalysis.lastRun = new Date();
-  }
+export function triggerAIAnalysis(options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.aiAnalysis, options);
 }
 
-export async function triggerContentGeneration() {
-  if (jobStatus.contentGen.running) {
-    throw new Error('Content generation already running');
-  }
-
-  jobStatus.contentGen.running = true;
-
-  try {
-    const report = await generateMarketReport();
-    if (report) {
-      const saved = await createGeneratedContent('REPORT', report);
-      jobStatus.contentGen.contentGenerated = 1;
-      return saved;
-    }
-    return null;
-  } finally {
-    jobStatus.contentGen.running = false;
-    jobStatus.contentGen.lastRun = new Date();
-  }
+export function triggerContentGeneration(options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.contentGen, options);
 }
 
-export async function triggerDiscovery() {
-  if (jobStatus.discovery.running) {
-    throw new Error('Discovery already running');
-  }
-
-  jobStatus.discovery.running = true;
-
-  try {
-    const result = await findNewDatasets(false);
-
-    if (result.newIds.length > 0) {
-      await addNewDatasets(result.newIds);
-      jobStatus.discovery.newFound = result.newIds.length;
-    }
-
-    return result;
-  } finally {
-    jobStatus.discovery.running = false;
-    jobStatus.discovery.lastRun = new Date();
-  }
+export function triggerDiscovery(options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.discovery, options);
 }
 
 // Trigger full discovery manually (all categories)
-export async function triggerFullDiscovery() {
-  if (jobStatus.fullDiscovery.running || jobStatus.discovery.running) {
-    throw new Error('Discovery already running');
-  }
-
-  jobStatus.fullDiscovery.running = true;
-
-  try {
-    logger.info('═══════════════════════════════════════════════════════');
-    logger.info('🔍 Manual: FULL dataset discovery starting');
-    logger.info(`📊 Scanning ${SAUDI_DATA_CATEGORIES.length} categories`);
-    logger.info('═══════════════════════════════════════════════════════');
-
-    const result = await findNewDatasets(true);
-
-    jobStatus.fullDiscovery.categoriesScanned = SAUDI_DATA_CATEGORIES.length;
-
-    if (result.newIds.length > 0) {
-      await addNewDatasets(result.newIds);
-      jobStatus.fullDiscovery.newFound = result.newIds.length;
-    }
-
-    return {
-      ...result,
-      categoriesScanned: SAUDI_DATA_CATEGORIES.length,
-    };
-  } finally {
-    jobStatus.fullDiscovery.running = false;
-    jobStatus.fullDiscovery.lastRun = new Date();
-  }
+// runId resumes that run, fresh starts a new one, sync syncs all datasets afterwards even when nothing was added
+export function triggerFullDiscovery(
+  options: TriggerOptions & { runId?: string; fresh?: boolean; sync?: boolean } = {}
+) {
+  const { runId, fresh, sync, ...rest } = options;
+  return enqueueJob(JOB_TYPES.fullDiscovery, {
+    ...rest,
+    payload: { ...(runId && { runId }), fresh: fresh === true, sync: sync === true },
+  });
 }
 
 // Trigger pre-fetch manually
-export async function triggerPreFetch(limit: number = 100) {
-  if (jobStatus.preFetch.running) {
-    throw new Error('Pre-fetch already running');
-  }
-
-  jobStatus.preFetch.running = true;
+export function triggerPreFetch(limit: number = 100, options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.preFetch, { ...options, payload: { limit } });
+}
 
-  try {
-    const result = await preFetchTopDatasets(limit);
-    jobStatus.preFetch.success = result.success;
-    jobStatus.preFetch.failed = result.failed;
-    return result;
-  } finally {
-    jobStatus.preFetch.running = false;
-    jobStatus.preFetch.lastRun = new Date();
-  }
+export function triggerPatternDetection(options: TriggerOptions = {}) {
+  return enqueueJob(JOB_TYPES.patternDetection, options);
 }
 
 export default {
@@ -534,4 +495,5 @@ export default {
   triggerDiscovery,
   triggerFullDiscovery,
   triggerPreFetch,
+  triggerPatternDetection,
 };
@@ -3,6 +3,7 @@ import jwt from 'jsonwebtoken';
 import { config } from '../config/index.js';
 import { prisma } from '../services/database.js';
 import { logger } from '../utils/logger.js';
+import { getEffectivePlan, planHasFeature } from '../config/plans.js';
 
 export interface JwtPayload {
   userId: string;
@@ -125,4 +126,49 @@ export function requireRole(...roles: string[]) {
   };
 }
 
-export default { authenticate, optionalAuth, requireRole };
+/**
+ * Require a subscription feature (e.g. custom_queries) on the user's effective plan.
+ * Admins bypass plan checks.
+ */
+export function requireFeature(feature: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required.',
+        errorAr: 'المصادقة مطلوبة.',
+      });
+      return;
+    }
+
+    if (req.user.role === 'ADMIN' || req.user.role === 'SUPER_ADMIN') {
+      next();
+      return;
+    }
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.userId },
+        select: { subscriptionPlan: true, subscriptionEnd: true, trialEndsAt: true },
+      });
+
+      const plan = user ? getEffectivePlan(user) : 'FREE';
+      if (!planHasFeature(plan, feature)) {
+        res.status(403).json({
+          success: false,
+          error: 'Your subscription plan does not include this feature.',
+          errorAr: 'خطة اشتراكك لا تتضمن هذه الميزة.',
+          feature,
+          currentPlan: plan,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default { authenticate, optionalAuth, requireRole, requireFeature };
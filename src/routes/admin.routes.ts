@@ -2,6 +2,10 @@ import { Router } from 'express';
 import {
   getSystemStats,
   getJobsStatus,
+  getJobDetails,
+  enqueueAdminJob,
+  cancelAdminJob,
+  retryAdminJob,
   triggerSync,
   triggerPortal,
   triggerAnalysis,
@@ -27,11 +31,17 @@ router.use(requireRole('ADMIN', 'SUPER_ADMIN'));
 
 // System stats and monitoring
 router.get('/stats', getSystemStats);
-router.get('/jobs', getJobsStatus);
 router.get('/logs', getSyncLogs);
 router.get('/audit-logs', getAuditLogs);
 
-// Manual job triggers
+// Job queue: status, history, cancel and retry
+router.get('/jobs', getJobsStatus);
+router.post('/jobs', enqueueAdminJob);
+router.get('/jobs/:jobId', getJobDetails);
+router.post('/jobs/:jobId/cancel', cancelAdminJob);
+router.post('/jobs/:jobId/retry', retryAdminJob);
+
+// Manual job triggers (queued; follow progress via /jobs)
 router.post('/trigger/sync', triggerSync);
 router.post('/trigger/portal', triggerPortal);
 router.post('/trigger/analysis', triggerAnalysis);
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticate, requireFeature } from '../middleware/auth.js';
+import {
+  getAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  muteAlertRule,
+  unmuteAlertRule,
+  snoozeAlertRule,
+  testAlertRule,
+  getAlertEvents,
+} from '../controllers/alert.controller.js';
+
+const router = Router();
+
+// All alert routes belong to the signed-in user
+router.use(authenticate);
+
+// Rules (creating / editing requires the instant_alerts feature - Analyst / Expert plans)
+router.get('/', getAlertRules);
+router.get('/events', getAlertEvents);
+router.post('/', requireFeature('instant_alerts'), createAlertRule);
+router.get('/:id', getAlertRule);
+router.put('/:id', requireFeature('instant_alerts'), updateAlertRule);
+router.delete('/:id', deleteAlertRule);
+
+// Mute / snooze
+router.post('/:id/mute', muteAlertRule);
+router.post('/:id/unmute', unmuteAlertRule);
+router.post('/:id/snooze', snoozeAlertRule);
+
+// Delivery
+router.post('/:id/test', requireFeature('instant_alerts'), testAlertRule);
+router.get('/:id/events', getAlertEvents);
+
+export default router;
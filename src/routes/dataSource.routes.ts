@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authenticate, requireRole } from '../middleware/auth.js';
+import {
+  getDataSources,
+  createDataSource,
+  updateDataSource,
+  deleteDataSource,
+  testDataSourceConnection,
+  syncDataSourceDatasets,
+  registerDataSourceDataset,
+} from '../controllers/dataSource.controller.js';
+
+const router = Router();
+
+// Data source connectors are managed by admins only
+router.use(authenticate);
+router.use(requireRole('ADMIN', 'SUPER_ADMIN'));
+
+router.get('/', getDataSources);
+router.post('/', createDataSource);
+router.put('/:id', updateDataSource);
+router.delete('/:id', deleteDataSource);
+
+// Connector actions
+router.post('/:id/test', testDataSourceConnection);
+router.post('/:id/sync', syncDataSourceDatasets);
+router.post('/:id/datasets', registerDataSourceDataset);
+
+export default router;
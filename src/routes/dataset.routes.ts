@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, requireRole } from '../middleware/auth.js';
+import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
 import {
   getDatasets,
   getDataset,
@@ -13,9 +13,30 @@ import {
   getUnverifiedDatasets,
   getVerificationStats,
   verifyDataset,
+  getVerificationConfig,
+  updateVerificationConfig,
+  getDatasetReviews,
+  submitDatasetReview,
+  assignDatasetReviewers,
+  claimDatasetReview,
+  resolveDatasetReview,
   getDatasetMetadata,
   updateDatasetMetadata,
   getMetadataStats,
+  queryDatasetData,
+  getDatasetQuality,
+  overrideDatasetQuality,
+  clearDatasetQualityOverride,
+  getDatasetVersions,
+  getDatasetDiff,
+  getDatasetTimeSeries,
+  joinDatasetsData,
+  getDatasetLineage,
+  getDatasetPII,
+  scanDatasetPII,
+  applyDatasetPIIProposal,
+  getDatasetAccessPolicy,
+  updateDatasetAccessPolicy,
 } from '../controllers/dataset.controller.js';
 
 const router = Router();
@@ -65,40 +86,153 @@ router.get('/sync/status', getSyncStatus);
 /**
  * @route   GET /api/datasets/unverified
  * @desc    قائمة مجموعات البيانات غير المحققة
+ * @query   queue (mine|unassigned|overdue|disagreement), status, category, search
  * @access  Expert+
+ * @note    كل عنصر يحمل تقدم المراجعة في الجولة الحالية (review)
  */
 router.get('/unverified', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getUnverifiedDatasets);
 
 /**
  * @route   GET /api/datasets/verification-stats
- * @desc    إحصائيات التحقق
+ * @desc    إحصائيات التحقق مع مؤشرات المهلة (SLA)
  * @access  Expert+
  */
 router.get('/verification-stats', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getVerificationStats);
 
+/**
+ * @route   GET /api/datasets/verification/config
+ * @desc    إعدادات سير عمل التحقق (عدد المراجعات، المهل)
+ * @access  Expert+
+ */
+router.get('/verification/config', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getVerificationConfig);
+
+/**
+ * @route   PUT /api/datasets/verification/config
+ * @desc    تحديث إعدادات سير عمل التحقق
+ * @body    requiredReviews, reviewSlaHours, decisionSlaHours
+ * @access  Admin
+ */
+router.put('/verification/config', authenticate, requireRole('ADMIN', 'SUPER_ADMIN'), updateVerificationConfig);
+
+/**
+ * @route   POST /api/datasets/join
+ * @desc    ربط مجموعتي بيانات أو أكثر على مفتاح مشترك (منطقة، سنة، رمز قطاع)
+ * @body    datasets [{ id, alias, key, select, rename }], type (inner|left|right|full), keyNames, normalizeKeys, limit
+ * @access  Public
+ * @note    يعيد جدولاً مدمجاً مع إحصائيات التطابق لكل مجموعة
+ */
+router.post('/join', optionalAuth, joinDatasetsData);
+
 /**
  * @route   GET /api/datasets/:id
  * @desc    تفاصيل Dataset (metadata فقط)
  * @access  Public
  */
-router.get('/:id', getDataset);
+router.get('/:id', optionalAuth, getDataset);
 
 /**
  * @route   GET /api/datasets/:id/data
  * @desc    جلب البيانات الفعلية ON-DEMAND من Saudi Open Data API
- * @query   page, limit, refresh
+ * @query   page, limit, refresh, sheet (ورقة Excel)
  * @access  Public
- * @note    البيانات تُجلب مباشرة من API ولا تُخزن في DB
+ * @note    البيانات تُجلب مباشرة من API ولا تُخزن في DB، والأعمدة الشخصية تُحجب لغير الخبراء
  */
-router.get('/:id/data', getDatasetData);
+router.get('/:id/data', optionalAuth, getDatasetData);
 
 /**
  * @route   GET /api/datasets/:id/preview
  * @desc    معاينة سريعة (أول N سجل) - ON-DEMAND
- * @query   count (default: 10, max: 50)
+ * @query   count (default: 10, max: 50), sheet
+ * @access  Public
+ */
+router.get('/:id/preview', optionalAuth, getDatasetPreviewData);
+
+/**
+ * @route   POST /api/datasets/:id/query
+ * @desc    استعلام على البيانات (فلترة، تجميع، دوال إحصائية) على الخادم
+ * @body    filters, groupBy, aggregates, select, sort, limit, offset, refresh, sheet
+ * @access  Public
+ * @note    يُنفذ على السجلات المخزنة مؤقتاً بدلاً من إرسالها كاملة للمتصفح
+ */
+router.post('/:id/query', optionalAuth, queryDatasetData);
+
+/**
+ * @route   GET /api/datasets/:id/quality
+ * @desc    درجات الجودة المحسوبة من البيانات مع السجل التاريخي
+ * @query   limit (default: 30, max: 200)
+ * @access  Public
+ */
+router.get('/:id/quality', optionalAuth, getDatasetQuality);
+
+/**
+ * @route   GET /api/datasets/:id/versions
+ * @desc    سجل نسخ البيانات (لقطة عن كل جلب تغيّر فيه المحتوى)
+ * @query   page, limit
+ * @access  Public
+ */
+router.get('/:id/versions', optionalAuth, getDatasetVersions);
+
+/**
+ * @route   GET /api/datasets/:id/diff
+ * @desc    مقارنة نسختين: الأعمدة المضافة/المحذوفة، فرق عدد الصفوف، وتغير القيم المجمعة
+ * @query   from, to (default: آخر نسختين)
+ * @access  Public
+ */
+router.get('/:id/diff', optionalAuth, getDatasetDiff);
+
+/**
+ * @route   GET /api/datasets/:id/timeseries
+ * @desc    سلسلة زمنية موحدة (فترات ISO) من أعمدة السنة/الربع/الشهر أو الجداول العريضة
+ * @query   measure, dimension, period (عمود الفترة), agg (sum|avg|min|max|count), maxSeries, sheet, refresh
  * @access  Public
+ * @note    التواريخ الهجرية تُحوّل للميلادي، والأرباع تُوحّد بصيغة 2023-Q1
  */
-router.get('/:id/preview', getDatasetPreviewData);
+router.get('/:id/timeseries', optionalAuth, getDatasetTimeSeries);
+
+/**
+ * @route   GET /api/datasets/:id/lineage
+ * @desc    رسم الاعتماديات: المصدر (upstream) والإشارات والمحتوى والاستعلامات واللوحات المبنية عليها (downstream)
+ * @access  Public (اللوحات والاستعلامات الخاصة تظهر لأصحابها وللخبراء فقط)
+ */
+router.get('/:id/lineage', optionalAuth, getDatasetLineage);
+
+/**
+ * @route   GET /api/datasets/:id/pii
+ * @desc    الأعمدة الشخصية المكتشفة (هوية، جوال، بريد، آيبان، أسماء) والتصنيف المقترح
+ * @access  Expert+
+ */
+router.get('/:id/pii', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getDatasetPII);
+
+/**
+ * @route   POST /api/datasets/:id/pii/scan
+ * @desc    إعادة فحص البيانات الشخصية فوراً
+ * @access  Expert+
+ */
+router.post('/:id/pii/scan', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), scanDatasetPII);
+
+/**
+ * @route   POST /api/datasets/:id/pii/apply
+ * @desc    اعتماد التصنيف المقترح (hasPII, sensitivityLevel, accessRestrictions)
+ * @body    hasPII, sensitivityLevel, accessRestrictions (اختيارية - تتجاوز الاقتراح)
+ * @access  Expert+
+ */
+router.post('/:id/pii/apply', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), applyDatasetPIIProposal);
+
+/**
+ * @route   GET /api/datasets/:id/access-policy
+ * @desc    سياسة الوصول: مستوى الحساسية، الأعمدة المحجوبة/المخفية، فلاتر الصفوف
+ * @access  Expert+
+ */
+router.get('/:id/access-policy', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getDatasetAccessPolicy);
+
+/**
+ * @route   PUT /api/datasets/:id/access-policy
+ * @desc    تحديث سياسة الوصول
+ * @body    sensitivityLevel, columns [{ column, action (mask|hide), allowRoles, allowPlans }], rowFilters [{ filters, description, allowRoles, allowPlans }]
+ * @access  Admin
+ * @note    المشرفون مستثنون دائماً، والوصول لبيانات CONFIDENTIAL / RESTRICTED يُسجل في AuditLog
+ */
+router.put('/:id/access-policy', authenticate, requireRole('ADMIN', 'SUPER_ADMIN'), updateDatasetAccessPolicy);
 
 // ═══════════════════════════════════════════════════════════════════
 // Protected routes - تحتاج تسجيل دخول
@@ -122,15 +256,55 @@ router.post('/:id/refresh', authenticate, requireRole('ADMIN'), refreshDatasetCa
  * @route   PATCH /api/datasets/:id/verify
  * @desc    تحديث حالة التحقق لمجموعة بيانات
  * @access  Expert+
+ * @note    عند اشتراط أكثر من مراجعة يقتصر على المشرف (تجاوز سير العمل)
  */
 router.patch('/:id/verify', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), verifyDataset);
 
+/**
+ * @route   GET /api/datasets/:id/reviews
+ * @desc    مراجعات مجموعة البيانات (كل الجولات) مع قوائم التحقق
+ * @access  Expert+
+ */
+router.get('/:id/reviews', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), getDatasetReviews);
+
+/**
+ * @route   POST /api/datasets/:id/reviews
+ * @desc    تقديم مراجعة مستقلة
+ * @body    decision (VERIFIED|REJECTED|NEEDS_REVIEW), checklist { sourceAuthenticity, licensing, pii: { result, comment } }, note, noteAr
+ * @access  Expert+
+ * @note    اتفاق المراجعين يعتمد القرار تلقائياً، واختلافهم يحيله للمشرف
+ */
+router.post('/:id/reviews', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), submitDatasetReview);
+
+/**
+ * @route   POST /api/datasets/:id/reviews/assign
+ * @desc    إسناد مراجعين لمجموعة البيانات
+ * @body    reviewerIds
+ * @access  Admin
+ */
+router.post('/:id/reviews/assign', authenticate, requireRole('ADMIN', 'SUPER_ADMIN'), assignDatasetReviewers);
+
+/**
+ * @route   POST /api/datasets/:id/reviews/claim
+ * @desc    استلام مراجعة من قائمة الانتظار
+ * @access  Expert+
+ */
+router.post('/:id/reviews/claim', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), claimDatasetReview);
+
+/**
+ * @route   POST /api/datasets/:id/reviews/resolve
+ * @desc    حسم الاختلاف بين المراجعين
+ * @body    decision, note, noteAr
+ * @access  Admin
+ */
+router.post('/:id/reviews/resolve', authenticate, requireRole('ADMIN', 'SUPER_ADMIN'), resolveDatasetReview);
+
 /**
  * @route   GET /api/datasets/:id/metadata
  * @desc    البيانات الوصفية الكاملة (3 مستويات) لمجموعة بيانات
  * @access  Public
  */
-router.get('/:id/metadata', getDatasetMetadata);
+router.get('/:id/metadata', optionalAuth, getDatasetMetadata);
 
 /**
  * @route   PUT /api/datasets/:id/metadata
@@ -139,4 +313,21 @@ router.get('/:id/metadata', getDatasetMetadata);
  */
 router.put('/:id/metadata', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), updateDatasetMetadata);
 
+/**
+ * @route   PUT /api/datasets/:id/quality
+ * @desc    تعديل درجات الجودة يدوياً (يتطلب ذكر السبب)
+ * @body    qualityScore, completeness, accuracy, timeliness, consistency, reason
+ * @access  Expert+
+ * @note    التعديل يبقى فعالاً ولا تستبدله المزامنة حتى يُلغى
+ */
+router.put('/:id/quality', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), overrideDatasetQuality);
+
+/**
+ * @route   DELETE /api/datasets/:id/quality/override
+ * @desc    إلغاء التعديل اليدوي والعودة لآخر درجات محسوبة
+ * @body    reason (optional)
+ * @access  Expert+
+ */
+router.delete('/:id/quality/override', authenticate, requireRole('EXPERT', 'ADMIN', 'SUPER_ADMIN'), clearDatasetQualityOverride);
+
 export default router;
@@ -11,6 +11,10 @@ import {
   syncAll,
   syncOne,
   cleanupInvalidDatasets,
+  getRuns,
+  getRun,
+  startRun,
+  resumeRun,
 } from '../controllers/discovery.controller.js';
 
 const router = Router();
@@ -63,10 +67,10 @@ router.post('/prefetch', async (req, res) => {
   try {
     const { limit = 100 } = req.body;
     const { triggerPreFetch } = await import('../jobs/scheduler.js');
-    const result = await triggerPreFetch(limit);
-    res.json({ success: true, data: result });
+    const job = await triggerPreFetch(limit);
+    res.status(202).json({ success: true, data: job });
   } catch (error) {
-    res.status(500).json({
+    res.status((error as { statusCode?: number }).statusCode || 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Pre-fetch failed',
       errorAr: 'فشل جلب البيانات المسبق'
@@ -103,7 +107,7 @@ router.get('/discover', discover);
 
 /**
  * @route   GET /api/discovery/discover-all
- * @desc    اكتشاف شامل - كل الأقسام (قد يستغرق وقت طويل!)
+ * @desc    اكتشاف شامل - كل الأقسام (مهمة full-discovery في الطابور، قد تستغرق وقتاً طويلاً!)
  * @access  Admin
  * @note    يمسح كل الـ 38 قسم للعثور على كل الـ 15,500+ dataset
  */
@@ -127,22 +131,51 @@ router.post('/discover-and-sync', discoverAndSync);
 
 /**
  * @route   POST /api/discovery/full-discover-and-sync
- * @desc    اكتشاف شامل ومزامنة - العملية الكاملة
+ * @desc    اكتشاف شامل ومزامنة - العملية الكاملة (مهمة full-discovery في الطابور)
  * @access  Admin
  * @warning قد يستغرق ساعات!
  */
 router.post('/full-discover-and-sync', fullDiscoverAndSync);
 
+/**
+ * @route   GET /api/discovery/runs
+ * @desc    تشغيلات الاكتشاف الشامل (الحالة، المرحلة، عدد الأقسام المكتملة والفاشلة)
+ * @query   { page?, limit? }
+ * @access  Admin
+ */
+router.get('/runs', getRuns);
+
+/**
+ * @route   POST /api/discovery/runs
+ * @desc    بدء تشغيل اكتشاف شامل كمهمة في الطابور (يُحفظ التقدم بعد كل صفحة وقسم)
+ * @access  Admin
+ */
+router.post('/runs', startRun);
+
+/**
+ * @route   GET /api/discovery/runs/:id
+ * @desc    تفاصيل تشغيل: نقطة الاستئناف ونتيجة كل قسم
+ * @access  Admin
+ */
+router.get('/runs/:id', getRun);
+
+/**
+ * @route   POST /api/discovery/runs/:id/resume
+ * @desc    استئناف تشغيل فاشل أو متوقف من آخر نقطة حفظ (مهمة full-discovery في الطابور)
+ * @access  Admin
+ */
+router.post('/runs/:id/resume', resumeRun);
+
 /**
  * @route   POST /api/discovery/sync-all
- * @desc    مزامنة كل الـ Datasets الموجودة
+ * @desc    مزامنة كل الـ Datasets الموجودة (تُتخطى غير المتغيرة ما لم يُرسل force)
  * @access  Admin
  */
 router.post('/sync-all', syncAll);
 
 /**
  * @route   POST /api/discovery/sync/:datasetId
- * @desc    مزامنة dataset واحد
+ * @desc    مزامنة dataset واحد (force لتجاهل كشف التغيير)
  * @access  Admin
  */
 router.post('/sync/:datasetId', syncOne);
@@ -19,6 +19,10 @@ import recommendationRoutes from './recommendation.routes.js';
 import subscriptionRoutes from './subscription.routes.js';
 import chatRoutes from './chat.routes.js';
 import campaignRoutes from './campaign.routes.js';
+import savedQueryRoutes from './savedQuery.routes.js';
+import dataSourceRoutes from './dataSource.routes.js';
+import privateDatasetRoutes from './privateDataset.routes.js';
+import alertRoutes from './alert.routes.js';
 import { getHeatmapData, getHeatmapStream } from '../controllers/heatmap.controller.js';
 
 const router = Router();
@@ -53,6 +57,10 @@ router.use('/recommendations', recommendationRoutes);
 router.use('/subscriptions', subscriptionRoutes);
 router.use('/chat', chatRoutes);
 router.use('/campaigns', campaignRoutes);
+router.use('/queries', savedQueryRoutes);
+router.use('/data-sources', dataSourceRoutes);
+router.use('/my-datasets', privateDatasetRoutes);
+router.use('/alerts', alertRoutes);
 router.get('/heatmap', getHeatmapData);
 router.get('/heatmap/stream', getHeatmapStream);
 
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import {
+  datasetUpload,
+  getPrivateDatasets,
+  uploadPrivateDataset,
+  updatePrivateDataset,
+  removePrivateDataset,
+  reparsePrivateDataset,
+  analyzePrivateDataset,
+  getPrivateDatasetShares,
+  sharePrivateDatasetWith,
+  unsharePrivateDatasetWith,
+} from '../controllers/privateDataset.controller.js';
+
+const router = Router();
+
+// Private uploads belong to their owner; data, preview, query and export use the
+// regular /datasets/:id endpoints, which only serve them to the owner and shared members
+router.use(authenticate);
+
+router.get('/', getPrivateDatasets);
+router.post('/', datasetUpload.single('file'), uploadPrivateDataset);
+router.put('/:id', updatePrivateDataset);
+router.delete('/:id', removePrivateDataset);
+router.post('/:id/reparse', reparsePrivateDataset);
+router.post('/:id/analyze', analyzePrivateDataset);
+
+// Sharing with team members
+router.get('/:id/shares', getPrivateDatasetShares);
+router.post('/:id/shares', sharePrivateDatasetWith);
+router.delete('/:id/shares/:userId', unsharePrivateDatasetWith);
+
+export default router;
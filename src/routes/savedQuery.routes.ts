@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { authenticate, optionalAuth, requireFeature } from '../middleware/auth.js';
+import {
+  getSavedQueries,
+  getSavedQuery,
+  createSavedQuery,
+  updateSavedQuery,
+  deleteSavedQuery,
+  runSavedQuery,
+  getSavedQueryShares,
+  shareSavedQuery,
+  unshareSavedQuery,
+} from '../controllers/savedQuery.controller.js';
+
+const router = Router();
+
+// Public + shared queries (anonymous users see PUBLIC only)
+router.get('/', optionalAuth, getSavedQueries);
+router.get('/:id', optionalAuth, getSavedQuery);
+router.post('/:id/run', optionalAuth, runSavedQuery);
+
+// Authoring requires the custom_queries feature (Analyst / Expert plans)
+router.post('/', authenticate, requireFeature('custom_queries'), createSavedQuery);
+router.put('/:id', authenticate, requireFeature('custom_queries'), updateSavedQuery);
+router.delete('/:id', authenticate, deleteSavedQuery);
+
+// Sharing
+router.get('/:id/shares', authenticate, getSavedQueryShares);
+router.post('/:id/shares', authenticate, requireFeature('custom_queries'), shareSavedQuery);
+router.delete('/:id/shares/:userId', authenticate, unshareSavedQuery);
+
+export default router;
@@ -11,8 +11,11 @@ import {
   streamSignals,
   getPatterns,
   triggerPatternDetection,
+  getSignalLineage,
+  getSignalHistory,
+  getBacktestReport,
 } from '../controllers/signal.controller.js';
-import { authenticate, requireRole } from '../middleware/auth.js';
+import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -24,7 +27,10 @@ router.get('/stats', getSignalStats);
 router.get('/dashboard', getSignalsDashboard);
 router.get('/summary', getDailySummary);
 router.get('/patterns', getPatterns);
+router.get('/backtest', getBacktestReport);
 router.get('/:id', getSignal);
+router.get('/:id/lineage', optionalAuth, getSignalLineage);
+router.get('/:id/history', getSignalHistory);
 
 // Protected routes (requires authentication)
 router.post('/analyze', authenticate, requireRole('ADMIN'), triggerAnalysis);
@@ -8,6 +8,7 @@ import {
   getDashboards,
   getDashboardsStream,
   getDashboard,
+  getDashboardData,
   createDashboard,
   updateDashboard,
   deleteDashboard,
@@ -15,6 +16,8 @@ import {
   markNotificationRead,
   markAllNotificationsRead,
   getNotificationsStream,
+  getNotificationPreferences,
+  updateNotificationPreferences,
 } from '../controllers/user.controller.js';
 
 const router = Router();
@@ -32,6 +35,7 @@ router.get('/favorites/check/:itemType/:itemId', checkFavorite);
 router.get('/dashboards', getDashboards);
 router.get('/dashboards/stream', getDashboardsStream);
 router.get('/dashboards/:id', getDashboard);
+router.get('/dashboards/:id/data', getDashboardData);
 router.post('/dashboards', createDashboard);
 router.put('/dashboards/:id', updateDashboard);
 router.delete('/dashboards/:id', deleteDashboard);
@@ -39,6 +43,8 @@ router.delete('/dashboards/:id', deleteDashboard);
 // Notifications
 router.get('/notifications', getNotifications);
 router.get('/notifications/stream', getNotificationsStream);
+router.get('/notifications/preferences', getNotificationPreferences);
+router.put('/notifications/preferences', updateNotificationPreferences);
 router.put('/notifications/read-all', markAllNotificationsRead);
 router.put('/notifications/:id/read', markNotificationRead);
 
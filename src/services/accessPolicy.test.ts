@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateAccess,
+  applyAccessDecision,
+  applyAccessToDictionary,
+  applyAccessToDiff,
+  visibleColumns,
+  parseAccessPolicy,
+  PolicyDataset,
+  Viewer,
+} from './accessPolicy.js';
+import { VersionDiff } from './datasetVersioning.js';
+
+function dataset(overrides: Partial<PolicyDataset> = {}): PolicyDataset {
+  return { id: 'ds-1', sensitivityLevel: 'PUBLIC', accessPolicy: null, piiColumns: null, ...overrides };
+}
+
+const guest: Viewer = { plan: 'FREE' };
+const user: Viewer = { userId: 'u-1', role: 'USER', plan: 'FREE' };
+const analyst: Viewer = { userId: 'u-2', role: 'USER', plan: 'ANALYST' };
+const expert: Viewer = { userId: 'u-3', role: 'EXPERT', plan: 'FREE' };
+const admin: Viewer = { userId: 'u-4', role: 'ADMIN', plan: 'FREE' };
+
+const records = [
+  { region: 'Riyadh', nationalId: '1045678909', salary: 9000, name: 'Ali Saleh' },
+  { region: 'Jeddah', nationalId: '2045678915', salary: 7000, name: 'Sara Omar' },
+  { region: 'Riyadh', nationalId: '1122334459', salary: 12000, name: 'Fahad Nasser' },
+];
+
+describe('evaluateAccess', () => {
+  it('applies the sensitivity level rules to guests, users, plans and roles', () => {
+    expect(evaluateAccess(dataset(), guest)).not.toBeNull();
+
+    const internal = dataset({ sensitivityLevel: 'INTERNAL' });
+    expect(evaluateAccess(internal, guest)).toBeNull();
+    expect(evaluateAccess(internal, user)).not.toBeNull();
+
+    const confidential = dataset({ sensitivityLevel: 'CONFIDENTIAL' });
+    expect(evaluateAccess(confidential, user)).toBeNull();
+    expect(evaluateAccess(confidential, analyst)).not.toBeNull(); // plan feature
+    expect(evaluateAccess(confidential, expert)).not.toBeNull(); // role
+
+    const restricted = dataset({ sensitivityLevel: 'RESTRICTED' });
+    expect(evaluateAccess(restricted, analyst)).toBeNull();
+    expect(evaluateAccess(restricted, expert)).not.toBeNull();
+    expect(evaluateAccess(restricted, admin)).not.toBeNull();
+  });
+
+  it('treats unknown or missing levels as public', () => {
+    expect(evaluateAccess(dataset({ sensitivityLevel: null }), guest)?.level).toBe('PUBLIC');
+    expect(evaluateAccess(dataset({ sensitivityLevel: 'SECRET' }), guest)?.level).toBe('PUBLIC');
+  });
+
+  it('hides and masks policy columns unless the viewer is exempt', () => {
+    const policy = {
+      columns: [
+        { column: 'salary', action: 'hide', allowRoles: ['EXPERT'] },
+        { column: 'name', action: 'mask', allowPlans: ['ANALYST'] },
+      ],
+    };
+    const ds = dataset({ accessPolicy: policy });
+
+    expect(evaluateAccess(ds, user)).toMatchObject({
+      hiddenColumns: ['salary'],
+      maskedColumns: [{ column: 'name' }],
+    });
+    expect(evaluateAccess(ds, expert)).toMatchObject({ hiddenColumns: [], maskedColumns: [{ column: 'name' }] });
+    expect(evaluateAccess(ds, analyst)).toMatchObject({ hiddenColumns: ['salary'], maskedColumns: [] });
+    expect(evaluateAccess(ds, admin)).toMatchObject({ hiddenColumns: [], maskedColumns: [] });
+  });
+
+  it('does not grant plan exemptions to guests', () => {
+    const ds = dataset({ accessPolicy: { columns: [{ column: 'name', action: 'mask', allowPlans: ['FREE'] }] } });
+
+    expect(evaluateAccess(ds, guest)?.maskedColumns).toEqual([{ column: 'name' }]);
+    expect(evaluateAccess(ds, user)?.maskedColumns).toEqual([]);
+  });
+
+  it('masks detected PII columns with their type for viewers without the PII role', () => {
+    const ds = dataset({
+      piiColumns: [{ column: 'nationalId', type: 'national-id' }, { column: 'name', type: 'person-name' }],
+      accessPolicy: { columns: [{ column: 'name', action: 'mask' }] },
+    });
+
+    expect(evaluateAccess(ds, user)?.maskedColumns).toEqual([
+      { column: 'name', type: 'person-name' },
+      { column: 'nationalId', type: 'national-id' },
+    ]);
+    expect(evaluateAccess(ds, expert)?.maskedColumns).toEqual([{ column: 'name' }]);
+  });
+
+  it('does not mask PII columns the policy already hides', () => {
+    const ds = dataset({
+      piiColumns: [{ column: 'nationalId', type: 'national-id' }],
+      accessPolicy: { columns: [{ column: 'nationalId', action: 'hide' }] },
+    });
+
+    expect(evaluateAccess(ds, user)).toMatchObject({ hiddenColumns: ['nationalId'], maskedColumns: [] });
+  });
+
+  it('collects the row filters of non-exempt rules', () => {
+    const ds = dataset({
+      accessPolicy: {
+        rowFilters: [
+          { filters: [{ column: 'region', op: 'eq', value: 'Riyadh' }] },
+          { filters: [{ column: 'salary', op: 'lt', value: 10000 }], allowRoles: ['EXPERT'] },
+        ],
+      },
+    });
+
+    expect(evaluateAccess(ds, user)?.rowFilters).toEqual([
+      { column: 'region', op: 'eq', value: 'Riyadh' },
+      { column: 'salary', op: 'lt', value: 10000 },
+    ]);
+    expect(evaluateAccess(ds, expert)?.rowFilters).toEqual([{ column: 'region', op: 'eq', value: 'Riyadh' }]);
+  });
+
+  it('ignores an invalid stored policy', () => {
+    expect(parseAccessPolicy({ columns: [{ column: 'x', action: 'drop' }] })).toEqual({ columns: [], rowFilters: [] });
+    expect(evaluateAccess(dataset({ accessPolicy: 'broken' }), user)?.hiddenColumns).toEqual([]);
+  });
+});
+
+describe('applyAccessDecision', () => {
+  it('filters rows, then drops hidden columns and masks the rest', () => {
+    const decision = evaluateAccess(dataset({
+      piiColumns: [{ column: 'nationalId', type: 'national-id' }],
+      accessPolicy: {
+        columns: [{ column: 'salary', action: 'hide' }, { column: 'name', action: 'mask' }],
+        rowFilters: [{ filters: [{ column: 'region', op: 'eq', value: 'Riyadh' }] }],
+      },
+    }), user)!;
+
+    const result = applyAccessDecision(records, decision);
+
+    expect(result.records).toEqual([
+      { region: 'Riyadh', nationalId: '*******909', name: '***' },
+      { region: 'Riyadh', nationalId: '*******459', name: '***' },
+    ]);
+    expect(result.filteredRows).toBe(1);
+    expect(result.hiddenColumns).toEqual(['salary']);
+    expect(result.maskedColumns).toEqual(['name', 'nationalId']);
+  });
+
+  it('leaves the input records untouched', () => {
+    const decision = evaluateAccess(dataset({ accessPolicy: { columns: [{ column: 'salary', action: 'hide' }] } }), user)!;
+
+    applyAccessDecision(records, decision);
+
+    expect(records[0].salary).toBe(9000);
+  });
+
+  it('returns the same records when nothing applies', () => {
+    const decision = evaluateAccess(dataset(), user)!;
+    expect(applyAccessDecision(records, decision).records).toBe(records);
+  });
+});
+
+describe('visibleColumns', () => {
+  it('removes hidden columns and keeps the order', () => {
+    const decision = evaluateAccess(dataset({ accessPolicy: { columns: [{ column: 'salary', action: 'hide' }] } }), user)!;
+    expect(visibleColumns(['region', 'salary', 'name'], decision)).toEqual(['region', 'name']);
+  });
+});
+
+describe('stats masking', () => {
+  const dictionary = [
+    { name: 'region', sample: 'Riyadh', sampleValues: ['Riyadh', 'Jeddah'], min: null, max: null },
+    { name: 'salary', sample: 9000, sampleValues: [9000], min: 7000, max: 12000 },
+    { name: 'nationalId', sample: '1045678909', sampleValues: ['1045678909'], min: null, max: null },
+  ];
+
+  it('hides dictionary entries and masks the samples of masked columns', () => {
+    const decision = evaluateAccess(dataset({
+      piiColumns: [{ column: 'nationalId', type: 'national-id' }],
+      accessPolicy: { columns: [{ column: 'salary', action: 'hide' }] },
+    }), user)!;
+
+    expect(applyAccessToDictionary(dictionary, decision)).toEqual([
+      dictionary[0],
+      { name: 'nationalId', sample: '*******909', sampleValues: ['*******909'], min: null, max: null },
+    ]);
+  });
+
+  it('masks every column of the dictionary when row filters apply', () => {
+    const decision = evaluateAccess(dataset({
+      accessPolicy: { rowFilters: [{ filters: [{ column: 'region', op: 'eq', value: 'Riyadh' }] }] },
+    }), user)!;
+
+    const masked = applyAccessToDictionary(dictionary, decision) as typeof dictionary;
+
+    expect(masked.map((entry) => entry.sample)).toEqual(['***', '***', '***']);
+    expect(masked[1]).toMatchObject({ min: '***', max: '***' });
+  });
+
+  it('drops hidden columns from a version diff and masks raw aggregates', () => {
+    const diff: VersionDiff = {
+      contentChanged: true,
+      addedColumns: ['salary', 'bonus'],
+      removedColumns: [],
+      typeChanges: [{ column: 'salary', from: 'integer', to: 'decimal' }],
+      rowCount: { from: 2, to: 3, delta: 1, deltaPercent: 50 },
+      changedAggregates: [
+        { column: 'salary', changes: { max: { from: 9000, to: 12000, delta: 3000 } } },
+        { column: 'name', changes: { max: { from: 'Ali Saleh', to: 'Sara Omar', delta: null }, distinctCount: { from: 2, to: 3, delta: 1 } } },
+      ],
+    };
+    const decision = evaluateAccess(dataset({
+      accessPolicy: { columns: [{ column: 'salary', action: 'hide' }, { column: 'name', action: 'mask' }] },
+    }), user)!;
+
+    const masked = applyAccessToDiff(diff, decision);
+
+    expect(masked.addedColumns).toEqual(['bonus']);
+    expect(masked.typeChanges).toEqual([]);
+    expect(masked.changedAggregates).toEqual([
+      { column: 'name', changes: { max: { from: '***', to: '***', delta: null }, distinctCount: { from: 2, to: 3, delta: 1 } } },
+    ]);
+  });
+});
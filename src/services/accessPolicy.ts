@@ -0,0 +1,329 @@
+/**
+ * سياسات الوصول للبيانات - Dataset Access Policies
+ *
+ * تطبّق مستوى الحساسية (PUBLIC / INTERNAL / CONFIDENTIAL / RESTRICTED) حسب الدور وخطة الاشتراك،
+ * مع سياسة اختيارية لكل Dataset (Dataset.accessPolicy):
+ * - أعمدة تُحجب أو تُخفى لغير المستثنين
+ * - فلاتر صفوف تقيّد ما يراه غير المستثنين
+ * والأعمدة الشخصية المكتشفة (piiColumns) تُحجب دائماً لغير المخولين
+ * والبيانات الخاصة المرفوعة (ownerUserId) تظهر لمالكها والمشاركين فقط
+ * كل وصول لبيانات CONFIDENTIAL / RESTRICTED يُسجل في AuditLog
+ */
+
+import { z } from 'zod';
+import { prisma } from './database.js';
+import { matchesFilter, queryFilterSchema, QueryFilter } from './datasetQuery.js';
+import { canViewPII, maskValue, maskColumnProfiles, parsePiiColumns, PiiType } from './piiScanner.js';
+import { maskVersionDiff, VersionDiff } from './datasetVersioning.js';
+import { canAccessDataset } from './privateDatasets.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getEffectivePlan, planHasFeature, PlanKey } from '../config/plans.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type SensitivityLevel = 'PUBLIC' | 'INTERNAL' | 'CONFIDENTIAL' | 'RESTRICTED';
+export type DataAccessAction = 'VIEW' | 'PREVIEW' | 'QUERY' | 'EXPORT' | 'TIMESERIES' | 'JOIN';
+
+export type AccessPolicy = z.infer<typeof accessPolicySchema>;
+
+export interface Viewer {
+  userId?: string;
+  role?: string;
+  plan: PlanKey;
+}
+
+export interface PolicyDataset {
+  id: string;
+  sensitivityLevel: string | null;
+  accessPolicy: unknown;
+  piiColumns: unknown;
+  ownerUserId?: string | null;
+}
+
+export interface AccessDecision {
+  level: SensitivityLevel;
+  viewer: Viewer;
+  hiddenColumns: string[];
+  maskedColumns: { column: string; type?: PiiType }[];
+  rowFilters: QueryFilter[];
+}
+
+interface LevelRule {
+  authenticated: boolean;
+  roles?: string[]; // أدوار تفتح المستوى
+  feature?: string; // ميزة خطة تفتح المستوى
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+const LEVEL_RULES: Record<SensitivityLevel, LevelRule> = {
+  PUBLIC: { authenticated: false },
+  INTERNAL: { authenticated: true },
+  CONFIDENTIAL: { authenticated: true, roles: ['EXPERT', ...ADMIN_ROLES], feature: 'confidential_data' },
+  RESTRICTED: { authenticated: true, roles: ['EXPERT', ...ADMIN_ROLES] },
+};
+
+const AUDITED_LEVELS: SensitivityLevel[] = ['CONFIDENTIAL', 'RESTRICTED'];
+
+// حقول Dataset اللازمة لتقييم الوصول (تُضاف إلى select)
+export const POLICY_SELECT = {
+  sensitivityLevel: true,
+  accessPolicy: true,
+  piiColumns: true,
+  ownerUserId: true,
+} as const;
+
+const exemptionSchema = {
+  allowRoles: z.array(z.string().min(1)).max(10).optional(),
+  allowPlans: z.array(z.string().min(1)).max(10).optional(),
+};
+
+export const accessPolicySchema = z.object({
+  columns: z.array(z.object({
+    column: z.string().min(1),
+    action: z.enum(['mask', 'hide']),
+    ...exemptionSchema,
+  })).max(200).default([]),
+  rowFilters: z.array(z.object({
+    filters: z.array(queryFilterSchema).min(1).max(20),
+    description: z.string().max(500).optional(),
+    ...exemptionSchema,
+  })).max(20).default([]),
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function normalizeLevel(level: string | null | undefined): SensitivityLevel {
+  return level && level in LEVEL_RULES ? (level as SensitivityLevel) : 'PUBLIC';
+}
+
+export function parseAccessPolicy(value: unknown): AccessPolicy {
+  const parsed = accessPolicySchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : { columns: [], rowFilters: [] };
+}
+
+function isExempt(viewer: Viewer, rule: { allowRoles?: string[]; allowPlans?: string[] }): boolean {
+  if (viewer.role && ADMIN_ROLES.includes(viewer.role)) return true;
+  if (viewer.role && rule.allowRoles?.includes(viewer.role)) return true;
+  return !!viewer.userId && !!rule.allowPlans?.includes(viewer.plan);
+}
+
+function canAccessLevel(level: SensitivityLevel, viewer: Viewer): boolean {
+  const rule = LEVEL_RULES[level];
+  if (!rule.authenticated) return true;
+  if (!viewer.userId) return false;
+  if (!rule.roles && !rule.feature) return true;
+  if (viewer.role && rule.roles?.includes(viewer.role)) return true;
+  return !!rule.feature && planHasFeature(viewer.plan, rule.feature);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * المستخدم الحالي مع خطته الفعلية (الزائر = FREE)
+ */
+export async function resolveViewer(user?: { userId: string; role: string }): Promise<Viewer> {
+  if (!user) return { plan: 'FREE' };
+
+  const subscriber = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: { subscriptionPlan: true, subscriptionEnd: true, trialEndsAt: true },
+  });
+
+  return { userId: user.userId, role: user.role, plan: subscriber ? getEffectivePlan(subscriber) : 'FREE' };
+}
+
+/**
+ * تقييم صلاحية الوصول - null إذا كان الوصول ممنوعاً
+ */
+export function evaluateAccess(dataset: PolicyDataset, viewer: Viewer): AccessDecision | null {
+  const level = normalizeLevel(dataset.sensitivityLevel);
+  if (!canAccessLevel(level, viewer)) return null;
+
+  const policy = parseAccessPolicy(dataset.accessPolicy);
+  const restricted = policy.columns.filter((rule) => !isExempt(viewer, rule));
+  const hiddenColumns = restricted.filter((rule) => rule.action === 'hide').map((rule) => rule.column);
+
+  const maskedColumns: AccessDecision['maskedColumns'] = restricted
+    .filter((rule) => rule.action === 'mask')
+    .map((rule) => ({ column: rule.column }));
+
+  if (!canViewPII(viewer.role)) {
+    for (const pii of parsePiiColumns(dataset.piiColumns)) {
+      if (hiddenColumns.includes(pii.column)) continue;
+      const existing = maskedColumns.find((m) => m.column === pii.column);
+      if (existing) existing.type = pii.type;
+      else maskedColumns.push({ column: pii.column, type: pii.type });
+    }
+  }
+
+  const rowFilters = policy.rowFilters
+    .filter((rule) => !isExempt(viewer, rule))
+    .flatMap((rule) => rule.filters as QueryFilter[]);
+
+  return { level, viewer, hiddenColumns, maskedColumns, rowFilters };
+}
+
+/**
+ * تطبيق القرار على السجلات: فلترة الصفوف ثم إخفاء الأعمدة وحجبها
+ */
+export function applyAccessDecision<T extends Record<string, unknown>>(
+  records: T[],
+  decision: AccessDecision
+): { records: T[]; maskedColumns: string[]; hiddenColumns: string[]; filteredRows: number } {
+  const { hiddenColumns, maskedColumns, rowFilters } = decision;
+
+  const visible = rowFilters.length > 0
+    ? records.filter((row) => rowFilters.every((filter) => matchesFilter(row, filter)))
+    : records;
+
+  const output = hiddenColumns.length === 0 && maskedColumns.length === 0
+    ? visible
+    : visible.map((record) => {
+      const row: Record<string, unknown> = { ...record };
+      for (const column of hiddenColumns) delete row[column];
+      for (const { column, type } of maskedColumns) {
+        if (column in row) row[column] = maskValue(row[column], type);
+      }
+      return row as T;
+    });
+
+  return {
+    records: output,
+    maskedColumns: maskedColumns.map((m) => m.column),
+    hiddenColumns,
+    filteredRows: records.length - visible.length,
+  };
+}
+
+/**
+ * الأعمدة التي تُحجب قيمها الخام في الإحصائيات المحفوظة (القاموس وملخصات النسخ)
+ * الإحصائيات محسوبة على كل الصفوف، فمع فلاتر الصفوف تُحجب قيم كل الأعمدة
+ */
+function statsMasks(columns: string[], decision: AccessDecision): AccessDecision['maskedColumns'] {
+  if (decision.rowFilters.length === 0) return decision.maskedColumns;
+  const types = new Map(decision.maskedColumns.map((m) => [m.column, m.type]));
+  return columns.map((column) => ({ column, type: types.get(column) }));
+}
+
+/**
+ * تطبيق القرار على قاموس البيانات (dataDictionary): إخفاء الأعمدة وحجب العينات و min / max
+ */
+export function applyAccessToDictionary(dictionary: unknown, decision: AccessDecision): unknown {
+  if (!Array.isArray(dictionary)) return dictionary;
+  const visible = dictionary.filter((entry) => !decision.hiddenColumns.includes(entry?.name));
+  const columns = visible.map((entry) => entry?.name).filter((name): name is string => typeof name === 'string');
+  return maskColumnProfiles(visible, statsMasks(columns, decision));
+}
+
+/**
+ * تطبيق القرار على مقارنة نسختين
+ */
+export function applyAccessToDiff(diff: VersionDiff, decision: AccessDecision): VersionDiff {
+  const columns = diff.changedAggregates.map((entry) => entry.column);
+  return maskVersionDiff(diff, statsMasks(columns, decision), decision.hiddenColumns);
+}
+
+/**
+ * أسماء الأعمدة بعد إخفاء المحجوب
+ */
+export function visibleColumns(columns: string[], decision: AccessDecision): string[] {
+  return decision.hiddenColumns.length > 0
+    ? columns.filter((column) => !decision.hiddenColumns.includes(column))
+    : columns;
+}
+
+/**
+ * تسجيل الوصول لبيانات CONFIDENTIAL / RESTRICTED في AuditLog
+ */
+export async function recordDataAccess(
+  dataset: { id: string },
+  level: SensitivityLevel,
+  viewer: Viewer,
+  action: DataAccessAction,
+  allowed: boolean,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  if (!AUDITED_LEVELS.includes(level) || !viewer.userId) return;
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: viewer.userId,
+      action: `DATASET_DATA_${action}${allowed ? '' : '_DENIED'}`,
+      targetType: 'DATASET',
+      targetId: dataset.id,
+      details: JSON.stringify({ level, role: viewer.role, plan: viewer.plan, ...details }),
+    },
+  }).catch(() => {}); // non-critical
+}
+
+/**
+ * التحقق من صلاحية الوصول مع التسجيل - يرمي AppError (401 / 403 / 404) عند المنع
+ */
+export async function authorizeDatasetAccess(
+  dataset: PolicyDataset,
+  user: { userId: string; role: string } | undefined,
+  action: DataAccessAction
+): Promise<AccessDecision> {
+  // Private uploads are invisible to everyone but the owner, shared members and admins
+  if (!(await canAccessDataset(dataset, user))) {
+    throw new AppError('Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+  }
+
+  const viewer = await resolveViewer(user);
+  const decision = evaluateAccess(dataset, viewer);
+  const level = normalizeLevel(dataset.sensitivityLevel);
+
+  if (!decision) {
+    await recordDataAccess(dataset, level, viewer, action, false);
+
+    if (!viewer.userId) {
+      throw new AppError(
+        'Sign in to access this dataset',
+        'سجّل الدخول للوصول إلى مجموعة البيانات هذه',
+        401
+      );
+    }
+    throw new AppError(
+      `Your role or subscription plan does not allow access to ${level} data`,
+      'دورك أو خطة اشتراكك لا تسمح بالوصول إلى هذه البيانات',
+      403
+    );
+  }
+
+  await recordDataAccess(dataset, level, viewer, action, true, {
+    maskedColumns: decision.maskedColumns.map((m) => m.column),
+    hiddenColumns: decision.hiddenColumns,
+    rowFilters: decision.rowFilters.length,
+  });
+
+  return decision;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  accessPolicySchema,
+  parseAccessPolicy,
+  resolveViewer,
+  evaluateAccess,
+  applyAccessDecision,
+  applyAccessToDictionary,
+  applyAccessToDiff,
+  visibleColumns,
+  recordDataAccess,
+  authorizeDatasetAccess,
+  POLICY_SELECT,
+};
@@ -7,7 +7,10 @@
 import { config } from '../config/index.js';
 import { prisma } from './database.js';
 import { logger } from '../utils/logger.js';
-import { generateRealSignals } from './realSignalGenerator.js';
+import { generateAndSaveRealSignals } from './realSignalGenerator.js';
+import { saveSignalVersions, subjectFromTitle } from './signalLifecycle.js';
+import { getDatasetData } from './onDemandData.js';
+import { applyAccessDecision, AccessDecision } from './accessPolicy.js';
 
 // OpenAI API Configuration
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
@@ -117,7 +120,7 @@ export async function analyzeDatasets(): Promise<AnalysisResult | null> {
     // Check if OpenAI is available first (before loading data)
     if (!config.openaiApiKey || config.openaiApiKey === 'sk-your-openai-api-key') {
       logger.info('OpenAI not configured, using real data analysis');
-      return generateRealSignals();
+      return generateAndSaveRealSignals();
     }
 
     // OPTIMIZED: Load only 50 records with minimal data to save memory
@@ -139,7 +142,7 @@ export async function analyzeDatasets(): Promise<AnalysisResult | null> {
 
     if (recentRecords.length === 0) {
       logger.info('No data records, using real signal generator');
-      return generateRealSignals();
+      return generateAndSaveRealSignals();
     }
 
     // Group data by category (limit data size)
@@ -178,7 +181,7 @@ export async function analyzeDatasets(): Promise<AnalysisResult | null> {
     if (!response) {
       // NO MOCK DATA - Use real signal generator instead
       logger.warn('OpenAI call failed, falling back to real data analysis');
-      return generateRealSignals();
+      return generateAndSaveRealSignals();
     }
 
     // Parse response
@@ -187,7 +190,7 @@ export async function analyzeDatasets(): Promise<AnalysisResult | null> {
     // If parsing failed, fallback to real data analysis
     if (!analysis || !analysis.signals) {
       logger.warn('Failed to parse OpenAI response, falling back to real data analysis');
-      return generateRealSignals();
+      return generateAndSaveRealSignals();
     }
 
     // Save signals to database
@@ -298,36 +301,30 @@ function parseAnalysisResponse(response: string): AnalysisResult {
 // All signals must come from real data analysis
 
 /**
- * Save signals to database
+ * Save signals to database (deduplicated by signal identity)
  */
 async function saveSignals(signals: SignalData[]): Promise<void> {
-  for (const signal of signals) {
-    try {
-      await prisma.signal.create({
-        data: {
-          type: signal.type,
-          title: signal.title,
-          titleAr: signal.titleAr,
-          summary: signal.summary,
-          summaryAr: signal.summaryAr,
-          impactScore: signal.impactScore,
-          confidence: signal.confidence,
-          trend: signal.trend,
-          region: signal.region,
-          sector: signal.sector,
-          dataSource: 'AI_ANALYSIS',
-          details: JSON.stringify({
-            relatedDatasets: signal.relatedDatasets,
-            indicators: signal.indicators,
-            explanation: signal.explanation || null,
-          }),
-          isActive: true,
-        },
-      });
-    } catch (error) {
-      logger.error(`Error saving signal: ${signal.title}`, error);
-    }
-  }
+  await saveSignalVersions(
+    signals.map((signal) => ({
+      type: signal.type,
+      title: signal.title,
+      titleAr: signal.titleAr,
+      summary: signal.summary,
+      summaryAr: signal.summaryAr,
+      impactScore: signal.impactScore,
+      confidence: signal.confidence,
+      trend: signal.trend,
+      region: signal.region,
+      sector: signal.sector,
+      dataSource: 'AI_ANALYSIS',
+      subject: subjectFromTitle(signal.title),
+      details: {
+        relatedDatasets: signal.relatedDatasets,
+        indicators: signal.indicators,
+        explanation: signal.explanation || null,
+      },
+    }))
+  );
 }
 
 /**
@@ -354,8 +351,9 @@ export async function getSignalsByFilter(filter: {
 
 /**
  * Analyze a specific dataset
+ * العينة المرسلة إلى OpenAI تمر بقرار الوصول الخاص بالطالب (فلترة الصفوف وإخفاء الأعمدة وحجب PII)
  */
-export async function analyzeDataset(datasetId: string): Promise<SignalData[] | null> {
+export async function analyzeDataset(datasetId: string, access: AccessDecision): Promise<SignalData[] | null> {
   try {
     const dataset = await prisma.dataset.findUnique({
       where: { id: datasetId },
@@ -372,14 +370,20 @@ export async function analyzeDataset(datasetId: string): Promise<SignalData[] |
       take: 100,
     });
 
-    if (records.length === 0) {
+    // Datasets without stored records (on-demand / uploaded files) are sampled from the fetched data
+    const raw: Record<string, unknown>[] = records.length > 0
+      ? records.slice(0, 20).map(r => JSON.parse(r.data))
+      : (await getDatasetData(dataset.externalId, { limit: 20 }))?.records || [];
+    const sample = applyAccessDecision(raw, access).records;
+
+    if (sample.length === 0) {
       return [];
     }
 
     const prompt = `
 أنت محلل اقتصادي. حلل البيانات التالية من مجموعة بيانات "${dataset.nameAr}":
 
-${JSON.stringify(records.slice(0, 20).map(r => JSON.parse(r.data)), null, 2)}
+${JSON.stringify(sample, null, 2)}
 
 أعد قائمة بأهم 3 إشارات استثمارية بصيغة JSON:
 {
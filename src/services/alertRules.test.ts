@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Signal } from '@prisma/client';
+import {
+  matchesSignalConditions,
+  checkMetricCondition,
+  hiddenMetricColumns,
+  isPrivateAddress,
+  isAllowedWebhookUrl,
+  metricConditionsSchema,
+  MetricConditions,
+} from './alertRules.js';
+import { evaluateAccess, PolicyDataset, Viewer } from './accessPolicy.js';
+
+vi.mock('./database.js', () => ({ prisma: {} }));
+vi.mock('./onDemandData.js', () => ({ getDatasetData: vi.fn(), MAX_FULL_READ_ROWS: 100000 }));
+vi.mock('./email.js', () => ({ sendAlertEmail: vi.fn() }));
+vi.mock('../utils/notify.js', () => ({ notify: vi.fn() }));
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function signal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    id: 'sig-1',
+    type: 'RISK',
+    trend: 'DOWN',
+    sector: 'Real Estate',
+    region: 'Riyadh',
+    impactScore: 75,
+    confidence: 80,
+    dataSource: 'signal_engine',
+    ...overrides,
+  } as Signal;
+}
+
+const metric = (conditions: Partial<MetricConditions>): MetricConditions =>
+  metricConditionsSchema.parse({ measure: 'sales', direction: 'drop', thresholdPercent: 10, ...conditions });
+
+describe('matchesSignalConditions', () => {
+  it('matches everything when no conditions are set', () => {
+    expect(matchesSignalConditions(signal(), {})).toBe(true);
+  });
+
+  it('compares types, trends, sectors and regions, the last two ignoring case', () => {
+    expect(matchesSignalConditions(signal(), { types: ['RISK'], trends: ['DOWN'], sectors: ['real estate'], regions: ['RIYADH'] })).toBe(true);
+    expect(matchesSignalConditions(signal(), { types: ['OPPORTUNITY'] })).toBe(false);
+    expect(matchesSignalConditions(signal(), { sectors: ['Retail'] })).toBe(false);
+    expect(matchesSignalConditions(signal({ region: null }), { regions: ['Riyadh'] })).toBe(false);
+  });
+
+  it('requires impact above and confidence at least the minimum', () => {
+    expect(matchesSignalConditions(signal(), { minImpact: 75 })).toBe(false);
+    expect(matchesSignalConditions(signal(), { minImpact: 70 })).toBe(true);
+    expect(matchesSignalConditions(signal(), { minConfidence: 80 })).toBe(true);
+    expect(matchesSignalConditions(signal(), { minConfidence: 81 })).toBe(false);
+  });
+
+  it('tells AI signals from rule-based ones by their data source', () => {
+    expect(matchesSignalConditions(signal({ dataSource: 'AI_ANALYSIS' }), { generators: ['AI'] })).toBe(true);
+    expect(matchesSignalConditions(signal(), { generators: ['AI'] })).toBe(false);
+    expect(matchesSignalConditions(signal(), { generators: ['RULE_BASED'] })).toBe(true);
+  });
+});
+
+describe('checkMetricCondition', () => {
+  const records = [
+    { year: '2022', region: 'الرياض', sales: 100 },
+    { year: '2023', region: 'الرياض', sales: 80 },
+    { year: '2022', region: 'جدة', sales: 50 },
+    { year: '2023', region: 'جدة', sales: 60 },
+  ];
+  const columns = ['year', 'region', 'sales'];
+
+  it('triggers when the change passes the threshold in the rule direction', () => {
+    expect(checkMetricCondition(records, columns, metric({ direction: 'drop', thresholdPercent: 5 }))).toMatchObject({
+      period: '2023',
+      previousPeriod: '2022',
+      current: 140,
+      previous: 150,
+      changePercent: -6.67,
+    });
+    expect(checkMetricCondition(records, columns, metric({ direction: 'drop', thresholdPercent: 10 }))).toBeNull();
+    expect(checkMetricCondition(records, columns, metric({ direction: 'rise', thresholdPercent: 5 }))).toBeNull();
+    expect(checkMetricCondition(records, columns, metric({ direction: 'any', thresholdPercent: 5 }))).not.toBeNull();
+  });
+
+  it('evaluates a single series of the dimension', () => {
+    const riyadh = metric({ dimension: 'region', seriesKey: 'الرياض', thresholdPercent: 20 });
+    const jeddah = metric({ dimension: 'region', seriesKey: 'جدة', direction: 'rise', thresholdPercent: 20 });
+
+    expect(checkMetricCondition(records, columns, riyadh)?.changePercent).toBe(-20);
+    expect(checkMetricCondition(records, columns, jeddah)?.changePercent).toBe(20);
+    expect(checkMetricCondition(records, columns, metric({ dimension: 'region', seriesKey: 'الدمام' }))).toBeNull();
+  });
+
+  it('returns null instead of throwing when the series cannot be built', () => {
+    expect(checkMetricCondition(records, columns, metric({ measure: 'missing' }))).toBeNull();
+    expect(checkMetricCondition([{ name: 'a', sales: 1 }], ['name', 'sales'], metric({}))).toBeNull();
+  });
+});
+
+describe('hiddenMetricColumns', () => {
+  it('lists the condition columns the owner cannot see', () => {
+    const dataset: PolicyDataset = {
+      id: 'ds-1',
+      sensitivityLevel: 'PUBLIC',
+      accessPolicy: { columns: [{ column: 'sales', action: 'hide' }] },
+      piiColumns: null,
+    };
+    const owner: Viewer = { userId: 'u-1', role: 'USER', plan: 'FREE' };
+    const access = evaluateAccess(dataset, owner)!;
+
+    expect(hiddenMetricColumns(['year', 'region', 'sales'], metric({ dimension: 'region' }), access)).toEqual(['sales']);
+    expect(hiddenMetricColumns(['year', 'region'], metric({ measure: 'region' }), access)).toEqual([]);
+  });
+});
+
+describe('webhook address checks', () => {
+  it('treats loopback, private, link-local, mapped and invalid addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '::1', 'fd00::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('2001:4860:4860::8888')).toBe(false);
+  });
+
+  it('only allows HTTPS URLs to public hosts', async () => {
+    expect(await isAllowedWebhookUrl('https://8.8.8.8/hook')).toBe(true);
+    expect(await isAllowedWebhookUrl('http://8.8.8.8/hook')).toBe(false);
+    expect(await isAllowedWebhookUrl('https://127.0.0.1/hook')).toBe(false);
+    expect(await isAllowedWebhookUrl('https://[::1]/hook')).toBe(false);
+    expect(await isAllowedWebhookUrl('https://metadata.internal/hook')).toBe(false);
+    expect(await isAllowedWebhookUrl('not a url')).toBe(false);
+  });
+});
@@ -0,0 +1,588 @@
+/**
+ * قواعد التنبيه - User Alert Rules
+ *
+ * يحدد المستخدم شروطاً على الإشارات ("أي إشارة RISK في العقارات بأثر > 70")
+ * أو على مؤشر في Dataset ("العمود Y في Dataset X ينخفض أكثر من 10% سنوياً").
+ * تُقيَّم القواعد عند حفظ الإشارات وعند تحديث الـ Datasets، وتُرسل عبر
+ * الإشعارات داخل التطبيق والبريد والـ webhook مع الكتم والتأجيل وحد الإرسال
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { z } from 'zod';
+import { AlertRule, Signal } from '@prisma/client';
+import { prisma } from './database.js';
+import { onDatasetEvent, DatasetUpdatedEvent } from './datasetEvents.js';
+import { getDatasetData, MAX_FULL_READ_ROWS } from './onDemandData.js';
+import { extractTimeSeries, TimeSeriesError } from './timeSeries.js';
+import { periodChange, yoyLag } from './signalEngine.js';
+import { sendAlertEmail } from './email.js';
+import {
+  authorizeDatasetAccess,
+  applyAccessDecision,
+  visibleColumns,
+  POLICY_SELECT,
+  AccessDecision,
+} from './accessPolicy.js';
+import { getEffectivePlan, planHasFeature } from '../config/plans.js';
+import { notify } from '../utils/notify.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Schemas & Types
+// ═══════════════════════════════════════════════════════════════════
+
+export const ALERT_CHANNELS = ['in_app', 'email', 'webhook'] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const signalConditionsSchema = z.object({
+  types: z.array(z.enum(['OPPORTUNITY', 'RISK', 'TREND', 'ALERT'])).max(4).optional(),
+  sectors: z.array(z.string().min(1).max(100)).max(20).optional(),
+  regions: z.array(z.string().min(1).max(100)).max(20).optional(),
+  trends: z.array(z.enum(['UP', 'DOWN', 'STABLE'])).max(3).optional(),
+  generators: z.array(z.enum(['AI', 'RULE_BASED'])).max(2).optional(),
+  minImpact: z.number().min(0).max(100).optional(),
+  minConfidence: z.number().min(0).max(100).optional(),
+});
+
+export const metricConditionsSchema = z.object({
+  measure: z.string().min(1).max(200),
+  aggregate: z.enum(['sum', 'avg', 'min', 'max', 'count']).optional(),
+  dimension: z.string().min(1).max(200).optional(),
+  seriesKey: z.string().min(1).max(200).optional(), // قيمة البُعد (مثلاً منطقة الرياض)
+  comparison: z.enum(['yoy', 'previous']).default('yoy'),
+  direction: z.enum(['drop', 'rise', 'any']),
+  thresholdPercent: z.number().positive().max(10000),
+});
+
+export type SignalConditions = z.infer<typeof signalConditionsSchema>;
+export type MetricConditions = z.infer<typeof metricConditionsSchema>;
+
+export interface AlertPayload {
+  subjectKey: string;
+  title: string;
+  titleAr: string;
+  message: string;
+  messageAr: string;
+  link?: string;
+  data: Record<string, unknown>;
+}
+
+type DeliveryResult = 'sent' | 'failed' | 'skipped';
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const USER_HOURLY_LIMIT = 30; // حد عام لكل مستخدم عبر كل قواعده
+const WEBHOOK_TIMEOUT_MS = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const PRIVATE_HOST_PATTERN = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+// Loopback, private, link-local, CGNAT and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:7f00:1) are matched against the IPv4 subnets too
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * هل العنوان (IPv4 / IPv6) داخلي أو محجوز
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * فحص شكل الرابط: HTTPS، واسم المضيف ليس داخلياً، والعنوان الحرفي (إن وُجد) عام
+ * يرجع اسم المضيف أو null
+ */
+function publicWebhookHost(value: string): string | null {
+  try {
+    const url = new URL(value);
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (url.protocol !== 'https:' || !host || PRIVATE_HOST_PATTERN.test(host)) return null;
+    if (net.isIP(host) && isPrivateAddress(host)) return null;
+    return host;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * الـ webhook يجب أن يكون HTTPS لعنوان عام: كل العناوين التي يُحل إليها الاسم عامة
+ */
+export async function isAllowedWebhookUrl(value: string): Promise<boolean> {
+  const host = publicWebhookHost(value);
+  if (!host) return false;
+  if (net.isIP(host)) return true;
+
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every((entry) => !isPrivateAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * حل الاسم عند الاتصال ورفض العناوين الداخلية (يمنع تغيير DNS بين التحقق والإرسال)
+ */
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`));
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as unknown as net.LookupFunction;
+
+const webhookAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function ruleChannels(rule: AlertRule): AlertChannel[] {
+  const channels = Array.isArray(rule.channels) ? (rule.channels as string[]) : [];
+  return channels.filter((c): c is AlertChannel => (ALERT_CHANNELS as readonly string[]).includes(c));
+}
+
+/**
+ * أعمدة الشرط (المقياس والبُعد) التي يخفيها قرار الوصول عن صاحب القاعدة
+ */
+export function hiddenMetricColumns(columns: string[], conditions: MetricConditions, access: AccessDecision): string[] {
+  const visible = visibleColumns(columns, access);
+  return [conditions.measure, conditions.dimension].filter(
+    (column): column is string => !!column && columns.includes(column) && !visible.includes(column)
+  );
+}
+
+function includesIgnoreCase(list: string[] | undefined, value: string | null): boolean {
+  if (!list || list.length === 0) return true;
+  if (!value) return false;
+  return list.some((item) => item.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * القواعد القابلة للإطلاق الآن: مفعّلة وغير مكتومة وغير مؤجلة
+ */
+function liveRulesWhere(now: Date) {
+  return {
+    isActive: true,
+    mutedAt: null,
+    OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+  };
+}
+
+/**
+ * هل تطابق الإشارة شروط القاعدة
+ */
+export function matchesSignalConditions(signal: Signal, conditions: SignalConditions): boolean {
+  const generator = signal.dataSource === 'AI_ANALYSIS' ? 'AI' : 'RULE_BASED';
+  return (
+    (!conditions.types?.length || conditions.types.includes(signal.type as never)) &&
+    (!conditions.trends?.length || conditions.trends.includes(signal.trend as never)) &&
+    (!conditions.generators?.length || conditions.generators.includes(generator)) &&
+    includesIgnoreCase(conditions.sectors, signal.sector) &&
+    includesIgnoreCase(conditions.regions, signal.region) &&
+    (conditions.minImpact === undefined || signal.impactScore > conditions.minImpact) &&
+    (conditions.minConfidence === undefined || signal.confidence >= conditions.minConfidence)
+  );
+}
+
+function signalPayload(signal: Signal): AlertPayload {
+  return {
+    subjectKey: signal.id,
+    title: `${signal.type}: ${signal.title}`,
+    titleAr: `${signal.type}: ${signal.titleAr}`,
+    message: `${signal.summary} (impact ${Math.round(signal.impactScore)}, confidence ${Math.round(signal.confidence)})`,
+    messageAr: `${signal.summaryAr} (الأثر ${Math.round(signal.impactScore)}، الثقة ${Math.round(signal.confidence)})`,
+    link: `/signals/${signal.id}`,
+    data: {
+      signalId: signal.id,
+      type: signal.type,
+      trend: signal.trend,
+      sector: signal.sector,
+      region: signal.region,
+      impactScore: signal.impactScore,
+      confidence: signal.confidence,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════════════
+
+async function postWebhook(rule: AlertRule, payload: AlertPayload, triggeredAt: Date): Promise<DeliveryResult> {
+  if (!rule.webhookUrl || !publicWebhookHost(rule.webhookUrl)) return 'skipped';
+
+  const body = JSON.stringify({
+    event: 'alert.triggered',
+    rule: { id: rule.id, name: rule.name, kind: rule.kind },
+    alert: payload,
+    triggeredAt: triggeredAt.toISOString(),
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (rule.webhookSecret) {
+    headers['X-Alert-Signature'] = `sha256=${crypto.createHmac('sha256', rule.webhookSecret).update(body).digest('hex')}`;
+  }
+
+  try {
+    // The agent re-validates the resolved address at connect time; no proxy so the check isn't bypassed
+    await axios.post(rule.webhookUrl, body, {
+      headers,
+      timeout: WEBHOOK_TIMEOUT_MS,
+      maxRedirects: 0,
+      httpsAgent: webhookAgent,
+      proxy: false,
+    });
+    return 'sent';
+  } catch (error: any) {
+    logger.warn(`Alert webhook failed for rule ${rule.id}: ${error?.response?.status || error?.message}`);
+    return 'failed';
+  }
+}
+
+/**
+ * إرسال التنبيه عبر قنوات القاعدة
+ */
+export async function deliverAlert(
+  rule: AlertRule,
+  payload: AlertPayload,
+  user: { name: string; email: string; emailVerified: boolean },
+  options: { test?: boolean } = {}
+): Promise<Record<AlertChannel, DeliveryResult>> {
+  const channels = ruleChannels(rule);
+  const now = new Date();
+  const deliveries: Record<AlertChannel, DeliveryResult> = { in_app: 'skipped', email: 'skipped', webhook: 'skipped' };
+
+  if (channels.includes('in_app')) {
+    await notify({
+      userId: rule.userId,
+      type: 'alert',
+      title: payload.title,
+      titleAr: payload.titleAr,
+      message: payload.message,
+      messageAr: payload.messageAr,
+      data: { ruleId: rule.id, ruleName: rule.name, link: payload.link, test: options.test || undefined, ...payload.data },
+    });
+    deliveries.in_app = 'sent';
+  }
+
+  if (channels.includes('email') && user.emailVerified) {
+    const sent = await sendAlertEmail(user.email, user.name, {
+      ruleName: rule.name,
+      titleAr: payload.titleAr,
+      messageAr: payload.messageAr,
+      link: payload.link,
+    });
+    deliveries.email = sent ? 'sent' : 'failed';
+  }
+
+  if (channels.includes('webhook')) {
+    deliveries.webhook = await postWebhook(rule, { ...payload, data: { ...payload.data, test: options.test || undefined } }, now);
+  }
+
+  return deliveries;
+}
+
+/**
+ * إطلاق قاعدة لموضوع معيّن: منع التكرار، ثم حد الإرسال، ثم الإرسال والتسجيل
+ */
+async function fireRule(rule: AlertRule, payload: AlertPayload): Promise<'delivered' | 'rate_limited' | 'skipped'> {
+  const now = new Date();
+
+  const existing = await prisma.alertEvent.findFirst({
+    where: { ruleId: rule.id, subjectKey: payload.subjectKey },
+    select: { id: true },
+  });
+  if (existing) return 'skipped';
+
+  const [ruleToday, userLastHour] = await Promise.all([
+    prisma.alertEvent.count({
+      where: { ruleId: rule.id, status: 'delivered', createdAt: { gte: new Date(now.getTime() - DAY_MS) } },
+    }),
+    prisma.alertEvent.count({
+      where: { userId: rule.userId, status: 'delivered', createdAt: { gte: new Date(now.getTime() - HOUR_MS) } },
+    }),
+  ]);
+
+  const { subjectKey, ...stored } = payload;
+
+  if (ruleToday >= rule.maxPerDay || userLastHour >= USER_HOURLY_LIMIT) {
+    await prisma.alertEvent.create({
+      data: { ruleId: rule.id, userId: rule.userId, subjectKey, status: 'rate_limited', payload: stored as any },
+    });
+    return 'rate_limited';
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: rule.userId },
+    select: { name: true, email: true, emailVerified: true },
+  });
+  if (!user) return 'skipped';
+
+  const deliveries = await deliverAlert(rule, payload, user);
+
+  await prisma.$transaction([
+    prisma.alertEvent.create({
+      data: { ruleId: rule.id, userId: rule.userId, subjectKey, status: 'delivered', payload: stored as any, deliveries },
+    }),
+    prisma.alertRule.update({
+      where: { id: rule.id },
+      data: { lastTriggeredAt: now, triggerCount: { increment: 1 } },
+    }),
+  ]);
+  return 'delivered';
+}
+
+/**
+ * استبعاد قواعد المستخدمين الذين لم تعد خطتهم تتضمن instant_alerts
+ */
+async function filterEntitledRules(rules: AlertRule[]): Promise<AlertRule[]> {
+  if (rules.length === 0) return rules;
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(rules.map((r) => r.userId))] }, isActive: true },
+    select: { id: true, role: true, subscriptionPlan: true, subscriptionEnd: true, trialEndsAt: true },
+  });
+
+  const entitled = new Set(
+    users
+      .filter((u) => u.role === 'ADMIN' || u.role === 'SUPER_ADMIN' || planHasFeature(getEffectivePlan(u), 'instant_alerts'))
+      .map((u) => u.id)
+  );
+  return rules.filter((r) => entitled.has(r.userId));
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تقييم قواعد الإشارات على الإشارات الجديدة (المُنشأة أو النسخ الجديدة)
+ */
+export async function evaluateSignalAlerts(signals: Signal[]): Promise<{ delivered: number; rateLimited: number }> {
+  const counts = { delivered: 0, rateLimited: 0 };
+  if (signals.length === 0) return counts;
+
+  const rules = await filterEntitledRules(
+    await prisma.alertRule.findMany({ where: { kind: 'SIGNAL', ...liveRulesWhere(new Date()) } })
+  );
+
+  for (const rule of rules) {
+    const parsed = signalConditionsSchema.safeParse(rule.conditions);
+    if (!parsed.success) continue;
+
+    for (const signal of signals.filter((s) => matchesSignalConditions(s, parsed.data))) {
+      try {
+        const result = await fireRule(rule, signalPayload(signal));
+        if (result === 'delivered') counts.delivered++;
+        if (result === 'rate_limited') counts.rateLimited++;
+      } catch (error) {
+        logger.error(`Error firing alert rule ${rule.id}:`, error);
+      }
+    }
+  }
+
+  if (counts.delivered + counts.rateLimited > 0) {
+    logger.info(`🔔 Signal alerts: ${counts.delivered} delivered, ${counts.rateLimited} rate limited`);
+  }
+  return counts;
+}
+
+/**
+ * حساب تغير المؤشر في آخر فترة ومقارنته بعتبة القاعدة
+ * يُرجع null إذا لم يتحقق الشرط أو تعذر الحساب
+ */
+export function checkMetricCondition(
+  records: Record<string, unknown>[],
+  columns: string[],
+  conditions: MetricConditions
+): { period: string; previousPeriod: string; current: number; previous: number; changePercent: number } | null {
+  let result;
+  try {
+    result = extractTimeSeries(records, columns, {
+      measure: conditions.measure,
+      aggregate: conditions.aggregate,
+      dimension: conditions.dimension,
+    });
+  } catch (error) {
+    if (error instanceof TimeSeriesError) return null;
+    throw error;
+  }
+
+  const series = result.series.find((s) => s.key === (conditions.seriesKey || 'total'));
+  if (!series) return null;
+
+  const lag = conditions.comparison === 'yoy' ? yoyLag(result.granularity) : 1;
+  if (!lag) return null;
+
+  const points = series.points
+    .filter((p): p is typeof p & { value: number } => p.value !== null)
+    .map((p) => ({ period: p.period, value: p.value }));
+  const change = periodChange(points, result.granularity, lag);
+  if (!change) return null;
+
+  const { changePercent } = change;
+  const triggered =
+    (conditions.direction === 'drop' && changePercent <= -conditions.thresholdPercent) ||
+    (conditions.direction === 'rise' && changePercent >= conditions.thresholdPercent) ||
+    (conditions.direction === 'any' && Math.abs(changePercent) >= conditions.thresholdPercent);
+
+  return triggered ? change : null;
+}
+
+/**
+ * تقييم قواعد المؤشرات المرتبطة بـ Dataset بعد تحديثه
+ * كل قاعدة تُقيَّم على البيانات كما يراها صاحبها (QUERY): فلاتر الصفوف والحجب والإخفاء
+ */
+export async function evaluateDatasetAlerts(
+  datasetId: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<{ delivered: number; rateLimited: number }> {
+  const counts = { delivered: 0, rateLimited: 0 };
+
+  const rules = await filterEntitledRules(
+    await prisma.alertRule.findMany({ where: { kind: 'DATASET_METRIC', datasetId, ...liveRulesWhere(new Date()) } })
+  );
+  if (rules.length === 0) return counts;
+
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    select: { id: true, externalId: true, name: true, nameAr: true, recordCount: true, ...POLICY_SELECT },
+  });
+  if (!dataset) return counts;
+
+  // Metric series are computed on the full data: skip datasets above the in-memory cap
+  if ((dataset.recordCount || 0) > MAX_FULL_READ_ROWS) {
+    logger.warn(`⚠️ Skipping metric alerts for ${dataset.externalId}: ${dataset.recordCount} rows exceed ${MAX_FULL_READ_ROWS}`);
+    return counts;
+  }
+
+  // Access is re-checked per rule owner: sensitivity level, private sharing, row filters and masks may have changed
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(rules.map((r) => r.userId))] } },
+    select: { id: true, role: true },
+  });
+  const decisions = new Map<string, AccessDecision>();
+  for (const user of users) {
+    const access = await authorizeDatasetAccess(dataset, { userId: user.id, role: user.role }, 'QUERY').catch(() => null);
+    if (access) decisions.set(user.id, access);
+  }
+  if (decisions.size === 0) return counts;
+
+  const data = await getDatasetData(dataset.externalId, { forceRefresh: options.forceRefresh }).catch((error) => {
+    logger.warn(`⚠️ Metric alerts skipped for ${dataset.externalId}: ${error.message}`);
+    return null;
+  });
+  if (!data) return counts;
+
+  const views = new Map<string, { records: Record<string, unknown>[]; columns: string[] }>();
+
+  for (const rule of rules) {
+    const access = decisions.get(rule.userId);
+    if (!access) continue;
+
+    const parsed = metricConditionsSchema.safeParse(rule.conditions);
+    if (!parsed.success) continue;
+    const conditions = parsed.data;
+    if (hiddenMetricColumns(data.columns, conditions, access).length > 0) continue;
+
+    try {
+      let view = views.get(rule.userId);
+      if (!view) {
+        view = { records: applyAccessDecision(data.records, access).records, columns: visibleColumns(data.columns, access) };
+        views.set(rule.userId, view);
+      }
+
+      const change = checkMetricCondition(view.records, view.columns, conditions);
+      if (!change) continue;
+
+      const series = conditions.seriesKey ? ` (${conditions.seriesKey})` : '';
+      const sign = change.changePercent > 0 ? '+' : '';
+      const result = await fireRule(rule, {
+        subjectKey: [dataset.id, conditions.measure, conditions.seriesKey || 'total', conditions.comparison, change.period].join('|'),
+        title: `${dataset.name}: ${conditions.measure}${series} ${sign}${change.changePercent}%`,
+        titleAr: `${dataset.nameAr}: ${conditions.measure}${series} ${sign}${change.changePercent}%`,
+        message: `${conditions.measure}${series} changed ${sign}${change.changePercent}% in ${change.period} vs ${change.previousPeriod} (${change.previous} → ${change.current}).`,
+        messageAr: `تغيّر ${conditions.measure}${series} بنسبة ${sign}${change.changePercent}% في ${change.period} مقارنة بـ ${change.previousPeriod} (${change.previous} ← ${change.current}).`,
+        link: `/datasets/${dataset.id}`,
+        data: { datasetId: dataset.id, ...conditions, ...change },
+      });
+      if (result === 'delivered') counts.delivered++;
+      if (result === 'rate_limited') counts.rateLimited++;
+    } catch (error) {
+      logger.error(`Error evaluating alert rule ${rule.id}:`, error);
+    }
+  }
+
+  if (counts.delivered + counts.rateLimited > 0) {
+    logger.info(`🔔 Dataset alerts for ${dataset.externalId}: ${counts.delivered} delivered, ${counts.rateLimited} rate limited`);
+  }
+  return counts;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Registration
+// ═══════════════════════════════════════════════════════════════════
+
+let registered = false;
+
+/**
+ * الاشتراك في أحداث تحديث الـ Datasets (مرة واحدة عند تشغيل الخادم)
+ */
+export function registerAlertRuleEvaluation(): void {
+  if (registered) return;
+  registered = true;
+  onDatasetEvent('dataset.updated', async (event: DatasetUpdatedEvent) => {
+    // Sync events only compared metadata / validators: fetch the new content.
+    // Schema events come from a fresh data fetch already
+    await evaluateDatasetAlerts(event.datasetId, { forceRefresh: !event.changes.schema });
+  });
+  logger.info('🔔 Alert rule evaluation registered');
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  evaluateSignalAlerts,
+  evaluateDatasetAlerts,
+  checkMetricCondition,
+  matchesSignalConditions,
+  deliverAlert,
+  hiddenMetricColumns,
+  isPrivateAddress,
+  isAllowedWebhookUrl,
+  generateWebhookSecret,
+  registerAlertRuleEvaluation,
+};
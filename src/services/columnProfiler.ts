@@ -0,0 +1,272 @@
+/**
+ * خدمة تحليل الأعمدة - Column Profiler
+ *
+ * تستنتج نوع كل عمود (رقم صحيح، عشري، تاريخ، تاريخ هجري، تصنيف، نص)
+ * وتحسب إحصائياته، ثم تحفظ النتيجة في dataDictionary و columns
+ */
+
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { toNumber, isEmptyValue } from './datasetQuery.js';
+import { parsePiiColumns, PiiColumn, PiiType } from './piiScanner.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type ColumnType = 'integer' | 'decimal' | 'date' | 'hijri-date' | 'category' | 'text' | 'empty';
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  description: string | null;
+  nullable: boolean;
+  sample: unknown;
+  nullRatio: number;
+  distinctCount: number;
+  conformance: number; // نسبة القيم المطابقة للنوع المستنتج (0-1)
+  min: number | string | null;
+  max: number | string | null;
+  sampleValues: unknown[];
+  pii?: PiiType; // عمود شخصي: لا تُحفظ عيناته ولا min / max
+  inferred: true;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_PROFILED_ROWS = 50000;
+const SAMPLE_VALUES = 5;
+const TYPE_THRESHOLD = 0.9; // 90% من القيم يجب أن تطابق النوع
+const CATEGORY_MAX_DISTINCT = 50;
+const CATEGORY_MAX_RATIO = 0.5;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+const HIJRI_PATTERN = /^(1[34]\d{2})[-/.](\d{1,2})[-/.](\d{1,2})\s*(هـ|ه)?$|^(\d{1,2})[-/.](\d{1,2})[-/.](1[34]\d{2})\s*(هـ|ه)?$/;
+const ISO_DATE_PATTERN = /^(19|20|21)\d{2}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DMY_DATE_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.]((19|20|21)\d{2})$/;
+
+function normalizeDigits(value: string): string {
+  return value.replace(/[٠-٩۰-۹]/g, (d) => String(d.charCodeAt(0) & 0xf));
+}
+
+/**
+ * تحويل التاريخ الهجري إلى صيغة موحدة YYYY-MM-DD (بدون تحويل للميلادي)
+ */
+export function parseHijriDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = normalizeDigits(value.trim()).match(HIJRI_PATTERN);
+  if (!match) return null;
+
+  const [year, month, day] = match[1]
+    ? [match[1], match[2], match[3]]
+    : [match[7], match[6], match[5]];
+
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 30) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * تحويل التاريخ الميلادي إلى صيغة ISO (YYYY-MM-DD)
+ */
+export function parseGregorianDate(value: unknown): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  if (typeof value !== 'string') return null;
+
+  const str = normalizeDigits(value.trim());
+
+  if (ISO_DATE_PATTERN.test(str)) {
+    const time = Date.parse(str);
+    return isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+  }
+
+  const dmy = str.match(DMY_DATE_PATTERN);
+  if (dmy) {
+    const [, day, month, year] = dmy;
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+function sampleRows(records: Record<string, unknown>[]): Record<string, unknown>[] {
+  if (records.length <= MAX_PROFILED_ROWS) return records;
+  const step = records.length / MAX_PROFILED_ROWS;
+  const sampled: Record<string, unknown>[] = [];
+  for (let i = 0; i < MAX_PROFILED_ROWS; i++) {
+    sampled.push(records[Math.floor(i * step)]);
+  }
+  return sampled;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تحليل عمود واحد
+ * للأعمدة الشخصية لا تُحفظ القيم الخام (العينات و min / max) في القاموس أو ملخص النسخ
+ */
+export function profileColumn(name: string, values: unknown[], pii?: PiiType): ColumnProfile {
+  const profile = inferColumnProfile(name, values);
+  return pii ? { ...profile, sample: null, sampleValues: [], min: null, max: null, pii } : profile;
+}
+
+function inferColumnProfile(name: string, values: unknown[]): ColumnProfile {
+  const present = values.filter((v) => !isEmptyValue(v));
+  const nullRatio = values.length > 0 ? (values.length - present.length) / values.length : 0;
+  const distinct = new Set(present.map((v) => String(v).trim()));
+
+  const base = {
+    name,
+    description: null,
+    nullable: nullRatio > 0,
+    sample: present[0] ?? null,
+    nullRatio: Math.round(nullRatio * 10000) / 10000,
+    distinctCount: distinct.size,
+    sampleValues: [...distinct].slice(0, SAMPLE_VALUES),
+    inferred: true as const,
+  };
+
+  if (present.length === 0) {
+    return { ...base, type: 'empty', conformance: 0, min: null, max: null };
+  }
+
+  // 1. Numbers
+  const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+  const numericRatio = numbers.length / present.length;
+
+  if (numericRatio >= TYPE_THRESHOLD) {
+    const integers = numbers.filter((n) => Number.isInteger(n)).length;
+    const isInteger = integers === numbers.length;
+    return {
+      ...base,
+      type: isInteger ? 'integer' : 'decimal',
+      conformance: Math.round(numericRatio * 10000) / 10000,
+      min: numbers.reduce((a, b) => (b < a ? b : a), numbers[0]),
+      max: numbers.reduce((a, b) => (b > a ? b : a), numbers[0]),
+    };
+  }
+
+  // 2. Hijri dates
+  const hijri = present.map(parseHijriDate).filter((d): d is string => d !== null);
+  if (hijri.length / present.length >= TYPE_THRESHOLD) {
+    const sorted = [...hijri].sort();
+    return {
+      ...base,
+      type: 'hijri-date',
+      conformance: Math.round((hijri.length / present.length) * 10000) / 10000,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+    };
+  }
+
+  // 3. Gregorian dates
+  const dates = present.map(parseGregorianDate).filter((d): d is string => d !== null);
+  if (dates.length / present.length >= TYPE_THRESHOLD) {
+    const sorted = [...dates].sort();
+    return {
+      ...base,
+      type: 'date',
+      conformance: Math.round((dates.length / present.length) * 10000) / 10000,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+    };
+  }
+
+  // 4. Category vs free text
+  const isCategory = distinct.size <= CATEGORY_MAX_DISTINCT && distinct.size / present.length <= CATEGORY_MAX_RATIO;
+
+  return {
+    ...base,
+    type: isCategory ? 'category' : 'text',
+    conformance: 1,
+    min: null,
+    max: null,
+  };
+}
+
+/**
+ * تحليل كل الأعمدة في مجموعة سجلات
+ */
+export function profileColumns(
+  records: Record<string, unknown>[],
+  columns: string[] = records.length > 0 ? Object.keys(records[0]) : [],
+  piiColumns: PiiColumn[] = []
+): ColumnProfile[] {
+  const rows = sampleRows(records);
+  const piiTypes = new Map(piiColumns.map((c) => [c.column, c.type]));
+  return columns.map((column) => profileColumn(column, rows.map((r) => r[column]), piiTypes.get(column)));
+}
+
+/**
+ * تحليل الأعمدة وحفظ القاموس في قاعدة البيانات
+ * يحافظ على الأوصاف المُدخلة يدوياً من الخبراء
+ * الأعمدة الشخصية: نتائج الفحص الحالي مع المكتشفة سابقاً (Dataset.piiColumns)
+ */
+export async function updateDataDictionary(
+  externalId: string,
+  records: Record<string, unknown>[],
+  columns: string[],
+  piiColumns: PiiColumn[] = []
+): Promise<ColumnProfile[] | null> {
+  try {
+    const dataset = await prisma.dataset.findUnique({
+      where: { externalId },
+      select: { id: true, dataDictionary: true, piiColumns: true },
+    });
+
+    if (!dataset) return null;
+
+    const profiles = profileColumns(records, columns, [...parsePiiColumns(dataset.piiColumns), ...piiColumns]);
+
+    // Keep manually written descriptions
+    const existing = Array.isArray(dataset.dataDictionary)
+      ? (dataset.dataDictionary as Record<string, unknown>[])
+      : [];
+    const descriptions = new Map(
+      existing
+        .filter((entry) => entry && typeof entry.name === 'string' && entry.description)
+        .map((entry) => [entry.name as string, String(entry.description)])
+    );
+
+    for (const profile of profiles) {
+      profile.description = descriptions.get(profile.name) ?? null;
+    }
+
+    await prisma.dataset.update({
+      where: { id: dataset.id },
+      data: {
+        dataDictionary: profiles as unknown as object[],
+        columns: JSON.stringify(columns),
+      },
+    });
+
+    await cacheDel(CacheKeys.dataset(dataset.id));
+    await cacheDel(CacheKeys.dataset(externalId));
+
+    logger.info(`📖 Data dictionary updated for ${externalId}: ${profiles.length} columns profiled`);
+    return profiles;
+  } catch (error) {
+    logger.error(`❌ Failed to update data dictionary for ${externalId}:`, error);
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  profileColumn,
+  profileColumns,
+  updateDataDictionary,
+  parseHijriDate,
+  parseGregorianDate,
+};
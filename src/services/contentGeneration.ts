@@ -6,6 +6,7 @@
 import { config } from '../config/index.js';
 import { prisma } from './database.js';
 import { logger } from '../utils/logger.js';
+import { PUBLIC_DATASETS_WHERE } from './privateDatasets.js';
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
 
@@ -177,7 +178,8 @@ export async function generateSectorAnalysis(sector: string): Promise<GeneratedC
 
   const datasets = await prisma.dataset.findMany({
     where: {
-      category: { contains: sector, mode: 'insensitive' }
+      category: { contains: sector, mode: 'insensitive' },
+      ...PUBLIC_DATASETS_WHERE,
     },
     take: 3,
   });
@@ -224,7 +226,8 @@ ${datasets.map(d => `- ${d.titleAr || d.title}`).join('\n') || 'لا توجد ب
 export async function createGeneratedContent(
   type: string,
   content: GeneratedContent,
-  datasetId?: string
+  datasetId?: string,
+  metadata?: Record<string, unknown>
 ) {
   return prisma.content.create({
     data: {
@@ -236,6 +239,7 @@ export async function createGeneratedContent(
       excerpt: content.excerpt,
       excerptAr: content.excerptAr,
       tags: JSON.stringify(content.tags),
+      metadata: JSON.stringify(metadata || {}),
       datasetId,
       status: 'PUBLISHED',
       publishedAt: new Date(),
@@ -0,0 +1,576 @@
+/**
+ * موصلات مصادر البيانات - Data Source Connectors
+ *
+ * واجهة موحدة (list, metadata, resources, fetch) لكل مصدر بيانات:
+ * - saudi-open-data: البوابة الوطنية open.data.gov.sa (الافتراضي)
+ * - ckan: أي بوابة CKAN (الهيئة العامة للإحصاء، ساما...)
+ * - http: روابط CSV / JSON / Excel مباشرة
+ * - local: مجلد ملفات محلي
+ * كل Dataset مرتبط بمصدر (Dataset.dataSourceId) يُجلب عبر موصله، وبدونه عبر البوابة الوطنية
+ */
+
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import { prisma } from './database.js';
+import { config } from '../config/index.js';
+import { detectResourceFormat } from './resourceParsers.js';
+import { logger } from '../utils/logger.js';
+import type { DatasetMetadata, DatasetResource, DatasetListItem } from './onDemandData.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type ConnectorType = 'saudi-open-data' | 'ckan' | 'http' | 'local';
+
+export interface ConnectorListOptions {
+  page?: number;
+  limit?: number;
+  search?: string;
+  category?: string;
+}
+
+export interface ConnectorListResult {
+  datasets: DatasetListItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface DataConnector<TConfig = Record<string, unknown>> {
+  type: ConnectorType;
+  label: string;
+  labelAr: string;
+  configSchema: z.ZodType<TConfig>;
+  list(config: TConfig, options?: ConnectorListOptions): Promise<ConnectorListResult>;
+  metadata(config: TConfig, ref: string): Promise<DatasetMetadata | null>;
+  resources(config: TConfig, ref: string): Promise<DatasetResource[]>;
+  fetch(config: TConfig, resource: DatasetResource): Promise<Readable>;
+  sourceUrl(config: TConfig, ref: string): string | null;
+}
+
+export interface ResolvedConnector {
+  connector: DataConnector<any>;
+  config: Record<string, unknown>;
+  ref: string;
+  source: { id: string; key: string; name: string; nameAr: string; type: string } | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+export const PORTAL_BASE_URL = 'https://open.data.gov.sa';
+export const PORTAL_FILES_URL = `${PORTAL_BASE_URL}/data/files`;
+export const PORTAL_SOURCE_NAME = 'open.data.gov.sa';
+
+const REQUEST_TIMEOUT = 60000; // 60 seconds
+const STREAM_TIMEOUT = 300000; // 5 minutes for large streamed files
+const DEFAULT_LIST_LIMIT = 100;
+const META_SUFFIX = '.meta.json'; // ملف وصف مرافق للملفات المحلية
+
+// Headers تشبه Browser لتجاوز WAF
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/csv,application/json,application/xml,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/plain,*/*',
+  'Accept-Language': 'ar,en;q=0.9',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Connection': 'keep-alive',
+};
+
+const API_HEADERS = {
+  'User-Agent': 'InvestorRadar/2.0',
+  'Accept': 'application/json',
+  'Accept-Language': 'ar,en',
+};
+
+const headersSchema = z.record(z.string()).optional();
+
+const portalConfigSchema = z.object({
+  baseUrl: z.string().url().optional(),
+  apiBase: z.string().url().optional(),
+});
+
+const ckanConfigSchema = z.object({
+  baseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  organization: z.string().optional(),
+  headers: headersSchema,
+});
+
+const httpConfigSchema = z.object({
+  headers: headersSchema,
+  datasets: z.array(z.object({
+    url: z.string().url().refine((u) => /^https?:\/\//i.test(u), 'Only http(s) URLs are supported'),
+    format: z.string().optional(),
+    titleAr: z.string().optional(),
+    titleEn: z.string().optional(),
+    descriptionAr: z.string().optional(),
+    descriptionEn: z.string().optional(),
+    category: z.string().optional(),
+  })).max(500).default([]),
+});
+
+const localConfigSchema = z.object({
+  directory: z.string().min(1),
+});
+
+type PortalConfig = z.infer<typeof portalConfigSchema>;
+type CkanConfig = z.infer<typeof ckanConfigSchema>;
+type HttpConfig = z.infer<typeof httpConfigSchema>;
+type LocalConfig = z.infer<typeof localConfigSchema>;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export async function fetchJsonWithRetry<T>(
+  url: string,
+  options: { retries?: number; timeout?: number; headers?: Record<string, string> } = {}
+): Promise<T> {
+  const { retries = 3, timeout = REQUEST_TIMEOUT, headers = {} } = options;
+  let lastError: Error | null = null;
+
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await axios.get(url, { timeout, headers: { ...API_HEADERS, ...headers } });
+      return response.data;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+      logger.warn(`Retry ${i + 1}/${retries} failed for ${url}: ${lastError.message}`);
+      if (i < retries - 1) {
+        await new Promise(r => setTimeout(r, 1000 * (i + 1))); // Exponential backoff
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+async function openHttpStream(url: string, headers: Record<string, string>): Promise<Readable> {
+  const response = await axios.get(encodeURI(url), {
+    responseType: 'stream',
+    timeout: STREAM_TIMEOUT,
+    headers,
+  });
+  return response.data as Readable;
+}
+
+function paginate<T>(items: T[], options: ConnectorListOptions): ConnectorListResult & { datasets: T[] } {
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  const offset = ((options.page ?? 1) - 1) * limit;
+  const page = items.slice(offset, offset + limit);
+  return { datasets: page as any, total: items.length, hasMore: offset + page.length < items.length };
+}
+
+function matchesSearch(item: DatasetListItem, options: ConnectorListOptions): boolean {
+  if (options.category && item.category !== options.category) return false;
+  if (!options.search) return true;
+  const term = options.search.toLowerCase();
+  return [item.titleAr, item.titleEn, item.descriptionAr, item.descriptionEn]
+    .some((text) => text?.toLowerCase().includes(term));
+}
+
+/**
+ * تحويل حزمة CKAN إلى عنصر قائمة موحد
+ */
+function mapCkanPackage(item: Record<string, unknown>): DatasetListItem {
+  const groups = Array.isArray(item.groups) ? (item.groups as Record<string, unknown>[]) : [];
+  const organization = item.organization as Record<string, unknown> | undefined;
+
+  return {
+    id: String(item.id || item.name),
+    titleAr: String(item.title_ar || item.title || item.name || ''),
+    titleEn: String(item.title_en || item.title || item.name || ''),
+    descriptionAr: item.notes_ar ? String(item.notes_ar) : undefined,
+    descriptionEn: item.notes_en || item.notes ? String(item.notes_en || item.notes) : undefined,
+    category: groups.length > 0 ? String(groups[0].title || groups[0].name) : undefined,
+    organization: organization ? String(organization.title || organization.name) : undefined,
+    recordCount: item.num_resources ? Number(item.num_resources) : undefined,
+    updatedAt: item.metadata_modified ? String(item.metadata_modified) : undefined,
+    resources: Array.isArray(item.resources)
+      ? (item.resources as Record<string, unknown>[]).map((r) => ({
+        id: String(r.id || ''),
+        name: String(r.name || r.description || ''),
+        format: String(r.format || ''),
+        downloadUrl: String(r.url || ''),
+        size: r.size ? Number(r.size) : undefined,
+      }))
+      : undefined,
+  };
+}
+
+async function ckanPackageSearch(
+  actionBase: string,
+  options: ConnectorListOptions,
+  headers: Record<string, string>,
+  organization?: string
+): Promise<ConnectorListResult> {
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  const offset = ((options.page ?? 1) - 1) * limit;
+
+  const fq = [
+    ...(options.category ? [`groups:${options.category}`] : []),
+    ...(organization ? [`organization:${organization}`] : []),
+  ];
+  let query = `rows=${limit}&start=${offset}`;
+  if (options.search) query += `&q=${encodeURIComponent(options.search)}`;
+  if (fq.length > 0) query += `&fq=${encodeURIComponent(fq.join(' AND '))}`;
+
+  const data = await fetchJsonWithRetry<any>(`${actionBase}/package_search?${query}`, { headers, retries: 1 });
+
+  // CKAN returns: { success: true, result: { results: [...], count: N } }
+  if (!data?.success || !Array.isArray(data.result?.results)) {
+    logger.warn(`⚠️ CKAN API at ${actionBase} returned unexpected format`);
+    return { datasets: [], total: 0, hasMore: false };
+  }
+
+  const datasets = (data.result.results as Record<string, unknown>[])
+    .map(mapCkanPackage)
+    .filter((d) => d.id && (d.titleAr || d.titleEn));
+  const total = data.result.count || datasets.length;
+
+  return { datasets, total, hasMore: offset + datasets.length < total };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Connectors
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * البوابة الوطنية للبيانات المفتوحة - open.data.gov.sa
+ */
+const portalConnector: DataConnector<PortalConfig> = {
+  type: 'saudi-open-data',
+  label: 'Saudi Open Data Portal',
+  labelAr: 'البوابة الوطنية للبيانات المفتوحة',
+  configSchema: portalConfigSchema,
+
+  list(cfg, options = {}) {
+    const baseUrl = trimSlash(cfg.baseUrl || PORTAL_BASE_URL);
+    return ckanPackageSearch(`${baseUrl}/api/3/action`, options, {
+      ...BROWSER_HEADERS,
+      'Accept': 'application/json',
+      'Referer': `${baseUrl}/`,
+    });
+  },
+
+  async metadata(cfg, ref) {
+    const data = await fetchJsonWithRetry<DatasetMetadata>(
+      `${trimSlash(cfg.apiBase || config.saudiDataApi)}/datasets?version=-1&dataset=${ref}`
+    );
+    return data && Object.keys(data).length > 0 ? data : null;
+  },
+
+  async resources(cfg, ref) {
+    const data = await fetchJsonWithRetry<{ resources?: Record<string, unknown>[] }>(
+      `${trimSlash(cfg.apiBase || config.saudiDataApi)}/datasets/resources?version=-1&dataset=${ref}`,
+      { retries: 1 }
+    );
+    return (data?.resources || []).map((r) => ({
+      id: String(r.id || ''),
+      name: String(r.name || 'Resource'),
+      format: String(r.format || ''),
+      downloadUrl: String(r.downloadUrl || r.url || ''),
+    }));
+  },
+
+  fetch(cfg, resource) {
+    const baseUrl = trimSlash(cfg.baseUrl || PORTAL_BASE_URL);
+    // Resources synced into the DB store paths relative to the files endpoint
+    const url = resource.downloadUrl.startsWith('http')
+      ? resource.downloadUrl
+      : `${baseUrl}/data/files/${resource.downloadUrl}`;
+    return openHttpStream(url, { ...BROWSER_HEADERS, 'Referer': `${baseUrl}/`, 'Origin': baseUrl });
+  },
+
+  sourceUrl(cfg, ref) {
+    return `${trimSlash(cfg.baseUrl || PORTAL_BASE_URL)}/ar/datasets/view/${ref}`;
+  },
+};
+
+/**
+ * بوابة CKAN عامة (package_search / package_show)
+ */
+const ckanConnector: DataConnector<CkanConfig> = {
+  type: 'ckan',
+  label: 'CKAN portal',
+  labelAr: 'بوابة CKAN',
+  configSchema: ckanConfigSchema,
+
+  list(cfg, options = {}) {
+    return ckanPackageSearch(`${trimSlash(cfg.baseUrl)}/api/3/action`, options, ckanHeaders(cfg), cfg.organization);
+  },
+
+  async metadata(cfg, ref) {
+    const data = await fetchJsonWithRetry<any>(
+      `${trimSlash(cfg.baseUrl)}/api/3/action/package_show?id=${encodeURIComponent(ref)}`,
+      { headers: ckanHeaders(cfg) }
+    );
+    if (!data?.success || !data.result) return null;
+
+    const pkg = data.result as Record<string, any>;
+    const item = mapCkanPackage(pkg);
+    const frequency = (pkg.extras as { key: string; value: string }[] | undefined)
+      ?.find((e) => /frequency/i.test(e.key))?.value;
+
+    return {
+      id: item.id,
+      titleEn: item.titleEn,
+      titleAr: item.titleAr,
+      descriptionEn: item.descriptionEn,
+      descriptionAr: item.descriptionAr,
+      providerNameEn: item.organization,
+      providerNameAr: pkg.organization?.title_ar || item.organization,
+      categories: (pkg.groups || []).map((g: any) => ({ titleAr: g.title_ar || g.title || g.name, titleEn: g.title || g.name })),
+      tags: (pkg.tags || []).map((t: any) => t.display_name || t.name),
+      updateFrequency: frequency,
+      createdAt: pkg.metadata_created,
+      updatedAt: pkg.metadata_modified,
+      resources: item.resources,
+    };
+  },
+
+  async resources(cfg, ref) {
+    return (await this.metadata(cfg, ref))?.resources || [];
+  },
+
+  fetch(cfg, resource) {
+    return openHttpStream(resource.downloadUrl, { ...BROWSER_HEADERS, ...ckanHeaders(cfg) });
+  },
+
+  sourceUrl(cfg, ref) {
+    return `${trimSlash(cfg.baseUrl)}/dataset/${ref}`;
+  },
+};
+
+function ckanHeaders(cfg: CkanConfig): Record<string, string> {
+  return { ...(cfg.apiKey && { Authorization: cfg.apiKey }), ...cfg.headers };
+}
+
+/**
+ * روابط ملفات مباشرة - كل رابط Dataset (المعرف هو الرابط نفسه)
+ */
+const httpConnector: DataConnector<HttpConfig> = {
+  type: 'http',
+  label: 'HTTP files (CSV / JSON / Excel)',
+  labelAr: 'ملفات عبر HTTP',
+  configSchema: httpConfigSchema,
+
+  async list(cfg, options = {}) {
+    const items = cfg.datasets.map((entry) => httpListItem(entry.url, cfg)).filter((item) => matchesSearch(item, options));
+    return paginate(items, options);
+  },
+
+  async metadata(cfg, ref) {
+    const item = httpListItem(ref, cfg);
+    return {
+      id: item.id,
+      titleAr: item.titleAr,
+      titleEn: item.titleEn,
+      descriptionAr: item.descriptionAr,
+      descriptionEn: item.descriptionEn,
+      categories: item.category ? [{ titleAr: item.category, titleEn: item.category }] : [],
+      resources: item.resources,
+    };
+  },
+
+  async resources(cfg, ref) {
+    return httpListItem(ref, cfg).resources || [];
+  },
+
+  fetch(cfg, resource) {
+    return openHttpStream(resource.downloadUrl, { ...BROWSER_HEADERS, ...cfg.headers });
+  },
+
+  sourceUrl(_cfg, ref) {
+    return ref;
+  },
+};
+
+function httpListItem(url: string, cfg: HttpConfig): DatasetListItem {
+  const entry = cfg.datasets.find((d) => d.url === url);
+  const fileName = decodeURIComponent(url.split('?')[0].split('/').pop() || url);
+
+  return {
+    id: url,
+    titleAr: entry?.titleAr || entry?.titleEn || fileName,
+    titleEn: entry?.titleEn || entry?.titleAr || fileName,
+    descriptionAr: entry?.descriptionAr,
+    descriptionEn: entry?.descriptionEn,
+    category: entry?.category,
+    resources: [{
+      id: url,
+      name: fileName,
+      format: entry?.format || detectResourceFormat({ downloadUrl: url }) || '',
+      downloadUrl: url,
+    }],
+  };
+}
+
+/**
+ * مجلد محلي - كل ملف مدعوم Dataset، مع ملف وصف اختياري <file>.meta.json
+ */
+const localConnector: DataConnector<LocalConfig> = {
+  type: 'local',
+  label: 'Local directory',
+  labelAr: 'مجلد محلي',
+  configSchema: localConfigSchema,
+
+  async list(cfg, options = {}) {
+    const directory = resolveLocalPath(cfg.directory);
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+
+    const items: DatasetListItem[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.endsWith(META_SUFFIX) || !detectResourceFormat({ downloadUrl: entry.name })) continue;
+      const item = await localListItem(cfg, entry.name);
+      if (matchesSearch(item, options)) items.push(item);
+    }
+
+    return paginate(items, options);
+  },
+
+  async metadata(cfg, ref) {
+    try {
+      const item = await localListItem(cfg, ref);
+      return {
+        id: item.id,
+        titleAr: item.titleAr,
+        titleEn: item.titleEn,
+        descriptionAr: item.descriptionAr,
+        descriptionEn: item.descriptionEn,
+        categories: item.category ? [{ titleAr: item.category, titleEn: item.category }] : [],
+        updatedAt: item.updatedAt,
+        resources: item.resources,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async resources(cfg, ref) {
+    return (await this.metadata(cfg, ref))?.resources || [];
+  },
+
+  async fetch(cfg, resource) {
+    return fs.createReadStream(resolveLocalPath(path.join(cfg.directory, resource.downloadUrl)));
+  },
+
+  sourceUrl() {
+    return null;
+  },
+};
+
+/**
+ * مسار داخل جذر المصادر المحلية فقط (منع ../)
+ */
+function resolveLocalPath(relative: string): string {
+  const root = path.resolve(config.connectors.localRoot);
+  const resolved = path.resolve(root, relative);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Path escapes the local data root: ${relative}`);
+  }
+  return resolved;
+}
+
+async function localListItem(cfg: LocalConfig, fileName: string): Promise<DatasetListItem> {
+  const filePath = resolveLocalPath(path.join(cfg.directory, fileName));
+  const stat = await fs.promises.stat(filePath);
+
+  let meta: Record<string, string> = {};
+  try {
+    meta = JSON.parse(await fs.promises.readFile(`${filePath}${META_SUFFIX}`, 'utf-8'));
+  } catch {
+    // No sidecar metadata
+  }
+
+  const title = path.parse(fileName).name;
+  return {
+    id: fileName,
+    titleAr: meta.titleAr || meta.titleEn || title,
+    titleEn: meta.titleEn || meta.titleAr || title,
+    descriptionAr: meta.descriptionAr,
+    descriptionEn: meta.descriptionEn,
+    category: meta.category,
+    updatedAt: stat.mtime.toISOString(),
+    resources: [{
+      id: fileName,
+      name: fileName,
+      format: detectResourceFormat({ downloadUrl: fileName }) || '',
+      downloadUrl: fileName,
+      size: stat.size,
+    }],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Registry
+// ═══════════════════════════════════════════════════════════════════
+
+const registry = new Map<string, DataConnector<any>>();
+
+/**
+ * تسجيل موصل (لإضافة أنواع مصادر جديدة دون تعديل كود المزامنة)
+ */
+export function registerConnector(connector: DataConnector<any>): void {
+  registry.set(connector.type, connector);
+}
+
+[portalConnector, ckanConnector, httpConnector, localConnector].forEach(registerConnector);
+
+export function getConnector(type: string): DataConnector<any> | null {
+  return registry.get(type) || null;
+}
+
+export function listConnectorTypes() {
+  return [...registry.values()].map((c) => ({ type: c.type, label: c.label, labelAr: c.labelAr }));
+}
+
+export const portal = portalConnector;
+
+/**
+ * الموصل المسؤول عن Dataset - البوابة الوطنية إن لم يكن مرتبطاً بمصدر
+ */
+export async function resolveDatasetConnector(datasetId: string): Promise<ResolvedConnector> {
+  const dataset = await prisma.dataset.findFirst({
+    where: { OR: [{ id: datasetId }, { externalId: datasetId }] },
+    select: {
+      externalId: true,
+      sourceRef: true,
+      dataSource: { select: { id: true, key: true, name: true, nameAr: true, type: true, config: true } },
+    },
+  }).catch(() => null);
+
+  const ref = dataset?.sourceRef || dataset?.externalId || datasetId;
+  const source = dataset?.dataSource;
+  const connector = source ? getConnector(source.type) : null;
+
+  if (!source || !connector) {
+    if (source) logger.warn(`⚠️ Unknown connector type "${source.type}" for ${datasetId}, using the portal`);
+    return { connector: portalConnector, config: {}, ref, source: null };
+  }
+
+  const { config: sourceConfig, ...info } = source;
+  return { connector, config: (sourceConfig || {}) as Record<string, unknown>, ref, source: info };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  registerConnector,
+  getConnector,
+  listConnectorTypes,
+  resolveDatasetConnector,
+  fetchJsonWithRetry,
+  portal,
+  PORTAL_BASE_URL,
+};
@@ -6,10 +6,16 @@
  */
 
 import puppeteer from 'puppeteer-core';
-import Papa from 'papaparse';
 import { prisma } from './database.js';
-import { cacheSet, cacheGet, CacheKeys } from './cache.js';
+import { CacheKeys } from './cache.js';
+import { updateDataDictionary } from './columnProfiler.js';
+import { scoreDatasetQuality } from './qualityScoring.js';
+import { updatePiiScan } from './piiScanner.js';
+import { recordDatasetVersion, buildSnapshot } from './datasetVersioning.js';
+import { selectResource, parseResource, parseCSV, ParsedResource } from './resourceParsers.js';
+import { writeDataset, readDataset } from './datasetStore.js';
 import { logger } from '../utils/logger.js';
+import { portal, PORTAL_BASE_URL } from './dataConnectors.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Configuration
@@ -17,7 +23,6 @@ import { logger } from '../utils/logger.js';
 
 const BROWSERLESS_URL = process.env.BROWSERLESS_URL || 'wss://chrome.browserless.io?token=';
 const BROWSERLESS_TOKEN = process.env.BROWSERLESS_TOKEN || '';
-const API_BASE = 'https://open.data.gov.sa/data/api';
 
 // Cache TTL - 24 hours for pre-fetched data
 const CACHE_TTL = 86400;
@@ -53,22 +58,7 @@ function delay(ms: number): Promise<void> {
  */
 async function fetchResources(datasetId: string): Promise<DatasetResource[]> {
   try {
-    const response = await fetch(
-      `${API_BASE}/datasets/resources?version=-1&dataset=${datasetId}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    return data?.resources || [];
+    return await portal.resources({}, datasetId);
   } catch (error) {
     logger.error(`Failed to fetch resources for ${datasetId}:`, error);
     return [];
@@ -138,22 +128,51 @@ async function fetchCSVViaBrowserless(url: string): Promise<string | null> {
 }
 
 /**
- * تحويل CSV إلى JSON
+ * جلب ملف ثنائي (Excel) أو JSON/XML عبر Browserless
+ * يُحمّل الملف من داخل الصفحة بـ fetch ويُعاد كـ base64
  */
-function parseCSV(csvContent: string): Record<string, unknown>[] {
-  return new Promise((resolve, reject) => {
-    Papa.parse(csvContent, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: true,
-      complete: (results) => {
-        resolve(results.data as Record<string, unknown>[]);
-      },
-      error: (error: Error) => {
-        reject(error);
-      },
+async function fetchFileViaBrowserless(url: string): Promise<Buffer | null> {
+  if (!BROWSERLESS_TOKEN) {
+    logger.warn('BROWSERLESS_TOKEN not configured');
+    return null;
+  }
+
+  let browser;
+  try {
+    browser = await puppeteer.connect({
+      browserWSEndpoint: `${BROWSERLESS_URL}${BROWSERLESS_TOKEN}`,
     });
-  }) as unknown as Record<string, unknown>[];
+
+    const page = await browser.newPage();
+
+    await page.setUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    );
+
+    // Open the portal first so the download runs with its cookies / origin
+    await page.goto(`${PORTAL_BASE_URL}/`, { waitUntil: 'domcontentloaded', timeout: 60000 });
+
+    const base64 = await page.evaluate(async (fileUrl: string) => {
+      const response = await fetch(fileUrl, { credentials: 'include' });
+      if (!response.ok) return null;
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      return btoa(binary);
+    }, encodeURI(url));
+
+    await page.close();
+    return base64 ? Buffer.from(base64, 'base64') : null;
+  } catch (error) {
+    logger.error(`Browserless file fetch failed for ${url}:`, error);
+    return null;
+  } finally {
+    if (browser) {
+      browser.disconnect();
+    }
+  }
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -172,42 +191,52 @@ export async function preFetchDataset(datasetId: string): Promise<PreFetchResult
     // 1. Get resources
     const resources = await fetchResources(datasetId);
 
-    // 2. Find CSV resource
-    const csvResource = resources.find(
-      (r) => r.format?.toLowerCase() === 'csv' || r.downloadUrl?.endsWith('.csv')
-    );
+    // 2. Pick the best parseable resource (CSV > Excel > JSON > XML)
+    const selected = selectResource(resources);
 
-    if (!csvResource?.downloadUrl) {
-      logger.warn(`No CSV resource for ${datasetId}`);
-      return { datasetId, success: false, recordCount: 0, error: 'No CSV resource' };
+    if (!selected) {
+      logger.warn(`No supported resource for ${datasetId}`);
+      return { datasetId, success: false, recordCount: 0, error: 'No supported resource' };
     }
 
-    // 3. Fetch CSV via Browserless
-    const csvContent = await fetchCSVViaBrowserless(csvResource.downloadUrl);
+    const { resource, format } = selected;
 
-    if (!csvContent) {
-      return { datasetId, success: false, recordCount: 0, error: 'Failed to fetch CSV' };
+    // 3. Fetch via Browserless (text for CSV, binary download for the rest)
+    let parsed: ParsedResource | null;
+    if (format === 'csv') {
+      const csvContent = await fetchCSVViaBrowserless(resource.downloadUrl);
+      parsed = csvContent ? parseCSV(csvContent) : null;
+    } else {
+      const content = await fetchFileViaBrowserless(resource.downloadUrl);
+      parsed = content ? parseResource(content, format) : null;
     }
 
-    // 4. Parse CSV
-    const records = await parseCSV(csvContent);
+    if (!parsed) {
+      return { datasetId, success: false, recordCount: 0, error: `Failed to fetch ${format}` };
+    }
+
+    // 4. Check parsed records
+    const records = parsed.records;
 
     if (!records || records.length === 0) {
-      return { datasetId, success: false, recordCount: 0, error: 'Empty CSV' };
+      return { datasetId, success: false, recordCount: 0, error: `Empty ${format}` };
     }
 
     // 5. Prepare data for cache
     const data = {
       id: datasetId,
       records: records,
-      columns: Object.keys(records[0]),
+      columns: parsed.columns,
       totalRecords: records.length,
       fetchedAt: new Date().toISOString(),
       source: 'prefetch',
+      format,
+      sheets: parsed.sheets,
+      sheet: parsed.sheet,
     };
 
-    // 6. Store in Redis
-    await cacheSet(cacheKey, JSON.stringify(data), CACHE_TTL);
+    // 6. Store in Redis (chunked when large)
+    await writeDataset(cacheKey, data, CACHE_TTL);
 
     // 7. Update database status
     await prisma.dataset.updateMany({
@@ -215,10 +244,22 @@ export async function preFetchDataset(datasetId: string): Promise<PreFetchResult
       data: {
         syncStatus: 'SUCCESS',
         recordCount: records.length,
+        formatType: format.toUpperCase(), // CSV, EXCEL, JSON, XML
         lastSyncAt: new Date(),
       },
     });
 
+    // 8. Scan for PII, profile columns (without raw PII values), record a version snapshot
+    //    and score quality when the content changed
+    const scan = await updatePiiScan(datasetId, records, data.columns);
+    const profiles = await updateDataDictionary(datasetId, records, data.columns, scan?.findings);
+    if (profiles) {
+      const version = await recordDatasetVersion(datasetId, buildSnapshot(records, data.columns, profiles), 'prefetch');
+      if (version?.created) {
+        await scoreDatasetQuality(datasetId, records, profiles);
+      }
+    }
+
     logger.info(`✅ Pre-fetched ${datasetId}: ${records.length} records`);
 
     return { datasetId, success: true, recordCount: records.length };
@@ -320,9 +361,8 @@ export async function getFromCache(datasetId: string): Promise<{
   const cacheKey = `ondemand:data:${datasetId}`;
 
   try {
-    const cached = await cacheGet<string>(cacheKey);
-    if (cached) {
-      const data = JSON.parse(cached as unknown as string);
+    const data = await readDataset(cacheKey);
+    if (data) {
       return {
         records: data.records,
         columns: data.columns,
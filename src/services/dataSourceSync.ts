@@ -0,0 +1,257 @@
+/**
+ * مزامنة مصادر البيانات المسجلة - Data Source Sync
+ *
+ * تستورد metadata الـ Datasets من أي مصدر مسجل (CKAN, HTTP, مجلد محلي) عبر موصله
+ * البيانات الفعلية تبقى On-Demand من onDemandData.ts
+ */
+
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getConnector, DataConnector } from './dataConnectors.js';
+import type { DatasetListItem, DatasetResource } from './onDemandData.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface SourceSyncResult {
+  sourceId: string;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  duration: number;
+}
+
+type SourceRecord = NonNullable<Awaited<ReturnType<typeof prisma.dataSource.findUnique>>>;
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 100; // 10,000 datasets per source
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * externalId ثابت للـ Dataset المستورد: <key>:<ref>
+ */
+export function sourceExternalId(key: string, ref: string): string {
+  const slug = ref
+    .replace(/^https?:\/\//i, '')
+    .replace(/[^\w.\-\u0600-\u06FF]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 150);
+  return `${key}:${slug}`;
+}
+
+function toStoredResources(resources: DatasetResource[] = []) {
+  return resources.map((r) => ({ id: r.id, name: r.name, format: r.format, url: r.downloadUrl }));
+}
+
+async function loadSource(sourceId: string): Promise<{ source: SourceRecord; connector: DataConnector<any> }> {
+  const source = await prisma.dataSource.findUnique({ where: { id: sourceId } });
+  if (!source) {
+    throw new AppError('Data source not found', 'مصدر البيانات غير موجود', 404);
+  }
+
+  const connector = getConnector(source.type);
+  if (!connector) {
+    throw new AppError(`Unknown connector type: ${source.type}`, `نوع موصل غير معروف: ${source.type}`, 400);
+  }
+
+  return { source, connector };
+}
+
+/**
+ * إنشاء أو تحديث Dataset من عنصر قائمة المصدر
+ */
+async function upsertSourceDataset(
+  source: SourceRecord,
+  connector: DataConnector<any>,
+  item: DatasetListItem
+): Promise<'created' | 'updated'> {
+  const externalId = sourceExternalId(source.key, item.id);
+  const existing = await prisma.dataset.findUnique({ where: { externalId }, select: { id: true } });
+
+  const fields = {
+    name: item.titleEn || item.titleAr,
+    nameAr: item.titleAr || item.titleEn,
+    description: item.descriptionEn || null,
+    descriptionAr: item.descriptionAr || null,
+    category: item.category || 'أخرى',
+    source: source.name,
+    sourceUrl: connector.sourceUrl(source.config, item.id),
+    dataSourceId: source.id,
+    sourceRef: item.id,
+    ...(item.resources && { resources: toStoredResources(item.resources) }),
+    lastSyncAt: new Date(),
+    syncStatus: 'SUCCESS',
+    syncError: null,
+  };
+
+  if (existing) {
+    await prisma.dataset.update({ where: { id: existing.id }, data: fields });
+    return 'updated';
+  }
+
+  await prisma.dataset.create({ data: { externalId, ...fields } });
+  return 'created';
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * اختبار اتصال المصدر (أول صفحة من القائمة)
+ */
+export async function testDataSource(sourceId: string) {
+  const { source, connector } = await loadSource(sourceId);
+  const startTime = Date.now();
+
+  try {
+    const result = await connector.list(source.config, { page: 1, limit: 5 });
+    return {
+      ok: true,
+      total: result.total,
+      sample: result.datasets.map((d) => ({ ref: d.id, titleAr: d.titleAr, titleEn: d.titleEn })),
+      duration: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * مزامنة كل Datasets المصدر (metadata فقط)
+ */
+export async function syncDataSource(sourceId: string): Promise<SourceSyncResult> {
+  const { source, connector } = await loadSource(sourceId);
+  const startTime = Date.now();
+  const result: SourceSyncResult = { sourceId, total: 0, created: 0, updated: 0, failed: 0, duration: 0 };
+
+  const syncLog = await prisma.syncLog.create({
+    data: {
+      jobType: 'SOURCE_SYNC',
+      status: 'RUNNING',
+      metadata: JSON.stringify({ sourceId, key: source.key, type: source.type }),
+    },
+  });
+
+  logger.info(`🔌 Syncing data source ${source.key} (${source.type})`);
+
+  try {
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore && page <= MAX_PAGES) {
+      const listed = await connector.list(source.config, { page, limit: PAGE_SIZE });
+
+      for (const item of listed.datasets) {
+        try {
+          const outcome = await upsertSourceDataset(source, connector, item);
+          result[outcome]++;
+        } catch (error) {
+          result.failed++;
+          logger.warn(`   ⚠️ ${source.key}: failed to import ${item.id}:`, error);
+        }
+      }
+
+      result.total += listed.datasets.length;
+      hasMore = listed.hasMore && listed.datasets.length > 0;
+      page++;
+    }
+
+    result.duration = Date.now() - startTime;
+
+    await Promise.all([
+      prisma.dataSource.update({ where: { id: sourceId }, data: { lastSyncAt: new Date(), lastSyncError: null } }),
+      prisma.syncLog.update({
+        where: { id: syncLog.id },
+        data: {
+          status: result.failed > 0 ? 'PARTIAL' : 'SUCCESS',
+          recordsCount: result.total,
+          newRecords: result.created,
+          updatedRecords: result.updated,
+          duration: result.duration,
+          completedAt: new Date(),
+        },
+      }),
+    ]);
+
+    await cacheDel(CacheKeys.datasets);
+
+    logger.info(
+      `✅ ${source.key}: ${result.total} datasets (${result.created} new, ${result.updated} updated, ${result.failed} failed)`
+    );
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    await Promise.all([
+      prisma.dataSource.update({ where: { id: sourceId }, data: { lastSyncError: message } }),
+      prisma.syncLog.update({
+        where: { id: syncLog.id },
+        data: { status: 'FAILED', error: message, duration: Date.now() - startTime, completedAt: new Date() },
+      }),
+    ]).catch(() => {});
+
+    logger.error(`❌ Data source ${source.key} sync failed:`, error);
+    throw new AppError(`Source sync failed: ${message}`, 'فشلت مزامنة المصدر', 502);
+  }
+}
+
+/**
+ * تسجيل Dataset واحد من المصدر (بالمعرف داخل المصدر)
+ */
+export async function registerSourceDataset(
+  sourceId: string,
+  ref: string,
+  overrides: { category?: string } = {}
+) {
+  const { source, connector } = await loadSource(sourceId);
+
+  const metadata = await connector.metadata(source.config, ref).catch((error) => {
+    logger.warn(`⚠️ ${source.key}: metadata lookup failed for ${ref}:`, error);
+    return null;
+  });
+
+  if (!metadata) {
+    throw new AppError('Dataset not found in this source', 'مجموعة البيانات غير موجودة في هذا المصدر', 404);
+  }
+
+  await upsertSourceDataset(source, connector, {
+    id: ref,
+    titleAr: metadata.titleAr,
+    titleEn: metadata.titleEn,
+    descriptionAr: metadata.descriptionAr,
+    descriptionEn: metadata.descriptionEn,
+    category: overrides.category || metadata.categories?.[0]?.titleAr,
+    resources: metadata.resources,
+  });
+
+  await cacheDel(CacheKeys.datasets);
+
+  return prisma.dataset.findUnique({ where: { externalId: sourceExternalId(source.key, ref) } });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  sourceExternalId,
+  testDataSource,
+  syncDataSource,
+  registerSourceDataset,
+};
@@ -0,0 +1,107 @@
+/**
+ * أحداث مجموعات البيانات - Dataset Events
+ *
+ * ناقل أحداث داخلي بسيط: تُطلق المزامنة حدث "dataset updated" فقط عندما يتغير
+ * محتوى الـ Dataset فعلاً، ويشترك فيه من يحتاج (إشعارات، تحليلات...)
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ResourceChange {
+  url: string;
+  name: string;
+  change: 'added' | 'removed' | 'modified';
+  reasons: string[]; // etag, lastModified, contentLength, hash
+}
+
+export interface SchemaChange {
+  addedColumns: string[];
+  removedColumns: string[];
+  typeChanges: { column: string; from: string; to: string }[];
+}
+
+export interface DatasetChanges {
+  metadata: FieldChange[];
+  resources: ResourceChange[];
+  recordCount: { from: number; to: number; delta: number } | null;
+  schema?: SchemaChange | null; // من مقارنة النسخ عند جلب البيانات الفعلية
+}
+
+export interface DatasetUpdatedEvent {
+  datasetId: string;
+  externalId: string;
+  name: string;
+  nameAr: string;
+  previousHash: string;
+  contentHash: string;
+  changes: DatasetChanges;
+  detectedAt: Date;
+}
+
+type DatasetEventMap = {
+  'dataset.updated': DatasetUpdatedEvent;
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Event Bus
+// ═══════════════════════════════════════════════════════════════════
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+/**
+ * الاشتراك في حدث - يُرجع دالة لإلغاء الاشتراك
+ * أخطاء المستمعين (المتزامنة وغير المتزامنة) تُسجَّل ولا تُوقف المزامنة
+ */
+export function onDatasetEvent<K extends keyof DatasetEventMap>(
+  event: K,
+  listener: (payload: DatasetEventMap[K]) => void | Promise<void>
+): () => void {
+  const wrapped = (payload: DatasetEventMap[K]) => {
+    try {
+      Promise.resolve(listener(payload)).catch((error) => {
+        logger.error(`❌ ${event} listener failed:`, error);
+      });
+    } catch (error) {
+      logger.error(`❌ ${event} listener failed:`, error);
+    }
+  };
+  emitter.on(event, wrapped);
+  return () => {
+    emitter.off(event, wrapped);
+  };
+}
+
+/**
+ * إطلاق حدث تحديث Dataset
+ */
+export function emitDatasetUpdated(event: DatasetUpdatedEvent): void {
+  const { metadata, resources, recordCount, schema } = event.changes;
+  logger.info(
+    `📣 Dataset updated: ${event.externalId} ` +
+      `(metadata: ${metadata.length}, resources: ${resources.length}` +
+      `${recordCount ? `, records: ${recordCount.delta >= 0 ? '+' : ''}${recordCount.delta}` : ''}` +
+      `${schema ? `, schema: +${schema.addedColumns.length}/-${schema.removedColumns.length}/~${schema.typeChanges.length}` : ''})`
+  );
+  emitter.emit('dataset.updated', event);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  onDatasetEvent,
+  emitDatasetUpdated,
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { joinDatasets, normalizeKeyValue, JoinInput } from './datasetJoin.js';
+
+const population: JoinInput = {
+  alias: 'pop',
+  records: [
+    { region: 'الرياض', year: 2023, population: 8 },
+    { region: 'مكة المكرمة', year: 2023, population: 9 },
+    { region: 'الشرقية', year: 2023, population: 5 },
+    { region: '', year: 2023, population: 1 },
+  ],
+  columns: ['region', 'year', 'population'],
+  key: ['region'],
+};
+
+const gdp: JoinInput = {
+  alias: 'gdp',
+  records: [
+    { area: 'الرياض', gdp: 100 },
+    { area: 'مكه المكرمه', gdp: 80 },
+    { area: 'تبوك', gdp: 20 },
+  ],
+  columns: ['area', 'gdp'],
+  key: ['area'],
+};
+
+describe('normalizeKeyValue', () => {
+  it('unifies Arabic digits, hamza forms, taa marbuta and alef maqsura', () => {
+    expect(normalizeKeyValue('أبها')).toBe(normalizeKeyValue('ابها'));
+    expect(normalizeKeyValue('مكة المكرمة')).toBe(normalizeKeyValue('مكه  المكرمه'));
+    expect(normalizeKeyValue('مستشفى')).toBe(normalizeKeyValue('مستشفي'));
+    expect(normalizeKeyValue('رمز ١٢')).toBe('رمز 12');
+  });
+
+  it('unifies numbers and periods written differently', () => {
+    expect(normalizeKeyValue('٢٠٢٣')).toBe(normalizeKeyValue(2023));
+    expect(normalizeKeyValue('1,500')).toBe('1500');
+    expect(normalizeKeyValue(null)).toBe('');
+  });
+});
+
+describe('joinDatasets', () => {
+  it('inner joins on normalized keys and reports match statistics', () => {
+    const result = joinDatasets([population, gdp], { keyNames: ['region'] });
+
+    expect(result.columns).toEqual(['region', 'pop.year', 'pop.population', 'gdp.gdp']);
+    expect(result.rows).toEqual([
+      { region: 'الرياض', 'pop.year': 2023, 'pop.population': 8, 'gdp.gdp': 100 },
+      { region: 'مكة المكرمة', 'pop.year': 2023, 'pop.population': 9, 'gdp.gdp': 80 },
+    ]);
+    expect(result.stats).toMatchObject({ outputRows: 2, totalKeys: 4, keysInAll: 2, truncated: false });
+    expect(result.stats.datasets[0]).toMatchObject({
+      alias: 'pop',
+      rows: 4,
+      distinctKeys: 3,
+      matchedKeys: 2,
+      unmatchedKeys: 1,
+      matchRate: 0.6667,
+      emptyKeyRows: 1,
+      unmatchedSample: ['الشرقية'],
+    });
+  });
+
+  it('keeps unmatched keys as nulls for left, right and full joins', () => {
+    const left = joinDatasets([population, gdp], { type: 'left', keyNames: ['region'] });
+    expect(left.rows.map((r) => r.region)).toEqual(['الرياض', 'مكة المكرمة', 'الشرقية']);
+    expect(left.rows[2]['gdp.gdp']).toBeNull();
+
+    const right = joinDatasets([population, gdp], { type: 'right', keyNames: ['region'] });
+    expect(right.rows.map((r) => r['gdp.gdp'])).toEqual([100, 80, 20]);
+    expect(right.rows[2]).toMatchObject({ region: 'تبوك', 'pop.population': null });
+
+    const full = joinDatasets([population, gdp], { type: 'full', keyNames: ['region'] });
+    expect(full.rows).toHaveLength(4);
+  });
+
+  it('does not match raw values when normalization is off', () => {
+    const result = joinDatasets([population, gdp], { normalizeKeys: false });
+    expect(result.rows.map((r) => r.region)).toEqual(['الرياض']);
+  });
+
+  it('applies select and rename to the output columns', () => {
+    const result = joinDatasets([
+      { ...population, select: ['population'], rename: { population: 'people' } },
+      gdp,
+    ]);
+
+    expect(result.columns).toEqual(['region', 'people', 'gdp.gdp']);
+  });
+
+  it('expands duplicate keys into every combination', () => {
+    const a: JoinInput = { alias: 'a', records: [{ y: 2020, x: 1 }, { y: 2020, x: 2 }], columns: ['y', 'x'], key: ['y'] };
+    const b: JoinInput = { alias: 'b', records: [{ y: 2020, z: 'p' }, { y: 2020, z: 'q' }], columns: ['y', 'z'], key: ['y'] };
+
+    const result = joinDatasets([a, b]);
+
+    expect(result.rows.map((r) => [r['a.x'], r['b.z']])).toEqual([[1, 'p'], [1, 'q'], [2, 'p'], [2, 'q']]);
+    expect(result.stats.datasets[0].duplicateKeys).toBe(1);
+  });
+
+  it('stops a many-to-many expansion at the limit with one value per dataset', () => {
+    const inputs = ['a', 'b', 'c'].map((alias): JoinInput => ({
+      alias,
+      records: Array.from({ length: 1000 }, (_, i) => ({ year: 2020, v: i })),
+      columns: ['year', 'v'],
+      key: ['year'],
+    }));
+
+    const result = joinDatasets(inputs, { limit: 10 });
+
+    expect(result.rows).toHaveLength(10);
+    expect(result.stats.truncated).toBe(true);
+    result.rows.forEach((row) => {
+      expect(row['a.v']).toBe(0);
+      expect(row['b.v']).toBe(0);
+      expect(row['c.v']).not.toBeNull();
+    });
+  });
+
+  it('is not truncated when the output exactly fills the limit', () => {
+    const result = joinDatasets([population, gdp], { limit: 2 });
+    expect(result.rows).toHaveLength(2);
+    expect(result.stats.truncated).toBe(false);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * خدمة ربط مجموعات البيانات - Dataset Join Service
+ *
+ * تربط مجموعتين أو أكثر على مفتاح مشترك (منطقة، سنة، رمز قطاع)
+ * مع توحيد قيم المفاتيح (الأرقام العربية، الهمزات، السنوات الهجرية)
+ * وتعيد جدولاً مدمجاً مع إحصائيات التطابق
+ */
+
+import { toNumber, isEmptyValue } from './datasetQuery.js';
+import { normalizePeriod } from './timeSeries.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export interface JoinInput {
+  alias: string;
+  records: Record<string, unknown>[];
+  columns: string[];
+  key: string[]; // أعمدة المفتاح بنفس ترتيب keyNames
+  select?: string[]; // الأعمدة المطلوبة (الافتراضي: كل الأعمدة عدا المفتاح)
+  rename?: Record<string, string>; // إعادة تسمية الأعمدة في الناتج
+}
+
+export interface JoinOptions {
+  type?: JoinType;
+  keyNames?: string[];
+  normalizeKeys?: boolean;
+  limit?: number;
+}
+
+export interface JoinDatasetStats {
+  alias: string;
+  rows: number;
+  distinctKeys: number;
+  matchedKeys: number;
+  unmatchedKeys: number;
+  matchRate: number;
+  duplicateKeys: number;
+  emptyKeyRows: number;
+  unmatchedSample: string[];
+}
+
+export interface JoinResult {
+  type: JoinType;
+  keyNames: string[];
+  columns: string[];
+  rows: Record<string, unknown>[];
+  stats: {
+    outputRows: number;
+    totalKeys: number;
+    keysInAll: number;
+    truncated: boolean;
+    datasets: JoinDatasetStats[];
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_JOIN_ROWS = 50000;
+const UNMATCHED_SAMPLE = 10;
+const KEY_SEPARATOR = '\u0001';
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * توحيد قيمة مفتاح للمقارنة بين مصادر مختلفة
+ * "منطقة الرياض" ≠ "الرياض" عمداً - الربط يتطلب تطابق القيمة بعد التوحيد فقط
+ */
+export function normalizeKeyValue(value: unknown): string {
+  if (isEmptyValue(value)) return '';
+
+  const period = normalizePeriod(value);
+  if (period) return period.period;
+
+  const n = toNumber(value);
+  if (n !== null) return String(n);
+
+  return String(value)
+    .replace(/[٠-٩۰-۹]/g, (d) => String(d.charCodeAt(0) & 0xf))
+    .replace(/[ً-ٟـ]/g, '') // التشكيل والتطويل
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function buildKey(record: Record<string, unknown>, key: string[], normalize: boolean): string | null {
+  const parts = key.map((column) => {
+    const value = record[column];
+    if (isEmptyValue(value)) return null;
+    return normalize ? normalizeKeyValue(value) : String(value).trim();
+  });
+  return parts.some((p) => p === null || p === '') ? null : parts.join(KEY_SEPARATOR);
+}
+
+function outputName(input: JoinInput, column: string): string {
+  return input.rename?.[column] || `${input.alias}.${column}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * ربط مجموعات بيانات على مفتاح مشترك
+ * left: مفاتيح الأولى، right: مفاتيح الأخيرة، full: كل المفاتيح، inner: المشتركة بين الكل
+ */
+export function joinDatasets(inputs: JoinInput[], options: JoinOptions = {}): JoinResult {
+  const type = options.type || 'inner';
+  const normalize = options.normalizeKeys !== false;
+  const limit = Math.min(options.limit || MAX_JOIN_ROWS, MAX_JOIN_ROWS);
+  const keyNames = options.keyNames || inputs[0].key;
+
+  // 1. Group each dataset by its normalized key
+  const groups = inputs.map((input) => {
+    const map = new Map<string, { rows: Record<string, unknown>[]; raw: unknown[] }>();
+    let emptyKeyRows = 0;
+
+    for (const record of input.records) {
+      const key = buildKey(record, input.key, normalize);
+      if (key === null) {
+        emptyKeyRows++;
+        continue;
+      }
+      let group = map.get(key);
+      if (!group) {
+        group = { rows: [], raw: input.key.map((c) => record[c]) };
+        map.set(key, group);
+      }
+      group.rows.push(record);
+    }
+
+    return { map, emptyKeyRows };
+  });
+
+  // 2. Decide which keys appear in the output (in order of first appearance)
+  const allKeys: string[] = [];
+  const seen = new Set<string>();
+  for (const { map } of groups) {
+    for (const key of map.keys()) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        allKeys.push(key);
+      }
+    }
+  }
+
+  const keysInAll = allKeys.filter((key) => groups.every((g) => g.map.has(key)));
+
+  let outputKeys: string[];
+  switch (type) {
+    case 'left': outputKeys = [...groups[0].map.keys()]; break;
+    case 'right': outputKeys = [...groups[groups.length - 1].map.keys()]; break;
+    case 'full': outputKeys = allKeys; break;
+    case 'inner':
+    default: outputKeys = keysInAll;
+  }
+
+  // 3. Output columns: key columns, then each dataset's selected columns
+  const selected = inputs.map((input) =>
+    (input.select && input.select.length > 0 ? input.select : input.columns).filter((c) => !input.key.includes(c))
+  );
+  const columns = [
+    ...keyNames,
+    ...inputs.flatMap((input, i) => selected[i].map((c) => outputName(input, c))),
+  ];
+
+  // 4. Build rows (cartesian product for duplicate keys, capped at limit)
+  const rows: Record<string, unknown>[] = [];
+  let truncated = false;
+
+  for (const key of outputKeys) {
+    if (rows.length >= limit) {
+      truncated = true;
+      break;
+    }
+
+    const matches = groups.map((g) => g.map.get(key)?.rows || [null]);
+    const source = groups.find((g) => g.map.has(key))!.map.get(key)!;
+
+    // عدّاد على فهارس كل مجموعة بدلاً من بناء الضرب الديكارتي كاملاً في الذاكرة
+    const position = matches.map(() => 0);
+    for (;;) {
+      if (rows.length >= limit) {
+        truncated = true;
+        break;
+      }
+
+      const row: Record<string, unknown> = {};
+      keyNames.forEach((name, k) => { row[name] = source.raw[k] ?? null; });
+      inputs.forEach((input, i) => {
+        const record = matches[i][position[i]];
+        for (const column of selected[i]) {
+          row[outputName(input, column)] = record ? record[column] ?? null : null;
+        }
+      });
+      rows.push(row);
+
+      let i = matches.length - 1;
+      while (i >= 0 && ++position[i] === matches[i].length) {
+        position[i] = 0;
+        i--;
+      }
+      if (i < 0) break;
+    }
+
+    if (truncated) break;
+  }
+
+  // 5. Match statistics per dataset
+  const datasets: JoinDatasetStats[] = inputs.map((input, i) => {
+    const { map, emptyKeyRows } = groups[i];
+    const others = groups.filter((_, j) => j !== i);
+    const unmatched = [...map.keys()].filter((key) => !others.every((g) => g.map.has(key)));
+    const distinctKeys = map.size;
+
+    return {
+      alias: input.alias,
+      rows: input.records.length,
+      distinctKeys,
+      matchedKeys: distinctKeys - unmatched.length,
+      unmatchedKeys: unmatched.length,
+      matchRate: distinctKeys > 0 ? Math.round(((distinctKeys - unmatched.length) / distinctKeys) * 10000) / 10000 : 0,
+      duplicateKeys: [...map.values()].filter((g) => g.rows.length > 1).length,
+      emptyKeyRows,
+      unmatchedSample: unmatched.slice(0, UNMATCHED_SAMPLE).map((key) => map.get(key)!.raw.map(String).join(' | ')),
+    };
+  });
+
+  return {
+    type,
+    keyNames,
+    columns,
+    rows,
+    stats: {
+      outputRows: rows.length,
+      totalKeys: allKeys.length,
+      keysInAll: keysInAll.length,
+      truncated,
+      datasets,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  joinDatasets,
+  normalizeKeyValue,
+};
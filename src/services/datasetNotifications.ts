@@ -0,0 +1,328 @@
+/**
+ * إشعارات تحديث مجموعات البيانات - Dataset Update Notifications
+ *
+ * يستمع لحدث dataset.updated ويُرسل إشعاراً لمن أضاف الـ Dataset للمفضلة
+ * أو يتابع الجهة المالكة: فوراً، أو يُجمَّع في ملخص يومي/أسبوعي حسب تفضيل المستخدم
+ */
+
+import { prisma } from './database.js';
+import { onDatasetEvent, DatasetUpdatedEvent } from './datasetEvents.js';
+import { canAccessDataset } from './privateDatasets.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type DatasetUpdateKind = 'new_resource' | 'new_rows' | 'schema_change';
+export type DatasetUpdateDelivery = 'instant' | 'daily' | 'weekly' | 'off';
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DatasetUpdateSummary {
+  datasetId: string;
+  name: string;
+  nameAr: string;
+  kinds: DatasetUpdateKind[];
+  newResources: { name: string; url: string }[];
+  recordDelta: number | null;
+  schema: { addedColumns: string[]; removedColumns: string[]; typeChanges: number } | null;
+  detectedAt: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+export const DELIVERY_MODES: DatasetUpdateDelivery[] = ['instant', 'daily', 'weekly', 'off'];
+const DEFAULT_DELIVERY: DatasetUpdateDelivery = 'instant';
+const DIGEST_MAX_DATASETS = 20; // عدد الـ Datasets المعروضة في نص الملخص
+
+const KIND_LABELS: Record<DatasetUpdateKind, { en: string; ar: string }> = {
+  new_resource: { en: 'new resource', ar: 'مورد جديد' },
+  new_rows: { en: 'new rows', ar: 'صفوف جديدة' },
+  schema_change: { en: 'schema change', ar: 'تغيير في الأعمدة' },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تلخيص الحدث - فقط التغييرات التي تهم المشتركين (مورد جديد، صفوف جديدة، تغيير الأعمدة)
+ */
+export function summarizeUpdate(event: DatasetUpdatedEvent): DatasetUpdateSummary | null {
+  const { resources, recordCount, schema } = event.changes;
+  const kinds: DatasetUpdateKind[] = [];
+
+  const newResources = resources
+    .filter((r) => r.change === 'added')
+    .map((r) => ({ name: r.name, url: r.url }));
+  if (newResources.length > 0) kinds.push('new_resource');
+
+  if (recordCount && recordCount.delta > 0) kinds.push('new_rows');
+
+  const schemaChanged = !!schema &&
+    (schema.addedColumns.length > 0 || schema.removedColumns.length > 0 || schema.typeChanges.length > 0);
+  if (schemaChanged) kinds.push('schema_change');
+
+  if (kinds.length === 0) return null;
+
+  return {
+    datasetId: event.datasetId,
+    name: event.name,
+    nameAr: event.nameAr,
+    kinds,
+    newResources,
+    recordDelta: recordCount?.delta ?? null,
+    schema: schemaChanged
+      ? { addedColumns: schema!.addedColumns, removedColumns: schema!.removedColumns, typeChanges: schema!.typeChanges.length }
+      : null,
+    detectedAt: event.detectedAt.toISOString(),
+  };
+}
+
+function describeKinds(kinds: DatasetUpdateKind[], lang: 'en' | 'ar'): string {
+  return kinds.map((k) => KIND_LABELS[k][lang]).join(lang === 'ar' ? '، ' : ', ');
+}
+
+/**
+ * المشتركون: من أضاف الـ Dataset للمفضلة + متابعو الجهة المالكة
+ * الـ Datasets الخاصة: فقط من لا يزال يملك صلاحية الوصول، ولا تُرسل لمتابعي الجهة
+ */
+async function findSubscribers(datasetId: string): Promise<string[]> {
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    select: { id: true, entityId: true, ownerUserId: true },
+  });
+  if (!dataset) return [];
+
+  const favorites = await prisma.favorite.findMany({
+    where: { itemType: 'DATASET', itemId: dataset.id },
+    select: { userId: true },
+  });
+  const userIds = new Set(favorites.map((f) => f.userId));
+
+  if (dataset.entityId && !dataset.ownerUserId) {
+    const follows = await prisma.follow.findMany({
+      where: { followType: 'ENTITY', followedEntityId: dataset.entityId },
+      select: { followerId: true },
+    });
+    follows.forEach((f) => userIds.add(f.followerId));
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...userIds] }, isActive: true },
+    select: { id: true, role: true },
+  });
+
+  if (!dataset.ownerUserId) return users.map((u) => u.id);
+
+  const allowed: string[] = [];
+  for (const user of users) {
+    if (await canAccessDataset(dataset, { userId: user.id, role: user.role })) {
+      allowed.push(user.id);
+    }
+  }
+  return allowed;
+}
+
+async function getDeliveryModes(userIds: string[]): Promise<Map<string, DatasetUpdateDelivery>> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds } },
+    select: { userId: true, datasetUpdates: true },
+  });
+  const modes = new Map<string, DatasetUpdateDelivery>(userIds.map((id) => [id, DEFAULT_DELIVERY]));
+  for (const p of preferences) {
+    modes.set(p.userId, p.datasetUpdates as DatasetUpdateDelivery);
+  }
+  return modes;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Fan-out
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * توزيع إشعار التحديث على المشتركين
+ * الإشعارات الفورية تصل عبر /users/notifications/stream (SSE) لأنها تُحفظ في Notification
+ */
+export async function fanOutDatasetUpdate(event: DatasetUpdatedEvent): Promise<{ instant: number; queued: number }> {
+  const summary = summarizeUpdate(event);
+  if (!summary) return { instant: 0, queued: 0 };
+
+  const subscribers = await findSubscribers(event.datasetId);
+  if (subscribers.length === 0) return { instant: 0, queued: 0 };
+
+  const modes = await getDeliveryModes(subscribers);
+  const instant = subscribers.filter((id) => modes.get(id) === 'instant');
+  const digest = subscribers.filter((id) => modes.get(id) === 'daily' || modes.get(id) === 'weekly');
+
+  const kindsEn = describeKinds(summary.kinds, 'en');
+  const kindsAr = describeKinds(summary.kinds, 'ar');
+
+  if (instant.length > 0) {
+    await prisma.notification.createMany({
+      data: instant.map((userId) => ({
+        userId,
+        type: 'dataset_update',
+        title: 'Dataset Updated',
+        titleAr: 'تحديث مجموعة بيانات',
+        message: `"${summary.name}" has been updated: ${kindsEn}`,
+        messageAr: `تم تحديث "${summary.nameAr}": ${kindsAr}`,
+        data: JSON.stringify(summary),
+      })),
+    });
+  }
+
+  if (digest.length > 0) {
+    await prisma.datasetUpdateDigestItem.createMany({
+      data: digest.map((userId) => ({
+        userId,
+        datasetId: summary.datasetId,
+        summary: summary as any,
+      })),
+    });
+  }
+
+  logger.info(`🔔 Dataset update ${event.externalId}: ${instant.length} notified, ${digest.length} queued for digest`);
+  return { instant: instant.length, queued: digest.length };
+}
+
+/**
+ * إرسال الملخص الدوري
+ * الملخص اليومي يُفرغ أيضاً العناصر المتبقية لمن غيّر تفضيله إلى فوري أو إيقاف
+ */
+export async function sendDatasetUpdateDigests(
+  frequency: DigestFrequency
+): Promise<{ users: number; updates: number }> {
+  const pending = await prisma.datasetUpdateDigestItem.groupBy({
+    by: ['userId'],
+    _count: { _all: true },
+  });
+  if (pending.length === 0) return { users: 0, updates: 0 };
+
+  const modes = await getDeliveryModes(pending.map((p) => p.userId));
+  const due = pending
+    .map((p) => p.userId)
+    .filter((userId) => frequency === 'weekly' || modes.get(userId) !== 'weekly');
+
+  let users = 0;
+  let updates = 0;
+
+  for (const userId of due) {
+    const items = await prisma.datasetUpdateDigestItem.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (items.length === 0) continue;
+
+    // دمج تحديثات نفس الـ Dataset في سطر واحد
+    const byDataset = new Map<string, DatasetUpdateSummary>();
+    for (const item of items) {
+      const summary = item.summary as unknown as DatasetUpdateSummary;
+      const merged = byDataset.get(item.datasetId);
+      if (!merged) {
+        byDataset.set(item.datasetId, { ...summary, kinds: [...summary.kinds], newResources: [...summary.newResources] });
+        continue;
+      }
+      merged.kinds = [...new Set([...merged.kinds, ...summary.kinds])];
+      merged.newResources.push(...summary.newResources);
+      merged.recordDelta = (merged.recordDelta || 0) + (summary.recordDelta || 0) || null;
+      merged.schema = summary.schema || merged.schema;
+      merged.detectedAt = summary.detectedAt;
+    }
+
+    if (modes.get(userId) !== 'off') {
+      const datasets = [...byDataset.values()];
+      const shown = datasets.slice(0, DIGEST_MAX_DATASETS);
+      const more = datasets.length - shown.length;
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'dataset_digest',
+          title: frequency === 'weekly' ? 'Weekly Dataset Updates' : 'Daily Dataset Updates',
+          titleAr: frequency === 'weekly' ? 'ملخص تحديثات البيانات الأسبوعي' : 'ملخص تحديثات البيانات اليومي',
+          message: `${datasets.length} followed datasets were updated: ` +
+            shown.map((d) => `${d.name} (${describeKinds(d.kinds, 'en')})`).join('; ') +
+            (more > 0 ? ` and ${more} more` : ''),
+          messageAr: `تم تحديث ${datasets.length} من مجموعات البيانات التي تتابعها: ` +
+            shown.map((d) => `${d.nameAr} (${describeKinds(d.kinds, 'ar')})`).join('؛ ') +
+            (more > 0 ? ` و${more} أخرى` : ''),
+          data: JSON.stringify({ frequency, datasets }),
+        },
+      });
+      users++;
+      updates += datasets.length;
+    }
+
+    await prisma.datasetUpdateDigestItem.deleteMany({
+      where: { id: { in: items.map((i) => i.id) } },
+    });
+    await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, lastDigestAt: new Date() },
+      update: { lastDigestAt: new Date() },
+    });
+  }
+
+  logger.info(`📬 ${frequency} dataset digest: ${users} users, ${updates} dataset updates`);
+  return { users, updates };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Preferences
+// ═══════════════════════════════════════════════════════════════════
+
+export async function getNotificationPreferences(userId: string) {
+  const preference = await prisma.notificationPreference.findUnique({ where: { userId } });
+  const pendingDigest = await prisma.datasetUpdateDigestItem.count({ where: { userId } });
+  return {
+    datasetUpdates: (preference?.datasetUpdates || DEFAULT_DELIVERY) as DatasetUpdateDelivery,
+    lastDigestAt: preference?.lastDigestAt || null,
+    pendingDigest,
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  input: { datasetUpdates: DatasetUpdateDelivery }
+) {
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, datasetUpdates: input.datasetUpdates },
+    update: { datasetUpdates: input.datasetUpdates },
+  });
+  return getNotificationPreferences(userId);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Registration
+// ═══════════════════════════════════════════════════════════════════
+
+let registered = false;
+
+/**
+ * الاشتراك في أحداث التحديث (مرة واحدة عند تشغيل الخادم)
+ */
+export function registerDatasetUpdateNotifications(): void {
+  if (registered) return;
+  registered = true;
+  onDatasetEvent('dataset.updated', async (event) => {
+    await fanOutDatasetUpdate(event);
+  });
+  logger.info('🔔 Dataset update notifications registered');
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  summarizeUpdate,
+  fanOutDatasetUpdate,
+  sendDatasetUpdateDigests,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  registerDatasetUpdateNotifications,
+};
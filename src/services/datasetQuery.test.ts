@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { executeQuery, percentile } from './datasetQuery.js';
+
+describe('percentile', () => {
+  it('interpolates linearly between the closest ranks', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4], 25)).toBe(1.75);
+    expect(percentile([10, 20, 30, 40, 50], 90)).toBeCloseTo(46);
+  });
+
+  it('returns exact values on whole ranks and sorts its input', () => {
+    expect(percentile([3, 1, 2], 50)).toBe(2);
+    expect(percentile([4, 1, 3, 2], 0)).toBe(1);
+    expect(percentile([4, 1, 3, 2], 100)).toBe(4);
+  });
+
+  it('clamps p to 0-100 and handles empty / single inputs', () => {
+    expect(percentile([1, 2, 3], 150)).toBe(3);
+    expect(percentile([1, 2, 3], -10)).toBe(1);
+    expect(percentile([7], 30)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('executeQuery grouping with nulls', () => {
+  const records: Record<string, unknown>[] = [
+    { region: 'Riyadh', value: 10 },
+    { region: 'Riyadh', value: null },
+    { region: 'Riyadh', value: '30' },
+    { region: null, value: 5 },
+    { value: '٧' },
+    { region: 'Jeddah', value: '' },
+  ];
+
+  it('groups null and missing keys together and skips empty values in aggregates', () => {
+    const result = executeQuery(records, {
+      groupBy: ['region'],
+      aggregates: [
+        { fn: 'count' },
+        { fn: 'count', column: 'value' },
+        { fn: 'sum', column: 'value' },
+        { fn: 'avg', column: 'value' },
+        { fn: 'percentile', column: 'value', percentile: 50 },
+      ],
+    });
+
+    expect(result.grouped).toBe(true);
+    expect(result.totalRows).toBe(6);
+    expect(result.rows).toEqual([
+      { region: 'Riyadh', count: 3, count_value: 2, sum_value: 40, avg_value: 20, p50_value: 20 },
+      { region: null, count: 2, count_value: 2, sum_value: 12, avg_value: 6, p50_value: 6 },
+      { region: 'Jeddah', count: 1, count_value: 0, sum_value: null, avg_value: null, p50_value: null },
+    ]);
+  });
+
+  it('sorts aggregate results with nulls last', () => {
+    const result = executeQuery(records, {
+      groupBy: ['region'],
+      aggregates: [{ fn: 'sum', column: 'value', as: 'total' }],
+      sort: [{ column: 'total' }],
+    });
+
+    expect(result.rows.map((row) => row.total)).toEqual([12, 40, null]);
+  });
+
+  it('returns a single global group when nothing matches', () => {
+    const result = executeQuery(records, {
+      filters: [{ column: 'region', op: 'eq', value: 'Dammam' }],
+      aggregates: [{ fn: 'count' }, { fn: 'max', column: 'value' }],
+    });
+
+    expect(result.matchedRows).toBe(0);
+    expect(result.rows).toEqual([{ count: 0, max_value: null }]);
+  });
+});
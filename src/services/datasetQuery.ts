@@ -0,0 +1,407 @@
+/**
+ * محرك الاستعلام على البيانات - Dataset Query Engine
+ *
+ * يطبق الفلاتر والتجميع والدوال الإحصائية على سجلات الـ Dataset
+ * المخزنة مؤقتاً (On-Demand) بدلاً من إرسال آلاف السجلات للمتصفح
+ */
+
+import { z } from 'zod';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'in'
+  | 'contains';
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'percentile';
+
+export type ValueType = 'number' | 'string' | 'boolean' | 'date' | 'null';
+
+export interface QueryFilter {
+  column: string;
+  op: FilterOperator;
+  value?: unknown;
+  values?: unknown[];
+  min?: unknown;
+  max?: unknown;
+}
+
+export interface QueryAggregate {
+  fn: AggregateFunction;
+  column?: string;
+  percentile?: number; // 0-100, required for fn = percentile
+  as?: string;
+}
+
+export interface QuerySort {
+  column: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface DatasetQuery {
+  filters?: QueryFilter[];
+  groupBy?: string[];
+  aggregates?: QueryAggregate[];
+  select?: string[];
+  sort?: QuerySort[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface QueryColumn {
+  name: string;
+  type: ValueType;
+}
+
+export interface QueryResult {
+  columns: QueryColumn[];
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  matchedRows: number;
+  returnedRows: number;
+  grouped: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * مخطط التحقق من تعريف الاستعلام (يُستخدم في الاستعلام المباشر والاستعلامات المحفوظة)
+ */
+const scalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const queryFilterSchema = z.object({
+  column: z.string().min(1),
+  op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'contains']),
+  value: scalarSchema.optional(),
+  values: z.array(scalarSchema).max(500).optional(),
+  min: scalarSchema.optional(),
+  max: scalarSchema.optional(),
+});
+
+export const queryDefinitionSchema = z.object({
+  filters: z.array(queryFilterSchema).max(50).optional(),
+  groupBy: z.array(z.string().min(1)).max(10).optional(),
+  aggregates: z.array(z.object({
+    fn: z.enum(['sum', 'avg', 'min', 'max', 'count', 'percentile']),
+    column: z.string().min(1).optional(),
+    percentile: z.number().min(0).max(100).optional(),
+    as: z.string().min(1).max(100).optional(),
+  }).refine((a) => a.fn === 'count' || !!a.column, {
+    message: 'column is required for this aggregate',
+  })).max(20).optional(),
+  select: z.array(z.string().min(1)).max(200).optional(),
+  sort: z.array(z.object({
+    column: z.string().min(1),
+    direction: z.enum(['asc', 'desc']).optional(),
+  })).max(5).optional(),
+  limit: z.number().int().min(1).max(10000).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+const ARABIC_DIGITS = /[٠-٩۰-۹]/g;
+
+/**
+ * تحويل القيمة إلى رقم (يدعم الأرقام العربية والفواصل)
+ */
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return null;
+
+  const normalized = String(value)
+    .trim()
+    .replace(ARABIC_DIGITS, (d) => String(d.charCodeAt(0) & 0xf))
+    .replace(/[٬,\s]/g, '')
+    .replace('٫', '.')
+    .replace(/%$/, '');
+
+  if (normalized === '' || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(normalized)) return null;
+
+  const num = Number(normalized);
+  return Number.isFinite(num) ? num : null;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function detectValueType(value: unknown): ValueType {
+  if (isEmptyValue(value)) return 'null';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  if (toNumber(value) !== null) return 'number';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))) {
+    return 'date';
+  }
+  return 'string';
+}
+
+/**
+ * استنتاج نوع العمود من قيمه (الأغلبية، مع تجاهل القيم الفارغة)
+ */
+function inferColumnType(rows: Record<string, unknown>[], column: string): ValueType {
+  const counts: Partial<Record<ValueType, number>> = {};
+  for (const row of rows.slice(0, 500)) {
+    const type = detectValueType(row[column]);
+    if (type === 'null') continue;
+    counts[type] = (counts[type] || 0) + 1;
+  }
+
+  const entries = Object.entries(counts) as [ValueType, number][];
+  if (entries.length === 0) return 'null';
+  entries.sort((a, b) => b[1] - a[1]);
+  return entries[0][0];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (isEmptyValue(a) && isEmptyValue(b)) return 0;
+  if (isEmptyValue(a)) return 1;
+  if (isEmptyValue(b)) return -1;
+
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+
+  return String(a).localeCompare(String(b), 'ar');
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return numA === numB;
+  return String(a ?? '').trim() === String(b ?? '').trim();
+}
+
+export function matchesFilter(row: Record<string, unknown>, filter: QueryFilter): boolean {
+  const cell = row[filter.column];
+
+  switch (filter.op) {
+    case 'eq':
+      return valuesEqual(cell, filter.value);
+    case 'neq':
+      return !valuesEqual(cell, filter.value);
+    case 'gt':
+      return !isEmptyValue(cell) && compareValues(cell, filter.value) > 0;
+    case 'gte':
+      return !isEmptyValue(cell) && compareValues(cell, filter.value) >= 0;
+    case 'lt':
+      return !isEmptyValue(cell) && compareValues(cell, filter.value) < 0;
+    case 'lte':
+      return !isEmptyValue(cell) && compareValues(cell, filter.value) <= 0;
+    case 'between':
+      if (isEmptyValue(cell)) return false;
+      if (filter.min !== undefined && compareValues(cell, filter.min) < 0) return false;
+      if (filter.max !== undefined && compareValues(cell, filter.max) > 0) return false;
+      return true;
+    case 'in':
+      return (filter.values || []).some((v) => valuesEqual(cell, v));
+    case 'contains':
+      return String(cell ?? '').toLowerCase().includes(String(filter.value ?? '').toLowerCase());
+    default:
+      return true;
+  }
+}
+
+/**
+ * حساب النسبة المئوية بالاستيفاء الخطي (p من 0 إلى 100)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function aggregateAlias(agg: QueryAggregate): string {
+  if (agg.as) return agg.as;
+  if (agg.fn === 'count') return agg.column ? `count_${agg.column}` : 'count';
+  if (agg.fn === 'percentile') return `p${agg.percentile ?? 50}_${agg.column}`;
+  return `${agg.fn}_${agg.column}`;
+}
+
+function computeAggregate(rows: Record<string, unknown>[], agg: QueryAggregate): number | null {
+  if (agg.fn === 'count') {
+    if (!agg.column) return rows.length;
+    return rows.filter((r) => !isEmptyValue(r[agg.column!])).length;
+  }
+
+  const values = rows
+    .map((r) => toNumber(r[agg.column!]))
+    .filter((v): v is number => v !== null);
+
+  if (values.length === 0) return null;
+
+  switch (agg.fn) {
+    case 'sum':
+      return values.reduce((a, b) => a + b, 0);
+    case 'avg':
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min':
+      return values.reduce((a, b) => (b < a ? b : a), values[0]);
+    case 'max':
+      return values.reduce((a, b) => (b > a ? b : a), values[0]);
+    case 'percentile':
+      return percentile(values, agg.percentile ?? 50);
+    default:
+      return null;
+  }
+}
+
+function sortRows(rows: Record<string, unknown>[], sort: QuerySort[]): Record<string, unknown>[] {
+  if (sort.length === 0) return rows;
+  return [...rows].sort((a, b) => {
+    for (const s of sort) {
+      const diff = compareValues(a[s.column], b[s.column]);
+      if (diff !== 0) return s.direction === 'desc' ? -diff : diff;
+    }
+    return 0;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * التحقق من أن الأعمدة المستخدمة في الاستعلام موجودة
+ * يرجع قائمة الأعمدة غير المعروفة
+ */
+export function findUnknownColumns(query: DatasetQuery, columns: string[]): string[] {
+  const known = new Set(columns);
+  const aliases = new Set((query.aggregates || []).map(aggregateAlias));
+  const referenced = [
+    ...(query.filters || []).map((f) => f.column),
+    ...(query.groupBy || []),
+    ...(query.select || []),
+    ...(query.aggregates || []).map((a) => a.column).filter((c): c is string => !!c),
+  ];
+  const sortColumns = (query.sort || []).map((s) => s.column).filter((c) => !aliases.has(c));
+
+  return [...new Set([...referenced, ...sortColumns])].filter((c) => !known.has(c));
+}
+
+/**
+ * تنفيذ استعلام على مجموعة سجلات (دالة نقية بدون DB أو Cache)
+ */
+export function executeQuery(
+  records: Record<string, unknown>[],
+  query: DatasetQuery
+): QueryResult {
+  const { filters = [], groupBy = [], aggregates = [], select, sort = [] } = query;
+  const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = query.offset ?? 0;
+
+  // 1. Filter
+  const matched = filters.length > 0
+    ? records.filter((row) => filters.every((f) => matchesFilter(row, f)))
+    : records;
+
+  const grouped = groupBy.length > 0 || aggregates.length > 0;
+  let rows: Record<string, unknown>[];
+
+  if (grouped) {
+    // 2. Group + aggregate
+    const effectiveAggregates = aggregates.length > 0 ? aggregates : [{ fn: 'count' as const }];
+    const groups = new Map<string, { key: Record<string, unknown>; rows: Record<string, unknown>[] }>();
+
+    for (const row of matched) {
+      const key: Record<string, unknown> = {};
+      for (const col of groupBy) key[col] = row[col] ?? null;
+      const hash = JSON.stringify(groupBy.map((col) => key[col]));
+
+      let group = groups.get(hash);
+      if (!group) {
+        group = { key, rows: [] };
+        groups.set(hash, group);
+      }
+      group.rows.push(row);
+    }
+
+    // No groupBy => a single global group (even if nothing matched)
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', { key: {}, rows: [] });
+    }
+
+    rows = [...groups.values()].map((group) => {
+      const out: Record<string, unknown> = { ...group.key };
+      for (const agg of effectiveAggregates) {
+        out[aggregateAlias(agg)] = computeAggregate(group.rows, agg);
+      }
+      return out;
+    });
+  } else if (select && select.length > 0) {
+    // 3. Projection
+    rows = matched.map((row) => {
+      const out: Record<string, unknown> = {};
+      for (const col of select) out[col] = row[col] ?? null;
+      return out;
+    });
+  } else {
+    rows = matched;
+  }
+
+  // 4. Sort + paginate
+  const sorted = sortRows(rows, sort);
+  const page = sorted.slice(offset, offset + limit);
+
+  // 5. Column types
+  const columnNames = page.length > 0
+    ? Object.keys(page[0])
+    : grouped
+      ? [...groupBy, ...(aggregates.length > 0 ? aggregates : [{ fn: 'count' as const }]).map(aggregateAlias)]
+      : select || [];
+
+  const columns = columnNames.map((name) => ({
+    name,
+    type: inferColumnType(sorted, name),
+  }));
+
+  return {
+    columns,
+    rows: page,
+    totalRows: records.length,
+    matchedRows: matched.length,
+    returnedRows: page.length,
+    grouped,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  queryDefinitionSchema,
+  queryFilterSchema,
+  executeQuery,
+  matchesFilter,
+  findUnknownColumns,
+  toNumber,
+  percentile,
+};
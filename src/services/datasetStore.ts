@@ -0,0 +1,195 @@
+/**
+ * مخزن البيانات المجزأ - Chunked Dataset Store
+ *
+ * الـ Datasets الصغيرة تُخزن في مفتاح واحد كما هي
+ * الكبيرة تُقسم إلى أجزاء (chunks) في Redis مع مفتاح رئيسي يصفها،
+ * فيُقرأ فقط الجزء المطلوب للصفحة بدلاً من تحميل كل السجلات في الذاكرة
+ */
+
+import { cacheGet, cacheSet, cacheDel, cacheDelPattern, getRedis } from './cache.js';
+import type { DatasetData } from './onDemandData.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ChunkInfo {
+  size: number;
+  count: number;
+}
+
+// الشكل المخزن: إما السجلات كاملة أو وصف الأجزاء
+export type StoredDataset = Omit<DatasetData, 'source'> & {
+  source: string;
+  chunks?: ChunkInfo;
+};
+
+export interface ChunkWriter {
+  push(record: Record<string, unknown>): Promise<void>;
+  finish(meta: Omit<StoredDataset, 'records' | 'totalRecords' | 'chunks'>): Promise<StoredDataset>;
+  readonly rowCount: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+export const CHUNK_SIZE = 5000; // سجلات في كل جزء
+export const INLINE_LIMIT = 20000; // أقل من هذا يُخزن في مفتاح واحد
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function chunkKey(baseKey: string, index: number): string {
+  return `${baseKey}:chunk:${index}`;
+}
+
+async function readChunk(baseKey: string, index: number): Promise<Record<string, unknown>[] | null> {
+  const cached = await cacheGet<string>(chunkKey(baseKey, index));
+  return cached ? JSON.parse(cached) : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * كاتب تدفقي: يجمع السجلات في الذاكرة حتى INLINE_LIMIT
+ * ثم يبدأ بكتابة الأجزاء إلى Redis أولاً بأول
+ * بدون Redis تبقى السجلات في الذاكرة (بيئة التطوير)
+ */
+export function createChunkWriter(baseKey: string, ttl: number): ChunkWriter {
+  const canChunk = getRedis() !== null;
+  let buffer: Record<string, unknown>[] = [];
+  let chunkCount = 0;
+  let rowCount = 0;
+
+  const flush = async (force: boolean) => {
+    while (buffer.length >= CHUNK_SIZE || (force && buffer.length > 0)) {
+      const chunk = buffer.slice(0, CHUNK_SIZE);
+      buffer = buffer.slice(CHUNK_SIZE);
+      await cacheSet(chunkKey(baseKey, chunkCount), JSON.stringify(chunk), ttl);
+      chunkCount++;
+    }
+  };
+
+  return {
+    get rowCount() {
+      return rowCount;
+    },
+
+    async push(record) {
+      buffer.push(record);
+      rowCount++;
+      if (canChunk && (chunkCount > 0 || rowCount > INLINE_LIMIT)) {
+        await flush(false);
+      }
+    },
+
+    async finish(meta) {
+      let stored: StoredDataset;
+
+      if (chunkCount === 0) {
+        stored = { ...meta, records: buffer, totalRecords: rowCount };
+      } else {
+        await flush(true);
+        stored = { ...meta, records: [], totalRecords: rowCount, chunks: { size: CHUNK_SIZE, count: chunkCount } };
+      }
+
+      await cacheSet(baseKey, JSON.stringify(stored), ttl);
+      return stored;
+    },
+  };
+}
+
+/**
+ * تخزين Dataset محمّل بالكامل (Excel / JSON / XML) بنفس التقسيم
+ */
+export async function writeDataset(
+  baseKey: string,
+  data: Omit<StoredDataset, 'totalRecords' | 'chunks'>,
+  ttl: number
+): Promise<StoredDataset> {
+  const { records, ...meta } = data;
+  const writer = createChunkWriter(baseKey, ttl);
+  for (const record of records) {
+    await writer.push(record);
+  }
+  return writer.finish(meta);
+}
+
+/**
+ * قراءة وصف Dataset المخزن فقط (عدد السجلات والأجزاء) دون تحميل الأجزاء
+ */
+export async function readDatasetHeader(baseKey: string): Promise<StoredDataset | null> {
+  const cached = await cacheGet<string>(baseKey);
+  return cached ? (JSON.parse(cached) as StoredDataset) : null;
+}
+
+/**
+ * قراءة Dataset من المخزن - عند تحديد limit تُقرأ الأجزاء اللازمة فقط
+ * يعيد null إذا انتهت صلاحية أي جزء مطلوب
+ */
+export async function readDataset(
+  baseKey: string,
+  options: { offset?: number; limit?: number } = {}
+): Promise<StoredDataset | null> {
+  const stored = await readDatasetHeader(baseKey);
+  if (!stored) return null;
+  return loadRecords(baseKey, stored, options);
+}
+
+/**
+ * تعبئة السجلات المطلوبة لـ Dataset مخزن (مجزأ أو كامل)
+ */
+export async function loadRecords(
+  baseKey: string,
+  stored: StoredDataset,
+  options: { offset?: number; limit?: number } = {}
+): Promise<StoredDataset | null> {
+  const { offset = 0, limit } = options;
+
+  if (!stored.chunks) {
+    return limit ? { ...stored, records: stored.records.slice(offset, offset + limit) } : stored;
+  }
+
+  const end = limit ? Math.min(offset + limit, stored.totalRecords) : stored.totalRecords;
+  if (offset >= end) return { ...stored, records: [] };
+
+  const first = Math.floor(offset / stored.chunks.size);
+  const last = Math.min(Math.floor((end - 1) / stored.chunks.size), stored.chunks.count - 1);
+
+  const records: Record<string, unknown>[] = [];
+  for (let i = first; i <= last; i++) {
+    const chunk = await readChunk(baseKey, i);
+    if (!chunk) return null;
+    records.push(...chunk);
+  }
+
+  const start = offset - first * stored.chunks.size;
+  return { ...stored, records: records.slice(start, start + (end - offset)) };
+}
+
+/**
+ * حذف Dataset وأجزائه
+ */
+export async function deleteDataset(baseKey: string): Promise<void> {
+  await cacheDel(baseKey);
+  await cacheDelPattern(`${baseKey}:chunk:*`);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  createChunkWriter,
+  writeDataset,
+  readDatasetHeader,
+  readDataset,
+  loadRecords,
+  deleteDataset,
+  CHUNK_SIZE,
+  INLINE_LIMIT,
+};
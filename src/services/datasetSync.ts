@@ -8,6 +8,7 @@
 import puppeteer from 'puppeteer-core';
 import { prisma } from './database.js';
 import { logger } from '../utils/logger.js';
+import { PORTAL_BASE_URL, PORTAL_SOURCE_NAME } from './dataConnectors.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Configuration
@@ -15,7 +16,7 @@ import { logger } from '../utils/logger.js';
 
 const BROWSERLESS_URL = process.env.BROWSERLESS_URL || 'wss://chrome.browserless.io?token=';
 const BROWSERLESS_TOKEN = process.env.BROWSERLESS_TOKEN || '';
-const BASE_URL = 'https://open.data.gov.sa';
+const BASE_URL = PORTAL_BASE_URL;
 const PAGE_SIZE = 50;
 const MAX_RETRIES = 3;
 
@@ -178,7 +179,7 @@ async function saveDataset(item: DatasetItem): Promise<{ isNew: boolean }> {
   const nameEn = item.titleEn || item.title || '';
   const description = item.descriptionAr || item.descriptionEn || item.description || '';
   const descriptionEn = item.descriptionEn || item.description || '';
-  const source = item.publisherNameAr || item.publisherNameEn || 'open.data.gov.sa';
+  const source = item.publisherNameAr || item.publisherNameEn || PORTAL_SOURCE_NAME;
   const sourceUrl = `${BASE_URL}/ar/datasets/view/${datasetId}`;
 
   // Check if exists
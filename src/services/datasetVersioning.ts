@@ -0,0 +1,346 @@
+/**
+ * خدمة نسخ مجموعات البيانات - Dataset Versioning
+ *
+ * تحفظ لقطة (snapshot) عن كل جلب ناجح: عدد الصفوف، الأعمدة، بصمة المحتوى
+ * وملخص لكل عمود، وتقارن بين نسختين لمعرفة ما تغيّر في البيانات الحكومية
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './database.js';
+import { ColumnProfile } from './columnProfiler.js';
+import { toNumber } from './datasetQuery.js';
+import { maskValue, PiiType } from './piiScanner.js';
+import { logger } from '../utils/logger.js';
+import { emitDatasetUpdated } from './datasetEvents.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ColumnSummary {
+  type: string;
+  nullRatio: number;
+  distinctCount: number;
+  min: number | string | null;
+  max: number | string | null;
+  sum: number | null;
+  mean: number | null;
+}
+
+export interface VersionSnapshot {
+  rowCount: number;
+  columns: string[];
+  contentHash: string;
+  summary: Record<string, ColumnSummary>;
+}
+
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+  delta: number | null;
+}
+
+export interface VersionDiff {
+  contentChanged: boolean;
+  addedColumns: string[];
+  removedColumns: string[];
+  typeChanges: { column: string; from: string; to: string }[];
+  rowCount: ValueChange<number> & { deltaPercent: number | null };
+  changedAggregates: {
+    column: string;
+    changes: Partial<Record<'sum' | 'mean' | 'min' | 'max' | 'nullRatio' | 'distinctCount', ValueChange<unknown>>>;
+  }[];
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const NUMERIC_TYPES = new Set(['integer', 'decimal']);
+const COMPARED_FIELDS = ['sum', 'mean', 'min', 'max', 'nullRatio', 'distinctCount'] as const;
+const RAW_VALUE_FIELDS = ['sum', 'mean', 'min', 'max'] as const; // قيم مشتقة مباشرة من الخلايا
+const MAX_DUPLICATE_SCAN = 500000; // صفوف تُفحص للتكرار (بصمة 48-bit لكل صف)
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function numericDelta(from: unknown, to: unknown): number | null {
+  return typeof from === 'number' && typeof to === 'number' ? round(to - from) : null;
+}
+
+/**
+ * مُجمِّع تدريجي للقطة: بصمة المحتوى (SHA-256) وعدد الصفوف ومجاميع الأعمدة
+ * يسمح ببناء اللقطة أثناء القراءة التدفقية دون الاحتفاظ بكل السجلات
+ * ويعدّ الصفوف المكررة على البيانات الكاملة لا على عينة التحليل
+ */
+export function createSnapshotAccumulator(columns: string[]) {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(columns));
+  const totals = new Map<string, { total: number; count: number }>(columns.map((c) => [c, { total: 0, count: 0 }]));
+  const seen = new Set<number>();
+  let rowCount = 0;
+  let duplicates = 0;
+
+  return {
+    get rowCount() {
+      return rowCount;
+    },
+
+    // Exact up to MAX_DUPLICATE_SCAN rows, extrapolated beyond it
+    get duplicateRows() {
+      const scanned = Math.min(rowCount, MAX_DUPLICATE_SCAN);
+      return scanned < rowCount ? Math.round((duplicates / scanned) * rowCount) : duplicates;
+    },
+
+    add(record: Record<string, unknown>): void {
+      const line = JSON.stringify(columns.map((c) => record[c] ?? null));
+      hash.update('\n');
+      hash.update(line);
+
+      if (rowCount < MAX_DUPLICATE_SCAN) {
+        const key = createHash('md5').update(line).digest().readUIntBE(0, 6);
+        if (seen.has(key)) duplicates++;
+        else seen.add(key);
+      }
+
+      rowCount++;
+      for (const column of columns) {
+        const n = toNumber(record[column]);
+        if (n !== null) {
+          const t = totals.get(column)!;
+          t.total += n;
+          t.count++;
+        }
+      }
+    },
+
+    finish(profiles: ColumnProfile[]): VersionSnapshot {
+      const summary: Record<string, ColumnSummary> = {};
+      for (const profile of profiles) {
+        const t = totals.get(profile.name);
+        const numeric = NUMERIC_TYPES.has(profile.type) && !profile.pii && t;
+        summary[profile.name] = {
+          type: profile.type,
+          nullRatio: profile.nullRatio,
+          distinctCount: profile.distinctCount,
+          min: profile.min,
+          max: profile.max,
+          sum: numeric ? round(t.total) : null,
+          mean: numeric && t.count > 0 ? round(t.total / t.count) : null,
+        };
+      }
+      return { rowCount, columns, contentHash: hash.digest('hex'), summary };
+    },
+  };
+}
+
+/**
+ * بناء لقطة من السجلات وتحليل الأعمدة
+ */
+export function buildSnapshot(
+  records: Record<string, unknown>[],
+  columns: string[],
+  profiles: ColumnProfile[]
+): VersionSnapshot {
+  const accumulator = createSnapshotAccumulator(columns);
+  for (const record of records) {
+    accumulator.add(record);
+  }
+  return accumulator.finish(profiles);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * مقارنة نسختين
+ */
+export function diffSnapshots(from: VersionSnapshot, to: VersionSnapshot): VersionDiff {
+  const fromColumns = new Set(from.columns);
+  const toColumns = new Set(to.columns);
+  const common = to.columns.filter((c) => fromColumns.has(c));
+
+  const typeChanges = common
+    .filter((c) => from.summary[c] && to.summary[c] && from.summary[c].type !== to.summary[c].type)
+    .map((c) => ({ column: c, from: from.summary[c].type, to: to.summary[c].type }));
+
+  const changedAggregates: VersionDiff['changedAggregates'] = [];
+  for (const column of common) {
+    const a = from.summary[column];
+    const b = to.summary[column];
+    if (!a || !b) continue;
+
+    const changes: VersionDiff['changedAggregates'][number]['changes'] = {};
+    for (const field of COMPARED_FIELDS) {
+      if (a[field] !== b[field]) {
+        changes[field] = { from: a[field], to: b[field], delta: numericDelta(a[field], b[field]) };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      changedAggregates.push({ column, changes });
+    }
+  }
+
+  const rowDelta = to.rowCount - from.rowCount;
+
+  return {
+    contentChanged: from.contentHash !== to.contentHash,
+    addedColumns: to.columns.filter((c) => !fromColumns.has(c)),
+    removedColumns: from.columns.filter((c) => !toColumns.has(c)),
+    typeChanges,
+    rowCount: {
+      from: from.rowCount,
+      to: to.rowCount,
+      delta: rowDelta,
+      deltaPercent: from.rowCount > 0 ? round((rowDelta / from.rowCount) * 100) : null,
+    },
+    changedAggregates,
+  };
+}
+
+/**
+ * حجب قيم الأعمدة الشخصية في المقارنة (min / max / sum / mean) وإزالة الأعمدة المخفية
+ * يشمل ملخصات النسخ المحفوظة قبل اكتشاف العمود كبيانات شخصية
+ */
+export function maskVersionDiff(
+  diff: VersionDiff,
+  masked: { column: string; type?: PiiType }[],
+  hidden: string[] = []
+): VersionDiff {
+  if (masked.length === 0 && hidden.length === 0) return diff;
+  const types = new Map(masked.map((m) => [m.column, m.type]));
+  const visible = (column: string) => !hidden.includes(column);
+
+  return {
+    ...diff,
+    addedColumns: diff.addedColumns.filter(visible),
+    removedColumns: diff.removedColumns.filter(visible),
+    typeChanges: diff.typeChanges.filter((change) => visible(change.column)),
+    changedAggregates: diff.changedAggregates.filter((entry) => visible(entry.column)).map((entry) => {
+      if (!types.has(entry.column)) return entry;
+      const type = types.get(entry.column);
+      const changes = { ...entry.changes };
+      for (const field of RAW_VALUE_FIELDS) {
+        const change = changes[field];
+        if (change) changes[field] = { from: maskValue(change.from, type), to: maskValue(change.to, type), delta: null };
+      }
+      return { column: entry.column, changes };
+    }),
+  };
+}
+
+/**
+ * تحويل سجل النسخة من قاعدة البيانات إلى لقطة
+ */
+export function parseVersion(version: {
+  rowCount: number;
+  columns: string;
+  contentHash: string;
+  summary: string;
+}): VersionSnapshot {
+  let columns: string[] = [];
+  let summary: Record<string, ColumnSummary> = {};
+  try { columns = JSON.parse(version.columns); } catch {}
+  try { summary = JSON.parse(version.summary); } catch {}
+  return { rowCount: version.rowCount, columns, contentHash: version.contentHash, summary };
+}
+
+/**
+ * حفظ نسخة جديدة بعد جلب ناجح
+ * إذا لم يتغير المحتوى يُحدَّث آخر ظهور للنسخة الحالية بدلاً من تكرارها
+ * تغيّر الأعمدة أو أنواعها يُطلق حدث dataset.updated (تغيّر الصفوف تكشفه المزامنة)
+ */
+export async function recordDatasetVersion(
+  externalId: string,
+  snapshot: VersionSnapshot,
+  source: string = 'api'
+): Promise<{ version: number; created: boolean } | null> {
+  try {
+    const dataset = await prisma.dataset.findUnique({
+      where: { externalId },
+      select: { id: true, name: true, nameAr: true },
+    });
+
+    if (!dataset) return null;
+
+    const latest = await prisma.datasetVersion.findFirst({
+      where: { datasetId: dataset.id },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, rowCount: true, columns: true, contentHash: true, summary: true },
+    });
+
+    if (latest && latest.contentHash === snapshot.contentHash) {
+      await prisma.datasetVersion.update({
+        where: { id: latest.id },
+        data: { lastSeenAt: new Date(), fetchCount: { increment: 1 } },
+      });
+      return { version: latest.version, created: false };
+    }
+
+    const version = (latest?.version || 0) + 1;
+
+    await prisma.datasetVersion.create({
+      data: {
+        datasetId: dataset.id,
+        version,
+        rowCount: snapshot.rowCount,
+        columns: JSON.stringify(snapshot.columns),
+        contentHash: snapshot.contentHash,
+        summary: JSON.stringify(snapshot.summary),
+        source,
+      },
+    });
+
+    logger.info(`🗂️ New version v${version} recorded for ${externalId} (${snapshot.rowCount} rows)`);
+
+    if (latest) {
+      const diff = diffSnapshots(parseVersion(latest), snapshot);
+      if (diff.addedColumns.length > 0 || diff.removedColumns.length > 0 || diff.typeChanges.length > 0) {
+        emitDatasetUpdated({
+          datasetId: dataset.id,
+          externalId,
+          name: dataset.name,
+          nameAr: dataset.nameAr,
+          previousHash: latest.contentHash,
+          contentHash: snapshot.contentHash,
+          changes: {
+            metadata: [],
+            resources: [],
+            recordCount: null,
+            schema: {
+              addedColumns: diff.addedColumns,
+              removedColumns: diff.removedColumns,
+              typeChanges: diff.typeChanges,
+            },
+          },
+          detectedAt: new Date(),
+        });
+      }
+    }
+
+    return { version, created: true };
+  } catch (error) {
+    logger.error(`❌ Failed to record version for ${externalId}:`, error);
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  recordDatasetVersion,
+  buildSnapshot,
+  diffSnapshots,
+  maskVersionDiff,
+  parseVersion,
+  createSnapshotAccumulator,
+};
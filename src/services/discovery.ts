@@ -9,15 +9,17 @@
  * - يجلب كل الـ 15,500+ dataset من منصة البيانات المفتوحة السعودية
  */
 
-import puppeteer from 'puppeteer-core';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { z } from 'zod';
 import { prisma } from './database.js';
 import { logger } from '../utils/logger.js';
+import { portal, PORTAL_BASE_URL } from './dataConnectors.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
 // ═══════════════════════════════════════════════════════════════════
 
-interface DiscoveryResult {
+export interface DiscoveryResult {
   total: number;
   known: number;
   newIds: string[];
@@ -47,6 +49,28 @@ interface DatasetFromAPI {
   organization?: string;
 }
 
+// مراحل الاكتشاف الشامل بالترتيب
+export type DiscoveryPhase = z.infer<typeof discoveryPhaseSchema>;
+
+/**
+ * نقطة الاستئناف: index = رقم النمط أو القسم، page = آخر صفحة مكتملة
+ * (تُحفظ كـ JSON في DiscoveryRun.checkpoint وتُقرأ عبر المخطط)
+ */
+export type DiscoveryCheckpoint = z.infer<typeof discoveryCheckpointSchema>;
+
+export type CategoryProgress = z.infer<typeof categoryProgressSchema>;
+
+export interface FullDiscoveryOptions {
+  checkpoint?: DiscoveryCheckpoint;
+  categories?: Record<string, CategoryProgress>;
+  // حفظ IDs المكتشفة - يرجع عدد الجديدة منها
+  onIds?: (ids: string[]) => Promise<number>;
+  onCheckpoint?: (checkpoint: DiscoveryCheckpoint, categories: Record<string, CategoryProgress>) => Promise<void>;
+  onProgress?: (progress: DiscoveryProgress) => void;
+  // إلغاء المهمة: يتوقف الزحف عند نقطة الحفظ التالية
+  signal?: AbortSignal;
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // Configuration
 // ═══════════════════════════════════════════════════════════════════
@@ -54,7 +78,7 @@ interface DatasetFromAPI {
 const BROWSERLESS_URL = process.env.BROWSERLESS_URL || 'wss://chrome.browserless.io?token=';
 const BROWSERLESS_TOKEN = process.env.BROWSERLESS_TOKEN || '';
 
-const BASE_URL = 'https://open.data.gov.sa';
+const BASE_URL = PORTAL_BASE_URL;
 const DATASETS_URL = `${BASE_URL}/ar/datasets`;
 
 // تأخير بين الطلبات لتجنب الحظر
@@ -63,6 +87,26 @@ const PAGE_LOAD_TIMEOUT = 90000;
 const SCROLL_DELAY = 2000;
 const MAX_SCROLL_ATTEMPTS = 200; // زيادة كبيرة لجلب المزيد
 
+export const INITIAL_CHECKPOINT: DiscoveryCheckpoint = { phase: 'patterns', index: 0, page: 0 };
+
+const discoveryPhaseSchema = z.enum(['patterns', 'pagination', 'scroll', 'categories', 'done']);
+
+export const discoveryCheckpointSchema = z.object({
+  phase: discoveryPhaseSchema,
+  index: z.number().int().min(0),
+  page: z.number().int().min(0),
+  workingUrl: z.string().optional(),
+});
+
+export const categoryProgressSchema = z.object({
+  status: z.enum(['running', 'completed', 'failed']),
+  pages: z.number().int().min(0),
+  failedPages: z.number().int().min(0),
+  seen: z.number().int().min(0),
+  found: z.number().int().min(0),
+  error: z.string().optional(),
+});
+
 // ═══════════════════════════════════════════════════════════════════
 // قائمة كل الأقسام المتاحة في منصة البيانات المفتوحة السعودية
 // All available categories on Saudi Open Data Platform
@@ -420,21 +464,27 @@ async function discoverWithNetworkInterception(
 /**
  * اكتشاف من خلال التنقل بين صفحات الـ Pagination مباشرة
  * Uses URL-based pagination to iterate through ALL pages
+ * startPage + onPage: للاستئناف من آخر صفحة محفوظة
  */
 async function discoverWithURLPagination(
   page: puppeteer.Page,
   baseUrl: string,
   maxPages: number = 500,
-  onProgress?: (progress: DiscoveryProgress) => void
+  onProgress?: (progress: DiscoveryProgress) => void,
+  options: {
+    startPage?: number;
+    onPage?: (pageNum: number, ids: string[], failed: boolean) => Promise<void>;
+  } = {}
 ): Promise<{ ids: Set<string>; apiDatasets: DatasetFromAPI[] }> {
   const allIds = new Set<string>();
   const allApiDatasets: DatasetFromAPI[] = [];
   let consecutiveEmptyPages = 0;
   const MAX_EMPTY_PAGES = 3;
+  const startPage = options.startPage || 1;
 
-  logger.info(`\n📄 Starting URL-based pagination discovery...`);
+  logger.info(`\n📄 Starting URL-based pagination discovery${startPage > 1 ? ` (resuming at page ${startPage})` : ''}...`);
 
-  for (let pageNum = 1; pageNum <= maxPages; pageNum++) {
+  for (let pageNum = startPage; pageNum <= maxPages; pageNum++) {
     // Try different pagination URL formats
     const paginationUrls = [
       `${baseUrl}?page=${pageNum}`,
@@ -444,6 +494,8 @@ async function discoverWithURLPagination(
     ];
 
     let pageFound = false;
+    let pageIds: string[] = [];
+    let loadErrors = 0;
 
     for (const url of paginationUrls) {
       try {
@@ -455,7 +507,7 @@ async function discoverWithURLPagination(
         await delay(3000);
 
         const content = await page.content();
-        const pageIds = extractDatasetIds(content);
+        pageIds = extractDatasetIds(content);
 
         if (pageIds.length > 0) {
           const newCount = pageIds.filter((id) => !allIds.has(id)).length;
@@ -481,6 +533,7 @@ async function discoverWithURLPagination(
           break;
         }
       } catch {
+        loadErrors++;
         continue;
       }
     }
@@ -489,6 +542,10 @@ async function discoverWithURLPagination(
       consecutiveEmptyPages++;
     }
 
+    if (options.onPage) {
+      await options.onPage(pageNum, pageFound ? pageIds : [], loadErrors === paginationUrls.length);
+    }
+
     // Stop if we've had multiple empty pages in a row
     if (consecutiveEmptyPages >= MAX_EMPTY_PAGES) {
       logger.info(`   ✅ Pagination complete: No new datasets for ${MAX_EMPTY_PAGES} consecutive pages`);
@@ -503,10 +560,13 @@ async function discoverWithURLPagination(
 
 /**
  * اكتشاف من عدة صفحات مع أنماط بحث مختلفة
+ * startIndex + onPattern: للاستئناف من آخر نمط محفوظ
  */
 async function discoverFromMultiplePages(
   page: puppeteer.Page,
-  onProgress?: (progress: DiscoveryProgress) => void
+  onProgress?: (progress: DiscoveryProgress) => void,
+  startIndex: number = 0,
+  onPattern?: (index: number, ids: string[]) => Promise<void>
 ): Promise<{ ids: Set<string>; apiDatasets: DatasetFromAPI[] }> {
   const allIds = new Set<string>();
   const allApiDatasets: DatasetFromAPI[] = [];
@@ -528,8 +588,9 @@ async function discoverFromMultiplePages(
   });
 
   // Try each URL pattern
-  for (let i = 0; i < urlPatterns.length; i++) {
+  for (let i = startIndex; i < urlPatterns.length; i++) {
     const url = urlPatterns[i];
+    let patternIds: string[] = [];
 
     try {
       logger.info(`\n📄 Pattern ${i + 1}/${urlPatterns.length}: ${url.substring(0, 60)}...`);
@@ -539,6 +600,7 @@ async function discoverFromMultiplePages(
       const newCount = Array.from(ids).filter((id) => !allIds.has(id)).length;
       ids.forEach((id) => allIds.add(id));
       apiDatasets.forEach((d) => allApiDatasets.push(d));
+      patternIds = Array.from(ids);
 
       logger.info(`   📊 Found ${ids.size} (new: ${newCount}, total: ${allIds.size})`);
 
@@ -555,14 +617,11 @@ async function discoverFromMultiplePages(
     } catch (error) {
       logger.error(`   ❌ Error with pattern: ${error instanceof Error ? error.message : 'Unknown'}`);
     }
-  }
 
-  // NEW: Try URL-based pagination for comprehensive discovery
-  logger.info('\n══════ المرحلة الإضافية: Pagination بالـ URL ══════');
-  const { ids: paginationIds } = await discoverWithURLPagination(page, DATASETS_URL, 500, onProgress);
-  const newFromPagination = Array.from(paginationIds).filter((id) => !allIds.has(id)).length;
-  paginationIds.forEach((id) => allIds.add(id));
-  logger.info(`   📊 بعد Pagination: ${allIds.size} (جديد: ${newFromPagination})`);
+    if (onPattern) {
+      await onPattern(i, patternIds);
+    }
+  }
 
   return { ids: allIds, apiDatasets: allApiDatasets };
 }
@@ -570,24 +629,56 @@ async function discoverFromMultiplePages(
 /**
  * اكتشاف كل الـ Datasets من كل الأقسام
  * Discover ALL datasets from ALL categories
+ *
+ * يحفظ نقطة استئناف بعد كل نمط / صفحة / قسم عبر onCheckpoint،
+ * ويستأنف من options.checkpoint بدل البدء من الصفر.
+ * يرمي خطأ عند فقدان الاتصال بالمتصفح حتى يمكن استئناف التشغيل لاحقاً.
  */
-export async function discoverAllDatasets(
-  onProgress?: (progress: DiscoveryProgress) => void
-): Promise<string[]> {
+export async function discoverAllDatasets(options: FullDiscoveryOptions = {}): Promise<string[]> {
+  const { onIds, onCheckpoint, onProgress } = options;
+  const checkpoint: DiscoveryCheckpoint = { ...(options.checkpoint || INITIAL_CHECKPOINT) };
+  const categories: Record<string, CategoryProgress> = { ...(options.categories || {}) };
+
   logger.info('═══════════════════════════════════════════════════════');
   logger.info('🔍 بدء اكتشاف شامل لكل الـ Datasets - النسخة المحسنة v3');
   logger.info('📌 التحسينات: Pagination كامل + كل الأقسام + اعتراض API');
   logger.info(`📊 عدد الأقسام: ${SAUDI_DATA_CATEGORIES.length}`);
+  if (checkpoint.phase !== 'patterns' || checkpoint.index > 0) {
+    logger.info(`⏯️ استئناف من المرحلة ${checkpoint.phase} (${checkpoint.index}/${checkpoint.page})`);
+  }
   logger.info('═══════════════════════════════════════════════════════');
 
   if (!BROWSERLESS_TOKEN) {
-    logger.error('❌ BROWSERLESS_TOKEN غير موجود - أضفه في Environment Variables');
-    return [];
+    throw new Error('BROWSERLESS_TOKEN is not configured');
   }
 
   const allIds = new Set<string>();
-  const allApiDatasets: DatasetFromAPI[] = [];
-  let browser;
+  let browser: Browser | undefined;
+
+  // تسجيل IDs جديدة - يرجع عدد الجديدة (في التشغيل عند وجود onIds)
+  const collect = async (ids: Iterable<string>): Promise<number> => {
+    const fresh = Array.from(ids).filter((id) => !allIds.has(id));
+    fresh.forEach((id) => allIds.add(id));
+    if (fresh.length === 0) return 0;
+    return onIds ? onIds(fresh) : fresh.length;
+  };
+
+  const save = async (next: Partial<DiscoveryCheckpoint>): Promise<void> => {
+    Object.assign(checkpoint, next);
+    if (onCheckpoint) {
+      await onCheckpoint({ ...checkpoint }, categories);
+    }
+    if (options.signal?.aborted) {
+      throw new Error('Discovery was cancelled');
+    }
+  };
+
+  // أخطاء الصفحات تُبتلع داخلياً، لذا نتحقق من الاتصال قبل حفظ أي تقدم
+  const ensureConnected = (): void => {
+    if (!browser?.isConnected()) {
+      throw new Error('Lost connection to Browserless');
+    }
+  };
 
   try {
     logger.info('🌐 الاتصال بـ Browserless.io...');
@@ -602,92 +693,155 @@ export async function discoverAllDatasets(
     );
 
     // First: Try multiple page patterns
-    logger.info('\n══════ المرحلة 1: البحث بأنماط متعددة ══════');
-    const { ids: patternIds, apiDatasets: patternDatasets } = await discoverFromMultiplePages(page, onProgress);
-    patternIds.forEach((id) => allIds.add(id));
-    patternDatasets.forEach((d) => allApiDatasets.push(d));
-    logger.info(`📊 بعد البحث بأنماط متعددة: ${allIds.size} dataset`);
+    if (checkpoint.phase === 'patterns') {
+      logger.info('\n══════ المرحلة 1: البحث بأنماط متعددة ══════');
+      await discoverFromMultiplePages(page, onProgress, checkpoint.index, async (index, ids) => {
+        await collect(ids);
+        ensureConnected();
+        await save({ index: index + 1 });
+      });
+      logger.info(`📊 بعد البحث بأنماط متعددة: ${allIds.size} dataset`);
+      await save({ phase: 'pagination', index: 0, page: 0 });
+    }
+
+    // Then: URL-based pagination of the main listing
+    if (checkpoint.phase === 'pagination') {
+      logger.info('\n══════ المرحلة الإضافية: Pagination بالـ URL ══════');
+      await discoverWithURLPagination(page, DATASETS_URL, 500, onProgress, {
+        startPage: checkpoint.page + 1,
+        onPage: async (pageNum, ids) => {
+          await collect(ids);
+          ensureConnected();
+          await save({ page: pageNum });
+        },
+      });
+      logger.info(`   📊 بعد Pagination: ${allIds.size}`);
+      await save({ phase: 'scroll', page: 0 });
+    }
 
     // Second: Deep scroll on main page
-    logger.info('\n══════ المرحلة 2: التمرير العميق ══════');
-    const { ids: scrollIds } = await discoverWithNetworkInterception(page, DATASETS_URL, MAX_SCROLL_ATTEMPTS);
-    const newFromScroll = Array.from(scrollIds).filter((id) => !allIds.has(id)).length;
-    scrollIds.forEach((id) => allIds.add(id));
-    logger.info(`📊 بعد التمرير العميق: ${allIds.size} dataset (جديد: ${newFromScroll})`);
+    if (checkpoint.phase === 'scroll') {
+      logger.info('\n══════ المرحلة 2: التمرير العميق ══════');
+      const { ids: scrollIds } = await discoverWithNetworkInterception(page, DATASETS_URL, MAX_SCROLL_ATTEMPTS);
+      const newFromScroll = await collect(scrollIds);
+      ensureConnected();
+      logger.info(`📊 بعد التمرير العميق: ${allIds.size} dataset (جديد: ${newFromScroll})`);
+      await save({ phase: 'categories', index: 0, page: 0 });
+    }
 
     // Third: Try each category with FULL PAGINATION
-    logger.info('\n══════ المرحلة 3: البحث في كل قسم مع Pagination كامل ══════');
-    for (const category of SAUDI_DATA_CATEGORIES) {
-      try {
-        logger.info(`📁 قسم: ${category.nameAr}`);
-        const categoryStartCount = allIds.size;
-
-        // Try different category URL patterns
-        const categoryUrls = [
-          `${DATASETS_URL}?category=${category.id}`,
-          `${DATASETS_URL}?category=${encodeURIComponent(category.nameAr)}`,
-          `${BASE_URL}/ar/datasets?filter[category]=${category.id}`,
-          `${BASE_URL}/ar/search?type=dataset&category=${category.id}`,
-        ];
+    if (checkpoint.phase === 'categories') {
+      logger.info('\n══════ المرحلة 3: البحث في كل قسم مع Pagination كامل ══════');
+      const resumeIndex = checkpoint.index;
+      const resumeUrl = checkpoint.workingUrl;
+      const resumePage = checkpoint.page;
+
+      for (let i = resumeIndex; i < SAUDI_DATA_CATEGORIES.length; i++) {
+        const category = SAUDI_DATA_CATEGORIES[i];
+        const resuming = i === resumeIndex && !!resumeUrl && !!categories[category.id];
+
+        if (!resuming) {
+          categories[category.id] = { status: 'running', pages: 0, failedPages: 0, seen: 0, found: 0 };
+          await save({ index: i, page: 0, workingUrl: undefined });
+        }
+        const progress = categories[category.id];
+        progress.status = 'running';
 
-        // First, find which URL pattern works
-        let workingUrl = '';
-        for (const url of categoryUrls) {
-          try {
-            const { ids } = await discoverWithNetworkInterception(page, url, 5);
-            if (ids.size > 0) {
-              workingUrl = url;
-              ids.forEach((id) => allIds.add(id));
-              break;
+        try {
+          logger.info(`📁 قسم: ${category.nameAr}${resuming ? ` (استئناف من صفحة ${resumePage + 1})` : ''}`);
+
+          // Try different category URL patterns
+          const categoryUrls = [
+            `${DATASETS_URL}?category=${category.id}`,
+            `${DATASETS_URL}?category=${encodeURIComponent(category.nameAr)}`,
+            `${BASE_URL}/ar/datasets?filter[category]=${category.id}`,
+            `${BASE_URL}/ar/search?type=dataset&category=${category.id}`,
+          ];
+
+          // First, find which URL pattern works
+          let workingUrl = resuming ? resumeUrl! : '';
+          if (!workingUrl) {
+            for (const url of categoryUrls) {
+              try {
+                const { ids } = await discoverWithNetworkInterception(page, url, 5);
+                if (ids.size > 0) {
+                  workingUrl = url;
+                  progress.seen += ids.size;
+                  progress.found += await collect(ids);
+                  break;
+                }
+              } catch {
+                progress.failedPages++;
+                continue;
+              }
             }
-          } catch {
-            continue;
+            ensureConnected();
+            await save({ page: 0, workingUrl: workingUrl || undefined });
           }
-        }
 
-        // If we found a working URL, paginate through ALL pages
-        if (workingUrl) {
-          const { ids: categoryIds } = await discoverWithURLPagination(
-            page,
-            workingUrl,
-            100, // Max 100 pages per category
-            onProgress
-          );
-          categoryIds.forEach((id) => allIds.add(id));
-        }
+          // If we found a working URL, paginate through ALL pages
+          if (workingUrl) {
+            await discoverWithURLPagination(
+              page,
+              workingUrl,
+              100, // Max 100 pages per category
+              onProgress,
+              {
+                startPage: resuming ? resumePage + 1 : 1,
+                onPage: async (pageNum, ids, failed) => {
+                  if (failed) {
+                    progress.failedPages++;
+                  } else {
+                    progress.pages++;
+                  }
+                  progress.seen += ids.length;
+                  progress.found += await collect(ids);
+                  ensureConnected();
+                  await save({ page: pageNum });
+                },
+              }
+            );
+          }
+
+          progress.status = 'completed';
+          if (progress.found > 0) {
+            logger.info(`   ✅ ${category.nameAr}: +${progress.found} جديد (إجمالي: ${allIds.size})`);
+          }
+        } catch (error) {
+          if (!browser?.isConnected() || options.signal?.aborted) throw error;
 
-        const categoryNewCount = allIds.size - categoryStartCount;
-        if (categoryNewCount > 0) {
-          logger.info(`   ✅ ${category.nameAr}: +${categoryNewCount} جديد (إجمالي: ${allIds.size})`);
+          progress.status = 'failed';
+          progress.error = error instanceof Error ? error.message : 'Unknown';
+          logger.error(`   ❌ خطأ في قسم ${category.nameAr}`);
         }
 
+        await save({ index: i + 1, page: 0, workingUrl: undefined });
+
         if (onProgress) {
           onProgress({
             category: category.nameAr,
             page: 1,
-            found: categoryNewCount,
+            found: progress.found,
             total: allIds.size,
           });
         }
 
         await delay(REQUEST_DELAY);
-      } catch (error) {
-        logger.error(`   ❌ خطأ في قسم ${category.nameAr}`);
       }
+
+      await save({ phase: 'done', index: 0, page: 0 });
     }
 
     await page.close();
 
     // Log final stats
+    const failedCategories = Object.values(categories).filter((c) => c.status === 'failed').length;
     logger.info('\n═══════════════════════════════════════════════════════');
     logger.info('📊 ملخص الاكتشاف النهائي:');
-    logger.info(`   📁 إجمالي الـ Datasets: ${allIds.size}`);
-    logger.info(`   📡 Datasets من API: ${allApiDatasets.length}`);
+    logger.info(`   📁 Datasets في هذه الجلسة: ${allIds.size}`);
+    logger.info(`   📂 أقسام فشلت: ${failedCategories}/${SAUDI_DATA_CATEGORIES.length}`);
     logger.info('═══════════════════════════════════════════════════════');
 
-    return Array.from(allIds);
-  } catch (error) {
-    logger.error(`❌ خطأ في الاكتشاف الشامل: ${error instanceof Error ? error.message : 'Unknown'}`);
     return Array.from(allIds);
   } finally {
     if (browser) {
@@ -735,11 +889,12 @@ export async function discoverDatasets(): Promise<string[]> {
 }
 
 /**
- * مقارنة الـ Datasets المكتشفة مع الموجودة في قاعدة البيانات
+ * مقارنة الـ Datasets المكتشفة (اكتشاف سريع) مع الموجودة في قاعدة البيانات
+ * الاكتشاف الشامل يعمل كتشغيل قابل للاستئناف - انظر discoveryRuns.ts
  */
-export async function findNewDatasets(fullDiscovery: boolean = false): Promise<DiscoveryResult> {
+export async function findNewDatasets(): Promise<DiscoveryResult> {
   logger.info('═══════════════════════════════════════════════════════');
-  logger.info(`🔍 بدء عملية اكتشاف Datasets جديدة (${fullDiscovery ? 'شامل' : 'سريع'})`);
+  logger.info('🔍 بدء عملية اكتشاف Datasets جديدة (سريع)');
   logger.info('═══════════════════════════════════════════════════════');
 
   // Get known IDs from database
@@ -751,9 +906,7 @@ export async function findNewDatasets(fullDiscovery: boolean = false): Promise<D
   logger.info(`📋 الـ Datasets المعروفة في قاعدة البيانات: ${knownIds.size}`);
 
   // Discover from website
-  const discoveredIds = fullDiscovery
-    ? await discoverAllDatasets()
-    : await discoverDatasets();
+  const discoveredIds = await discoverDatasets();
 
   if (discoveredIds.length === 0) {
     logger.warn('⚠️ لم يتم اكتشاف أي datasets');
@@ -795,7 +948,7 @@ export async function findNewDatasets(fullDiscovery: boolean = false): Promise<D
           total: discoveredIds.length,
           known: knownIds.size,
           newIds: newIds.slice(0, 100),
-          fullDiscovery,
+          fullDiscovery: false,
         }),
       },
     });
@@ -835,20 +988,11 @@ export async function addNewDatasets(datasetIds: string[]): Promise<number> {
             let category = 'أخرى';
 
             try {
-              const response = await fetch(
-                `https://open.data.gov.sa/data/api/datasets?version=-1&dataset=${externalId}`,
-                {
-                  headers: { Accept: 'application/json' },
-                }
-              );
-
-              if (response.ok) {
-                const data = await response.json();
-                if (data) {
-                  name = data.titleEn || name;
-                  nameAr = data.titleAr || nameAr;
-                  category = data.categories?.[0]?.titleAr || category;
-                }
+              const data = await portal.metadata({}, externalId);
+              if (data) {
+                name = data.titleEn || name;
+                nameAr = data.titleAr || nameAr;
+                category = data.categories?.[0]?.titleAr || category;
               }
             } catch {
               // Use default values if API fails
@@ -931,7 +1075,7 @@ export async function getDiscoveryStats() {
     browserlessConfigured: !!BROWSERLESS_TOKEN,
     platformInfo: {
       name: 'منصة البيانات المفتوحة السعودية',
-      url: 'https://open.data.gov.sa',
+      url: BASE_URL,
       estimatedTotal: '15,500+',
     },
   };
@@ -0,0 +1,406 @@
+/**
+ * تشغيلات الاكتشاف الشامل - Resumable Full Discovery Runs
+ *
+ * الاكتشاف الشامل (كل الأقسام عبر Puppeteer) قد يستغرق ساعات، لذا يُحفظ كتشغيل:
+ * - نقطة استئناف بعد كل نمط / صفحة / قسم (DiscoveryRun.checkpoint)
+ * - عدد الصفحات الناجحة والفاشلة لكل قسم (DiscoveryRun.categories)
+ * - الـ IDs المكتشفة أولاً بأول (DiscoveryRunItem) فلا تضيع عند التوقف
+ * - نبض دوري (heartbeatAt): التشغيل الذي توقف نبضه يُعلَّم INTERRUPTED ويُستأنف تلقائياً
+ * - البدء والاستئناف يتمان فقط داخل مهمة full-discovery في طابور المهام (jobs/scheduler.ts)
+ */
+
+import { DiscoveryRun, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './database.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  discoverAllDatasets,
+  addNewDatasets,
+  SAUDI_DATA_CATEGORIES,
+  INITIAL_CHECKPOINT,
+  discoveryCheckpointSchema,
+  categoryProgressSchema,
+  DiscoveryCheckpoint,
+  CategoryProgress,
+} from './discovery.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type DiscoveryRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'INTERRUPTED';
+
+export interface DiscoveryRunOutcome {
+  run: DiscoveryRun;
+  total: number;
+  newIds: string[];
+  added: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const HEARTBEAT_INTERVAL = 60 * 1000;
+// تشغيل RUNNING بدون نبض لهذه المدة يعتبر متوقفاً (إعادة تشغيل / انهيار)
+const STALE_AFTER = 15 * 60 * 1000;
+const RESUMABLE_STATUSES: DiscoveryRunStatus[] = ['FAILED', 'INTERRUPTED'];
+// حد الاستئناف التلقائي حتى لا يتكرر تشغيل يُسقط العملية في كل مرة
+const MAX_AUTO_ATTEMPTS = 5;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+const categoriesSchema = z.record(categoryProgressSchema);
+
+/**
+ * قراءة نقطة الاستئناف المحفوظة - التالفة تعيد الزحف من البداية
+ */
+function parseCheckpoint(value: Prisma.JsonValue): DiscoveryCheckpoint {
+  const parsed = discoveryCheckpointSchema.safeParse(value);
+  return parsed.success ? parsed.data : { ...INITIAL_CHECKPOINT };
+}
+
+function parseCategories(value: Prisma.JsonValue): Record<string, CategoryProgress> {
+  const parsed = categoriesSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Queries
+// ═══════════════════════════════════════════════════════════════════
+
+function staleBefore(): Date {
+  return new Date(Date.now() - STALE_AFTER);
+}
+
+function isResumable(run: DiscoveryRun): boolean {
+  const stale = run.status === 'RUNNING' && run.heartbeatAt < staleBefore();
+  return RESUMABLE_STATUSES.includes(run.status as DiscoveryRunStatus) || stale;
+}
+
+/**
+ * التشغيل الجاري حالياً (نبضه حديث) إن وجد
+ */
+export async function getActiveDiscoveryRun(): Promise<DiscoveryRun | null> {
+  return prisma.discoveryRun.findFirst({
+    where: { status: 'RUNNING', heartbeatAt: { gte: staleBefore() } },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+/**
+ * ملخص التقدم: الأقسام المكتملة/الفاشلة ومجموع الصفحات
+ */
+export function summarizeDiscoveryRun(run: DiscoveryRun) {
+  const checkpoint = parseCheckpoint(run.checkpoint);
+  const categories = Object.values(parseCategories(run.categories));
+
+  return {
+    ...run,
+    checkpoint,
+    progress: {
+      phase: checkpoint.phase,
+      categoriesTotal: SAUDI_DATA_CATEGORIES.length,
+      categoriesCompleted: categories.filter((c) => c.status === 'completed').length,
+      categoriesFailed: categories.filter((c) => c.status === 'failed').length,
+      pages: categories.reduce((sum, c) => sum + c.pages, 0),
+      failedPages: categories.reduce((sum, c) => sum + c.failedPages, 0),
+    },
+  };
+}
+
+export async function listDiscoveryRuns(page: number = 1, limit: number = 20) {
+  const [runs, total] = await Promise.all([
+    prisma.discoveryRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.discoveryRun.count(),
+  ]);
+
+  return { runs: runs.map(summarizeDiscoveryRun), total };
+}
+
+/**
+ * تفاصيل تشغيل مع حالة كل قسم
+ */
+export async function getDiscoveryRun(id: string) {
+  const run = await prisma.discoveryRun.findUnique({ where: { id } });
+  if (!run) {
+    throw new AppError('Discovery run not found', 'تشغيل الاكتشاف غير موجود', 404);
+  }
+
+  const categories = parseCategories(run.categories);
+
+  return {
+    ...summarizeDiscoveryRun(run),
+    categories: SAUDI_DATA_CATEGORIES.map((category) => ({
+      id: category.id,
+      nameAr: category.nameAr,
+      nameEn: category.nameEn,
+      ...(categories[category.id] || { status: 'pending', pages: 0, failedPages: 0, seen: 0, found: 0 }),
+    })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Lifecycle
+// ═══════════════════════════════════════════════════════════════════
+
+async function assertNoActiveRun(): Promise<void> {
+  const active = await getActiveDiscoveryRun();
+  if (active) {
+    throw new AppError(
+      'A full discovery run is already in progress',
+      'يوجد تشغيل اكتشاف شامل قيد التنفيذ',
+      409
+    );
+  }
+}
+
+/**
+ * إنشاء تشغيل جديد (يُنفذ عبر executeDiscoveryRun)
+ */
+export async function startDiscoveryRun(
+  trigger: 'schedule' | 'manual' = 'manual',
+  createdById?: string
+): Promise<DiscoveryRun> {
+  await assertNoActiveRun();
+
+  const run = await prisma.discoveryRun.create({
+    data: {
+      trigger,
+      createdById,
+      checkpoint: INITIAL_CHECKPOINT,
+      categories: {},
+    },
+  });
+
+  logger.info(`🧭 Full discovery run ${run.id} created (${trigger})`);
+  return run;
+}
+
+/**
+ * تشغيل قابل للاستئناف (فاشل، متوقف، أو توقف نبضه) - للتحقق قبل جدولة الاستئناف
+ */
+export async function getResumableDiscoveryRun(id: string): Promise<DiscoveryRun> {
+  const run = await prisma.discoveryRun.findUnique({ where: { id } });
+  if (!run) {
+    throw new AppError('Discovery run not found', 'تشغيل الاكتشاف غير موجود', 404);
+  }
+
+  if (!isResumable(run)) {
+    throw new AppError(
+      `Discovery run is ${run.status.toLowerCase()} and cannot be resumed`,
+      'لا يمكن استئناف هذا التشغيل',
+      409
+    );
+  }
+  return run;
+}
+
+/**
+ * إعادة فتح تشغيل فاشل أو متوقف للاستئناف من نقطة الحفظ
+ * compare-and-set على الحالة والنبض: مستدعٍ واحد فقط يعيد فتح التشغيل
+ */
+export async function resumeDiscoveryRun(id: string): Promise<DiscoveryRun> {
+  const run = await getResumableDiscoveryRun(id);
+
+  await assertNoActiveRun();
+
+  const { count } = await prisma.discoveryRun.updateMany({
+    where: { id, status: run.status, heartbeatAt: run.heartbeatAt },
+    data: {
+      status: 'RUNNING',
+      attempts: { increment: 1 },
+      heartbeatAt: new Date(),
+      resumedAt: new Date(),
+      error: null,
+    },
+  });
+  if (count !== 1) {
+    throw new AppError(
+      'Discovery run was resumed by another process',
+      'تم استئناف التشغيل من عملية أخرى',
+      409
+    );
+  }
+
+  const resumed = await prisma.discoveryRun.findUniqueOrThrow({ where: { id } });
+
+  const checkpoint = parseCheckpoint(resumed.checkpoint);
+  logger.info(`⏯️ Resuming discovery run ${id} at ${checkpoint.phase} (attempt ${resumed.attempts})`);
+  return resumed;
+}
+
+/**
+ * تسجيل IDs جديدة في هذا التشغيل - يرجع عدد الجديدة فعلاً
+ */
+async function recordRunItems(runId: string, ids: string[]): Promise<number> {
+  const { count } = await prisma.discoveryRunItem.createMany({
+    data: ids.map((externalId) => ({ runId, externalId })),
+    skipDuplicates: true,
+  });
+
+  if (count > 0) {
+    await prisma.discoveryRun.update({
+      where: { id: runId },
+      data: { discovered: { increment: count }, heartbeatAt: new Date() },
+    });
+  }
+  return count;
+}
+
+/**
+ * تنفيذ تشغيل (جديد أو مستأنف) حتى النهاية:
+ * الزحف من نقطة الحفظ ثم إضافة الـ Datasets غير المعروفة
+ */
+export async function executeDiscoveryRun(runId: string, signal?: AbortSignal): Promise<DiscoveryRunOutcome> {
+  const run = await prisma.discoveryRun.findUnique({ where: { id: runId } });
+  if (!run) {
+    throw new AppError('Discovery run not found', 'تشغيل الاكتشاف غير موجود', 404);
+  }
+
+  const startTime = Date.now();
+  const heartbeat = setInterval(() => {
+    prisma.discoveryRun
+      .update({ where: { id: runId }, data: { heartbeatAt: new Date() } })
+      .catch(() => {});
+  }, HEARTBEAT_INTERVAL);
+
+  try {
+    const checkpoint = parseCheckpoint(run.checkpoint);
+
+    if (checkpoint.phase !== 'done') {
+      await discoverAllDatasets({
+        checkpoint,
+        categories: parseCategories(run.categories),
+        signal,
+        onIds: (ids) => recordRunItems(runId, ids),
+        onCheckpoint: async (next, categories) => {
+          await prisma.discoveryRun.update({
+            where: { id: runId },
+            data: { checkpoint: next, categories, heartbeatAt: new Date() },
+          });
+        },
+      });
+    }
+
+    // الإضافة قابلة للإعادة: تُحسب الجديدة من جديد في كل محاولة
+    const items = await prisma.discoveryRunItem.findMany({
+      where: { runId },
+      select: { externalId: true },
+    });
+    const all = items.map((item) => item.externalId);
+
+    const existing = await prisma.dataset.findMany({ select: { externalId: true } });
+    const knownIds = new Set(existing.map((d) => d.externalId));
+    const newIds = all.filter((id) => !knownIds.has(id));
+    const newFound = run.newFound ?? newIds.length;
+
+    await prisma.discoveryRun.update({ where: { id: runId }, data: { newFound } });
+
+    const added = newIds.length > 0 ? await addNewDatasets(newIds) : 0;
+
+    const completed = await prisma.discoveryRun.update({
+      where: { id: runId },
+      data: {
+        status: 'COMPLETED',
+        added: { increment: added },
+        completedAt: new Date(),
+        heartbeatAt: new Date(),
+      },
+    });
+
+    await prisma.syncLog.create({
+      data: {
+        jobType: 'discovery',
+        status: 'SUCCESS',
+        recordsCount: all.length,
+        newRecords: newFound,
+        duration: Date.now() - startTime,
+        completedAt: new Date(),
+        metadata: JSON.stringify({
+          total: all.length,
+          known: knownIds.size,
+          newIds: newIds.slice(0, 100),
+          fullDiscovery: true,
+          runId,
+        }),
+      },
+    });
+
+    logger.info(`✅ Discovery run ${runId} completed: ${all.length} found, ${newFound} new, ${completed.added} added`);
+
+    return { run: completed, total: all.length, newIds, added };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`❌ Discovery run ${runId} failed (resumable): ${message}`);
+
+    await prisma.discoveryRun
+      .update({ where: { id: runId }, data: { status: 'FAILED', error: message } })
+      .catch(() => {});
+
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * استئناف آخر تشغيل إن لم يكتمل، وإلا بدء تشغيل جديد (للجدولة الشهرية وإعادة محاولة المهمة)
+ */
+export async function startOrResumeDiscoveryRun(
+  trigger: 'schedule' | 'manual' = 'schedule',
+  createdById?: string
+): Promise<DiscoveryRun> {
+  const latest = await prisma.discoveryRun.findFirst({ orderBy: { startedAt: 'desc' } });
+
+  if (latest && isResumable(latest)) {
+    return resumeDiscoveryRun(latest.id);
+  }
+  return startDiscoveryRun(trigger, createdById);
+}
+
+/**
+ * تعليم التشغيلات التي توقف نبضها كـ INTERRUPTED وإرجاع أحدثها للاستئناف
+ * يُستدعى عند بدء الخادم ودورياً من الجدولة، التي تستأنفه عبر مهمة full-discovery
+ */
+export async function recoverInterruptedRuns(): Promise<string | null> {
+  const { count } = await prisma.discoveryRun.updateMany({
+    where: { status: 'RUNNING', heartbeatAt: { lt: staleBefore() } },
+    data: { status: 'INTERRUPTED', error: 'Process stopped before the run finished' },
+  });
+
+  if (count > 0) {
+    logger.warn(`⚠️ Marked ${count} stale discovery run(s) as interrupted`);
+  }
+
+  if (await getActiveDiscoveryRun()) return null;
+
+  const interrupted = await prisma.discoveryRun.findFirst({
+    where: { status: 'INTERRUPTED', attempts: { lt: MAX_AUTO_ATTEMPTS } },
+    orderBy: { startedAt: 'desc' },
+  });
+  return interrupted?.id || null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  getActiveDiscoveryRun,
+  listDiscoveryRuns,
+  getDiscoveryRun,
+  startDiscoveryRun,
+  getResumableDiscoveryRun,
+  resumeDiscoveryRun,
+  executeDiscoveryRun,
+  startOrResumeDiscoveryRun,
+  recoverInterruptedRuns,
+};
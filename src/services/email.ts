@@ -160,4 +160,48 @@ export async function sendVerificationEmail(
   });
 }
 
-export default { sendEmail, sendPasswordResetEmail, sendVerificationEmail };
+/**
+ * Send a user alert rule email
+ */
+export async function sendAlertEmail(
+  to: string,
+  userName: string,
+  alert: { ruleName: string; titleAr: string; messageAr: string; link?: string }
+): Promise<boolean> {
+  const alertsUrl = `${config.frontendUrl}/#/alerts`;
+  const link = alert.link ? `${config.frontendUrl}/#${alert.link}` : alertsUrl;
+
+  const html = `
+    <div dir="rtl" style="font-family: 'Segoe UI', Tahoma, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #2563eb; font-size: 24px;">رادار المستثمر</h1>
+        <p style="color: #64748b; font-size: 12px;">Investor Radar</p>
+      </div>
+
+      <div style="background: #f8fafc; border-radius: 12px; padding: 30px; border: 1px solid #e2e8f0;">
+        <h2 style="color: #1e293b; margin-bottom: 16px;">🔔 ${alert.titleAr}</h2>
+        <p style="color: #475569; line-height: 1.8;">مرحباً ${userName}،</p>
+        <p style="color: #475569; line-height: 1.8;">${alert.messageAr}</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${link}" style="background: #2563eb; color: white; padding: 14px 32px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
+            عرض التفاصيل
+          </a>
+        </div>
+
+        <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 20px 0;">
+
+        <p style="color: #94a3b8; font-size: 12px;">وصلك هذا البريد بسبب قاعدة التنبيه "${alert.ruleName}".</p>
+        <p style="color: #94a3b8; font-size: 12px;">يمكنك كتم القاعدة أو تأجيلها من <a href="${alertsUrl}" style="color: #2563eb;">إعدادات التنبيهات</a>.</p>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `${alert.titleAr} - رادار المستثمر`,
+    html,
+  });
+}
+
+export default { sendEmail, sendPasswordResetEmail, sendVerificationEmail, sendAlertEmail };
@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  registerJob,
+  enqueueJob,
+  cancelJob,
+  retryJob,
+  startJobWorker,
+  stopJobWorker,
+  JobCancelledError,
+} from './jobQueue.js';
+
+// In-memory stand-in for the job and job_locks tables (only the query shapes jobQueue uses)
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  const jobs: Row[] = [];
+  const locks: Row[] = [];
+  let sequence = 0;
+
+  const fieldRef = (row: Row, value: any) => (value && value.__field ? row[value.__field] : value);
+
+  function matches(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (key === 'OR') return (condition as Row[]).some((w) => matches(row, w));
+      const value = row[key];
+      if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+        if ('in' in condition) return condition.in.includes(value);
+        if (value === null || value === undefined) return false;
+        if ('lt' in condition) return +value < +fieldRef(row, condition.lt);
+        if ('lte' in condition) return +value <= +fieldRef(row, condition.lte);
+        if ('gte' in condition) return +value >= +fieldRef(row, condition.gte);
+        return false;
+      }
+      return condition instanceof Date ? +value === +condition : value === condition;
+    });
+  }
+
+  function apply(row: Row, data: Row): Row {
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      row[key] = value && typeof value === 'object' && 'increment' in value ? row[key] + value.increment : value;
+    }
+    return row;
+  }
+
+  function table(rows: Row[], key: string, create: (data: Row) => Row, duplicate: () => Error) {
+    return {
+      findFirst: async ({ where }: Row = {}) => rows.find((r) => matches(r, where)) ?? null,
+      findUnique: async ({ where }: Row) => rows.find((r) => r[key] === where[key]) ?? null,
+      findMany: async ({ where, take }: Row = {}) => rows.filter((r) => matches(r, where)).slice(0, take),
+      create: async ({ data }: Row) => {
+        if (rows.some((r) => r[key] === data[key] || (data.dedupeKey && r.dedupeKey === data.dedupeKey))) {
+          throw duplicate();
+        }
+        const row = create(data);
+        rows.push(row);
+        return { ...row };
+      },
+      update: async ({ where, data }: Row) => {
+        const row = rows.find((r) => r[key] === where[key]);
+        if (!row) throw new Error('Record not found');
+        return { ...apply(row, data) };
+      },
+      updateMany: async ({ where, data }: Row) => {
+        const matched = rows.filter((r) => matches(r, where));
+        matched.forEach((r) => apply(r, data));
+        return { count: matched.length };
+      },
+      deleteMany: async ({ where }: Row = {}) => {
+        const removed = rows.filter((r) => matches(r, where));
+        removed.forEach((r) => rows.splice(rows.indexOf(r), 1));
+        return { count: removed.length };
+      },
+      count: async ({ where }: Row = {}) => rows.filter((r) => matches(r, where)).length,
+    };
+  }
+
+  return { jobs, locks, table, nextId: () => `job-${++sequence}` };
+});
+
+vi.mock('./database.js', async () => {
+  const { Prisma } = await import('@prisma/client');
+  const duplicate = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+  return {
+    prisma: {
+      job: {
+        ...db.table(db.jobs, 'id', (data) => ({
+          id: db.nextId(),
+          status: 'QUEUED',
+          result: null,
+          error: null,
+          attempts: 0,
+          dedupeKey: null,
+          cancelRequested: false,
+          lockedBy: null,
+          lockedUntil: null,
+          createdById: null,
+          startedAt: null,
+          completedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }), duplicate),
+        fields: { maxAttempts: { __field: 'maxAttempts' } },
+      },
+      jobLock: db.table(db.locks, 'key', (data) => ({ ...data }), duplicate),
+    },
+  };
+});
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const POLL_INTERVAL = 5 * 1000;
+const LEASE_RENEW_INTERVAL = 30 * 1000;
+
+// Lets the worker's promise chains finish (timers are fake, setImmediate is real)
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+function jobById(id: string) {
+  return db.jobs.find((job) => job.id === id)!;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+  db.jobs.length = 0;
+  db.locks.length = 0;
+});
+
+afterEach(async () => {
+  stopJobWorker();
+  await settle();
+  vi.useRealTimers();
+});
+
+describe('enqueueJob', () => {
+  registerJob({ type: 'test-single', label: 'Single', labelAr: 'مفردة', maxAttempts: 5, handler: async () => null });
+
+  it('queues a job with the definition limits and releases the enqueue lock', async () => {
+    const job = await enqueueJob('test-single', { payload: { a: 1 }, createdById: 'user-1' });
+
+    expect(job).toMatchObject({ type: 'test-single', status: 'QUEUED', attempts: 0, maxAttempts: 5, payload: { a: 1 } });
+    expect(db.locks).toHaveLength(0);
+  });
+
+  it('rejects a second job of the same type while one is active', async () => {
+    await enqueueJob('test-single');
+
+    await expect(enqueueJob('test-single')).rejects.toMatchObject({ statusCode: 409 });
+    expect(db.jobs).toHaveLength(1);
+  });
+
+  it('rejects while another request holds the enqueue lock for the type', async () => {
+    db.locks.push({ key: 'enqueue:test-single', owner: 'other', expiresAt: new Date(Date.now() + 10000) });
+
+    await expect(enqueueJob('test-single')).rejects.toMatchObject({ statusCode: 409 });
+    expect(db.jobs).toHaveLength(0);
+  });
+
+  it('rejects unknown job types', async () => {
+    await expect(enqueueJob('missing-type')).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('worker', () => {
+  it('claims a queued job, runs it and records the result', async () => {
+    registerJob({ type: 'test-ok', label: 'Ok', labelAr: 'ناجحة', handler: async ({ payload }) => ({ echoed: payload.value }) });
+    const { id } = await enqueueJob('test-ok', { payload: { value: 7 } });
+
+    startJobWorker();
+    await settle();
+
+    expect(jobById(id)).toMatchObject({ status: 'COMPLETED', attempts: 1, result: { echoed: 7 }, lockedBy: null });
+    expect(jobById(id).startedAt).toBeInstanceOf(Date);
+    expect(jobById(id).completedAt).toBeInstanceOf(Date);
+    expect(db.locks).toHaveLength(0);
+  });
+
+  it('does not claim a job while another worker holds the lock for its type', async () => {
+    const handler = vi.fn(async () => null);
+    registerJob({ type: 'test-locked', label: 'Locked', labelAr: 'مقفلة', handler });
+    const { id } = await enqueueJob('test-locked');
+    db.locks.push({ key: 'job:test-locked', owner: 'other-worker', expiresAt: new Date(Date.now() + 60000) });
+
+    startJobWorker();
+    await settle();
+    expect(jobById(id)).toMatchObject({ status: 'QUEUED', attempts: 0 });
+
+    // The other worker's lease expires: the next poll claims the job
+    db.locks[0].expiresAt = new Date(Date.now() - 1);
+    vi.advanceTimersByTime(POLL_INTERVAL);
+    await settle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(jobById(id).status).toBe('COMPLETED');
+  });
+
+  it('retries failures with exponential backoff until an attempt succeeds', async () => {
+    let calls = 0;
+    registerJob({
+      type: 'test-flaky',
+      label: 'Flaky',
+      labelAr: 'متقطعة',
+      maxAttempts: 3,
+      backoffMs: 1000,
+      handler: async () => {
+        calls++;
+        if (calls < 3) throw new Error(`boom ${calls}`);
+        return { calls };
+      },
+    });
+    const { id } = await enqueueJob('test-flaky');
+
+    startJobWorker();
+    await settle();
+    expect(jobById(id)).toMatchObject({ status: 'QUEUED', attempts: 1, error: 'boom 1', completedAt: null });
+    expect(+jobById(id).runAt - Date.now()).toBe(1000);
+
+    vi.advanceTimersByTime(POLL_INTERVAL);
+    await settle();
+    expect(jobById(id)).toMatchObject({ status: 'QUEUED', attempts: 2, error: 'boom 2' });
+    expect(+jobById(id).runAt - Date.now()).toBe(2000);
+
+    vi.advanceTimersByTime(POLL_INTERVAL);
+    await settle();
+    expect(jobById(id)).toMatchObject({ status: 'COMPLETED', attempts: 3, error: null, result: { calls: 3 } });
+  });
+
+  it('marks the job failed once the attempts are used up', async () => {
+    registerJob({
+      type: 'test-broken',
+      label: 'Broken',
+      labelAr: 'معطلة',
+      maxAttempts: 2,
+      backoffMs: 1000,
+      handler: async () => {
+        throw new Error('always');
+      },
+    });
+    const { id } = await enqueueJob('test-broken');
+
+    startJobWorker();
+    await settle();
+    vi.advanceTimersByTime(POLL_INTERVAL);
+    await settle();
+
+    expect(jobById(id)).toMatchObject({ status: 'FAILED', attempts: 2, error: 'always' });
+    expect(jobById(id).completedAt).toBeInstanceOf(Date);
+
+    // A later poll does not pick it up again
+    vi.advanceTimersByTime(POLL_INTERVAL);
+    await settle();
+    expect(jobById(id).attempts).toBe(2);
+  });
+});
+
+describe('cancelJob / retryJob', () => {
+  it('cancels a queued job immediately', async () => {
+    registerJob({ type: 'test-queued', label: 'Queued', labelAr: 'منتظرة', handler: async () => null });
+    const { id } = await enqueueJob('test-queued');
+
+    const job = await cancelJob(id);
+
+    expect(job).toMatchObject({ status: 'CANCELLED', cancelRequested: true });
+    await expect(cancelJob(id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('asks a running job to stop and records it as cancelled', async () => {
+    registerJob({
+      type: 'test-long',
+      label: 'Long',
+      labelAr: 'طويلة',
+      handler: ({ signal }) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(new JobCancelledError()))),
+    });
+    const { id } = await enqueueJob('test-long');
+
+    startJobWorker();
+    await settle();
+    expect(jobById(id).status).toBe('RUNNING');
+
+    await cancelJob(id);
+    expect(jobById(id)).toMatchObject({ status: 'RUNNING', cancelRequested: true });
+
+    // The lease renewal sees the request and aborts the handler
+    vi.advanceTimersByTime(LEASE_RENEW_INTERVAL);
+    await settle();
+
+    expect(jobById(id).status).toBe('CANCELLED');
+    expect(jobById(id).completedAt).toBeInstanceOf(Date);
+  });
+
+  it('retries a failed job as a new job with the same payload', async () => {
+    registerJob({ type: 'test-retry', label: 'Retry', labelAr: 'إعادة', handler: async () => null });
+    const failed = await enqueueJob('test-retry', { payload: { limit: 5 } });
+    jobById(failed.id).status = 'FAILED';
+
+    const retried = await retryJob(failed.id, 'admin-1');
+
+    expect(retried.id).not.toBe(failed.id);
+    expect(retried).toMatchObject({ status: 'QUEUED', payload: { limit: 5 }, trigger: 'manual', createdById: 'admin-1' });
+    await expect(retryJob(retried.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
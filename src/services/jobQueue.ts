@@ -0,0 +1,585 @@
+/**
+ * طابور المهام - Persistent Job Queue (Postgres)
+ *
+ * بديل لحالة الجدولة في الذاكرة:
+ * - كل تشغيل سجل Job في قاعدة البيانات (الحالة، المحاولات، النتيجة، الخطأ) = سجل تاريخي
+ * - قفل موزع بمهلة (JobLock) لكل نوع مهمة: لا تعمل نفس المهمة مرتين عبر عدة نسخ
+ * - المهلة تُجدد أثناء التنفيذ؛ إن توقفت النسخة تنتهي المهلة وتُعاد المهمة للطابور
+ * - إعادة المحاولة مع تأخير أُسي (backoff) حتى maxAttempts
+ * - الإلغاء: فوري للمهام المنتظرة، وتعاوني للجارية (ctx.signal / ctx.throwIfCancelled)
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import { Job, Prisma } from '@prisma/client';
+import { prisma } from './database.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+export type JobTrigger = 'schedule' | 'manual' | 'cron';
+
+export interface JobContext<TPayload = Record<string, unknown>> {
+  job: Job;
+  payload: TPayload;
+  signal: AbortSignal;
+  throwIfCancelled: () => void;
+}
+
+export interface JobDefinition<TPayload = Record<string, unknown>> {
+  type: string;
+  label: string;
+  labelAr: string;
+  maxAttempts?: number;
+  backoffMs?: number; // تأخير المحاولة الثانية، ويتضاعف بعدها
+  handler: (ctx: JobContext<TPayload>) => Promise<unknown>;
+}
+
+export interface EnqueueOptions {
+  payload?: Record<string, unknown>;
+  trigger?: JobTrigger;
+  createdById?: string;
+  dedupeKey?: string;
+  runAt?: Date;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const ACTIVE_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+const FINISHED_STATUSES: JobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+const POLL_INTERVAL = 5 * 1000;
+const LEASE_DURATION = 2 * 60 * 1000;
+const LEASE_RENEW_INTERVAL = 30 * 1000;
+const ENQUEUE_LOCK_TTL = 30 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF = 60 * 1000;
+const MAX_BACKOFF = 60 * 60 * 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+const definitions = new Map<string, JobDefinition<any>>();
+
+// ═══════════════════════════════════════════════════════════════════
+// Registry
+// ═══════════════════════════════════════════════════════════════════
+
+export function registerJob<TPayload = Record<string, unknown>>(definition: JobDefinition<TPayload>): void {
+  definitions.set(definition.type, definition);
+}
+
+export function listJobTypes() {
+  return Array.from(definitions.values()).map(({ type, label, labelAr }) => ({ type, label, labelAr }));
+}
+
+function getDefinition(type: string): JobDefinition<any> {
+  const definition = definitions.get(type);
+  if (!definition) {
+    throw new AppError(`Unknown job type: ${type}`, `نوع مهمة غير معروف: ${type}`, 400);
+  }
+  return definition;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Distributed Locks
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * الحصول على قفل بمهلة - ينجح إن لم يوجد القفل أو انتهت مهلته
+ */
+export async function acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  const { count } = await prisma.jobLock.updateMany({
+    where: { key, OR: [{ expiresAt: { lt: new Date() } }, { owner }] },
+    data: { owner, expiresAt },
+  });
+  if (count > 0) return true;
+
+  try {
+    await prisma.jobLock.create({ data: { key, owner, expiresAt } });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false; // يملكه غيرنا
+    }
+    throw error;
+  }
+}
+
+export async function renewLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+  const { count } = await prisma.jobLock.updateMany({
+    where: { key, owner },
+    data: { expiresAt: new Date(Date.now() + ttlMs) },
+  });
+  return count > 0;
+}
+
+export async function releaseLock(key: string, owner: string): Promise<void> {
+  await prisma.jobLock.deleteMany({ where: { key, owner } });
+}
+
+function jobLockKey(type: string): string {
+  return `job:${type}`;
+}
+
+function enqueueLockKey(type: string): string {
+  return `enqueue:${type}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Queue Operations
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * إضافة مهمة للطابور (409 إن كانت مهمة من نفس النوع منتظرة أو جارية)
+ * الفحص والإنشاء تحت قفل enqueue:<type> حتى لا تُنشئ نسختان نفس المهمة معاً
+ */
+export async function enqueueJob(type: string, options: EnqueueOptions = {}): Promise<Job> {
+  const definition = getDefinition(type);
+  const alreadyActive = () =>
+    new AppError(
+      `${definition.label} is already queued or running`,
+      `${definition.labelAr} قيد التشغيل أو في الانتظار بالفعل`,
+      409
+    );
+
+  const lockKey = enqueueLockKey(type);
+  const owner = `${WORKER_ID}:${crypto.randomUUID()}`;
+
+  // طلب آخر يضيف نفس النوع الآن
+  if (!(await acquireLock(lockKey, owner, ENQUEUE_LOCK_TTL))) throw alreadyActive();
+
+  try {
+    const active = await prisma.job.findFirst({
+      where: { type, status: { in: ACTIVE_STATUSES } },
+      select: { id: true },
+    });
+    if (active) throw alreadyActive();
+
+    return await prisma.job.create({
+      data: {
+        type,
+        trigger: options.trigger || 'manual',
+        payload: (options.payload || {}) as Prisma.InputJsonObject,
+        maxAttempts: definition.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        dedupeKey: options.dedupeKey,
+        createdById: options.createdById,
+        runAt: options.runAt || new Date(),
+      },
+    });
+  } catch (error) {
+    // dedupeKey مكرر: نسخة أخرى جدولت نفس المهمة
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw alreadyActive();
+    }
+    throw error;
+  } finally {
+    await releaseLock(lockKey, owner).catch(() => {});
+  }
+}
+
+/**
+ * إلغاء مهمة: المنتظرة تُلغى فوراً، والجارية يُطلب منها التوقف
+ */
+export async function cancelJob(id: string): Promise<Job> {
+  const job = await getJob(id);
+
+  if (job.status === 'QUEUED') {
+    const { count } = await prisma.job.updateMany({
+      where: { id, status: 'QUEUED' },
+      data: { status: 'CANCELLED', cancelRequested: true, completedAt: new Date() },
+    });
+    if (count > 0) return getJob(id);
+  }
+
+  if (job.status === 'RUNNING' || job.status === 'QUEUED') {
+    return prisma.job.update({ where: { id }, data: { cancelRequested: true } });
+  }
+
+  throw new AppError(
+    `Job is already ${job.status.toLowerCase()}`,
+    'المهمة منتهية بالفعل',
+    409
+  );
+}
+
+/**
+ * إعادة تشغيل مهمة فاشلة أو ملغاة كمهمة جديدة (يبقى السجل القديم في التاريخ)
+ */
+export async function retryJob(id: string, createdById?: string): Promise<Job> {
+  const job = await getJob(id);
+
+  if (job.status !== 'FAILED' && job.status !== 'CANCELLED') {
+    throw new AppError('Only failed or cancelled jobs can be retried', 'يمكن إعادة المهام الفاشلة أو الملغاة فقط', 409);
+  }
+
+  return enqueueJob(job.type, {
+    payload: job.payload as Record<string, unknown>,
+    trigger: 'manual',
+    createdById,
+  });
+}
+
+export async function getJob(id: string): Promise<Job> {
+  const job = await prisma.job.findUnique({ where: { id } });
+  if (!job) {
+    throw new AppError('Job not found', 'المهمة غير موجودة', 404);
+  }
+  return job;
+}
+
+export async function listJobs(filters: { type?: string; status?: string; page?: number; limit?: number } = {}) {
+  const page = filters.page || 1;
+  const limit = filters.limit || 20;
+  const where: Prisma.JobWhereInput = {
+    ...(filters.type && { type: filters.type }),
+    ...(filters.status && { status: filters.status }),
+  };
+
+  const [jobs, total] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.job.count({ where }),
+  ]);
+
+  return { jobs, total, page, limit };
+}
+
+/**
+ * حالة كل نوع مهمة: جارية/منتظرة وآخر نتيجة
+ */
+export async function getJobsOverview() {
+  const types = Array.from(definitions.values());
+
+  const entries = await Promise.all(
+    types.map(async (definition) => {
+      const [active, last] = await Promise.all([
+        prisma.job.findFirst({
+          where: { type: definition.type, status: { in: ACTIVE_STATUSES } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.job.findFirst({
+          where: { type: definition.type, status: { in: FINISHED_STATUSES } },
+          orderBy: { completedAt: 'desc' },
+        }),
+      ]);
+
+      return [
+        definition.type,
+        {
+          label: definition.label,
+          labelAr: definition.labelAr,
+          running: active?.status === 'RUNNING',
+          queued: active?.status === 'QUEUED',
+          activeJobId: active?.id || null,
+          lastRun: last?.completedAt || null,
+          lastStatus: last?.status || null,
+          lastResult: last?.result ?? null,
+          lastError: last?.error || null,
+        },
+      ] as const;
+    })
+  );
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * انتظار انتهاء مهمة (لنقاط cron الخارجية التي تحتاج النتيجة)
+ */
+export async function waitForJob(id: string, timeoutMs: number = 6 * 60 * 60 * 1000): Promise<Job> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const job = await getJob(id);
+    if (FINISHED_STATUSES.includes(job.status as JobStatus)) return job;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+
+  throw new AppError('Timed out waiting for job', 'انتهت مهلة انتظار المهمة', 504);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Worker
+// ═══════════════════════════════════════════════════════════════════
+
+const runningJobs = new Set<string>();
+let pollTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+let lastPruneAt = 0;
+
+function backoffDelay(definition: JobDefinition<any>, attempts: number): number {
+  const base = definition.backoffMs || DEFAULT_BACKOFF;
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF);
+}
+
+function toJsonResult(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  if (value === undefined || value === null) return Prisma.JsonNull;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * حجز مهمة: القفل الموزع لنوعها ثم تحويلها إلى RUNNING (compare-and-set)
+ */
+async function claimJob(job: Job): Promise<Job | null> {
+  const lockKey = jobLockKey(job.type);
+  const owner = `${WORKER_ID}:${job.id}`;
+
+  if (!(await acquireLock(lockKey, owner, LEASE_DURATION))) return null;
+
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, status: 'QUEUED' },
+    data: {
+      status: 'RUNNING',
+      attempts: { increment: 1 },
+      lockedBy: WORKER_ID,
+      lockedUntil: new Date(Date.now() + LEASE_DURATION),
+      startedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    await releaseLock(lockKey, owner);
+    return null;
+  }
+
+  return prisma.job.findUnique({ where: { id: job.id } });
+}
+
+async function runJob(job: Job): Promise<void> {
+  const definition = getDefinition(job.type);
+  const lockKey = jobLockKey(job.type);
+  const owner = `${WORKER_ID}:${job.id}`;
+  const controller = new AbortController();
+
+  runningJobs.add(job.id);
+  logger.info(`▶️ Job ${job.type} (${job.id}) started - attempt ${job.attempts}/${job.maxAttempts}`);
+
+  // تجديد المهلة + التحقق من طلب الإلغاء
+  const lease = setInterval(async () => {
+    try {
+      const renewed = await renewLock(lockKey, owner, LEASE_DURATION);
+      if (!renewed) {
+        logger.warn(`⚠️ Job ${job.type} (${job.id}) lost its lock`);
+      }
+
+      const current = await prisma.job.update({
+        where: { id: job.id },
+        data: { lockedUntil: new Date(Date.now() + LEASE_DURATION) },
+        select: { cancelRequested: true },
+      });
+      if (current.cancelRequested && !controller.signal.aborted) {
+        controller.abort();
+      }
+    } catch (error) {
+      logger.error(`Job lease renewal failed (${job.id}):`, error);
+    }
+  }, LEASE_RENEW_INTERVAL);
+
+  const context: JobContext = {
+    job,
+    payload: job.payload as Record<string, unknown>,
+    signal: controller.signal,
+    throwIfCancelled: () => {
+      if (controller.signal.aborted) throw new JobCancelledError();
+    },
+  };
+
+  try {
+    const result = await definition.handler(context);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: controller.signal.aborted ? 'CANCELLED' : 'COMPLETED',
+        result: toJsonResult(result),
+        error: null,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+
+    logger.info(`✅ Job ${job.type} (${job.id}) ${controller.signal.aborted ? 'cancelled' : 'completed'}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const cancelled = error instanceof JobCancelledError || controller.signal.aborted;
+    const retry = !cancelled && job.attempts < job.maxAttempts;
+    const delay = backoffDelay(definition, job.attempts);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: cancelled ? 'CANCELLED' : retry ? 'QUEUED' : 'FAILED',
+        error: message,
+        runAt: retry ? new Date(Date.now() + delay) : undefined,
+        completedAt: retry ? null : new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    }).catch((updateError) => logger.error(`Failed to record job failure (${job.id}):`, updateError));
+
+    if (cancelled) {
+      logger.info(`⏹️ Job ${job.type} (${job.id}) cancelled`);
+    } else if (retry) {
+      logger.warn(`🔁 Job ${job.type} (${job.id}) failed: ${message} - retrying in ${Math.round(delay / 1000)}s`);
+    } else {
+      logger.error(`❌ Job ${job.type} (${job.id}) failed after ${job.attempts} attempts: ${message}`);
+    }
+  } finally {
+    clearInterval(lease);
+    runningJobs.delete(job.id);
+    await releaseLock(lockKey, owner).catch(() => {});
+  }
+}
+
+/**
+ * مهام RUNNING انتهت مهلتها (توقفت النسخة): تُعاد للطابور أو تُعلَّم فاشلة
+ */
+async function reapExpiredJobs(): Promise<void> {
+  const now = new Date();
+  const expired = { status: 'RUNNING', lockedUntil: { lt: now } };
+
+  await prisma.job.updateMany({
+    where: { ...expired, cancelRequested: true },
+    data: { status: 'CANCELLED', completedAt: now, lockedBy: null, lockedUntil: null },
+  });
+
+  const requeued = await prisma.job.updateMany({
+    where: { ...expired, attempts: { lt: prisma.job.fields.maxAttempts } },
+    data: {
+      status: 'QUEUED',
+      error: 'Worker stopped before the job finished',
+      runAt: now,
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+
+  const failed = await prisma.job.updateMany({
+    where: expired,
+    data: {
+      status: 'FAILED',
+      error: 'Worker stopped before the job finished',
+      completedAt: now,
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+
+  if (requeued.count + failed.count > 0) {
+    logger.warn(`⚠️ Recovered ${requeued.count + failed.count} abandoned job(s) (${requeued.count} requeued)`);
+  }
+}
+
+/**
+ * حذف سجل المهام المنتهية الأقدم من JOB_HISTORY_DAYS والأقفال المنتهية
+ */
+async function pruneHistory(): Promise<void> {
+  const cutoff = new Date(Date.now() - config.jobs.historyDays * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.job.deleteMany({
+    where: { status: { in: FINISHED_STATUSES }, completedAt: { lt: cutoff } },
+  });
+  await prisma.jobLock.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+  if (count > 0) {
+    logger.info(`🧹 Pruned ${count} finished job(s) older than ${config.jobs.historyDays} days`);
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    await reapExpiredJobs();
+
+    if (Date.now() - lastPruneAt > PRUNE_INTERVAL) {
+      lastPruneAt = Date.now();
+      await pruneHistory();
+    }
+
+    const slots = config.jobs.concurrency - runningJobs.size;
+    if (slots <= 0) return;
+
+    const candidates = await prisma.job.findMany({
+      where: { status: 'QUEUED', runAt: { lte: new Date() }, type: { in: Array.from(definitions.keys()) } },
+      orderBy: { runAt: 'asc' },
+      take: slots * 3,
+    });
+
+    for (const candidate of candidates) {
+      if (runningJobs.size >= config.jobs.concurrency) break;
+
+      const claimed = await claimJob(candidate);
+      if (claimed) {
+        runJob(claimed);
+      }
+    }
+  } catch (error) {
+    logger.error('Job worker tick failed:', error);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startJobWorker(): void {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(tick, POLL_INTERVAL);
+  tick();
+
+  logger.info(`👷 Job worker started (${WORKER_ID}, concurrency ${config.jobs.concurrency})`);
+}
+
+/**
+ * إيقاف استلام مهام جديدة (المهام الجارية تُكمل، أو تُستعاد بعد انتهاء مهلتها)
+ */
+export function stopJobWorker(): void {
+  if (!pollTimer) return;
+
+  clearInterval(pollTimer);
+  pollTimer = null;
+  logger.info(`👷 Job worker stopped (${runningJobs.size} job(s) still running)`);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  registerJob,
+  listJobTypes,
+  enqueueJob,
+  cancelJob,
+  retryJob,
+  getJob,
+  listJobs,
+  getJobsOverview,
+  waitForJob,
+  acquireLock,
+  renewLock,
+  releaseLock,
+  startJobWorker,
+  stopJobWorker,
+};
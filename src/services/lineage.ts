@@ -0,0 +1,483 @@
+/**
+ * خدمة تتبع أصل البيانات - Data Lineage
+ *
+ * تبني رسماً بيانياً لما يعتمد على ماذا:
+ * المصدر ← Dataset ← إشارات (datasetId / relatedDatasets) ← محتوى
+ *                   ← استعلامات محفوظة ← لوحات المستخدمين (widgets)
+ * لمعرفة كل ما يتأثر عند رفض مجموعة بيانات أو إعادة مراجعتها
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './database.js';
+import { accessibleQueriesWhere, getWidgetSource } from './savedQueries.js';
+import { visibleDatasetsWhere } from './privateDatasets.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type LineageNodeType = 'source' | 'dataset' | 'signal' | 'content' | 'savedQuery' | 'dashboard';
+
+export type LineageRelation =
+  | 'published_by' // source → dataset
+  | 'primary_source' // dataset → signal (Signal.datasetId)
+  | 'related_dataset' // dataset → signal (details.relatedDatasets)
+  | 'derived_from' // dataset/signal → content
+  | 'query_source' // dataset → savedQuery
+  | 'widget_source'; // dataset/signal/savedQuery → dashboard
+
+export interface LineageNode {
+  id: string; // `${type}:${id}`
+  type: LineageNodeType;
+  refId: string;
+  label: string;
+  labelAr?: string | null;
+  status?: string | null;
+  isActive?: boolean;
+  createdAt?: Date;
+}
+
+export interface LineageEdge {
+  from: string;
+  to: string;
+  relation: LineageRelation;
+}
+
+export interface LineageGraph {
+  root: string;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  upstream: Partial<Record<LineageNodeType, number>>;
+  downstream: Partial<Record<LineageNodeType, number>>;
+  truncated: boolean;
+}
+
+export interface LineageViewer {
+  userId?: string;
+  role?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_NODES_PER_TYPE = 200;
+const PRIVILEGED_ROLES = ['EXPERT', 'ADMIN', 'SUPER_ADMIN'];
+
+const signalSelect = {
+  id: true, title: true, titleAr: true, type: true, isActive: true, datasetId: true, details: true, createdAt: true,
+} as const;
+const contentSelect = { id: true, title: true, titleAr: true, type: true, status: true, generatedAt: true } as const;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function nodeId(type: LineageNodeType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function parseJSON(value: string | null | undefined): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * معرفات الـ Datasets المرتبطة بإشارة (details.relatedDatasets)
+ */
+export function getRelatedDatasetIds(details: string | null | undefined): string[] {
+  const parsed = parseJSON(details) as { relatedDatasets?: unknown } | null;
+  const related = parsed?.relatedDatasets;
+  return Array.isArray(related) ? related.filter((r): r is string => typeof r === 'string') : [];
+}
+
+/**
+ * كل القيم النصية داخل كائن JSON (لمطابقة مراجع الـ widgets)
+ */
+function collectStrings(value: unknown, out: Set<string> = new Set(), depth = 0): Set<string> {
+  if (depth > 6) return out;
+  if (typeof value === 'string') {
+    out.add(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out, depth + 1);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectStrings(item, out, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * مراجع الـ widget: معرفات widget.controller (dataset_x, signal_x, x_secondary) والمعرفات المباشرة
+ */
+function widgetReferences(widget: unknown): Set<string> {
+  const refs = new Set<string>();
+  for (const value of collectStrings(widget)) {
+    const bare = value.replace(/_secondary$/, '');
+    refs.add(bare);
+    refs.add(bare.replace(/^(dataset|signal|dash)_/, ''));
+  }
+  return refs;
+}
+
+class GraphBuilder {
+  private nodes = new Map<string, LineageNode>();
+  private edges = new Map<string, LineageEdge>();
+  truncated = false;
+
+  constructor(public root: string) {}
+
+  addNode(node: Omit<LineageNode, 'id'>): string {
+    const id = nodeId(node.type, node.refId);
+    if (!this.nodes.has(id)) this.nodes.set(id, { id, ...node });
+    return id;
+  }
+
+  addEdge(from: string, to: string, relation: LineageRelation): void {
+    this.edges.set(`${from}>${to}>${relation}`, { from, to, relation });
+  }
+
+  limit<T>(items: T[]): T[] {
+    if (items.length > MAX_NODES_PER_TYPE) {
+      this.truncated = true;
+      return items.slice(0, MAX_NODES_PER_TYPE);
+    }
+    return items;
+  }
+
+  build(): LineageGraph {
+    const edges = [...this.edges.values()];
+
+    // اتجاه كل عقدة بالنسبة للجذر: من يصل إلى الجذر (upstream) ومن يصل إليه الجذر (downstream)
+    const reach = (start: string, forward: boolean): Set<string> => {
+      const seen = new Set<string>();
+      const stack = [start];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        for (const edge of edges) {
+          const [a, b] = forward ? [edge.from, edge.to] : [edge.to, edge.from];
+          if (a === current && !seen.has(b)) {
+            seen.add(b);
+            stack.push(b);
+          }
+        }
+      }
+      return seen;
+    };
+
+    const count = (ids: Set<string>) => {
+      const counts: Partial<Record<LineageNodeType, number>> = {};
+      for (const id of ids) {
+        const node = this.nodes.get(id);
+        if (node && id !== this.root) counts[node.type] = (counts[node.type] || 0) + 1;
+      }
+      return counts;
+    };
+
+    return {
+      root: this.root,
+      nodes: [...this.nodes.values()],
+      edges,
+      upstream: count(reach(this.root, false)),
+      downstream: count(reach(this.root, true)),
+      truncated: this.truncated,
+    };
+  }
+}
+
+/**
+ * شرط اللوحات المرئية للمستخدم (الخبراء والمشرفون يرون الكل لتقييم الأثر)
+ */
+function visibleDashboardsWhere(viewer: LineageViewer): Prisma.DashboardWhereInput {
+  if (viewer.role && PRIVILEGED_ROLES.includes(viewer.role)) return {};
+  return viewer.userId ? { OR: [{ userId: viewer.userId }, { isPublic: true }] } : { isPublic: true };
+}
+
+function visibleQueriesWhere(viewer: LineageViewer): Prisma.SavedQueryWhereInput {
+  if (viewer.role && PRIVILEGED_ROLES.includes(viewer.role)) return {};
+  return accessibleQueriesWhere(viewer.userId);
+}
+
+function addSignalNode(graph: GraphBuilder, signal: { id: string; title: string; titleAr: string; type: string; isActive: boolean; createdAt: Date }): string {
+  return graph.addNode({
+    type: 'signal',
+    refId: signal.id,
+    label: signal.title,
+    labelAr: signal.titleAr,
+    status: signal.type,
+    isActive: signal.isActive,
+    createdAt: signal.createdAt,
+  });
+}
+
+/**
+ * المحتوى المبني على إشارات (metadata.signalId)
+ */
+async function addSignalContent(graph: GraphBuilder, signalIds: string[]): Promise<void> {
+  if (signalIds.length === 0) return;
+
+  const contents = await prisma.content.findMany({
+    where: { OR: signalIds.map((id) => ({ metadata: { contains: id } })) },
+    select: { ...contentSelect, metadata: true },
+    take: MAX_NODES_PER_TYPE + 1,
+  });
+
+  for (const content of graph.limit(contents)) {
+    const signalId = (parseJSON(content.metadata) as { signalId?: unknown } | null)?.signalId;
+    if (typeof signalId !== 'string' || !signalIds.includes(signalId)) continue;
+    const to = graph.addNode({
+      type: 'content',
+      refId: content.id,
+      label: content.title,
+      labelAr: content.titleAr,
+      status: content.status,
+      createdAt: content.generatedAt,
+    });
+    graph.addEdge(nodeId('signal', signalId), to, 'derived_from');
+  }
+}
+
+/**
+ * اللوحات التي تشير عناصرها إلى أي من المعرفات المعطاة
+ */
+async function addDashboards(
+  graph: GraphBuilder,
+  targets: Map<string, string>, // referenced id → graph node id
+  viewer: LineageViewer
+): Promise<void> {
+  if (targets.size === 0) return;
+
+  const dashboards = await prisma.dashboard.findMany({
+    where: {
+      AND: [
+        visibleDashboardsWhere(viewer),
+        { OR: [...targets.keys()].map((id) => ({ widgets: { contains: id } })) },
+      ],
+    },
+    select: { id: true, name: true, nameAr: true, isPublic: true, widgets: true, createdAt: true },
+    take: MAX_NODES_PER_TYPE + 1,
+  });
+
+  for (const dashboard of graph.limit(dashboards)) {
+    const widgets = parseJSON(dashboard.widgets);
+    if (!Array.isArray(widgets)) continue;
+
+    for (const widget of widgets) {
+      const queryId = getWidgetSource(widget)?.queryId;
+      const refs = queryId ? new Set([queryId]) : widgetReferences(widget);
+
+      for (const ref of refs) {
+        const from = targets.get(ref);
+        if (!from) continue;
+        const to = graph.addNode({
+          type: 'dashboard',
+          refId: dashboard.id,
+          label: dashboard.name,
+          labelAr: dashboard.nameAr,
+          status: dashboard.isPublic ? 'PUBLIC' : 'PRIVATE',
+          createdAt: dashboard.createdAt,
+        });
+        graph.addEdge(from, to, 'widget_source');
+      }
+    }
+  }
+}
+
+function datasetViewerWhere(viewer: LineageViewer): Prisma.DatasetWhereInput {
+  return visibleDatasetsWhere(viewer.userId ? { userId: viewer.userId, role: viewer.role || 'USER' } : undefined);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * أصل Dataset وكل ما يعتمد عليه
+ */
+export async function getDatasetLineage(datasetId: string, viewer: LineageViewer = {}): Promise<LineageGraph | null> {
+  const dataset = await prisma.dataset.findFirst({
+    where: { OR: [{ id: datasetId }, { externalId: datasetId }], AND: [datasetViewerWhere(viewer)] },
+    select: {
+      id: true, externalId: true, name: true, nameAr: true, source: true,
+      verificationStatus: true, isActive: true, createdAt: true,
+    },
+  });
+
+  if (!dataset) return null;
+
+  const root = nodeId('dataset', dataset.id);
+  const graph = new GraphBuilder(root);
+  const ids = [dataset.id, dataset.externalId];
+
+  graph.addNode({
+    type: 'dataset',
+    refId: dataset.id,
+    label: dataset.name,
+    labelAr: dataset.nameAr,
+    status: dataset.verificationStatus,
+    isActive: dataset.isActive,
+    createdAt: dataset.createdAt,
+  });
+
+  // Upstream: publishing source
+  const source = graph.addNode({ type: 'source', refId: dataset.source, label: dataset.source });
+  graph.addEdge(source, root, 'published_by');
+
+  // Downstream: signals (direct datasetId or listed in details.relatedDatasets)
+  const signals = await prisma.signal.findMany({
+    where: {
+      OR: [
+        { datasetId: { in: ids } },
+        ...ids.map((id) => ({ details: { contains: id } })),
+      ],
+    },
+    select: signalSelect,
+    orderBy: { createdAt: 'desc' },
+    take: MAX_NODES_PER_TYPE + 1,
+  });
+
+  const signalIds: string[] = [];
+  for (const signal of graph.limit(signals)) {
+    const direct = signal.datasetId !== null && ids.includes(signal.datasetId);
+    const related = getRelatedDatasetIds(signal.details).some((id) => ids.includes(id));
+    if (!direct && !related) continue;
+
+    const to = addSignalNode(graph, signal);
+    graph.addEdge(root, to, direct ? 'primary_source' : 'related_dataset');
+    signalIds.push(signal.id);
+  }
+
+  // Downstream: content built on the dataset or on its signals
+  const contents = await prisma.content.findMany({
+    where: { datasetId: { in: ids } },
+    select: contentSelect,
+    orderBy: { generatedAt: 'desc' },
+    take: MAX_NODES_PER_TYPE + 1,
+  });
+
+  for (const content of graph.limit(contents)) {
+    const to = graph.addNode({
+      type: 'content',
+      refId: content.id,
+      label: content.title,
+      labelAr: content.titleAr,
+      status: content.status,
+      createdAt: content.generatedAt,
+    });
+    graph.addEdge(root, to, 'derived_from');
+  }
+
+  await addSignalContent(graph, signalIds);
+
+  // Downstream: saved queries and the dashboards using them (or the dataset directly)
+  const queries = await prisma.savedQuery.findMany({
+    where: { AND: [{ datasetId: dataset.id }, visibleQueriesWhere(viewer)] },
+    select: { id: true, name: true, nameAr: true, visibility: true, createdAt: true },
+    take: MAX_NODES_PER_TYPE + 1,
+  });
+
+  const targets = new Map<string, string>(ids.map((id) => [id, root]));
+  for (const query of graph.limit(queries)) {
+    const to = graph.addNode({
+      type: 'savedQuery',
+      refId: query.id,
+      label: query.name,
+      labelAr: query.nameAr,
+      status: query.visibility,
+      createdAt: query.createdAt,
+    });
+    graph.addEdge(root, to, 'query_source');
+    targets.set(query.id, to);
+  }
+  for (const signalId of signalIds) {
+    targets.set(signalId, nodeId('signal', signalId));
+  }
+
+  await addDashboards(graph, targets, viewer);
+
+  return graph.build();
+}
+
+/**
+ * أصل إشارة (الـ Datasets ومصادرها) وما بُني عليها
+ */
+export async function getSignalLineage(signalId: string, viewer: LineageViewer = {}): Promise<LineageGraph | null> {
+  const signal = await prisma.signal.findUnique({
+    where: { id: signalId },
+    select: signalSelect,
+  });
+
+  if (!signal) return null;
+
+  const root = nodeId('signal', signal.id);
+  const graph = new GraphBuilder(root);
+  addSignalNode(graph, signal);
+
+  // Upstream: datasets and their sources
+  const related = getRelatedDatasetIds(signal.details);
+  const refs = [...new Set([...(signal.datasetId ? [signal.datasetId] : []), ...related])];
+
+  if (refs.length > 0) {
+    const datasets = await prisma.dataset.findMany({
+      where: { OR: [{ id: { in: refs } }, { externalId: { in: refs } }], AND: [datasetViewerWhere(viewer)] },
+      select: {
+        id: true, externalId: true, name: true, nameAr: true, source: true,
+        verificationStatus: true, isActive: true, createdAt: true,
+      },
+      take: MAX_NODES_PER_TYPE + 1,
+    });
+
+    for (const dataset of graph.limit(datasets)) {
+      const from = graph.addNode({
+        type: 'dataset',
+        refId: dataset.id,
+        label: dataset.name,
+        labelAr: dataset.nameAr,
+        status: dataset.verificationStatus,
+        isActive: dataset.isActive,
+        createdAt: dataset.createdAt,
+      });
+      const direct = signal.datasetId === dataset.id || signal.datasetId === dataset.externalId;
+      graph.addEdge(from, root, direct ? 'primary_source' : 'related_dataset');
+
+      const source = graph.addNode({ type: 'source', refId: dataset.source, label: dataset.source });
+      graph.addEdge(source, from, 'published_by');
+    }
+  }
+
+  // Downstream: content and dashboards
+  await addSignalContent(graph, [signal.id]);
+  await addDashboards(graph, new Map([[signal.id, root]]), viewer);
+
+  return graph.build();
+}
+
+/**
+ * ملخص الأثر: العناصر التابعة مباشرة أو غير مباشرة للجذر (للاستخدام عند رفض Dataset)
+ */
+export function summarizeImpact(graph: LineageGraph): {
+  downstream: LineageGraph['downstream'];
+  items: Pick<LineageNode, 'type' | 'refId' | 'label' | 'labelAr' | 'isActive'>[];
+} {
+  const downstreamTypes = new Set<LineageNodeType>(['signal', 'content', 'savedQuery', 'dashboard']);
+  return {
+    downstream: graph.downstream,
+    items: graph.nodes
+      .filter((n) => n.id !== graph.root && downstreamTypes.has(n.type))
+      .map(({ type, refId, label, labelAr, isActive }) => ({ type, refId, label, labelAr, isActive })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  getDatasetLineage,
+  getSignalLineage,
+  getRelatedDatasetIds,
+  summarizeImpact,
+};
@@ -5,12 +5,27 @@
  * نجلب البيانات مباشرة من API عند الحاجة ونخزنها مؤقتاً في Redis
  */
 
-import axios from 'axios';
 import Papa from 'papaparse';
-import { cacheGet, cacheSet, CacheKeys } from './cache.js';
+import { Readable } from 'stream';
+import { cacheGet, cacheSet, cacheDelPattern, CacheKeys } from './cache.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
 import { prisma } from './database.js';
+import { updateDataDictionary } from './columnProfiler.js';
+import { scoreDatasetQuality } from './qualityScoring.js';
+import { updatePiiScan } from './piiScanner.js';
+import { recordDatasetVersion, createSnapshotAccumulator } from './datasetVersioning.js';
+import { selectResource, parseResource, ParsedResource, ResourceFormat } from './resourceParsers.js';
+import { portal, resolveDatasetConnector, PORTAL_FILES_URL, ResolvedConnector } from './dataConnectors.js';
+import {
+  createChunkWriter,
+  writeDataset,
+  readDatasetHeader,
+  loadRecords,
+  deleteDataset,
+  StoredDataset,
+} from './datasetStore.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
@@ -23,6 +38,15 @@ export interface DatasetData {
   totalRecords: number;
   fetchedAt: string;
   source: 'api' | 'cache';
+  format?: ResourceFormat;
+  sheets?: string[]; // أوراق ملف Excel
+  sheet?: string;
+}
+
+interface StreamedData {
+  stored: StoredDataset;
+  sample: Record<string, unknown>[]; // عينة للتحليل (كل السجلات إن كانت صغيرة)
+  accumulator: ReturnType<typeof createSnapshotAccumulator>;
 }
 
 export interface DatasetResource {
@@ -79,50 +103,54 @@ export interface DatasetListResult {
 // Configuration
 // ═══════════════════════════════════════════════════════════════════
 
-const API_BASE = 'https://open.data.gov.sa/data/api';
-const CKAN_BASE = 'https://open.data.gov.sa/api/3/action';
-const FILES_BASE = 'https://open.data.gov.sa/data/files';
 const CACHE_TTL = 3600; // 1 hour cache
 const CACHE_TTL_METADATA = 86400; // 24 hours for metadata
 const CACHE_TTL_LIST = 21600; // 6 hours for datasets list
-const REQUEST_TIMEOUT = 60000; // 60 seconds
+const PROFILE_SAMPLE_SIZE = 50000; // حجم العينة المستخدمة للتحليل والجودة
+export const MAX_FULL_READ_ROWS = 100000; // أقصى عدد سجلات يُحمَّل كاملاً في الذاكرة (بدون limit)
+
+/**
+ * طلب البيانات كاملة لـ Dataset يتجاوز MAX_FULL_READ_ROWS (يُطلب بالصفحات بدلاً من ذلك)
+ */
+export class DatasetTooLargeError extends AppError {
+  totalRecords: number;
+
+  constructor(totalRecords: number) {
+    super(
+      `Dataset has ${totalRecords} rows; operations on the full data are limited to ${MAX_FULL_READ_ROWS} rows`,
+      `مجموعة البيانات تحتوي ${totalRecords} صفاً، والعمليات على البيانات كاملة محدودة بـ ${MAX_FULL_READ_ROWS} صف`,
+      413
+    );
+    this.totalRecords = totalRecords;
+  }
+}
 
 // ═══════════════════════════════════════════════════════════════════
 // Helper Functions
 // ═══════════════════════════════════════════════════════════════════
 
-function getCacheKey(datasetId: string, type: 'data' | 'meta' = 'data'): string {
-  return `ondemand:${type}:${datasetId}`;
+function getCacheKey(datasetId: string, type: 'data' | 'meta' = 'data', sheet?: string): string {
+  return sheet ? `ondemand:${type}:${datasetId}:sheet:${sheet}` : `ondemand:${type}:${datasetId}`;
 }
 
-async function fetchWithRetry<T>(
-  url: string,
-  options: { retries?: number; timeout?: number } = {}
-): Promise<T> {
-  const { retries = 3, timeout = REQUEST_TIMEOUT } = options;
-  let lastError: Error | null = null;
+function toDatasetData(stored: StoredDataset, source: DatasetData['source']): DatasetData {
+  const { chunks: _chunks, ...data } = stored;
+  return { ...data, source };
+}
 
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await axios.get(url, {
-        timeout,
-        headers: {
-          'User-Agent': 'InvestorRadar/2.0',
-          'Accept': 'application/json',
-          'Accept-Language': 'ar,en',
-        },
-      });
-      return response.data;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error');
-      logger.warn(`Retry ${i + 1}/${retries} failed for ${url}: ${lastError.message}`);
-      if (i < retries - 1) {
-        await new Promise(r => setTimeout(r, 1000 * (i + 1))); // Exponential backoff
-      }
-    }
+// Reading without limit loads every chunk into one array
+function assertReadable(stored: StoredDataset, limit?: number): void {
+  if (!limit && stored.totalRecords > MAX_FULL_READ_ROWS) {
+    throw new DatasetTooLargeError(stored.totalRecords);
   }
+}
 
-  throw lastError;
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -149,11 +177,10 @@ export async function fetchDatasetMetadata(datasetId: string): Promise<DatasetMe
   try {
     logger.info(`🌐 Fetching metadata for dataset: ${datasetId}`);
 
-    const data = await fetchWithRetry<DatasetMetadata>(
-      `${API_BASE}/datasets?version=-1&dataset=${datasetId}`
-    );
+    const { connector, config: sourceConfig, ref } = await resolveDatasetConnector(datasetId);
+    const data = await connector.metadata(sourceConfig, ref);
 
-    if (data && Object.keys(data).length > 0) {
+    if (data) {
       // Cache the metadata
       await cacheSet(cacheKey, JSON.stringify(data), CACHE_TTL_METADATA);
       return data;
@@ -168,9 +195,14 @@ export async function fetchDatasetMetadata(datasetId: string): Promise<DatasetMe
 
 /**
  * جلب resources (روابط التحميل) للـ Dataset
- * يستخدم DB أولاً ثم يجرب API كـ fallback
+ * يستخدم DB أولاً ثم موصل المصدر المسجل كـ fallback
  */
-export async function fetchDatasetResources(datasetId: string): Promise<DatasetResource[]> {
+export async function fetchDatasetResources(
+  datasetId: string,
+  resolved?: ResolvedConnector
+): Promise<DatasetResource[]> {
+  const { connector, config: sourceConfig, ref, source } = resolved || await resolveDatasetConnector(datasetId);
+
   // 1. Try database first (resources synced from sync script)
   try {
     const dataset = await prisma.dataset.findFirst({
@@ -183,10 +215,10 @@ export async function fetchDatasetResources(datasetId: string): Promise<DatasetR
     if (dataset?.resources && Array.isArray(dataset.resources) && dataset.resources.length > 0) {
       logger.info(`📦 Found ${dataset.resources.length} resources in DB for ${datasetId}`);
       return (dataset.resources as any[]).map((r: any) => {
-        // Build full URL from relative path stored in DB
-        let downloadUrl = r.url || '';
-        if (downloadUrl && !downloadUrl.startsWith('http')) {
-          downloadUrl = `${FILES_BASE}/${downloadUrl}`;
+        // Build full URL from relative path stored in DB (portal only - local sources keep file names)
+        let downloadUrl = r.url || r.downloadUrl || '';
+        if (!source && downloadUrl && !downloadUrl.startsWith('http')) {
+          downloadUrl = `${PORTAL_FILES_URL}/${downloadUrl}`;
         }
         return {
           id: r.id || '',
@@ -200,56 +232,123 @@ export async function fetchDatasetResources(datasetId: string): Promise<DatasetR
     logger.warn(`⚠️ DB resource lookup failed for ${datasetId}:`, error);
   }
 
-  // 2. No API fallback - resources must be in database
+  // 2. Registered sources can list resources live; portal resources must be in database
+  if (source) {
+    try {
+      return await connector.resources(sourceConfig, ref);
+    } catch (error) {
+      logger.warn(`⚠️ ${source.key} connector failed to list resources for ${datasetId}:`, error);
+      return [];
+    }
+  }
+
   logger.warn(`⚠️ No resources found in DB for ${datasetId} - data not synced yet`);
   return [];
 }
 
 /**
- * جلب بيانات CSV من رابط
- * يستخدم headers تشبه Browser لتجاوز WAF
+ * تحميل ملف المورد وتحليله (Excel, JSON, XML) في الذاكرة
  */
-async function fetchCSVData(url: string): Promise<Record<string, unknown>[]> {
+async function fetchResourceData(
+  resolved: ResolvedConnector,
+  resource: DatasetResource,
+  format: ResourceFormat,
+  sheet?: string
+): Promise<ParsedResource> {
   try {
-    // Encode URL properly to handle spaces
-    const encodedUrl = encodeURI(url);
-
-    const response = await axios.get(encodedUrl, {
-      responseType: 'text',
-      timeout: REQUEST_TIMEOUT,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/csv,text/plain,*/*',
-        'Accept-Language': 'ar,en;q=0.9',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Connection': 'keep-alive',
-        'Referer': 'https://open.data.gov.sa/',
-        'Origin': 'https://open.data.gov.sa',
-      },
-    });
+    const stream = await resolved.connector.fetch(resolved.config, resource);
+    return parseResource(await streamToBuffer(stream), format, { sheet });
+  } catch (error) {
+    logger.error(`❌ Failed to fetch ${format} resource from ${resource.downloadUrl}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * قراءة CSV تدفقياً وكتابته إلى المخزن المجزأ مباشرة
+ * لا يبقى في الذاكرة إلا الجزء الحالي وعينة للتحليل
+ */
+async function streamCSVData(
+  resolved: ResolvedConnector,
+  resource: DatasetResource,
+  cacheKey: string,
+  meta: Omit<StoredDataset, 'records' | 'totalRecords' | 'chunks' | 'columns'>
+): Promise<StreamedData | null> {
+  try {
+    const stream = await resolved.connector.fetch(resolved.config, resource);
 
-    return new Promise((resolve, reject) => {
-      Papa.parse(response.data, {
+    const rows = stream.pipe(
+      Papa.parse(Papa.NODE_STREAM_INPUT, {
         header: true,
         skipEmptyLines: true,
         dynamicTyping: true, // Auto-convert numbers
-        complete: (results) => {
-          resolve(results.data as Record<string, unknown>[]);
-        },
-        error: (error: Error) => {
-          reject(error);
-        },
-      });
-    });
+        transformHeader: (header: string) => header.replace(/^\uFEFF/, ''),
+      })
+    );
+
+    const writer = createChunkWriter(cacheKey, CACHE_TTL);
+    const sample: Record<string, unknown>[] = [];
+    let columns: string[] | null = null;
+    let accumulator: ReturnType<typeof createSnapshotAccumulator> | null = null;
+
+    for await (const row of rows as AsyncIterable<Record<string, unknown>>) {
+      if (!columns) {
+        columns = Object.keys(row);
+        accumulator = createSnapshotAccumulator(columns);
+      }
+
+      await writer.push(row);
+      accumulator!.add(row);
+
+      // Reservoir sample للتحليل (عينة منتظمة عشوائية بحجم ثابت)
+      if (sample.length < PROFILE_SAMPLE_SIZE) {
+        sample.push(row);
+      } else {
+        const j = Math.floor(Math.random() * writer.rowCount);
+        if (j < PROFILE_SAMPLE_SIZE) sample[j] = row;
+      }
+    }
+
+    if (!columns || writer.rowCount === 0) return null;
+
+    const stored = await writer.finish({ ...meta, columns });
+    return { stored, sample, accumulator: accumulator! };
   } catch (error) {
-    logger.error(`❌ Failed to fetch CSV from ${url}:`, error);
+    logger.error(`❌ Failed to stream CSV from ${resource.downloadUrl}:`, error);
     throw error;
   }
 }
 
+/**
+ * كشف البيانات الشخصية ثم تحليل الأعمدة وتسجيل نسخة بعد الجلب (بالخلفية)
+ * الفحص أولاً حتى لا تُحفظ قيم الأعمدة الشخصية في القاموس أو ملخص النسخة
+ * الجودة تُقيَّم فقط عند نسخة جديدة (تغيّر المحتوى)، لا عند كل انتهاء للـ Cache
+ */
+function analyzeFetchedData(
+  datasetId: string,
+  sample: Record<string, unknown>[],
+  columns: string[],
+  accumulator: ReturnType<typeof createSnapshotAccumulator>,
+  totalRecords: number
+): void {
+  updatePiiScan(datasetId, sample, columns).then(async (scan) => {
+    const profiles = await updateDataDictionary(datasetId, sample, columns, scan?.findings);
+    if (!profiles) return;
+    const version = await recordDatasetVersion(datasetId, accumulator.finish(profiles), 'api');
+    if (version?.created) {
+      await scoreDatasetQuality(datasetId, sample, profiles, {
+        rowCount: totalRecords,
+        duplicateRows: accumulator.duplicateRows,
+      });
+    }
+  });
+}
+
 /**
  * جلب البيانات الفعلية للـ Dataset (On-Demand)
  * هذه الدالة الرئيسية - تُستدعى عند فتح Chart Builder أو عرض البيانات
+ * الـ Datasets الكبيرة مخزنة على أجزاء: مع limit تُقرأ الأجزاء اللازمة فقط
+ * وبدون limit يرمي DatasetTooLargeError (413) إذا تجاوزت MAX_FULL_READ_ROWS
  */
 export async function getDatasetData(
   datasetId: string,
@@ -257,79 +356,97 @@ export async function getDatasetData(
     limit?: number;
     offset?: number;
     forceRefresh?: boolean;
+    sheet?: string; // ورقة Excel محددة (الافتراضي: أول ورقة فيها بيانات)
   } = {}
 ): Promise<DatasetData | null> {
-  const { limit, offset = 0, forceRefresh = false } = options;
-  const cacheKey = getCacheKey(datasetId, 'data');
+  const { limit, offset = 0, forceRefresh = false, sheet } = options;
+  const cacheKey = getCacheKey(datasetId, 'data', sheet);
 
   // Check cache first (unless force refresh)
   if (!forceRefresh) {
-    try {
-      const cached = await cacheGet(cacheKey);
+    const header = await readDatasetHeader(cacheKey).catch(() => null);
+    if (header) {
+      assertReadable(header, limit);
+      const cached = await loadRecords(cacheKey, header, { offset, limit }).catch(() => null);
       if (cached) {
         logger.info(`📦 Data cache hit for ${datasetId}`);
-        const data = JSON.parse(cached) as DatasetData;
-
-        // Apply pagination if requested
-        if (limit) {
-          data.records = data.records.slice(offset, offset + limit);
-        }
-
-        return { ...data, source: 'cache' };
+        return toDatasetData(cached, 'cache');
       }
-    } catch {
-      // Cache miss, continue to fetch
     }
+    // Cache miss, continue to fetch
   }
 
   try {
     logger.info(`🌐 Fetching data on-demand for dataset: ${datasetId}`);
 
-    // 1. Get resources list
-    const resources = await fetchDatasetResources(datasetId);
+    // 1. Get resources list through the dataset's source connector
+    const resolved = await resolveDatasetConnector(datasetId);
+    const resources = await fetchDatasetResources(datasetId, resolved);
 
-    // 2. Find CSV resource
-    const csvResource = resources.find(
-      (r) => r.format?.toLowerCase() === 'csv' || r.downloadUrl?.endsWith('.csv')
-    );
+    // 2. Pick the best parseable resource (CSV > Excel > JSON > XML)
+    const selected = selectResource(resources);
 
-    if (!csvResource?.downloadUrl) {
-      logger.warn(`⚠️ No CSV resource found for dataset ${datasetId}`);
+    if (!selected) {
+      logger.warn(`⚠️ No supported resource (CSV/Excel/JSON/XML) found for dataset ${datasetId}`);
       return null;
     }
 
-    // 3. Fetch CSV data
-    const records = await fetchCSVData(csvResource.downloadUrl);
-
-    if (records.length === 0) {
-      return null;
-    }
-
-    // 4. Extract columns
-    const columns = Object.keys(records[0]);
-
-    // 5. Create result
-    const result: DatasetData = {
+    const meta = {
       id: datasetId,
-      records: records,
-      columns,
-      totalRecords: records.length,
       fetchedAt: new Date().toISOString(),
       source: 'api',
+      format: selected.format,
     };
 
-    // 6. Cache the full data
-    await cacheSet(cacheKey, JSON.stringify(result), CACHE_TTL);
+    let stored: StoredDataset;
+    let sample: Record<string, unknown>[];
+    let accumulator: ReturnType<typeof createSnapshotAccumulator>;
 
-    logger.info(`✅ Fetched ${records.length} records for dataset ${datasetId}`);
+    if (selected.format === 'csv') {
+      // 3a. Stream CSV straight into the chunked cache
+      const streamed = await streamCSVData(resolved, selected.resource, cacheKey, meta);
+      if (!streamed) return null;
+      ({ stored, sample, accumulator } = streamed);
+    } else {
+      // 3b. Excel / JSON / XML are parsed in memory, then stored the same way
+      const parsed = await fetchResourceData(resolved, selected.resource, selected.format, sheet);
+      if (parsed.records.length === 0) return null;
+
+      stored = await writeDataset(cacheKey, {
+        ...meta,
+        records: parsed.records,
+        columns: parsed.columns,
+        sheets: parsed.sheets,
+        sheet: parsed.sheet,
+      }, CACHE_TTL);
+
+      sample = parsed.records;
+      accumulator = createSnapshotAccumulator(parsed.columns);
+      parsed.records.forEach((record) => accumulator.add(record));
+    }
 
-    // 7. Apply pagination if requested
-    if (limit) {
-      result.records = result.records.slice(offset, offset + limit);
+    logger.info(
+      `✅ Fetched ${stored.totalRecords} records (${stored.format}) for dataset ${datasetId}` +
+      (stored.chunks ? ` in ${stored.chunks.count} chunks` : '')
+    );
+
+    // 4. Profile columns, record a version and score quality when it is new (non-blocking)
+    //    Only for the default sheet so the dictionary describes one stable table
+    if (!sheet) {
+      analyzeFetchedData(datasetId, sample, stored.columns, accumulator, stored.totalRecords);
     }
 
-    return result;
+    // 5. Serve the requested page (reads only the needed chunks)
+    assertReadable(stored, limit);
+    const page = await loadRecords(cacheKey, stored, { offset, limit });
+    if (!page) {
+      logger.warn(`⚠️ Chunks for ${datasetId} are not readable (cache unavailable?)`);
+      return null;
+    }
+
+    return toDatasetData(page, 'api');
   } catch (error) {
+    if (error instanceof DatasetTooLargeError) throw error;
     logger.error(`❌ Failed to fetch data for ${datasetId}:`, error);
     return null;
   }
@@ -396,8 +513,9 @@ export async function clearDatasetCache(datasetId: string): Promise<void> {
 
   try {
     const { cacheDel } = await import('./cache.js');
-    await cacheDel(dataKey);
+    await deleteDataset(dataKey);
     await cacheDel(metaKey);
+    await cacheDelPattern(`${dataKey}:sheet:*`);
     logger.info(`🗑️ Cleared cache for dataset ${datasetId}`);
   } catch (error) {
     logger.error(`❌ Failed to clear cache for ${datasetId}:`, error);
@@ -448,7 +566,6 @@ export async function fetchDatasetsList(options: {
   forceRefresh?: boolean;
 } = {}): Promise<DatasetListResult> {
   const { page = 1, limit = 100, search, category, forceRefresh = false } = options;
-  const offset = (page - 1) * limit;
 
   // Cache key
   const cacheKey = `saudi:datasets:list:${page}:${limit}:${search || ''}:${category || ''}`;
@@ -469,96 +586,26 @@ export async function fetchDatasetsList(options: {
 
   logger.info(`🌐 Fetching datasets list from Saudi API (page: ${page}, limit: ${limit})`);
 
-  const allDatasets: DatasetListItem[] = [];
-
   try {
-    // Build CKAN search query
-    let searchQuery = `rows=${limit}&start=${offset}`;
-    if (search) {
-      searchQuery += `&q=${encodeURIComponent(search)}`;
-    }
-    if (category) {
-      searchQuery += `&fq=groups:${encodeURIComponent(category)}`;
-    }
-
-    // CKAN package_search endpoint
-    const url = `${CKAN_BASE}/package_search?${searchQuery}`;
-    logger.info(`   🔗 Calling: ${url}`);
-
-    const response = await axios.get(url, {
-      timeout: REQUEST_TIMEOUT,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'application/json',
-        'Accept-Language': 'ar,en;q=0.9',
-        'Referer': 'https://open.data.gov.sa/',
-      },
-    });
-
-    const data = response.data;
-
-    // CKAN returns: { success: true, result: { results: [...], count: N } }
-    if (data.success && data.result?.results) {
-      const items = data.result.results;
-      const totalCount = data.result.count || items.length;
-
-      logger.info(`   ✅ Found ${items.length} datasets (total: ${totalCount})`);
-
-      items.forEach((item: Record<string, unknown>) => {
-        const dataset: DatasetListItem = {
-          id: String(item.id || item.name),
-          titleAr: String(item.title_ar || item.title || item.name || ''),
-          titleEn: String(item.title_en || item.title || item.name || ''),
-          descriptionAr: item.notes_ar ? String(item.notes_ar) : undefined,
-          descriptionEn: item.notes_en || item.notes ? String(item.notes_en || item.notes) : undefined,
-          category: Array.isArray(item.groups) && item.groups.length > 0
-            ? String((item.groups[0] as Record<string, unknown>).title || (item.groups[0] as Record<string, unknown>).name)
-            : undefined,
-          organization: item.organization
-            ? String((item.organization as Record<string, unknown>).title || (item.organization as Record<string, unknown>).name)
-            : undefined,
-          recordCount: item.num_resources ? Number(item.num_resources) : undefined,
-          updatedAt: item.metadata_modified ? String(item.metadata_modified) : undefined,
-          resources: Array.isArray(item.resources)
-            ? (item.resources as Record<string, unknown>[]).map((r) => ({
-                id: String(r.id || ''),
-                name: String(r.name || r.description || ''),
-                format: String(r.format || ''),
-                downloadUrl: String(r.url || ''),
-              }))
-            : undefined,
-        };
-
-        if (dataset.id && (dataset.titleAr || dataset.titleEn)) {
-          allDatasets.push(dataset);
-        }
-      });
-
-      const result: DatasetListResult = {
-        datasets: allDatasets,
-        total: totalCount,
-        page,
-        hasMore: offset + allDatasets.length < totalCount,
-        source: 'api',
-        fetchedAt: new Date().toISOString(),
-      };
+    const { datasets, total, hasMore } = await portal.list({}, { page, limit, search, category });
+    logger.info(`   ✅ Found ${datasets.length} datasets (total: ${total})`);
 
-      // Cache the result
-      await cacheSet(cacheKey, JSON.stringify(result), CACHE_TTL_LIST);
-      logger.info(`   💾 Cached ${allDatasets.length} datasets for ${CACHE_TTL_LIST}s`);
-
-      return result;
-    }
-
-    logger.warn('   ⚠️ CKAN API returned unexpected format');
-    return {
-      datasets: [],
-      total: 0,
+    const result: DatasetListResult = {
+      datasets,
+      total,
       page,
-      hasMore: false,
+      hasMore,
       source: 'api',
       fetchedAt: new Date().toISOString(),
     };
+
+    // Cache the result
+    if (datasets.length > 0) {
+      await cacheSet(cacheKey, JSON.stringify(result), CACHE_TTL_LIST);
+      logger.info(`   💾 Cached ${datasets.length} datasets for ${CACHE_TTL_LIST}s`);
+    }
+
+    return result;
   } catch (error) {
     logger.error(`❌ Failed to fetch datasets list:`, error);
 
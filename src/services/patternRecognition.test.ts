@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { mannKendall, decomposeSeries } from './patternRecognition.js';
+
+describe('mannKendall', () => {
+  it('detects a strictly increasing series as a significant upward trend', () => {
+    const result = mannKendall([1, 3, 5, 7, 9, 11, 13, 15, 17, 19])!;
+
+    expect(result.s).toBe(45); // every pair increases: n(n-1)/2
+    expect(result.tau).toBe(1);
+    expect(result.z).toBeCloseTo(3.935, 3);
+    expect(result.pValue).toBeLessThan(0.001);
+    expect(result.senSlope).toBe(2);
+  });
+
+  it('detects a strictly decreasing series as a significant downward trend', () => {
+    const result = mannKendall([50, 45, 41, 38, 30, 22, 20, 13])!;
+
+    expect(result.s).toBe(-28);
+    expect(result.tau).toBe(-1);
+    expect(result.z).toBeLessThan(0);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.senSlope).toBeLessThan(0);
+  });
+
+  it('finds no trend in a flat series (all ties)', () => {
+    const result = mannKendall([5, 5, 5, 5, 5, 5, 5, 5])!;
+
+    expect(result.s).toBe(0);
+    expect(result.z).toBe(0);
+    expect(result.pValue).toBe(1);
+    expect(result.senSlope).toBe(0);
+  });
+
+  it('finds no significant trend in an oscillating series', () => {
+    const result = mannKendall([5, 6, 5, 6, 5, 6, 5, 6, 5, 6])!;
+
+    expect(result.pValue).toBeGreaterThan(0.05);
+    expect(result.senSlope).toBe(0);
+  });
+
+  it('needs at least six points', () => {
+    expect(mannKendall([1, 2, 3, 4, 5])).toBeNull();
+  });
+});
+
+describe('decomposeSeries', () => {
+  // Linear trend + a July peak and December trough that cancel out over the year
+  const pattern = [0, 0, 0, 0, 0, 0, 20, 0, 0, 0, 0, -20];
+  const monthly = (years: number) =>
+    Array.from({ length: years * 12 }, (_, t) => ({
+      period: `${2020 + Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}`,
+      value: 100 + t * 0.5 + pattern[t % 12],
+    }));
+
+  it('recovers the seasonal indices, peak and trough of a monthly series', () => {
+    const result = decomposeSeries(monthly(4), 'month')!;
+
+    expect(result.period).toBe(12);
+    result.seasonalIndices.forEach((index, position) => expect(index).toBeCloseTo(pattern[position], 6));
+    expect(result.peakPosition).toBe(6);
+    expect(result.troughPosition).toBe(11);
+    expect(result.seasonalStrength).toBe(1);
+    expect(result.trendStrength).toBe(1);
+    expect(result.residualStdDev).toBeCloseTo(0, 6);
+    expect(result.deseasonalized[6]).toBeCloseTo(103, 6); // 100 + 6 * 0.5
+  });
+
+  it('reports no seasonality for a trend without a seasonal pattern', () => {
+    const points = monthly(4).map((p, t) => ({ ...p, value: 100 + t * 0.5 }));
+    const result = decomposeSeries(points, 'month')!;
+
+    expect(result.amplitudePercent).toBe(0);
+    expect(result.seasonalStrength).toBe(0);
+    result.seasonalIndices.forEach((index) => expect(index).toBeCloseTo(0, 6));
+  });
+
+  it('needs three full cycles and a seasonal granularity', () => {
+    expect(decomposeSeries(monthly(2), 'month')).toBeNull();
+    expect(decomposeSeries([{ period: '2020', value: 1 }, { period: '2021', value: 2 }], 'year')).toBeNull();
+  });
+});
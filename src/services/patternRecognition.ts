@@ -1,38 +1,198 @@
 /**
  * Pattern Recognition Service - خدمة التعرف على الأنماط
- * Analyzes signals over time to detect trends, cycles, anomalies, and correlations
+ * Detects patterns in dataset time series (not in signal counts):
+ * - SEASONAL: STL-style decomposition (iterated moving-average trend + seasonal indices)
+ * - TREND: Mann-Kendall test with Sen's slope on the deseasonalized series
+ * - CHANGEPOINT: binary segmentation of level shifts with a BIC-style penalty
+ * - CORRELATION: lagged correlation of period-over-period changes between regions / sectors,
+ *   with rolling correlation to check the relationship is stable
+ * Detected patterns are persisted with their evidence and resolved when they no longer hold
  */
 
 import { prisma } from './database.js';
 import { logger } from '../utils/logger.js';
-import { cacheGet, cacheSet } from './cache.js';
+import { cacheGet, cacheSet, cacheDel } from './cache.js';
+import { getDatasetData } from './onDemandData.js';
+import { Granularity } from './timeSeries.js';
+import {
+  SeriesPoint,
+  SignalSeries,
+  shiftPeriod,
+  extractSignalSeries,
+  analyzableDatasetsWhere,
+  publicView,
+} from './signalEngine.js';
+import { POLICY_SELECT } from './accessPolicy.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
 // ═══════════════════════════════════════════════════════════════════
 
+export type PatternType = 'TREND' | 'SEASONAL' | 'CORRELATION' | 'CHANGEPOINT';
+export type PatternMethod = 'mann_kendall' | 'stl' | 'lagged_correlation' | 'binary_segmentation';
+export type PatternSeverity = 'low' | 'medium' | 'high' | 'critical';
+
 export interface Pattern {
   id: string;
-  type: 'TREND' | 'CYCLE' | 'ANOMALY' | 'CORRELATION' | 'SEASONAL';
+  type: PatternType;
+  method: PatternMethod;
   title: string;
   titleAr: string;
   description: string;
   descriptionAr: string;
   confidence: number;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  signals: string[];
+  severity: PatternSeverity;
+  signals: string[]; // إشارات نشطة من نفس الـ Datasets
   sectors: string[];
+  datasetIds: string[];
   timeframe: { start: string; end: string };
+  evidence: Record<string, unknown>;
   metadata: Record<string, unknown>;
 }
 
+export interface Decomposition {
+  period: number;
+  seasonalIndices: number[]; // لكل موضع في الدورة (شهر / ربع)، مجموعها صفر
+  peakPosition: number;
+  troughPosition: number;
+  seasonalStrength: number; // 0-1
+  trendStrength: number; // 0-1
+  amplitudePercent: number; // (أعلى - أدنى مؤشر موسمي) / متوسط المستوى
+  residualStdDev: number;
+  deseasonalized: number[];
+}
+
+export interface TrendTest {
+  s: number;
+  z: number;
+  pValue: number;
+  tau: number;
+  senSlope: number; // التغير لكل فترة
+}
+
+export interface Changepoint {
+  index: number; // أول نقطة في المقطع الجديد
+  meanBefore: number;
+  meanAfter: number;
+  gain: number; // انخفاض مجموع مربعات الخطأ عند التقسيم
+  penalty: number;
+}
+
+export interface LaggedCorrelation {
+  lag: number; // موجب: السلسلة الثانية تتبع الأولى بعدد فترات
+  r: number;
+  n: number;
+  pValue: number; // بعد تصحيح Bonferroni لعدد الإزاحات المختبرة
+  byLag: { lag: number; r: number; n: number }[];
+  rolling: { end: string; r: number }[];
+  stability: number; // نسبة النوافذ بنفس الإشارة وبقوة ≥ 0.3
+}
+
+interface DatasetRef {
+  id: string;
+  externalId: string;
+  name: string;
+  nameAr: string;
+  category: string;
+}
+
+interface SeriesRef {
+  dataset: DatasetRef;
+  series: SignalSeries;
+}
+
+interface PatternCandidate {
+  patternKey: string;
+  type: PatternType;
+  method: PatternMethod;
+  title: string;
+  titleAr: string;
+  description: string;
+  descriptionAr: string;
+  confidence: number;
+  severity: PatternSeverity;
+  datasetId: string;
+  relatedDatasetId: string | null;
+  measure: string;
+  seriesKey: string;
+  sectors: string[];
+  timeframeStart: string;
+  timeframeEnd: string;
+  evidence: Record<string, unknown>;
+}
+
+export interface PatternDetectionResult {
+  analyzed: number;
+  seriesAnalyzed: number;
+  detected: number;
+  created: number;
+  updated: number;
+  resolved: number;
+  byType: Record<PatternType, number>;
+}
+
 // ═══════════════════════════════════════════════════════════════════
-// Helper: group signals by sector and time periods
+// Configuration
 // ═══════════════════════════════════════════════════════════════════
 
-function groupByPeriod(signals: any[], days: number) {
-  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-  return signals.filter(s => new Date(s.createdAt) >= cutoff);
+const PATTERNS_CACHE_KEY = 'detected_patterns';
+const PATTERNS_CACHE_TTL = 3600;
+const DEFAULT_DATASET_LIMIT = 40;
+const DEFAULT_PATTERN_LIMIT = 50;
+const EVIDENCE_POINTS = 40; // النقاط المحفوظة مع الدليل
+
+// Seasonality - periods per cycle
+const SEASONAL_PERIODS: Partial<Record<Granularity, number>> = { month: 12, quarter: 4 };
+const MIN_SEASONAL_CYCLES = 3;
+const STL_ITERATIONS = 2;
+const SEASONAL_STRENGTH = 0.6;
+const MIN_SEASONAL_AMPLITUDE = 5; // %
+
+// Trend
+const MIN_TREND_POINTS = 6;
+const TREND_P_VALUE = 0.05;
+const MIN_TREND_SLOPE = 1; // % من المستوى لكل فترة
+
+// Changepoints
+const MIN_SEGMENT = 3;
+const MAX_CHANGEPOINTS = 3;
+const CHANGEPOINT_PENALTY = 3; // × σ² × ln(n)
+const MIN_SHIFT_PERCENT = 5;
+
+// Correlation
+const MAX_LAG: Record<Granularity, number> = { year: 2, quarter: 4, month: 6, day: 7 };
+const MIN_CORRELATION_POINTS = 8;
+const MIN_CORRELATION = 0.6;
+const CORRELATION_P_VALUE = 0.05;
+const MIN_ROLLING_WINDOW = 6;
+const MAX_CORRELATION_REGIONS = 10;
+const MAX_CROSS_SERIES = 40;
+const MAX_CORRELATION_PATTERNS = 20;
+
+const GRANULARITY_LABELS: Record<Granularity, { en: string; ar: string }> = {
+  year: { en: 'years', ar: 'سنوات' },
+  quarter: { en: 'quarters', ar: 'أرباع' },
+  month: { en: 'months', ar: 'أشهر' },
+  day: { en: 'days', ar: 'أيام' },
+};
+
+const POSITION_LABELS: Partial<Record<Granularity, string[]>> = {
+  month: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  quarter: ['Q1', 'Q2', 'Q3', 'Q4'],
+};
+
+const POSITION_LABELS_AR: Partial<Record<Granularity, string[]>> = {
+  month: ['يناير', 'فبراير', 'مارس', 'أبريل', 'مايو', 'يونيو', 'يوليو', 'أغسطس', 'سبتمبر', 'أكتوبر', 'نوفمبر', 'ديسمبر'],
+  quarter: ['الربع الأول', 'الربع الثاني', 'الربع الثالث', 'الربع الرابع'],
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions - Statistics
+// ═══════════════════════════════════════════════════════════════════
+
+function round(value: number, digits: number = 2): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
 }
 
 function mean(values: number[]): number {
@@ -40,214 +200,755 @@ function mean(values: number[]): number {
   return values.reduce((a, b) => a + b, 0) / values.length;
 }
 
-function stdDev(values: number[]): number {
+function variance(values: number[]): number {
   if (values.length < 2) return 0;
   const avg = mean(values);
-  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length;
-  return Math.sqrt(variance);
+  return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * دالة التوزيع الطبيعي التراكمية (تقريب Abramowitz-Stegun 7.1.26)
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * متوسط متحرك مركزي (2×m للدورات الزوجية) - null في الأطراف
+ */
+function centeredMovingAverage(values: number[], m: number): (number | null)[] {
+  const half = Math.floor(m / 2);
+  return values.map((_, i) => {
+    if (i < half || i + half >= values.length) return null;
+    if (m % 2 === 1) return mean(values.slice(i - half, i + half + 1));
+    // 2×m MA: the two end points get half weight
+    let sum = (values[i - half] + values[i + half]) / 2;
+    for (let j = i - half + 1; j <= i + half - 1; j++) sum += values[j];
+    return sum / m;
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════════
-// Main detection function
+// Helper Functions - Series
 // ═══════════════════════════════════════════════════════════════════
 
-export async function detectPatterns(): Promise<Pattern[]> {
-  logger.info('Starting pattern detection...');
+/**
+ * آخر مقطع متصل من السلسلة (بدون فترات مفقودة)
+ */
+function trailingContiguous(points: SeriesPoint[], granularity: Granularity): SeriesPoint[] {
+  let start = points.length - 1;
+  while (start > 0 && shiftPeriod(points[start].period, granularity, 1) === points[start - 1].period) {
+    start--;
+  }
+  return points.slice(start);
+}
 
-  const patterns: Pattern[] = [];
-  let patternIndex = 0;
+/**
+ * موضع الفترة في الدورة الموسمية (الشهر 0-11، الربع 0-3)
+ */
+function seasonPosition(period: string, granularity: Granularity): number | null {
+  const month = period.match(/^\d{4}-(\d{2})$/);
+  if (granularity === 'month' && month) return parseInt(month[1], 10) - 1;
+  const quarter = period.match(/^\d{4}-Q([1-4])$/);
+  if (granularity === 'quarter' && quarter) return parseInt(quarter[1], 10) - 1;
+  return null;
+}
 
-  try {
-    // Fetch signals from last 90 days
-    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-    const signals = await prisma.signal.findMany({
-      where: {
-        isActive: true,
-        createdAt: { gte: ninetyDaysAgo },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 500,
+/**
+ * نسبة التغير من الفترة السابقة مباشرة (بالفترة)
+ */
+function periodChanges(points: SeriesPoint[], granularity: Granularity): Map<string, number> {
+  const byPeriod = new Map(points.map((p) => [p.period, p.value]));
+  const changes = new Map<string, number>();
+  for (const point of points) {
+    const previousPeriod = shiftPeriod(point.period, granularity, 1);
+    const previous = previousPeriod ? byPeriod.get(previousPeriod) : undefined;
+    if (previous !== undefined && previous !== 0) {
+      changes.set(point.period, (point.value - previous) / Math.abs(previous));
+    }
+  }
+  return changes;
+}
+
+function seriesLabel(ref: SeriesRef): { en: string; ar: string } {
+  const suffix = ref.series.key === 'total' ? '' : ` - ${ref.series.key}`;
+  return {
+    en: `${ref.series.measure}${suffix} (${ref.dataset.name})`,
+    ar: `${ref.series.measure}${suffix} (${ref.dataset.nameAr})`,
+  };
+}
+
+function seriesId(ref: SeriesRef): string {
+  return `${ref.dataset.id}:${ref.series.measure}:${ref.series.key}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Detectors (pure)
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تفكيك موسمي على طريقة STL: اتجاه بمتوسط متحرك مركزي، ومؤشرات موسمية بالوسيط،
+ * مع تكرار التقدير على السلسلة المنزوعة الموسمية
+ * قوة الموسمية = 1 - Var(البواقي) / Var(الموسمي + البواقي)
+ */
+export function decomposeSeries(points: SeriesPoint[], granularity: Granularity): Decomposition | null {
+  const m = SEASONAL_PERIODS[granularity];
+  if (!m) return null;
+
+  const run = trailingContiguous(points, granularity);
+  if (run.length < m * MIN_SEASONAL_CYCLES) return null;
+
+  const positions = run.map((p) => seasonPosition(p.period, granularity));
+  if (positions.some((p) => p === null)) return null;
+
+  const y = run.map((p) => p.value);
+  let seasonal = y.map(() => 0);
+  let indices: number[] = [];
+  let trend: (number | null)[] = [];
+
+  for (let iteration = 0; iteration < STL_ITERATIONS; iteration++) {
+    trend = centeredMovingAverage(y.map((v, i) => v - seasonal[i]), m);
+
+    const byPosition: number[][] = Array.from({ length: m }, () => []);
+    y.forEach((v, i) => {
+      if (trend[i] !== null) byPosition[positions[i]!].push(v - trend[i]!);
     });
+    if (byPosition.some((values) => values.length === 0)) return null;
 
-    if (signals.length < 3) {
-      logger.info('Not enough signals for pattern detection');
-      return [];
-    }
+    const raw = byPosition.map(median);
+    const offset = mean(raw);
+    indices = raw.map((v) => v - offset);
+    seasonal = positions.map((p) => indices[p!]);
+  }
+
+  const deseasonalized = y.map((v, i) => v - seasonal[i]);
+  trend = centeredMovingAverage(deseasonalized, m);
+
+  const defined = y.map((_, i) => i).filter((i) => trend[i] !== null);
+  const residual = defined.map((i) => y[i] - trend[i]! - seasonal[i]);
+  const seasonalPlusResidual = defined.map((i, k) => seasonal[i] + residual[k]);
+  const trendPlusResidual = defined.map((i, k) => trend[i]! + residual[k]);
 
-    // Group by sector
-    const bySector: Record<string, typeof signals> = {};
-    for (const signal of signals) {
-      const sector = signal.sector || 'عام';
-      if (!bySector[sector]) bySector[sector] = [];
-      bySector[sector].push(signal);
+  const residualVariance = variance(residual);
+  const seasonalVariance = variance(seasonalPlusResidual);
+  const trendVariance = variance(trendPlusResidual);
+  const level = mean(y.map(Math.abs));
+
+  const peakPosition = indices.indexOf(Math.max(...indices));
+  const troughPosition = indices.indexOf(Math.min(...indices));
+
+  return {
+    period: m,
+    seasonalIndices: indices.map((v) => round(v, 4)),
+    peakPosition,
+    troughPosition,
+    seasonalStrength: round(seasonalVariance > 0 ? Math.max(0, 1 - residualVariance / seasonalVariance) : 0, 3),
+    trendStrength: round(trendVariance > 0 ? Math.max(0, 1 - residualVariance / trendVariance) : 0, 3),
+    amplitudePercent: level > 0 ? round(((indices[peakPosition] - indices[troughPosition]) / level) * 100) : 0,
+    residualStdDev: round(Math.sqrt(residualVariance), 4),
+    deseasonalized,
+  };
+}
+
+/**
+ * اختبار Mann-Kendall للاتجاه (مع تصحيح القيم المتساوية) وميل Sen
+ */
+export function mannKendall(values: number[]): TrendTest | null {
+  const n = values.length;
+  if (n < MIN_TREND_POINTS) return null;
+
+  let s = 0;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(values[j] - values[i]);
+      slopes.push((values[j] - values[i]) / (j - i));
     }
+  }
+
+  const ties = new Map<number, number>();
+  values.forEach((v) => ties.set(v, (ties.get(v) || 0) + 1));
+  const tieTerm = [...ties.values()].reduce((sum, t) => sum + t * (t - 1) * (2 * t + 5), 0);
+
+  const varianceS = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+  const z = varianceS > 0 ? (s - Math.sign(s)) / Math.sqrt(varianceS) : 0;
+
+  return {
+    s,
+    z: round(z, 3),
+    pValue: round(2 * (1 - normalCdf(Math.abs(z))), 4),
+    tau: round(s / ((n * (n - 1)) / 2), 3),
+    senSlope: median(slopes),
+  };
+}
+
+/**
+ * اكتشاف نقاط التحول في المستوى بالتقسيم الثنائي
+ * يُقبل التقسيم إذا تجاوز انخفاض مجموع مربعات الخطأ العقوبة (3 × σ² × ln n)،
+ * و σ تقدير متين من الفروق المتتالية (MAD)
+ */
+export function detectChangepoints(values: number[]): Changepoint[] {
+  const n = values.length;
+  if (n < MIN_SEGMENT * 2 + 2) return [];
 
-    // ── TREND DETECTION ──
-    // Compare average impact score across 3 time periods (30-day chunks)
-    const period1 = groupByPeriod(signals, 30);
-    const period2 = signals.filter(s => {
-      const d = new Date(s.createdAt);
-      const thirtyAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-      const sixtyAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
-      return d >= sixtyAgo && d < thirtyAgo;
+  const diffs = values.slice(1).map((v, i) => v - values[i]);
+  const diffMedian = median(diffs);
+  let sigma = median(diffs.map((d) => Math.abs(d - diffMedian))) / 0.6745 / Math.SQRT2;
+  if (!(sigma > 0)) sigma = Math.sqrt(variance(values));
+  if (!(sigma > 0)) return [];
+
+  const penalty = CHANGEPOINT_PENALTY * sigma ** 2 * Math.log(n);
+
+  const prefix = [0];
+  const prefixSq = [0];
+  values.forEach((v, i) => {
+    prefix.push(prefix[i] + v);
+    prefixSq.push(prefixSq[i] + v * v);
+  });
+  const sse = (start: number, end: number) => {
+    const sum = prefix[end] - prefix[start];
+    return prefixSq[end] - prefixSq[start] - (sum * sum) / (end - start);
+  };
+
+  const segments: [number, number][] = [[0, n]];
+  const splits: { index: number; gain: number }[] = [];
+
+  while (splits.length < MAX_CHANGEPOINTS) {
+    let best: { segment: number; index: number; gain: number } | null = null;
+
+    segments.forEach(([start, end], segment) => {
+      const total = sse(start, end);
+      for (let t = start + MIN_SEGMENT; t <= end - MIN_SEGMENT; t++) {
+        const gain = total - sse(start, t) - sse(t, end);
+        if (!best || gain > best.gain) best = { segment, index: t, gain };
+      }
     });
-    const period3 = signals.filter(s => {
-      const d = new Date(s.createdAt);
-      const sixtyAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
-      const ninetyAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-      return d >= ninetyAgo && d < sixtyAgo;
+
+    const chosen = best as { segment: number; index: number; gain: number } | null;
+    if (!chosen || chosen.gain <= penalty) break;
+
+    const [start, end] = segments[chosen.segment];
+    segments.splice(chosen.segment, 1, [start, chosen.index], [chosen.index, end]);
+    splits.push({ index: chosen.index, gain: chosen.gain });
+  }
+
+  const boundaries = [0, ...splits.map((s) => s.index).sort((a, b) => a - b), n];
+  return splits
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, gain }) => {
+      const k = boundaries.indexOf(index);
+      return {
+        index,
+        meanBefore: mean(values.slice(boundaries[k - 1], index)),
+        meanAfter: mean(values.slice(index, boundaries[k + 1])),
+        gain: round(gain, 4),
+        penalty: round(penalty, 4),
+      };
     });
+}
 
-    for (const [sector, sectorSignals] of Object.entries(bySector)) {
-      if (sectorSignals.length < 3) continue;
-
-      const p1 = sectorSignals.filter(s => period1.includes(s));
-      const p2 = sectorSignals.filter(s => period2.includes(s));
-      const p3 = sectorSignals.filter(s => period3.includes(s));
-
-      if (p1.length > 0 && p2.length > 0 && p3.length > 0) {
-        const avg1 = mean(p1.map(s => s.impactScore));
-        const avg2 = mean(p2.map(s => s.impactScore));
-        const avg3 = mean(p3.map(s => s.impactScore));
-
-        // Consistent increase
-        if (avg1 > avg2 && avg2 > avg3 && (avg1 - avg3) > 10) {
-          patterns.push({
-            id: `pattern_trend_up_${patternIndex++}`,
-            type: 'TREND',
-            title: `Rising Impact in ${sector}`,
-            titleAr: `اتجاه تصاعدي في قطاع ${sector}`,
-            description: `Impact scores in ${sector} have been consistently increasing over the past 90 days.`,
-            descriptionAr: `درجات التأثير في قطاع ${sector} في ارتفاع مستمر خلال الـ 90 يوم الماضية. المتوسط الحالي ${avg1.toFixed(0)} مقارنة بـ ${avg3.toFixed(0)} قبل 3 أشهر.`,
-            confidence: Math.min(95, 60 + (avg1 - avg3)),
-            severity: (avg1 - avg3) > 20 ? 'high' : 'medium',
-            signals: p1.slice(0, 3).map(s => s.id),
-            sectors: [sector],
-            timeframe: { start: ninetyDaysAgo.toISOString(), end: new Date().toISOString() },
-            metadata: { avg1, avg2, avg3, signalCount: sectorSignals.length },
-          });
-        }
-
-        // Consistent decrease
-        if (avg1 < avg2 && avg2 < avg3 && (avg3 - avg1) > 10) {
-          patterns.push({
-            id: `pattern_trend_down_${patternIndex++}`,
-            type: 'TREND',
-            title: `Declining Impact in ${sector}`,
-            titleAr: `اتجاه تنازلي في قطاع ${sector}`,
-            description: `Impact scores in ${sector} have been consistently decreasing.`,
-            descriptionAr: `درجات التأثير في قطاع ${sector} في انخفاض مستمر. المتوسط الحالي ${avg1.toFixed(0)} مقارنة بـ ${avg3.toFixed(0)} قبل 3 أشهر.`,
-            confidence: Math.min(95, 60 + (avg3 - avg1)),
-            severity: (avg3 - avg1) > 20 ? 'high' : 'medium',
-            signals: p1.slice(0, 3).map(s => s.id),
-            sectors: [sector],
-            timeframe: { start: ninetyDaysAgo.toISOString(), end: new Date().toISOString() },
-            metadata: { avg1, avg2, avg3, signalCount: sectorSignals.length },
-          });
-        }
-      }
+/**
+ * الارتباط مع الإزاحة بين تغيرات سلسلتين (نسبة التغير من الفترة السابقة، لتجنب الارتباط الزائف بسبب الاتجاه)
+ * تُختبر الإزاحات ±maxLag ويُصحَّح مستوى الدلالة (Fisher z + Bonferroni)،
+ * ثم يُحسب الارتباط المتدحرج عند أفضل إزاحة للتحقق من ثبات العلاقة
+ */
+export function laggedCorrelation(
+  a: SeriesPoint[],
+  b: SeriesPoint[],
+  granularity: Granularity,
+  maxLag: number = MAX_LAG[granularity]
+): LaggedCorrelation | null {
+  const changesA = periodChanges(a, granularity);
+  const changesB = periodChanges(b, granularity);
+  const periods = [...changesA.keys()].sort();
+
+  const pairsAt = (lag: number) =>
+    periods
+      .map((period) => {
+        const later = shiftPeriod(period, granularity, -lag);
+        const vb = later ? changesB.get(later) : undefined;
+        return vb === undefined ? null : { period, x: changesA.get(period)!, y: vb };
+      })
+      .filter((p): p is { period: string; x: number; y: number } => p !== null);
+
+  const byLag: LaggedCorrelation['byLag'] = [];
+  let best: { lag: number; r: number; pairs: { period: string; x: number; y: number }[] } | null = null;
+
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const pairs = pairsAt(lag);
+    if (pairs.length < MIN_CORRELATION_POINTS) continue;
+    const r = pearson(pairs.map((p) => p.x), pairs.map((p) => p.y));
+    if (r === null) continue;
+    byLag.push({ lag, r: round(r, 3), n: pairs.length });
+    if (!best || Math.abs(r) > Math.abs(best.r)) best = { lag, r, pairs };
+  }
+
+  if (!best) return null;
+
+  const n = best.pairs.length;
+  const fisher = Math.atanh(clamp(best.r, -0.999999, 0.999999)) * Math.sqrt(n - 3);
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(fisher))) * (2 * maxLag + 1));
+
+  const window = Math.max(MIN_ROLLING_WINDOW, Math.floor(n / 2));
+  const rolling: LaggedCorrelation['rolling'] = [];
+  for (let end = window; end <= n; end++) {
+    const slice = best.pairs.slice(end - window, end);
+    const r = pearson(slice.map((p) => p.x), slice.map((p) => p.y));
+    if (r !== null) rolling.push({ end: slice[slice.length - 1].period, r: round(r, 3) });
+  }
+  const consistent = rolling.filter((w) => Math.sign(w.r) === Math.sign(best!.r) && Math.abs(w.r) >= 0.3).length;
+
+  return {
+    lag: best.lag,
+    r: round(best.r, 3),
+    n,
+    pValue: round(pValue, 4),
+    byLag,
+    rolling,
+    stability: rolling.length > 0 ? round(consistent / rolling.length, 2) : 0,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Pattern builders
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * الأنماط داخل سلسلة واحدة: الموسمية، الاتجاه، وآخر نقطة تحول
+ */
+function analyzeSeriesPatterns(ref: SeriesRef): PatternCandidate[] {
+  const { dataset, series } = ref;
+  const run = trailingContiguous(series.points, series.granularity);
+  if (run.length < MIN_TREND_POINTS) return [];
+
+  const candidates: PatternCandidate[] = [];
+  const label = seriesLabel(ref);
+  const id = seriesId(ref);
+  const start = run[0].period;
+  const end = run[run.length - 1].period;
+  const evidenceSeries = { granularity: series.granularity, aggregate: series.aggregate, points: run.slice(-EVIDENCE_POINTS) };
+  const base = {
+    datasetId: dataset.id,
+    relatedDatasetId: null,
+    measure: series.measure,
+    seriesKey: series.key,
+    sectors: [dataset.category],
+    timeframeStart: start,
+    timeframeEnd: end,
+  };
+
+  // ── SEASONALITY ──
+  const decomposition = decomposeSeries(run, series.granularity);
+  const seasonal =
+    decomposition &&
+    decomposition.seasonalStrength >= SEASONAL_STRENGTH &&
+    decomposition.amplitudePercent >= MIN_SEASONAL_AMPLITUDE;
+
+  if (decomposition && seasonal) {
+    const labels = POSITION_LABELS[series.granularity]!;
+    const labelsAr = POSITION_LABELS_AR[series.granularity]!;
+    const { deseasonalized: _deseasonalized, ...stats } = decomposition;
+    candidates.push({
+      ...base,
+      patternKey: `seasonal|${id}`,
+      type: 'SEASONAL',
+      method: 'stl',
+      title: `Seasonal cycle in ${label.en}: peaks in ${labels[decomposition.peakPosition]}`,
+      titleAr: `نمط موسمي في ${label.ar}: الذروة في ${labelsAr[decomposition.peakPosition]}`,
+      description: `Seasonality explains ${Math.round(decomposition.seasonalStrength * 100)}% of the non-trend variation. Values peak in ${labels[decomposition.peakPosition]} and bottom in ${labels[decomposition.troughPosition]}, a swing of ${decomposition.amplitudePercent}% of the average level.`,
+      descriptionAr: `الموسمية تفسر ${Math.round(decomposition.seasonalStrength * 100)}% من التباين خارج الاتجاه. تبلغ القيم ذروتها في ${labelsAr[decomposition.peakPosition]} وأدناها في ${labelsAr[decomposition.troughPosition]}، بتذبذب ${decomposition.amplitudePercent}% من متوسط المستوى.`,
+      confidence: clamp(Math.round(50 + decomposition.seasonalStrength * 40 + run.length / decomposition.period), 50, 95),
+      severity: decomposition.amplitudePercent >= 30 ? 'high' : decomposition.amplitudePercent >= 10 ? 'medium' : 'low',
+      evidence: {
+        ...stats,
+        positions: labels,
+        cycles: round(run.length / decomposition.period, 1),
+        thresholds: { seasonalStrength: SEASONAL_STRENGTH, amplitudePercent: MIN_SEASONAL_AMPLITUDE },
+        series: evidenceSeries,
+      },
+    });
+  }
+
+  // ── TREND (on the deseasonalized series when seasonal) ──
+  const values = seasonal ? decomposition!.deseasonalized : run.map((p) => p.value);
+  const level = mean(values.map(Math.abs));
+  const trend = mannKendall(values);
+  const slopePercent = trend && level > 0 ? (trend.senSlope / level) * 100 : 0;
+  const significantTrend = !!trend && trend.pValue < TREND_P_VALUE && Math.abs(slopePercent) >= MIN_TREND_SLOPE;
+
+  if (trend && significantTrend) {
+    const up = trend.senSlope > 0;
+    const periodsEn = GRANULARITY_LABELS[series.granularity].en;
+    const periodsAr = GRANULARITY_LABELS[series.granularity].ar;
+    candidates.push({
+      ...base,
+      patternKey: `trend|${id}`,
+      type: 'TREND',
+      method: 'mann_kendall',
+      title: `${up ? 'Sustained rise' : 'Sustained decline'} in ${label.en}`,
+      titleAr: `${up ? 'ارتفاع مستمر' : 'انخفاض مستمر'} في ${label.ar}`,
+      description: `Over ${run.length} ${periodsEn} (${start} to ${end}) the series ${up ? 'rises' : 'falls'} by about ${Math.abs(round(slopePercent, 1))}% of its level per period (Sen's slope; Mann-Kendall p = ${trend.pValue}).`,
+      descriptionAr: `خلال ${run.length} ${periodsAr} (${start} إلى ${end}) ${up ? 'ترتفع' : 'تنخفض'} السلسلة بنحو ${Math.abs(round(slopePercent, 1))}% من مستواها في كل فترة (ميل Sen؛ اختبار Mann-Kendall p = ${trend.pValue}).`,
+      confidence: clamp(Math.round((1 - trend.pValue) * 100), 50, 99),
+      severity: Math.abs(slopePercent) >= 10 ? 'high' : Math.abs(slopePercent) >= 3 ? 'medium' : 'low',
+      evidence: {
+        ...trend,
+        senSlope: round(trend.senSlope, 4),
+        slopePercent: round(slopePercent, 2),
+        deseasonalized: !!seasonal,
+        thresholds: { pValue: TREND_P_VALUE, slopePercent: MIN_TREND_SLOPE },
+        series: evidenceSeries,
+      },
+    });
+  }
+
+  // ── CHANGEPOINTS (level shifts after removing trend / seasonality) ──
+  const adjusted = significantTrend ? values.map((v, i) => v - trend!.senSlope * i) : values;
+  const changepoints = detectChangepoints(adjusted).map((c) => ({
+    ...c,
+    period: run[c.index].period,
+    shiftPercent: level > 0 ? round(((c.meanAfter - c.meanBefore) / level) * 100) : 0,
+  }));
+  const latest = changepoints.filter((c) => Math.abs(c.shiftPercent) >= MIN_SHIFT_PERCENT).pop();
+
+  if (latest) {
+    const up = latest.shiftPercent > 0;
+    const shift = Math.abs(latest.shiftPercent);
+    const ratio = latest.gain / latest.penalty;
+    candidates.push({
+      ...base,
+      patternKey: `changepoint|${id}|${latest.period}`,
+      type: 'CHANGEPOINT',
+      method: 'binary_segmentation',
+      title: `Level shift ${up ? 'up' : 'down'} in ${label.en} from ${latest.period}`,
+      titleAr: `تحول ${up ? 'صاعد' : 'هابط'} في مستوى ${label.ar} منذ ${latest.period}`,
+      description: `Since ${latest.period} the series has moved to a ${up ? 'higher' : 'lower'} level (${shift}% of the average level${significantTrend ? ', after removing the trend' : ''}).`,
+      descriptionAr: `منذ ${latest.period} انتقلت السلسلة إلى مستوى ${up ? 'أعلى' : 'أدنى'} (${shift}% من متوسط المستوى${significantTrend ? '، بعد استبعاد الاتجاه' : ''}).`,
+      confidence: clamp(Math.round(50 + Math.log2(ratio) * 15), 55, 95),
+      severity: shift >= 50 ? 'critical' : shift >= 30 ? 'high' : shift >= 10 ? 'medium' : 'low',
+      timeframeStart: latest.period,
+      evidence: {
+        changepoints: changepoints.map((c) => ({ ...c, meanBefore: round(c.meanBefore, 4), meanAfter: round(c.meanAfter, 4) })),
+        detrended: significantTrend,
+        deseasonalized: !!seasonal,
+        thresholds: { penaltyFactor: CHANGEPOINT_PENALTY, minSegment: MIN_SEGMENT, shiftPercent: MIN_SHIFT_PERCENT },
+        series: evidenceSeries,
+      },
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * نمط ارتباط بين سلسلتين (منطقتين في نفس الـ Dataset، أو قطاعين مختلفين)
+ */
+function correlationPattern(a: SeriesRef, b: SeriesRef, scope: 'regions' | 'sectors'): PatternCandidate | null {
+  const granularity = a.series.granularity;
+  const result = laggedCorrelation(a.series.points, b.series.points, granularity);
+  if (!result || Math.abs(result.r) < MIN_CORRELATION || result.pValue >= CORRELATION_P_VALUE) return null;
+
+  const [first, second] = seriesId(a) < seriesId(b) ? [a, b] : [b, a];
+  const la = seriesLabel(a);
+  const lb = seriesLabel(b);
+  const positive = result.r > 0;
+  const lag = Math.abs(result.lag);
+  const unit = GRANULARITY_LABELS[granularity];
+  const [leader, follower] = result.lag >= 0 ? [la, lb] : [lb, la];
+  const lagEn = lag === 0 ? 'in the same period' : `${leader.en} leads by ${lag} ${unit.en}`;
+  const lagAr = lag === 0 ? 'في نفس الفترة' : `${leader.ar} تسبق ${follower.ar} بـ ${lag} ${unit.ar}`;
+  const periods = result.rolling.map((w) => w.end);
+
+  return {
+    patternKey: `correlation|${seriesId(first)}|${seriesId(second)}`,
+    type: 'CORRELATION',
+    method: 'lagged_correlation',
+    title: `${la.en} and ${lb.en} move ${positive ? 'together' : 'in opposite directions'}`,
+    titleAr: `${la.ar} و${lb.ar} ${positive ? 'تتحركان معاً' : 'تتحركان في اتجاهين متعاكسين'}`,
+    description: `Period-over-period changes are ${positive ? 'positively' : 'negatively'} correlated (r = ${result.r}, n = ${result.n}), ${lagEn}. The relationship holds in ${Math.round(result.stability * 100)}% of rolling windows.`,
+    descriptionAr: `التغيرات من فترة لأخرى مرتبطة ${positive ? 'طردياً' : 'عكسياً'} (r = ${result.r}، n = ${result.n})، ${lagAr}. العلاقة ثابتة في ${Math.round(result.stability * 100)}% من النوافذ المتدحرجة.`,
+    confidence: clamp(Math.round((1 - result.pValue) * 100 * (0.5 + result.stability / 2)), 50, 99),
+    severity: Math.abs(result.r) >= 0.85 && result.stability >= 0.8 ? 'high' : 'medium',
+    datasetId: a.dataset.id,
+    relatedDatasetId: b.dataset.id === a.dataset.id ? null : b.dataset.id,
+    measure: a.series.measure,
+    seriesKey: `${a.series.key}~${b.series.key}`,
+    sectors: [...new Set([a.dataset.category, b.dataset.category])],
+    timeframeStart: periods[0] || a.series.points[0].period,
+    timeframeEnd: periods[periods.length - 1] || a.series.points[a.series.points.length - 1].period,
+    evidence: {
+      scope,
+      ...result,
+      granularity,
+      transform: 'percent change from previous period',
+      thresholds: { r: MIN_CORRELATION, pValue: CORRELATION_P_VALUE, minPoints: MIN_CORRELATION_POINTS },
+      series: [
+        { id: seriesId(a), datasetId: a.dataset.id, measure: a.series.measure, key: a.series.key, points: a.series.points.slice(-EVIDENCE_POINTS) },
+        { id: seriesId(b), datasetId: b.dataset.id, measure: b.series.measure, key: b.series.key, points: b.series.points.slice(-EVIDENCE_POINTS) },
+      ],
+    },
+  };
+}
+
+function pairwiseCorrelations(refs: SeriesRef[], scope: 'regions' | 'sectors'): PatternCandidate[] {
+  const candidates: PatternCandidate[] = [];
+  for (let i = 0; i < refs.length - 1; i++) {
+    for (let j = i + 1; j < refs.length; j++) {
+      const [a, b] = [refs[i], refs[j]];
+      if (a.series.granularity !== b.series.granularity) continue;
+      if (scope === 'sectors' && a.dataset.id === b.dataset.id) continue;
+      const candidate = correlationPattern(a, b, scope);
+      if (candidate) candidates.push(candidate);
     }
+  }
+  return candidates;
+}
 
-    // ── ANOMALY DETECTION ──
-    // Signals with impact score > 2 standard deviations from mean
-    const allScores = signals.map(s => s.impactScore);
-    const avgScore = mean(allScores);
-    const sd = stdDev(allScores);
-
-    if (sd > 0) {
-      const anomalies = signals.filter(s => Math.abs(s.impactScore - avgScore) > 2 * sd);
-      for (const anomaly of anomalies.slice(0, 3)) {
-        const isHigh = anomaly.impactScore > avgScore;
-        patterns.push({
-          id: `pattern_anomaly_${patternIndex++}`,
-          type: 'ANOMALY',
-          title: `${isHigh ? 'Unusually High' : 'Unusually Low'} Impact: ${anomaly.titleAr}`,
-          titleAr: `${isHigh ? 'تأثير مرتفع بشكل غير اعتيادي' : 'تأثير منخفض بشكل غير اعتيادي'}: ${anomaly.titleAr}`,
-          description: `Signal "${anomaly.title}" has an impact score of ${anomaly.impactScore}, which is ${(Math.abs(anomaly.impactScore - avgScore) / sd).toFixed(1)} standard deviations from the mean.`,
-          descriptionAr: `إشارة "${anomaly.titleAr}" بدرجة تأثير ${anomaly.impactScore}، وهي تبعد ${(Math.abs(anomaly.impactScore - avgScore) / sd).toFixed(1)} انحرافات معيارية عن المتوسط (${avgScore.toFixed(0)}).`,
-          confidence: Math.min(95, 70 + Math.abs(anomaly.impactScore - avgScore) / sd * 5),
-          severity: Math.abs(anomaly.impactScore - avgScore) > 3 * sd ? 'critical' : 'high',
-          signals: [anomaly.id],
-          sectors: anomaly.sector ? [anomaly.sector] : [],
-          timeframe: { start: anomaly.createdAt.toISOString(), end: anomaly.createdAt.toISOString() },
-          metadata: { score: anomaly.impactScore, mean: avgScore, stdDev: sd },
-        });
-      }
+// ═══════════════════════════════════════════════════════════════════
+// Persistence
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * حفظ الأنماط حسب مفتاحها: تحديث الموجود، إنشاء الجديد،
+ * وإغلاق أنماط الـ Datasets المحللة التي لم تعد قائمة
+ */
+async function persistPatterns(
+  candidates: PatternCandidate[],
+  analyzedIds: string[]
+): Promise<{ created: number; updated: number; resolved: number }> {
+  const now = new Date();
+  let created = 0;
+  let updated = 0;
+
+  for (const candidate of candidates) {
+    const data = {
+      ...candidate,
+      sectors: candidate.sectors as any,
+      evidence: candidate.evidence as any,
+      isActive: true,
+      resolvedAt: null,
+      lastDetectedAt: now,
+    };
+
+    const existing = await prisma.detectedPattern.findUnique({
+      where: { patternKey: candidate.patternKey },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await prisma.detectedPattern.update({ where: { id: existing.id }, data });
+      updated++;
+    } else {
+      await prisma.detectedPattern.create({ data: { ...data, firstDetectedAt: now } });
+      created++;
     }
+  }
+
+  const { count: resolved } = analyzedIds.length === 0
+    ? { count: 0 }
+    : await prisma.detectedPattern.updateMany({
+        where: {
+          isActive: true,
+          datasetId: { in: analyzedIds },
+          patternKey: { notIn: candidates.map((c) => c.patternKey) },
+        },
+        data: { isActive: false, resolvedAt: now },
+      });
+
+  return { created, updated, resolved };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main detection function
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * اكتشاف الأنماط في السلاسل الزمنية للـ Datasets القابلة للتحليل وحفظها مع أدلتها
+ */
+export async function detectPatterns(
+  options: { datasetIds?: string[]; limit?: number } = {}
+): Promise<PatternDetectionResult> {
+  logger.info('Starting pattern detection...');
+
+  const datasets = await prisma.dataset.findMany({
+    where: analyzableDatasetsWhere(options.datasetIds),
+    select: { id: true, externalId: true, name: true, nameAr: true, category: true, ...POLICY_SELECT },
+    orderBy: [{ lastChangedAt: { sort: 'desc', nulls: 'last' } }, { lastSyncAt: 'desc' }],
+    take: options.limit || DEFAULT_DATASET_LIMIT,
+  });
+
+  const candidates: PatternCandidate[] = [];
+  const correlations: PatternCandidate[] = [];
+  const crossSeries: SeriesRef[] = [];
+  const analyzedIds: string[] = [];
+  let seriesAnalyzed = 0;
+
+  for (const dataset of datasets) {
+    try {
+      // Evidence is public: extract from the dataset's public view (policy and PII applied)
+      const fetched = await getDatasetData(dataset.externalId);
+      const data = fetched && publicView(dataset, fetched);
+      if (!data || data.records.length === 0) continue;
+
+      const { totals, regional } = extractSignalSeries(data.records, data.columns);
+      if (totals.length === 0) continue;
 
-    // ── CORRELATION DETECTION ──
-    // Sectors where opportunities and risks appear together
-    for (const [sector, sectorSignals] of Object.entries(bySector)) {
-      const opportunities = sectorSignals.filter(s => s.type === 'OPPORTUNITY');
-      const risks = sectorSignals.filter(s => s.type === 'RISK');
-
-      if (opportunities.length >= 2 && risks.length >= 2) {
-        patterns.push({
-          id: `pattern_corr_${patternIndex++}`,
-          type: 'CORRELATION',
-          title: `Mixed Signals in ${sector}`,
-          titleAr: `إشارات متضاربة في قطاع ${sector}`,
-          description: `${sector} shows both ${opportunities.length} opportunities and ${risks.length} risks, suggesting market uncertainty.`,
-          descriptionAr: `قطاع ${sector} يُظهر ${opportunities.length} فرص و ${risks.length} مخاطر في نفس الوقت، مما يشير إلى حالة عدم يقين في السوق.`,
-          confidence: 75,
-          severity: 'medium',
-          signals: [...opportunities.slice(0, 2), ...risks.slice(0, 2)].map(s => s.id),
-          sectors: [sector],
-          timeframe: { start: ninetyDaysAgo.toISOString(), end: new Date().toISOString() },
-          metadata: { opportunities: opportunities.length, risks: risks.length },
-        });
+      analyzedIds.push(dataset.id);
+
+      for (const series of totals) {
+        candidates.push(...analyzeSeriesPatterns({ dataset, series }));
+        seriesAnalyzed++;
       }
-    }
 
-    // ── SECTOR DOMINANCE ──
-    // If one sector has significantly more signals than others
-    const sectorCounts = Object.entries(bySector)
-      .map(([sector, sigs]) => ({ sector, count: sigs.length }))
-      .sort((a, b) => b.count - a.count);
-
-    if (sectorCounts.length >= 2) {
-      const top = sectorCounts[0];
-      const second = sectorCounts[1];
-      if (top.count > second.count * 2 && top.count >= 5) {
-        patterns.push({
-          id: `pattern_dominance_${patternIndex++}`,
-          type: 'TREND',
-          title: `${top.sector} Dominates Market Signals`,
-          titleAr: `قطاع ${top.sector} يهيمن على إشارات السوق`,
-          description: `${top.sector} has ${top.count} signals, more than double the second sector (${second.sector}: ${second.count}).`,
-          descriptionAr: `قطاع ${top.sector} يمتلك ${top.count} إشارة، أكثر من ضعف القطاع الثاني (${second.sector}: ${second.count}). هذا يشير إلى تركز النشاط الاقتصادي في هذا القطاع.`,
-          confidence: 90,
-          severity: 'medium',
-          signals: bySector[top.sector]!.slice(0, 3).map(s => s.id),
-          sectors: [top.sector, second.sector],
-          timeframe: { start: ninetyDaysAgo.toISOString(), end: new Date().toISOString() },
-          metadata: { sectorCounts: sectorCounts.slice(0, 5) },
-        });
+      // One headline series per dataset for cross-sector correlation
+      crossSeries.push({ dataset, series: totals[0] });
+
+      for (const group of regional) {
+        const regions = [...group.series]
+          .sort((a, b) => b.points.length - a.points.length)
+          .slice(0, MAX_CORRELATION_REGIONS)
+          .map((series) => ({ dataset, series }));
+        correlations.push(...pairwiseCorrelations(regions, 'regions'));
+        seriesAnalyzed += regions.length;
       }
+    } catch (error) {
+      logger.error(`❌ Pattern detection failed for ${dataset.externalId}:`, error);
     }
+  }
 
-    logger.info(`Pattern detection complete. Found ${patterns.length} patterns.`);
-    return patterns;
+  correlations.push(...pairwiseCorrelations(crossSeries.slice(0, MAX_CROSS_SERIES), 'sectors'));
+  candidates.push(
+    ...correlations
+      .sort((a, b) => Math.abs(b.evidence.r as number) - Math.abs(a.evidence.r as number))
+      .slice(0, MAX_CORRELATION_PATTERNS)
+  );
 
-  } catch (error) {
-    logger.error('Error in pattern detection:', error);
-    return [];
-  }
+  const saved = await persistPatterns(candidates, analyzedIds);
+  await cacheDel(PATTERNS_CACHE_KEY);
+
+  const byType: Record<PatternType, number> = { TREND: 0, SEASONAL: 0, CORRELATION: 0, CHANGEPOINT: 0 };
+  candidates.forEach((c) => byType[c.type]++);
+
+  logger.info(
+    `Pattern detection complete. ${candidates.length} patterns in ${analyzedIds.length} datasets ` +
+      `(${saved.created} new, ${saved.updated} updated, ${saved.resolved} resolved)`
+  );
+
+  return {
+    analyzed: analyzedIds.length,
+    seriesAnalyzed,
+    detected: candidates.length,
+    ...saved,
+    byType,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Queries
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * الأنماط النشطة المحفوظة، مع الإشارات النشطة من نفس الـ Datasets
+ */
+export async function getActivePatterns(
+  filters: { type?: string; datasetId?: string; sector?: string; limit?: number } = {}
+): Promise<Pattern[]> {
+  const rows = await prisma.detectedPattern.findMany({
+    where: {
+      isActive: true,
+      ...(filters.type && { type: filters.type }),
+      ...(filters.datasetId && {
+        OR: [{ datasetId: filters.datasetId }, { relatedDatasetId: filters.datasetId }],
+      }),
+      ...(filters.sector && { sectors: { array_contains: [filters.sector] } }),
+    },
+    orderBy: [{ confidence: 'desc' }, { lastDetectedAt: 'desc' }],
+    take: Math.min(filters.limit || DEFAULT_PATTERN_LIMIT, 200),
+  });
+
+  const datasetIds = [...new Set(rows.flatMap((r) => [r.datasetId, r.relatedDatasetId].filter((id): id is string => !!id)))];
+  const signals = datasetIds.length === 0
+    ? []
+    : await prisma.signal.findMany({
+        where: { isActive: true, datasetId: { in: datasetIds } },
+        select: { id: true, datasetId: true },
+        orderBy: { impactScore: 'desc' },
+      });
+
+  return rows.map((row) => {
+    const ids = [row.datasetId, row.relatedDatasetId].filter((id): id is string => !!id);
+    return {
+      id: row.id,
+      type: row.type as PatternType,
+      method: row.method as PatternMethod,
+      title: row.title,
+      titleAr: row.titleAr,
+      description: row.description,
+      descriptionAr: row.descriptionAr,
+      confidence: row.confidence,
+      severity: row.severity as PatternSeverity,
+      signals: signals.filter((s) => ids.includes(s.datasetId!)).slice(0, 3).map((s) => s.id),
+      sectors: row.sectors as string[],
+      datasetIds: ids,
+      timeframe: { start: row.timeframeStart, end: row.timeframeEnd },
+      evidence: row.evidence as Record<string, unknown>,
+      metadata: {
+        measure: row.measure,
+        seriesKey: row.seriesKey,
+        firstDetectedAt: row.firstDetectedAt,
+        lastDetectedAt: row.lastDetectedAt,
+      },
+    };
+  });
 }
 
 /**
- * Get patterns with caching (1 hour)
+ * Get patterns with caching (1 hour) - detection itself runs as a background job
  */
 export async function getPatternsCached(): Promise<Pattern[]> {
-  const cached = await cacheGet<Pattern[]>('detected_patterns');
+  const cached = await cacheGet<Pattern[]>(PATTERNS_CACHE_KEY);
   if (cached) return cached;
 
-  const patterns = await detectPatterns();
-  await cacheSet('detected_patterns', patterns, 3600);
+  const patterns = await getActivePatterns();
+  await cacheSet(PATTERNS_CACHE_KEY, patterns, PATTERNS_CACHE_TTL);
   return patterns;
 }
 
 export default {
   detectPatterns,
+  getActivePatterns,
   getPatternsCached,
+  decomposeSeries,
+  mannKendall,
+  detectChangepoints,
+  laggedCorrelation,
 };
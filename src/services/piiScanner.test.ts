@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { isSaudiNationalId, isSaudiIban, maskValue } from './piiScanner.js';
+
+describe('isSaudiNationalId', () => {
+  it('accepts citizen and resident IDs with a valid Luhn check digit', () => {
+    expect(isSaudiNationalId('1045678909')).toBe(true);
+    expect(isSaudiNationalId('2045678915')).toBe(true);
+    expect(isSaudiNationalId('112 233 4459')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isSaudiNationalId('1045678901')).toBe(false);
+    expect(isSaudiNationalId('2045678916')).toBe(false);
+  });
+
+  it('rejects IDs not starting with 1 or 2 or with the wrong length', () => {
+    expect(isSaudiNationalId('3045678909')).toBe(false);
+    expect(isSaudiNationalId('104567890')).toBe(false);
+    expect(isSaudiNationalId('10456789090')).toBe(false);
+    expect(isSaudiNationalId('10456789O9')).toBe(false);
+  });
+});
+
+describe('isSaudiIban', () => {
+  it('accepts IBANs with a valid mod 97 checksum, ignoring spaces and case', () => {
+    expect(isSaudiIban('SA0380000000608010167519')).toBe(true);
+    expect(isSaudiIban('SA44 2000 0001 2345 6789 1234')).toBe(true);
+    expect(isSaudiIban('sa0380000000608010167519')).toBe(true);
+  });
+
+  it('rejects a single changed digit', () => {
+    expect(isSaudiIban('SA0380000000608010167518')).toBe(false);
+    expect(isSaudiIban('SA0480000000608010167519')).toBe(false);
+  });
+
+  it('rejects other countries and wrong lengths', () => {
+    expect(isSaudiIban('GB82WEST12345698765432')).toBe(false);
+    expect(isSaudiIban('SA038000000060801016751')).toBe(false);
+  });
+});
+
+describe('maskValue', () => {
+  it('keeps only the distinguishing tail of IDs and IBANs', () => {
+    expect(maskValue('1045678909', 'national-id')).toBe('*******909');
+    expect(maskValue('SA0380000000608010167519', 'iban')).toBe('SA******************7519');
+  });
+
+  it('fully masks values of unknown type and leaves empty values alone', () => {
+    expect(maskValue('secret', undefined)).toBe('***');
+    expect(maskValue(null, 'email')).toBeNull();
+  });
+});
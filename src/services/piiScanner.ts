@@ -0,0 +1,363 @@
+/**
+ * كشف البيانات الشخصية - PII Scanner
+ *
+ * يفحص السجلات بعد الجلب ويعلّم الأعمدة التي تشبه: الهوية الوطنية / الإقامة،
+ * أرقام الجوال (+966 / 05x)، البريد الإلكتروني، الآيبان السعودي، وأسماء الأشخاص
+ * ثم يقترح قيم hasPII و sensitivityLevel و accessRestrictions (لا يطبقها تلقائياً)
+ * والأعمدة المكتشفة تُحجب في الاستجابات للمستخدمين غير المخولين
+ */
+
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { isEmptyValue } from './datasetQuery.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type PiiType = 'national-id' | 'phone' | 'email' | 'iban' | 'person-name';
+
+export interface PiiColumn {
+  column: string;
+  type: PiiType;
+  matchRatio: number; // نسبة القيم المطابقة (0-1)
+}
+
+export interface PiiProposal {
+  hasPII: boolean;
+  sensitivityLevel: string;
+  accessRestrictions: string | null;
+}
+
+interface Detector {
+  type: PiiType;
+  test: (value: string) => boolean;
+  hint: RegExp; // اسم العمود يرجّح النوع فيكفي حد أدنى أقل
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_SCANNED_ROWS = 2000;
+const MATCH_THRESHOLD = 0.6;
+const HINTED_MATCH_THRESHOLD = 0.3;
+
+export const PII_VIEWER_ROLES = ['EXPERT', 'ADMIN', 'SUPER_ADMIN'];
+
+export const SENSITIVITY_LEVELS = ['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED'];
+
+// المعرفات المالية والحكومية أشد حساسية من بيانات التواصل
+const SENSITIVITY_BY_TYPE: Record<PiiType, string> = {
+  'national-id': 'RESTRICTED',
+  iban: 'RESTRICTED',
+  phone: 'CONFIDENTIAL',
+  email: 'CONFIDENTIAL',
+  'person-name': 'CONFIDENTIAL',
+};
+
+const PII_LABELS_AR: Record<PiiType, string> = {
+  'national-id': 'الهوية الوطنية / الإقامة',
+  phone: 'رقم الجوال',
+  email: 'البريد الإلكتروني',
+  iban: 'الآيبان',
+  'person-name': 'اسم شخص',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const PHONE_PATTERN = /^(?:\+966|00966|966|0)5\d{8}$/;
+const NATIONAL_ID_PATTERN = /^[12]\d{9}$/;
+const IBAN_PATTERN = /^SA\d{2}[0-9A-Z]{20}$/;
+const ARABIC_NAME_PATTERN = /^[ء-يـً-ْ]+(\s+[ء-يـً-ْ]+){1,4}$/;
+
+// أسماء أعمدة تحمل "اسم" لكنها لا تخص أشخاصاً (اسم المنطقة، اسم الجهة...)
+const NON_PERSON_NAME_HINT = /منطقة|مدينة|محافظة|حي|جهة|شركة|منشأة|قطاع|نشاط|جامعة|مدرسة|مستشفى|منتج|region|city|company|entity|sector|product|school/i;
+
+const DETECTORS: Detector[] = [
+  { type: 'email', test: (v) => EMAIL_PATTERN.test(v), hint: /e-?mail|بريد/i },
+  { type: 'iban', test: isSaudiIban, hint: /iban|آيبان|ايبان|حساب/i },
+  { type: 'national-id', test: isSaudiNationalId, hint: /national.?id|iqama|هوية|الهوية|إقامة|اقامة|السجل المدني/i },
+  { type: 'phone', test: (v) => PHONE_PATTERN.test(v.replace(/[\s\-()]/g, '')), hint: /phone|mobile|جوال|هاتف|الجوال|الهاتف/i },
+  { type: 'person-name', test: isArabicPersonName, hint: /(^|[_\s])name([_\s]|$)|اسم|الاسم/i },
+];
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function normalizeDigits(value: string): string {
+  return value.replace(/[٠-٩۰-۹]/g, (d) => String(d.charCodeAt(0) & 0xf));
+}
+
+/**
+ * رقم الهوية / الإقامة: 10 أرقام يبدأ بـ 1 (مواطن) أو 2 (مقيم) مع خانة تحقق (Luhn)
+ */
+export function isSaudiNationalId(value: string): boolean {
+  const id = value.replace(/\s/g, '');
+  if (!NATIONAL_ID_PATTERN.test(id)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = Number(id[i]);
+    if (i % 2 === 0) {
+      const doubled = digit * 2;
+      sum += doubled > 9 ? doubled - 9 : doubled;
+    } else {
+      sum += digit;
+    }
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * الآيبان السعودي: SA + 22 خانة مع تحقق mod 97
+ */
+export function isSaudiIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!IBAN_PATTERN.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * اسم شخص بالعربية: 2-5 كلمات عربية بدون أرقام
+ */
+function isArabicPersonName(value: string): boolean {
+  return value.length <= 80 && ARABIC_NAME_PATTERN.test(value);
+}
+
+function sampleValues(records: Record<string, unknown>[], column: string): string[] {
+  const step = Math.max(1, Math.floor(records.length / MAX_SCANNED_ROWS));
+  const values: string[] = [];
+  for (let i = 0; i < records.length && values.length < MAX_SCANNED_ROWS; i += step) {
+    const value = records[i][column];
+    if (!isEmptyValue(value)) values.push(normalizeDigits(String(value).trim()));
+  }
+  return values;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Detection
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * فحص عمود واحد - يعيد أقوى نوع مطابق أو null
+ */
+export function scanColumn(column: string, values: string[]): PiiColumn | null {
+  if (values.length === 0) return null;
+
+  let best: PiiColumn | null = null;
+
+  for (const detector of DETECTORS) {
+    const hinted = detector.hint.test(column);
+
+    // أسماء الأشخاص تحتاج دليلاً من اسم العمود، وإلا تتطابق مع أي نص عربي قصير
+    if (detector.type === 'person-name' && (!hinted || NON_PERSON_NAME_HINT.test(column))) continue;
+
+    const matches = values.filter(detector.test).length;
+    const matchRatio = Math.round((matches / values.length) * 10000) / 10000;
+    const threshold = hinted ? HINTED_MATCH_THRESHOLD : MATCH_THRESHOLD;
+
+    if (matchRatio >= threshold && (!best || matchRatio > best.matchRatio)) {
+      best = { column, type: detector.type, matchRatio };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * فحص كل الأعمدة في مجموعة سجلات
+ */
+export function scanRecords(
+  records: Record<string, unknown>[],
+  columns: string[] = records.length > 0 ? Object.keys(records[0]) : []
+): PiiColumn[] {
+  return columns
+    .map((column) => scanColumn(column, sampleValues(records, column)))
+    .filter((finding): finding is PiiColumn => finding !== null);
+}
+
+/**
+ * اقتراح قيم الحوكمة من نتائج الفحص - لا يخفض مستوى حساسية أعلى مُدخل يدوياً
+ */
+export function proposeClassification(findings: PiiColumn[], currentSensitivity?: string | null): PiiProposal {
+  const current = SENSITIVITY_LEVELS.includes(currentSensitivity || '') ? currentSensitivity! : 'PUBLIC';
+
+  if (findings.length === 0) {
+    return { hasPII: false, sensitivityLevel: current, accessRestrictions: null };
+  }
+
+  const proposed = findings
+    .map((f) => SENSITIVITY_BY_TYPE[f.type])
+    .reduce((a, b) => (SENSITIVITY_LEVELS.indexOf(b) > SENSITIVITY_LEVELS.indexOf(a) ? b : a), current);
+
+  const types = [...new Set(findings.map((f) => PII_LABELS_AR[f.type]))];
+
+  return {
+    hasPII: true,
+    sensitivityLevel: proposed,
+    accessRestrictions: `يحتوي بيانات شخصية (${types.join('، ')}) في الأعمدة: ${findings.map((f) => f.column).join('، ')}. تُحجب لغير الخبراء والمشرفين`,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Masking
+// ═══════════════════════════════════════════════════════════════════
+
+function maskTail(value: string, visible: number): string {
+  if (value.length <= visible) return '*'.repeat(value.length);
+  return '*'.repeat(value.length - visible) + value.slice(-visible);
+}
+
+/**
+ * حجب قيمة حسب نوعها مع إبقاء جزء يسمح بالتمييز (بدون نوع: حجب كامل)
+ */
+export function maskValue(value: unknown, type?: PiiType): unknown {
+  if (isEmptyValue(value)) return value;
+  const str = String(value).trim();
+
+  switch (type) {
+    case 'email': {
+      const [user, domain] = str.split('@');
+      return domain ? `${user.charAt(0)}***@${domain}` : maskTail(str, 0);
+    }
+    case 'iban':
+      return str.slice(0, 2) + maskTail(str.replace(/\s/g, '').slice(2), 4);
+    case 'national-id':
+    case 'phone':
+      return maskTail(str.replace(/\s/g, ''), 3);
+    case 'person-name':
+      return str.split(/\s+/).map((word) => `${word.charAt(0)}***`).join(' ');
+    default:
+      return '***';
+  }
+}
+
+/**
+ * حجب القيم الخام في إحصائيات الأعمدة المحفوظة (dataDictionary): العينات و min / max
+ * يشمل القواميس المحفوظة قبل اكتشاف العمود كبيانات شخصية
+ */
+export function maskColumnProfiles(
+  dictionary: unknown,
+  masked: { column: string; type?: PiiType }[]
+): unknown {
+  if (!Array.isArray(dictionary) || masked.length === 0) return dictionary;
+  const types = new Map(masked.map((m) => [m.column, m.type]));
+
+  return dictionary.map((entry) => {
+    if (!entry || typeof entry !== 'object' || !types.has(entry.name)) return entry;
+    const type = types.get(entry.name);
+    return {
+      ...entry,
+      sample: maskValue(entry.sample, type),
+      sampleValues: Array.isArray(entry.sampleValues) ? entry.sampleValues.map((v: unknown) => maskValue(v, type)) : [],
+      min: maskValue(entry.min, type),
+      max: maskValue(entry.max, type),
+    };
+  });
+}
+
+/**
+ * قراءة الأعمدة المكتشفة المحفوظة في Dataset.piiColumns
+ */
+export function parsePiiColumns(value: unknown): PiiColumn[] {
+  return Array.isArray(value)
+    ? (value as PiiColumn[]).filter((c) => c && typeof c.column === 'string' && typeof c.type === 'string')
+    : [];
+}
+
+export function canViewPII(role?: string | null): boolean {
+  return !!role && PII_VIEWER_ROLES.includes(role);
+}
+
+/**
+ * حجب الأعمدة الشخصية في السجلات (يعيد نسخة جديدة)
+ */
+export function maskRecords<T extends Record<string, unknown>>(records: T[], piiColumns: PiiColumn[]): T[] {
+  if (piiColumns.length === 0) return records;
+
+  return records.map((record) => {
+    const masked: Record<string, unknown> = { ...record };
+    for (const { column, type } of piiColumns) {
+      if (column in masked) masked[column] = maskValue(masked[column], type);
+    }
+    return masked as T;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Persistence
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * فحص السجلات وحفظ الأعمدة المكتشفة والاقتراح في قاعدة البيانات
+ * الحجب يبدأ فوراً، أما hasPII / sensitivityLevel فتُعتمد من الخبير
+ */
+export async function updatePiiScan(
+  externalId: string,
+  records: Record<string, unknown>[],
+  columns: string[]
+): Promise<{ findings: PiiColumn[]; proposal: PiiProposal } | null> {
+  try {
+    const dataset = await prisma.dataset.findUnique({
+      where: { externalId },
+      select: { id: true, sensitivityLevel: true, hasPII: true },
+    });
+
+    if (!dataset) return null;
+
+    const findings = scanRecords(records, columns);
+    const proposal = proposeClassification(findings, dataset.sensitivityLevel);
+
+    await prisma.dataset.update({
+      where: { id: dataset.id },
+      data: {
+        piiColumns: findings as unknown as object[],
+        piiProposal: proposal as unknown as object,
+        piiScannedAt: new Date(),
+      },
+    });
+
+    await cacheDel(CacheKeys.dataset(dataset.id));
+    await cacheDel(CacheKeys.dataset(externalId));
+
+    if (findings.length > 0) {
+      logger.warn(
+        `🔒 PII detected in ${externalId}: ${findings.map((f) => `${f.column} (${f.type})`).join(', ')}` +
+        (dataset.hasPII ? '' : ` - proposed sensitivity ${proposal.sensitivityLevel}`)
+      );
+    }
+    return { findings, proposal };
+  } catch (error) {
+    logger.error(`❌ Failed to scan ${externalId} for PII:`, error);
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  scanColumn,
+  scanRecords,
+  proposeClassification,
+  maskValue,
+  maskRecords,
+  maskColumnProfiles,
+  parsePiiColumns,
+  canViewPII,
+  updatePiiScan,
+  isSaudiNationalId,
+  isSaudiIban,
+};
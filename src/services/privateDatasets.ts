@@ -0,0 +1,292 @@
+/**
+ * مجموعات البيانات الخاصة - User-Uploaded Private Datasets
+ *
+ * ملفات CSV / Excel يرفعها المستخدم وتُحلل عبر نفس مسار بيانات البوابة:
+ * - تُخزن تحت <localRoot>/uploads/<userId>/ وتُقرأ عبر موصل المجلد المحلي (مصدر "uploads")
+ * - مملوكة لمستخدم (Dataset.ownerUserId) ويمكن مشاركتها مع أعضاء الفريق (DatasetShare)
+ * - لا تظهر في القوائم العامة ولا البحث، ويصل إليها المالك والمشاركون والمشرفون فقط
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from './database.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { detectResourceFormat, ResourceFormat } from './resourceParsers.js';
+import { getDatasetData, clearDatasetCache } from './onDemandData.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface DatasetViewer {
+  userId: string;
+  role: string;
+}
+
+export interface PrivateDatasetInput {
+  name: string;
+  nameAr?: string;
+  description?: string;
+  descriptionAr?: string;
+  category?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+const UPLOAD_SOURCE_KEY = 'uploads';
+const UPLOAD_SUBDIR = 'uploads';
+
+export const UPLOAD_FORMATS: ResourceFormat[] = ['csv', 'excel'];
+export const PRIVATE_UPLOAD_DIR = path.resolve(config.connectors.localRoot, UPLOAD_SUBDIR);
+
+// شرط القوائم العامة والبحث: استبعاد البيانات الخاصة
+export const PUBLIC_DATASETS_WHERE = { ownerUserId: null } as const;
+
+// ═══════════════════════════════════════════════════════════════════
+// Access
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * شرط Prisma للـ Datasets المرئية للمستخدم (العامة + الخاصة المملوكة أو المشاركة)
+ */
+export function visibleDatasetsWhere(viewer?: DatasetViewer): Prisma.DatasetWhereInput {
+  if (!viewer) return PUBLIC_DATASETS_WHERE;
+  if (ADMIN_ROLES.includes(viewer.role)) return {};
+  return {
+    OR: [
+      PUBLIC_DATASETS_WHERE,
+      { ownerUserId: viewer.userId },
+      { shares: { some: { userId: viewer.userId } } },
+    ],
+  };
+}
+
+/**
+ * هل يمكن للمستخدم الوصول إلى Dataset (عامة أو مملوكة أو مشاركة معه)
+ */
+export async function canAccessDataset(
+  dataset: { id: string; ownerUserId?: string | null },
+  viewer?: DatasetViewer
+): Promise<boolean> {
+  if (!dataset.ownerUserId) return true;
+  if (!viewer) return false;
+  if (ADMIN_ROLES.includes(viewer.role) || dataset.ownerUserId === viewer.userId) return true;
+
+  const share = await prisma.datasetShare.findUnique({
+    where: { datasetId_userId: { datasetId: dataset.id, userId: viewer.userId } },
+    select: { id: true },
+  });
+  return !!share;
+}
+
+/**
+ * Dataset خاصة يملكها المستخدم (أو أي Dataset خاصة للمشرف)
+ */
+export async function findOwnedDataset(datasetId: string, viewer: DatasetViewer) {
+  const dataset = await prisma.dataset.findFirst({
+    where: {
+      OR: [{ id: datasetId }, { externalId: datasetId }],
+      ownerUserId: ADMIN_ROLES.includes(viewer.role) ? { not: null } : viewer.userId,
+    },
+  });
+
+  if (!dataset) {
+    throw new AppError('Private dataset not found', 'مجموعة البيانات الخاصة غير موجودة', 404);
+  }
+  return dataset;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Upload & Parsing
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * مصدر "uploads" (موصل مجلد محلي) الذي تُقرأ منه كل الملفات المرفوعة
+ */
+async function ensureUploadSource(): Promise<string> {
+  const source = await prisma.dataSource.upsert({
+    where: { key: UPLOAD_SOURCE_KEY },
+    create: {
+      key: UPLOAD_SOURCE_KEY,
+      name: 'User uploads',
+      nameAr: 'ملفات المستخدمين',
+      type: 'local',
+      config: { directory: UPLOAD_SUBDIR },
+    },
+    update: {},
+    select: { id: true },
+  });
+  return source.id;
+}
+
+/**
+ * مجلد ملفات المستخدم (يُنشأ عند الحاجة)
+ */
+export function userUploadDir(userId: string): string {
+  const dir = path.join(PRIVATE_UPLOAD_DIR, path.basename(userId));
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+export function uploadFormat(fileName: string): ResourceFormat | null {
+  const format = detectResourceFormat({ downloadUrl: fileName });
+  return format && UPLOAD_FORMATS.includes(format) ? format : null;
+}
+
+/**
+ * تحليل الملف عبر مسار on-demand وتحديث عدد السجلات والأعمدة
+ */
+export async function parsePrivateDataset(externalId: string) {
+  const data = await getDatasetData(externalId, { limit: 10, forceRefresh: true });
+
+  if (!data) {
+    await prisma.dataset.update({
+      where: { externalId },
+      data: { syncStatus: 'FAILED', syncError: 'File could not be parsed or is empty' },
+    });
+    throw new AppError(
+      'The file could not be parsed or has no rows',
+      'تعذر تحليل الملف أو أنه لا يحتوي على صفوف',
+      422
+    );
+  }
+
+  return prisma.dataset.update({
+    where: { externalId },
+    data: {
+      recordCount: data.totalRecords,
+      columns: JSON.stringify(data.columns),
+      dataPreview: JSON.stringify(data.records),
+      syncStatus: 'SUCCESS',
+      syncError: null,
+      lastSyncAt: new Date(),
+    },
+  });
+}
+
+/**
+ * إنشاء Dataset خاصة من ملف مرفوع (محفوظ مسبقاً في مجلد المستخدم)
+ */
+export async function createPrivateDataset(
+  ownerUserId: string,
+  file: { path: string; originalname: string; size: number },
+  input: PrivateDatasetInput
+) {
+  const format = uploadFormat(file.originalname);
+  if (!format) {
+    fs.promises.unlink(file.path).catch(() => {});
+    throw new AppError('Only CSV and Excel files are supported', 'يُسمح فقط بملفات CSV و Excel', 400);
+  }
+
+  const dataSourceId = await ensureUploadSource();
+  const ref = `${path.basename(ownerUserId)}/${path.basename(file.path)}`;
+  const externalId = `${UPLOAD_SOURCE_KEY}:${crypto.randomBytes(12).toString('hex')}`;
+
+  await prisma.dataset.create({
+    data: {
+      externalId,
+      name: input.name,
+      nameAr: input.nameAr || input.name,
+      description: input.description,
+      descriptionAr: input.descriptionAr,
+      category: input.category || 'بيانات خاصة',
+      source: 'upload',
+      dataSourceId,
+      sourceRef: ref,
+      ownerUserId,
+      resources: [{ id: ref, name: file.originalname, format, url: ref }],
+      formatType: format === 'csv' ? 'CSV' : 'EXCEL',
+      fileSize: `${(file.size / (1024 * 1024)).toFixed(2)} MB`,
+      sensitivityLevel: 'INTERNAL',
+      syncStatus: 'PENDING',
+    },
+  });
+
+  logger.info(`📤 Private dataset ${externalId} uploaded by ${ownerUserId} (${file.originalname})`);
+
+  try {
+    return await parsePrivateDataset(externalId);
+  } catch (error) {
+    await deletePrivateDataset(externalId, { userId: ownerUserId, role: 'USER' }).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * حذف Dataset خاصة مع ملفها وبياناتها المؤقتة
+ */
+export async function deletePrivateDataset(datasetId: string, viewer: DatasetViewer): Promise<void> {
+  const dataset = await findOwnedDataset(datasetId, viewer);
+
+  if (dataset.sourceRef) {
+    await fs.promises.unlink(path.join(PRIVATE_UPLOAD_DIR, dataset.sourceRef)).catch(() => {});
+  }
+
+  await prisma.dataset.delete({ where: { id: dataset.id } });
+  await clearDatasetCache(dataset.externalId);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Sharing
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * مشاركة Dataset خاصة مع أعضاء الفريق (بالمعرف أو البريد)
+ */
+export async function sharePrivateDataset(
+  datasetId: string,
+  viewer: DatasetViewer,
+  recipients: { userIds?: string[]; emails?: string[] }
+) {
+  const dataset = await findOwnedDataset(datasetId, viewer);
+
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { id: { in: recipients.userIds || [] } },
+        { email: { in: recipients.emails || [] } },
+      ],
+      NOT: { id: dataset.ownerUserId! },
+    },
+    select: { id: true },
+  });
+
+  await prisma.datasetShare.createMany({
+    data: users.map((user) => ({ datasetId: dataset.id, userId: user.id })),
+    skipDuplicates: true,
+  });
+
+  return prisma.datasetShare.findMany({
+    where: { datasetId: dataset.id },
+    include: { user: { select: { id: true, name: true, nameAr: true, email: true, avatar: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function unsharePrivateDataset(datasetId: string, viewer: DatasetViewer, userId: string): Promise<void> {
+  const dataset = await findOwnedDataset(datasetId, viewer);
+  await prisma.datasetShare.deleteMany({ where: { datasetId: dataset.id, userId } });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  PUBLIC_DATASETS_WHERE,
+  visibleDatasetsWhere,
+  canAccessDataset,
+  findOwnedDataset,
+  createPrivateDataset,
+  parsePrivateDataset,
+  deletePrivateDataset,
+  sharePrivateDataset,
+  unsharePrivateDataset,
+};
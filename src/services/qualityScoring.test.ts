@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { assessQuality, countDuplicateRows, detectSchemaDrift } from './qualityScoring.js';
+import { ColumnProfile } from './columnProfiler.js';
+
+function profile(overrides: Partial<ColumnProfile> & Pick<ColumnProfile, 'name' | 'type'>): ColumnProfile {
+  return {
+    description: null,
+    nullable: false,
+    sample: null,
+    nullRatio: 0,
+    distinctCount: 0,
+    conformance: 1,
+    min: null,
+    max: null,
+    sampleValues: [],
+    inferred: true,
+    ...overrides,
+  };
+}
+
+const records = [
+  { year: 2023, region: 'Riyadh', value: '10' },
+  { year: 2024, region: 'Jeddah', value: '15' },
+  { year: 2024, region: 'Jeddah', value: '15' },
+  { year: 2024, region: '', value: 'n/a' },
+];
+
+const profiles = [
+  profile({ name: 'year', type: 'integer', min: 2023, max: 2024 }),
+  profile({ name: 'region', type: 'category', nullRatio: 0.25, nullable: true }),
+  profile({ name: 'value', type: 'integer', conformance: 0.75 }),
+];
+
+describe('assessQuality', () => {
+  it('scores completeness, accuracy, timeliness and consistency from the records', () => {
+    const { scores, details } = assessQuality(records, profiles, {
+      updateFrequency: 'YEARLY',
+      now: new Date('2025-06-30T00:00:00Z'),
+    });
+
+    expect(scores.completeness).toBe(92); // (1 + 0.75 + 1) / 3
+    expect(scores.accuracy).toBe(88); // typed columns only: (1 + 0.75) / 2
+    expect(scores.timeliness).toBe(100); // 2024-12-31 is within the yearly interval
+    expect(scores.consistency).toBe(75); // 1 duplicate of 4 rows
+    expect(scores.qualityScore).toBe(89);
+
+    expect(details.rowCount).toBe(4);
+    expect(details.duplicateRows).toBe(1);
+    expect(details.latestDataDate).toBe('2024-12-31');
+    expect(details.schemaDrift).toBeNull();
+  });
+
+  it('decays timeliness linearly once the expected interval is overdue', () => {
+    const { scores, details } = assessQuality(records, profiles, {
+      updateFrequency: 'YEARLY',
+      now: new Date('2027-12-31T00:00:00Z'),
+    });
+
+    expect(details.stalenessDays).toBe(1095);
+    expect(scores.timeliness).toBe(34); // 1 - (1095 - 366) / (366 * 3)
+  });
+
+  it('falls back to the metadata date when no column carries dates', () => {
+    const { scores, details } = assessQuality(records, profiles.filter((p) => p.name !== 'year'), {
+      updateFrequency: 'MONTHLY',
+      metadata: { modified: '2025-06-01T00:00:00Z' },
+      now: new Date('2025-06-30T00:00:00Z'),
+    });
+
+    expect(details.latestDataDate).toBeNull();
+    expect(details.referenceDate).toBe('2025-06-01T00:00:00.000Z');
+    expect(scores.timeliness).toBe(100);
+  });
+
+  it('penalizes schema drift against the previous assessment, capped at half', () => {
+    const { scores, details } = assessQuality(records, profiles, {
+      previousColumns: [
+        { name: 'year', type: 'integer' },
+        { name: 'region', type: 'category' },
+        { name: 'old', type: 'text' },
+      ],
+      now: new Date('2025-06-30T00:00:00Z'),
+    });
+
+    expect(details.schemaDrift).toEqual({ added: ['value'], removed: ['old'], typeChanged: [] });
+    expect(scores.consistency).toBe(38); // 0.75 * (1 - 0.5)
+  });
+
+  it('uses the full dataset totals instead of the sample when given', () => {
+    const { scores, details } = assessQuality(records, profiles, {
+      totals: { rowCount: 1000, duplicateRows: 10 },
+      now: new Date('2025-06-30T00:00:00Z'),
+    });
+
+    expect(details.rowCount).toBe(1000);
+    expect(details.duplicateRatio).toBe(0.01);
+    expect(scores.consistency).toBe(99);
+  });
+
+  it('returns null scores when there is nothing to assess', () => {
+    const { scores } = assessQuality([], [], { now: new Date('2025-06-30T00:00:00Z') });
+
+    expect(scores).toEqual({
+      qualityScore: null,
+      completeness: null,
+      accuracy: null,
+      timeliness: null,
+      consistency: null,
+    });
+  });
+});
+
+describe('countDuplicateRows', () => {
+  it('counts fully repeated rows on the given columns', () => {
+    expect(countDuplicateRows(records, ['year', 'region', 'value'])).toBe(1);
+    expect(countDuplicateRows(records, ['year'])).toBe(2);
+  });
+});
+
+describe('detectSchemaDrift', () => {
+  it('reports added, removed and retyped columns', () => {
+    expect(detectSchemaDrift(
+      [{ name: 'a', type: 'integer' }, { name: 'b', type: 'text' }],
+      [{ name: 'a', type: 'decimal' }, { name: 'c', type: 'date' }]
+    )).toEqual({
+      added: ['c'],
+      removed: ['b'],
+      typeChanged: [{ column: 'a', from: 'integer', to: 'decimal' }],
+    });
+  });
+});
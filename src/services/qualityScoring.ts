@@ -0,0 +1,351 @@
+/**
+ * خدمة تقييم جودة البيانات - Data Quality Scoring
+ *
+ * تحسب درجات الجودة (الاكتمال، الدقة، الحداثة، الاتساق) من السجلات الفعلية
+ * عند كل نسخة جديدة من المحتوى، وتحفظ سجلاً تاريخياً لكل تقييم
+ */
+
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { ColumnProfile, parseGregorianDate, parseHijriDate } from './columnProfiler.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface QualityScores {
+  qualityScore: number | null;
+  completeness: number | null;
+  accuracy: number | null;
+  timeliness: number | null;
+  consistency: number | null;
+}
+
+export interface SchemaDrift {
+  added: string[];
+  removed: string[];
+  typeChanged: { column: string; from: string; to: string }[];
+}
+
+export interface QualityDetails {
+  rowCount: number;
+  duplicateRows: number;
+  duplicateRatio: number;
+  latestDataDate: string | null;
+  referenceDate: string | null;
+  stalenessDays: number | null;
+  expectedIntervalDays: number;
+  schemaDrift: SchemaDrift | null;
+  columns: { name: string; type: string; nullRatio: number; conformance: number }[];
+}
+
+export interface QualityAssessment {
+  scores: QualityScores;
+  details: QualityDetails;
+}
+
+export interface DatasetTotals {
+  rowCount: number;
+  duplicateRows: number;
+}
+
+interface AssessmentContext {
+  updateFrequency?: string | null;
+  metadata?: unknown;
+  previousColumns?: { name: string; type: string }[] | null;
+  totals?: DatasetTotals; // أعداد البيانات الكاملة عندما تكون السجلات عينة فقط
+  now?: Date;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+// الفترة المتوقعة بين التحديثات (بالأيام)
+const FREQUENCY_DAYS: Record<string, number> = {
+  REAL_TIME: 1,
+  DAILY: 1,
+  WEEKLY: 7,
+  MONTHLY: 31,
+  QUARTERLY: 92,
+  YEARLY: 366,
+  ONCE: 366 * 5,
+};
+
+const DEFAULT_FREQUENCY = 'YEARLY';
+const STALE_FACTOR = 4; // تصل الحداثة إلى صفر بعد 4 أضعاف الفترة المتوقعة
+const MAX_DRIFT_PENALTY = 0.5;
+const MAX_DUPLICATE_SCAN = 200000;
+const TYPED_COLUMNS = new Set(['integer', 'decimal', 'date', 'hijri-date']);
+const YEAR_COLUMN_PATTERN = /(^|[_\s])(year|yr)([_\s]|$)|سنة|السنة|العام|عام/i;
+const METADATA_DATE_FIELDS = ['updatedAt', 'modified', 'lastModified', 'updated_at', 'metadata_modified'];
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function toPercent(ratio: number): number {
+  return Math.max(0, Math.min(100, Math.round(ratio * 100)));
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * تحويل تقريبي من السنة الهجرية إلى الميلادية
+ */
+function hijriToGregorianYear(hijriYear: number): number {
+  return Math.round(hijriYear * 0.970229 + 621.5643);
+}
+
+/**
+ * أحدث تاريخ تغطيه البيانات (من أعمدة التاريخ أو السنة)
+ */
+function findLatestDataDate(profiles: ColumnProfile[]): Date | null {
+  let latest: Date | null = null;
+  const consider = (date: Date) => {
+    if (!isNaN(date.getTime()) && (!latest || date > latest)) latest = date;
+  };
+
+  for (const profile of profiles) {
+    if (profile.max === null) continue;
+
+    if (profile.type === 'date') {
+      const iso = parseGregorianDate(String(profile.max));
+      if (iso) consider(new Date(`${iso}T00:00:00Z`));
+    } else if (profile.type === 'hijri-date') {
+      const hijri = parseHijriDate(String(profile.max));
+      if (hijri) {
+        const [year, month] = hijri.split('-').map(Number);
+        consider(new Date(Date.UTC(hijriToGregorianYear(year), month - 1, 1)));
+      }
+    } else if (profile.type === 'integer' && YEAR_COLUMN_PATTERN.test(profile.name)) {
+      const year = Number(profile.max);
+      if (year >= 1300 && year < 1500) consider(new Date(Date.UTC(hijriToGregorianYear(year), 11, 31)));
+      else if (year >= 1900 && year <= 2100) consider(new Date(Date.UTC(year, 11, 31)));
+    }
+  }
+
+  return latest;
+}
+
+function findMetadataDate(metadata: unknown): Date | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+  for (const field of METADATA_DATE_FIELDS) {
+    const value = (metadata as Record<string, unknown>)[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * عدد الصفوف المكررة بالكامل
+ */
+export function countDuplicateRows(records: Record<string, unknown>[], columns: string[]): number {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  const limit = Math.min(records.length, MAX_DUPLICATE_SCAN);
+
+  for (let i = 0; i < limit; i++) {
+    const key = JSON.stringify(columns.map((c) => records[i][c] ?? null));
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  }
+
+  return limit < records.length ? Math.round((duplicates / limit) * records.length) : duplicates;
+}
+
+/**
+ * مقارنة مخطط الأعمدة مع التقييم السابق
+ */
+export function detectSchemaDrift(
+  previous: { name: string; type: string }[],
+  current: { name: string; type: string }[]
+): SchemaDrift {
+  const previousTypes = new Map(previous.map((c) => [c.name, c.type]));
+  const currentTypes = new Map(current.map((c) => [c.name, c.type]));
+
+  return {
+    added: current.filter((c) => !previousTypes.has(c.name)).map((c) => c.name),
+    removed: previous.filter((c) => !currentTypes.has(c.name)).map((c) => c.name),
+    typeChanged: current
+      .filter((c) => previousTypes.has(c.name) && previousTypes.get(c.name) !== c.type)
+      .map((c) => ({ column: c.name, from: previousTypes.get(c.name)!, to: c.type })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * حساب درجات الجودة من السجلات وتحليل الأعمدة
+ */
+export function assessQuality(
+  records: Record<string, unknown>[],
+  profiles: ColumnProfile[],
+  context: AssessmentContext = {}
+): QualityAssessment {
+  const now = context.now || new Date();
+  const columns = profiles.map((p) => p.name);
+
+  // 1. Completeness - متوسط نسبة القيم غير الفارغة
+  const completeness = average(profiles.map((p) => 1 - p.nullRatio));
+
+  // 2. Accuracy - مطابقة القيم للنوع المستنتج في الأعمدة الرقمية والتواريخ
+  const typed = profiles.filter((p) => TYPED_COLUMNS.has(p.type));
+  const accuracy = typed.length > 0
+    ? average(typed.map((p) => p.conformance))
+    : profiles.some((p) => p.type !== 'empty') ? 1 : null;
+
+  // 3. Timeliness - عمر البيانات مقارنة بدورية التحديث
+  const frequency = (context.updateFrequency || DEFAULT_FREQUENCY).toUpperCase();
+  const expectedIntervalDays = FREQUENCY_DAYS[frequency] || FREQUENCY_DAYS[DEFAULT_FREQUENCY];
+  const latestDataDate = findLatestDataDate(profiles);
+  const referenceDate = latestDataDate || findMetadataDate(context.metadata);
+
+  let timeliness: number | null = null;
+  let stalenessDays: number | null = null;
+  if (referenceDate) {
+    stalenessDays = Math.max(0, Math.floor((now.getTime() - referenceDate.getTime()) / 86400000));
+    const overdue = stalenessDays - expectedIntervalDays;
+    timeliness = overdue <= 0
+      ? 1
+      : Math.max(0, 1 - overdue / (expectedIntervalDays * (STALE_FACTOR - 1)));
+  }
+
+  // 4. Consistency - الصفوف المكررة وتغيّر المخطط بين المزامنات
+  const rowCount = context.totals?.rowCount ?? records.length;
+  const duplicateRows = context.totals?.duplicateRows ?? countDuplicateRows(records, columns);
+  const duplicateRatio = rowCount > 0 ? duplicateRows / rowCount : 0;
+
+  const currentColumns = profiles.map((p) => ({ name: p.name, type: p.type }));
+  const schemaDrift = context.previousColumns
+    ? detectSchemaDrift(context.previousColumns, currentColumns)
+    : null;
+
+  let driftPenalty = 0;
+  if (schemaDrift) {
+    const union = new Set([...context.previousColumns!.map((c) => c.name), ...columns]).size;
+    const changed = schemaDrift.added.length + schemaDrift.removed.length + schemaDrift.typeChanged.length;
+    driftPenalty = union > 0 ? Math.min(MAX_DRIFT_PENALTY, changed / union) : 0;
+  }
+
+  const consistency = rowCount > 0 ? (1 - duplicateRatio) * (1 - driftPenalty) : null;
+
+  const components = [completeness, accuracy, timeliness, consistency].filter((s): s is number => s !== null);
+  const overall = average(components);
+
+  return {
+    scores: {
+      qualityScore: overall === null ? null : toPercent(overall),
+      completeness: completeness === null ? null : toPercent(completeness),
+      accuracy: accuracy === null ? null : toPercent(accuracy),
+      timeliness: timeliness === null ? null : toPercent(timeliness),
+      consistency: consistency === null ? null : toPercent(consistency),
+    },
+    details: {
+      rowCount,
+      duplicateRows,
+      duplicateRatio: Math.round(duplicateRatio * 10000) / 10000,
+      latestDataDate: latestDataDate ? latestDataDate.toISOString().slice(0, 10) : null,
+      referenceDate: referenceDate ? referenceDate.toISOString() : null,
+      stalenessDays,
+      expectedIntervalDays,
+      schemaDrift,
+      columns: profiles.map((p) => ({
+        name: p.name,
+        type: p.type,
+        nullRatio: p.nullRatio,
+        conformance: p.conformance,
+      })),
+    },
+  };
+}
+
+/**
+ * تقييم جودة Dataset بعد تغيّر محتواه وحفظ النتيجة في السجل التاريخي
+ * لا يستبدل الدرجات المعدّلة يدوياً من الخبراء
+ */
+export async function scoreDatasetQuality(
+  externalId: string,
+  records: Record<string, unknown>[],
+  profiles: ColumnProfile[],
+  totals?: DatasetTotals
+): Promise<QualityAssessment | null> {
+  try {
+    const dataset = await prisma.dataset.findUnique({
+      where: { externalId },
+      select: { id: true, updateFrequency: true, metadata: true, qualityOverridden: true },
+    });
+
+    if (!dataset) return null;
+
+    const previous = await prisma.datasetQualityHistory.findFirst({
+      where: { datasetId: dataset.id, source: 'COMPUTED' },
+      orderBy: { createdAt: 'desc' },
+      select: { details: true },
+    });
+
+    let previousColumns: { name: string; type: string }[] | null = null;
+    if (previous) {
+      try {
+        previousColumns = JSON.parse(previous.details).columns || null;
+      } catch {
+        previousColumns = null;
+      }
+    }
+
+    const assessment = assessQuality(records, profiles, {
+      updateFrequency: dataset.updateFrequency,
+      metadata: dataset.metadata,
+      previousColumns,
+      totals,
+    });
+
+    await prisma.datasetQualityHistory.create({
+      data: {
+        datasetId: dataset.id,
+        source: 'COMPUTED',
+        ...assessment.scores,
+        details: JSON.stringify(assessment.details),
+      },
+    });
+
+    if (!dataset.qualityOverridden) {
+      await prisma.dataset.update({
+        where: { id: dataset.id },
+        data: assessment.scores,
+      });
+
+      await cacheDel(CacheKeys.dataset(dataset.id));
+      await cacheDel(CacheKeys.dataset(externalId));
+    }
+
+    logger.info(
+      `🧪 Quality scored for ${externalId}: ${assessment.scores.qualityScore ?? 'n/a'}` +
+      (dataset.qualityOverridden ? ' (expert override kept)' : '')
+    );
+    return assessment;
+  } catch (error) {
+    logger.error(`❌ Failed to score quality for ${externalId}:`, error);
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  assessQuality,
+  scoreDatasetQuality,
+  countDuplicateRows,
+  detectSchemaDrift,
+};
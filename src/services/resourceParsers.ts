@@ -0,0 +1,312 @@
+/**
+ * محللات ملفات البيانات - Resource Parsers
+ *
+ * تحويل ملفات CSV و Excel (متعددة الأوراق) و JSON و XML
+ * إلى نفس الشكل: سجلات + أعمدة
+ */
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { XMLParser } from 'fast-xml-parser';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type ResourceFormat = 'csv' | 'excel' | 'json' | 'xml';
+
+export interface ParsedResource {
+  records: Record<string, unknown>[];
+  columns: string[];
+  format: ResourceFormat;
+  sheets?: string[];
+  sheet?: string;
+}
+
+export interface ParseOptions {
+  sheet?: string | number;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+// ترتيب الأفضلية عند وجود أكثر من صيغة
+export const FORMAT_PRIORITY: ResourceFormat[] = ['csv', 'excel', 'json', 'xml'];
+
+const FORMAT_ALIASES: Record<string, ResourceFormat> = {
+  csv: 'csv',
+  'text/csv': 'csv',
+  xls: 'excel',
+  xlsx: 'excel',
+  excel: 'excel',
+  'application/vnd.ms-excel': 'excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'excel',
+  json: 'json',
+  geojson: 'json',
+  'application/json': 'json',
+  xml: 'xml',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+};
+
+const HEADER_SCAN_ROWS = 20; // عدد الصفوف التي يُبحث فيها عن صف العناوين في Excel
+const FLATTEN_DEPTH = 3;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * تسطيح الكائنات المتداخلة إلى مفاتيح بنقطة (a.b.c)
+ */
+function flattenRecord(
+  value: Record<string, unknown>,
+  prefix = '',
+  depth = 0,
+  out: Record<string, unknown> = {}
+): Record<string, unknown> {
+  for (const [key, v] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(v) && depth < FLATTEN_DEPTH) {
+      flattenRecord(v, name, depth + 1, out);
+    } else if (Array.isArray(v)) {
+      out[name] = v.every((item) => !isPlainObject(item) && !Array.isArray(item)) ? v.join(', ') : JSON.stringify(v);
+    } else if (v instanceof Date) {
+      out[name] = v.toISOString();
+    } else {
+      out[name] = v ?? null;
+    }
+  }
+  return out;
+}
+
+/**
+ * الأعمدة بترتيب أول ظهور في كل السجلات
+ */
+function collectColumns(records: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) columns.add(key);
+  }
+  return [...columns];
+}
+
+/**
+ * البحث عن أكبر مصفوفة كائنات داخل مستند JSON / XML
+ */
+function findRecordArray(node: unknown, depth = 0): Record<string, unknown>[] | null {
+  if (depth > 8 || node === null || typeof node !== 'object') return null;
+
+  let best: Record<string, unknown>[] | null = null;
+
+  if (Array.isArray(node)) {
+    const objects = node.filter(isPlainObject);
+    if (objects.length > 0 && objects.length >= node.length / 2) {
+      best = objects;
+    }
+    for (const item of node.slice(0, 5)) {
+      const nested = findRecordArray(item, depth + 1);
+      if (nested && (!best || nested.length > best.length)) best = nested;
+    }
+    return best;
+  }
+
+  for (const value of Object.values(node)) {
+    const nested = findRecordArray(value, depth + 1);
+    if (nested && (!best || nested.length > best.length)) best = nested;
+  }
+
+  return best;
+}
+
+function toRecords(document: unknown): Record<string, unknown>[] {
+  const array = findRecordArray(document);
+  if (array) return array.map((r) => flattenRecord(r));
+  // مستند بكائن واحد فقط
+  return isPlainObject(document) ? [flattenRecord(document)] : [];
+}
+
+/**
+ * تحديد صف العناوين في ورقة Excel (قد تسبقه صفوف عنوان أو شعار)
+ */
+function findHeaderRow(rows: unknown[][]): number {
+  let bestIndex = 0;
+  let bestCount = 0;
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const filled = rows[i].filter((c) => c !== null && c !== undefined && String(c).trim() !== '').length;
+    if (filled > bestCount) {
+      bestCount = filled;
+      bestIndex = i;
+    }
+  }
+  return bestIndex;
+}
+
+function uniqueHeaders(raw: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((cell, i) => {
+    const base = cell === null || cell === undefined || String(cell).trim() === ''
+      ? `column_${i + 1}`
+      : String(cell).trim();
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تحديد صيغة المورد من الحقل format أو امتداد الرابط
+ */
+export function detectResourceFormat(resource: { format?: string; downloadUrl?: string }): ResourceFormat | null {
+  const format = resource.format?.trim().toLowerCase();
+  if (format && FORMAT_ALIASES[format]) return FORMAT_ALIASES[format];
+
+  const extension = resource.downloadUrl?.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension && FORMAT_ALIASES[extension]) return FORMAT_ALIASES[extension];
+
+  return null;
+}
+
+/**
+ * اختيار أفضل مورد قابل للتحليل حسب ترتيب الأفضلية
+ */
+export function selectResource<T extends { format?: string; downloadUrl?: string }>(
+  resources: T[]
+): { resource: T; format: ResourceFormat } | null {
+  for (const format of FORMAT_PRIORITY) {
+    const resource = resources.find((r) => r.downloadUrl && detectResourceFormat(r) === format);
+    if (resource) return { resource, format };
+  }
+  return null;
+}
+
+/**
+ * تحليل CSV
+ */
+export function parseCSV(content: string): ParsedResource {
+  const result = Papa.parse<Record<string, unknown>>(content.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: true,
+  });
+  const records = result.data;
+  return {
+    records,
+    columns: result.meta.fields || (records.length > 0 ? Object.keys(records[0]) : []),
+    format: 'csv',
+  };
+}
+
+/**
+ * تحليل ملف Excel - الورقة المحددة بالاسم أو الرقم، أو أول ورقة فيها بيانات
+ */
+export function parseWorkbook(content: Buffer, options: ParseOptions = {}): ParsedResource {
+  const workbook = XLSX.read(content, { type: 'buffer', cellDates: true });
+  const sheets = workbook.SheetNames;
+
+  let sheetName: string | undefined;
+  if (typeof options.sheet === 'number') {
+    sheetName = sheets[options.sheet];
+  } else if (options.sheet) {
+    sheetName = sheets.find((s) => s === options.sheet || s.trim().toLowerCase() === String(options.sheet).trim().toLowerCase());
+  }
+
+  if (options.sheet !== undefined && !sheetName) {
+    throw new Error(`Sheet not found: ${options.sheet}. Available: ${sheets.join(', ')}`);
+  }
+
+  const candidates = sheetName ? [sheetName] : sheets;
+
+  for (const name of candidates) {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: true,
+      defval: null,
+      blankrows: false,
+    });
+    if (rows.length === 0) continue;
+
+    const headerIndex = findHeaderRow(rows);
+    const headers = uniqueHeaders(rows[headerIndex]);
+
+    const records = rows.slice(headerIndex + 1)
+      .filter((row) => row.some((c) => c !== null && String(c).trim() !== ''))
+      .map((row) => {
+        const record: Record<string, unknown> = {};
+        headers.forEach((header, i) => {
+          const cell = row[i];
+          record[header] = cell instanceof Date ? cell.toISOString().slice(0, 10) : cell ?? null;
+        });
+        return record;
+      });
+
+    if (records.length > 0 || sheetName) {
+      return { records, columns: headers, format: 'excel', sheets, sheet: name };
+    }
+  }
+
+  return { records: [], columns: [], format: 'excel', sheets };
+}
+
+/**
+ * تحليل JSON - مصفوفة كائنات على أي مستوى (data, records, result...)
+ */
+export function parseJSON(content: string): ParsedResource {
+  const records = toRecords(JSON.parse(content.replace(/^\uFEFF/, '')));
+  return { records, columns: collectColumns(records), format: 'json' };
+}
+
+/**
+ * تحليل XML - العنصر المتكرر الأكبر يعتبر صفوف البيانات
+ */
+export function parseXML(content: string): ParsedResource {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: true,
+    parseAttributeValue: true,
+    trimValues: true,
+  });
+  const records = toRecords(parser.parse(content));
+  return { records, columns: collectColumns(records), format: 'xml' };
+}
+
+/**
+ * تحليل محتوى مورد حسب صيغته
+ */
+export function parseResource(content: Buffer, format: ResourceFormat, options: ParseOptions = {}): ParsedResource {
+  switch (format) {
+    case 'excel':
+      return parseWorkbook(content, options);
+    case 'json':
+      return parseJSON(content.toString('utf8'));
+    case 'xml':
+      return parseXML(content.toString('utf8'));
+    case 'csv':
+    default:
+      return parseCSV(content.toString('utf8'));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  detectResourceFormat,
+  selectResource,
+  parseResource,
+  parseCSV,
+  parseWorkbook,
+  parseJSON,
+  parseXML,
+};
@@ -3,21 +3,27 @@
  *
  * ⚠️ هذه النسخة المحسنة تخزن METADATA فقط (لتوفير Storage)
  * البيانات الفعلية تُجلب On-Demand من onDemandData.ts
+ *
+ * كشف التغيير: يُفحص كل رابط مورد بطلب HEAD (ETag / Last-Modified / Content-Length)
+ * وتُحسب بصمة للـ Dataset؛ إذا لم تتغير البصمة يُتخطى الـ Dataset دون إعادة تنزيل
  */
 
 import axios from 'axios';
+import { createHash } from 'crypto';
 import { prisma } from './database.js';
 import { cacheDel, CacheKeys } from './cache.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { portal, PORTAL_SOURCE_NAME, PORTAL_FILES_URL } from './dataConnectors.js';
+import { emitDatasetUpdated, DatasetChanges, FieldChange, ResourceChange } from './datasetEvents.js';
 
 // ═══════════════════════════════════════════════════════════════════
 // Configuration
 // ═══════════════════════════════════════════════════════════════════
 
-const API_BASE = 'https://open.data.gov.sa/data/api';
 const REQUEST_DELAY = 500; // 500ms between requests
-const REQUEST_TIMEOUT = 30000;
+const PROBE_TIMEOUT = 10000;
+const SAMPLE_BYTES = 50000; // أول 50KB لتقدير عدد الصفوف وبصمة المورد
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
@@ -46,9 +52,31 @@ interface ResourceInfo {
   name?: string;
 }
 
+interface ResourceValidator {
+  name: string;
+  etag: string | null;
+  lastModified: string | null;
+  contentLength: number | null;
+  hash: string | null; // SHA-256 لأول 50KB - فقط عندما لا يرسل الخادم ETag ولا Last-Modified
+  recordCount?: number;
+}
+
+type ResourceValidators = Record<string, ResourceValidator>;
+
+interface ResourceSample {
+  text: string;
+  totalLength: number | null;
+}
+
+export interface SyncOptions {
+  force?: boolean; // تجاهل كشف التغيير وإعادة المزامنة
+}
+
 export interface SyncResult {
   datasetId: string;
   success: boolean;
+  skipped?: boolean;
+  changes?: DatasetChanges;
   message: string;
   metadata?: {
     name: string;
@@ -69,21 +97,7 @@ function delay(ms: number): Promise<void> {
 
 async function fetchDatasetInfo(datasetId: string): Promise<DatasetApiResponse | null> {
   try {
-    const response = await axios.get(
-      `${API_BASE}/datasets?version=-1&dataset=${datasetId}`,
-      {
-        timeout: REQUEST_TIMEOUT,
-        headers: {
-          'User-Agent': 'InvestorRadar/2.0',
-          'Accept': 'application/json',
-        },
-      }
-    );
-
-    if (response.data && Object.keys(response.data).length > 0) {
-      return response.data;
-    }
-    return null;
+    return (await portal.metadata({}, datasetId)) as DatasetApiResponse | null;
   } catch (error) {
     logger.error(`Failed to fetch info for ${datasetId}:`, error);
     return null;
@@ -92,46 +106,225 @@ async function fetchDatasetInfo(datasetId: string): Promise<DatasetApiResponse |
 
 async function fetchDatasetResources(datasetId: string): Promise<ResourceInfo[]> {
   try {
-    const response = await axios.get(
-      `${API_BASE}/datasets/resources?version=-1&dataset=${datasetId}`,
-      {
-        timeout: REQUEST_TIMEOUT,
-        headers: {
-          'User-Agent': 'InvestorRadar/2.0',
-          'Accept': 'application/json',
-        },
-      }
-    );
-
-    return response.data?.resources || [];
+    return await portal.resources({}, datasetId);
   } catch {
     return [];
   }
 }
 
-async function getRecordCountFromCSV(url: string): Promise<number> {
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function isCsvResource(resource: ResourceInfo): boolean {
+  return resource.format?.toLowerCase() === 'csv' || !!resource.downloadUrl?.endsWith('.csv');
+}
+
+function resolveResourceUrl(downloadUrl: string): string {
+  // Resources من البوابة قد تحمل مساراً نسبياً لنقطة الملفات
+  return downloadUrl.startsWith('http') ? downloadUrl : `${PORTAL_FILES_URL}/${downloadUrl}`;
+}
+
+function parseLength(value: unknown): number | null {
+  const n = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * قراءة مُحقِّقات HTTP للمورد بطلب HEAD (بدون تنزيل المحتوى)
+ */
+async function probeResource(url: string): Promise<Omit<ResourceValidator, 'name' | 'hash'>> {
+  try {
+    const response = await axios.head(url, { timeout: PROBE_TIMEOUT, maxRedirects: 5 });
+    return {
+      etag: response.headers['etag'] || null,
+      lastModified: response.headers['last-modified'] || null,
+      contentLength: parseLength(response.headers['content-length']),
+    };
+  } catch {
+    return { etag: null, lastModified: null, contentLength: null };
+  }
+}
+
+/**
+ * جلب أول 50KB من المورد
+ */
+async function fetchResourceSample(url: string): Promise<ResourceSample | null> {
   try {
-    // Just do a HEAD request or fetch first few KB to estimate
     const response = await axios.get(url, {
       responseType: 'text',
-      timeout: 10000,
-      headers: { Range: 'bytes=0-50000' }, // First 50KB
+      timeout: PROBE_TIMEOUT,
+      headers: { Range: `bytes=0-${SAMPLE_BYTES}` },
     });
 
-    // Count newlines as approximate record count
-    const lines = response.data.split('\n').length - 1; // -1 for header
+    // 206: الحجم الكلي في Content-Range (bytes 0-50000/123456)، وإلا فهو Content-Length
+    const range = String(response.headers['content-range'] || '');
+    const totalLength = range.includes('/')
+      ? parseLength(range.split('/')[1])
+      : parseLength(response.headers['content-length']);
+
+    return { text: String(response.data ?? ''), totalLength };
+  } catch {
+    return null;
+  }
+}
 
-    // If we got truncated, estimate based on content length
-    const contentLength = response.headers['content-length'];
-    if (contentLength && response.data.length < parseInt(contentLength)) {
-      const ratio = parseInt(contentLength) / response.data.length;
-      return Math.floor(lines * ratio);
+function getRecordCountFromCSV(sample: ResourceSample): number {
+  // Count newlines as approximate record count
+  const lines = sample.text.split('\n').length - 1; // -1 for header
+
+  // If we got truncated, estimate based on content length
+  if (sample.totalLength && sample.text.length > 0 && sample.text.length < sample.totalLength) {
+    return Math.floor(lines * (sample.totalLength / sample.text.length));
+  }
+
+  return lines;
+}
+
+/**
+ * أسباب تغيّر المورد - تُقارن فقط المُحقِّقات المتوفرة في الطرفين
+ */
+function resourceChangeReasons(previous: ResourceValidator, next: ResourceValidator): string[] {
+  const fields = ['etag', 'lastModified', 'contentLength', 'hash'] as const;
+  return fields.filter((f) => previous[f] !== null && next[f] !== null && previous[f] !== next[f]);
+}
+
+function hasValidators(validator: Omit<ResourceValidator, 'name'>): boolean {
+  return validator.etag !== null || validator.lastModified !== null || validator.contentLength !== null || validator.hash !== null;
+}
+
+/**
+ * فحص مورد واحد: HEAD أولاً، وعينة 50KB فقط عند الحاجة
+ * - بصمة العينة عندما لا يرسل الخادم ETag ولا Last-Modified
+ * - عدد الصفوف لملفات CSV يُعاد حسابه فقط إذا تغيّر المورد
+ */
+async function inspectResource(
+  resource: ResourceInfo,
+  previous: ResourceValidator | undefined
+): Promise<ResourceValidator> {
+  const url = resolveResourceUrl(resource.downloadUrl!);
+  const next: ResourceValidator = { name: resource.name || 'Resource', ...(await probeResource(url)), hash: null };
+
+  let sample: ResourceSample | null = null;
+  if (!next.etag && !next.lastModified) {
+    sample = await fetchResourceSample(url);
+    if (sample) {
+      next.hash = sha256(sample.text);
+      next.contentLength ??= sample.totalLength;
+    }
+  }
+
+  // تعذّر الفحص: نحتفظ بالمُحقِّقات السابقة حتى لا يُعتبر المورد متغيراً
+  if (!hasValidators(next) && previous) {
+    return { ...previous, name: next.name };
+  }
+
+  if (isCsvResource(resource)) {
+    const unchanged = previous && resourceChangeReasons(previous, next).length === 0;
+    if (unchanged && previous.recordCount !== undefined) {
+      next.recordCount = previous.recordCount;
+    } else {
+      sample ??= await fetchResourceSample(url);
+      next.recordCount = sample ? getRecordCountFromCSV(sample) : 0;
     }
+  }
 
-    return lines;
-  } catch {
-    return 0;
+  return next;
+}
+
+/**
+ * بصمة الـ Dataset: البيانات الوصفية + مُحقِّقات كل المواد (بدون عدد الصفوف المُقدَّر)
+ */
+function computeContentHash(
+  info: DatasetApiResponse,
+  category: string,
+  validators: ResourceValidators
+): string {
+  const resources = Object.keys(validators)
+    .sort()
+    .map((url) => {
+      const { etag, lastModified, contentLength, hash } = validators[url];
+      return [url, etag, lastModified, contentLength, hash];
+    });
+
+  return sha256(
+    JSON.stringify({
+      titleEn: info.titleEn || null,
+      titleAr: info.titleAr || null,
+      descriptionEn: info.descriptionEn || null,
+      descriptionAr: info.descriptionAr || null,
+      category,
+      updatedAt: info.updatedAt || null,
+      resources,
+    })
+  );
+}
+
+/**
+ * ما الذي تغيّر بين المزامنة السابقة والحالية
+ */
+function detectChanges(
+  existing: {
+    name: string;
+    nameAr: string;
+    description: string | null;
+    descriptionAr: string | null;
+    category: string;
+    recordCount: number;
+  },
+  previousValidators: ResourceValidators,
+  update: { name?: string; nameAr?: string; description?: string; descriptionAr?: string; category: string; recordCount: number },
+  validators: ResourceValidators
+): DatasetChanges {
+  const metadata: FieldChange[] = [];
+  for (const field of ['name', 'nameAr', 'description', 'descriptionAr', 'category'] as const) {
+    const to = update[field];
+    if (to !== undefined && to !== (existing[field] || '')) {
+      metadata.push({ field, from: existing[field], to });
+    }
+  }
+
+  const resources: ResourceChange[] = [];
+  for (const [url, next] of Object.entries(validators)) {
+    const previous = previousValidators[url];
+    if (!previous) {
+      resources.push({ url, name: next.name, change: 'added', reasons: [] });
+      continue;
+    }
+    const reasons = resourceChangeReasons(previous, next);
+    if (reasons.length > 0) {
+      resources.push({ url, name: next.name, change: 'modified', reasons });
+    }
+  }
+  for (const [url, previous] of Object.entries(previousValidators)) {
+    if (!validators[url]) {
+      resources.push({ url, name: previous.name, change: 'removed', reasons: [] });
+    }
   }
+
+  const recordCount = existing.recordCount !== update.recordCount
+    ? { from: existing.recordCount, to: update.recordCount, delta: update.recordCount - existing.recordCount }
+    : null;
+
+  return { metadata, resources, recordCount };
+}
+
+/**
+ * الجهة المالكة حسب اسم الناشر في البوابة (لإشعار متابعي الجهة بالتحديثات)
+ */
+async function findOwningEntityId(info: DatasetApiResponse): Promise<string | null> {
+  const names = [info.providerNameAr, info.providerNameEn].filter((n): n is string => !!n);
+  if (names.length === 0) return null;
+
+  const entity = await prisma.entity.findFirst({
+    where: { OR: [{ name: { in: names } }, { nameEn: { in: names } }] },
+    select: { id: true },
+  });
+  return entity?.id || null;
+}
+
+function hasChanges(changes: DatasetChanges): boolean {
+  return changes.metadata.length > 0 || changes.resources.length > 0 || changes.recordCount !== null;
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -140,8 +333,12 @@ async function getRecordCountFromCSV(url: string): Promise<number> {
 
 /**
  * مزامنة Metadata لـ Dataset واحد (بدون تخزين البيانات الفعلية)
+ * يُتخطى الـ Dataset إذا لم تتغير بصمته منذ آخر مزامنة ناجحة (ما لم يُطلب force)
  */
-export async function syncDatasetMetadata(externalId: string): Promise<SyncResult> {
+export async function syncDatasetMetadata(
+  externalId: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
   const startTime = Date.now();
 
   try {
@@ -159,24 +356,85 @@ export async function syncDatasetMetadata(externalId: string): Promise<SyncResul
       };
     }
 
-    // 2. Get resources to find CSV and estimate record count
+    const existing = await prisma.dataset.findUnique({
+      where: { externalId },
+      select: {
+        id: true,
+        name: true,
+        nameAr: true,
+        description: true,
+        descriptionAr: true,
+        category: true,
+        recordCount: true,
+        syncStatus: true,
+        contentHash: true,
+        resourceValidators: true,
+        entityId: true,
+      },
+    });
+    const previousValidators = (existing?.resourceValidators || {}) as unknown as ResourceValidators;
+
+    // 2. Check resources with HTTP validators (CSV rows are re-counted only when the file changed)
     const resources = await fetchDatasetResources(externalId);
-    const csvResource = resources.find(
-      (r) => r.format?.toLowerCase() === 'csv' || r.downloadUrl?.endsWith('.csv')
-    );
+    const validators: ResourceValidators = {};
+    for (const resource of resources) {
+      if (!resource.downloadUrl) continue;
+      const url = resolveResourceUrl(resource.downloadUrl);
+      validators[url] = await inspectResource(resource, previousValidators[url]);
+    }
 
-    let recordCount = 0;
+    const csvResource = resources.find((r) => r.downloadUrl && isCsvResource(r));
+    const recordCount = csvResource
+      ? validators[resolveResourceUrl(csvResource.downloadUrl!)].recordCount || 0
+      : 0;
     let columns: string[] = [];
 
-    if (csvResource?.downloadUrl) {
-      // Just estimate record count, don't download full file
-      recordCount = await getRecordCountFromCSV(csvResource.downloadUrl);
-    }
-
     // 3. Extract category
     const category = info.categories?.[0]?.titleAr || 'أخرى';
 
-    // 4. Upsert dataset (metadata only!)
+    // 4. Skip unchanged datasets
+    const contentHash = computeContentHash(info, category, validators);
+    const now = new Date();
+
+    if (existing && !options.force && existing.syncStatus === 'SUCCESS' && existing.contentHash === contentHash) {
+      await prisma.dataset.update({
+        where: { id: existing.id },
+        data: { lastCheckedAt: now },
+      });
+
+      logger.info(`⏭️ Unchanged, skipped: ${info.titleAr}`);
+
+      return {
+        datasetId: externalId,
+        success: true,
+        skipped: true,
+        message: 'Dataset unchanged since last sync',
+        metadata: {
+          name: info.titleAr || '',
+          category,
+          provider: info.providerNameAr || '',
+          recordCount: existing.recordCount,
+        },
+      };
+    }
+
+    const update = {
+      name: info.titleEn || undefined,
+      nameAr: info.titleAr || undefined,
+      description: info.descriptionEn || undefined,
+      descriptionAr: info.descriptionAr || undefined,
+      category,
+      recordCount,
+    };
+
+    // بدون بصمة سابقة لا يوجد أساس للمقارنة (أول مزامنة)
+    const changes = existing?.contentHash && existing.contentHash !== contentHash
+      ? detectChanges(existing, previousValidators, update, validators)
+      : null;
+    const contentChanged = !!changes && hasChanges(changes);
+    const entityId = existing?.entityId || (await findOwningEntityId(info));
+
+    // 5. Upsert dataset (metadata only!)
     const dataset = await prisma.dataset.upsert({
       where: { externalId },
       create: {
@@ -186,32 +444,37 @@ export async function syncDatasetMetadata(externalId: string): Promise<SyncResul
         description: info.descriptionEn || '',
         descriptionAr: info.descriptionAr || '',
         category,
-        source: 'open.data.gov.sa',
-        sourceUrl: `https://open.data.gov.sa/ar/datasets/view/${externalId}`,
+        source: PORTAL_SOURCE_NAME,
+        sourceUrl: portal.sourceUrl({}, externalId),
         recordCount,
         columns: JSON.stringify(columns),
         dataPreview: '[]', // Empty - data fetched on-demand
         syncStatus: 'SUCCESS',
-        lastSyncAt: new Date(),
+        lastSyncAt: now,
+        contentHash,
+        resourceValidators: validators as any,
+        lastCheckedAt: now,
+        lastChangedAt: now,
+        entityId,
       },
       update: {
-        name: info.titleEn || undefined,
-        nameAr: info.titleAr || undefined,
-        description: info.descriptionEn || undefined,
-        descriptionAr: info.descriptionAr || undefined,
-        category,
-        recordCount,
+        ...update,
         syncStatus: 'SUCCESS',
-        lastSyncAt: new Date(),
+        lastSyncAt: now,
         syncError: null,
+        contentHash,
+        resourceValidators: validators as any,
+        lastCheckedAt: now,
+        ...(contentChanged || !existing?.contentHash ? { lastChangedAt: now } : {}),
+        ...(entityId && !existing?.entityId ? { entityId } : {}),
       },
     });
 
-    // 5. Clear cache
+    // 6. Clear cache
     await cacheDel(CacheKeys.datasets);
     await cacheDel(CacheKeys.dataset(dataset.id));
 
-    // 6. Log sync
+    // 7. Log sync
     await prisma.syncLog.create({
       data: {
         datasetId: dataset.id,
@@ -225,15 +488,32 @@ export async function syncDatasetMetadata(externalId: string): Promise<SyncResul
           provider: info.providerNameAr,
           category,
           estimatedRecords: recordCount,
+          contentHash,
+          changes: contentChanged ? changes : null,
         }),
       },
     });
 
+    // 8. Notify subscribers - only when content actually changed
+    if (contentChanged) {
+      emitDatasetUpdated({
+        datasetId: dataset.id,
+        externalId,
+        name: dataset.name,
+        nameAr: dataset.nameAr,
+        previousHash: existing!.contentHash!,
+        contentHash,
+        changes: changes!,
+        detectedAt: now,
+      });
+    }
+
     logger.info(`✅ Synced metadata: ${info.titleAr} (~${recordCount} records)`);
 
     return {
       datasetId: externalId,
       success: true,
+      changes: contentChanged ? changes! : undefined,
       message: 'Metadata synced successfully',
       metadata: {
         name: info.titleAr || '',
@@ -268,10 +548,12 @@ export async function syncDatasetMetadata(externalId: string): Promise<SyncResul
 /**
  * مزامنة Metadata لكل الـ Datasets في قاعدة البيانات
  */
-export async function syncAllDatasets(): Promise<{
+export async function syncAllDatasets(options: SyncOptions = {}): Promise<{
   total: number;
   success: number;
   failed: number;
+  unchanged: number;
+  updated: number;
   results: SyncResult[];
 }> {
   logger.info('═══════════════════════════════════════════════════════');
@@ -291,6 +573,8 @@ export async function syncAllDatasets(): Promise<{
   const results: SyncResult[] = [];
   let success = 0;
   let failed = 0;
+  let unchanged = 0;
+  let updated = 0;
 
   for (let i = 0; i < datasets.length; i++) {
     const dataset = datasets[i];
@@ -300,11 +584,13 @@ export async function syncAllDatasets(): Promise<{
       logger.info(`📈 Progress: ${i + 1}/${datasets.length}`);
     }
 
-    const result = await syncDatasetMetadata(dataset.externalId);
+    const result = await syncDatasetMetadata(dataset.externalId, options);
     results.push(result);
 
     if (result.success) {
       success++;
+      if (result.skipped) unchanged++;
+      if (result.changes) updated++;
     } else {
       failed++;
     }
@@ -317,6 +603,7 @@ export async function syncAllDatasets(): Promise<{
 
   logger.info('═══════════════════════════════════════════════════════');
   logger.info(`✅ Sync complete: ${success}/${datasets.length} in ${Math.round(duration / 1000)}s`);
+  logger.info(`   Unchanged (skipped): ${unchanged}, Updated: ${updated}`);
   logger.info('═══════════════════════════════════════════════════════');
 
   // Log overall sync
@@ -332,6 +619,9 @@ export async function syncAllDatasets(): Promise<{
         total: datasets.length,
         success,
         failed,
+        unchanged,
+        updated,
+        force: !!options.force,
         type: 'metadata_only',
       }),
     },
@@ -341,6 +631,8 @@ export async function syncAllDatasets(): Promise<{
     total: datasets.length,
     success,
     failed,
+    unchanged,
+    updated,
     results,
   };
 }
@@ -348,8 +640,8 @@ export async function syncAllDatasets(): Promise<{
 /**
  * مزامنة Dataset واحد بالـ ID
  */
-export async function syncSingleDataset(externalId: string): Promise<SyncResult> {
-  return syncDatasetMetadata(externalId);
+export async function syncSingleDataset(externalId: string, options: SyncOptions = {}): Promise<SyncResult> {
+  return syncDatasetMetadata(externalId, options);
 }
 
 /**
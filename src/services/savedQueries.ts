@@ -0,0 +1,259 @@
+/**
+ * الاستعلامات المحفوظة - Saved Queries
+ *
+ * تعريفات استعلام مسماة على Dataset (فلاتر، تجميع، دوال، تلميح رسم بياني)
+ * تُعاد على أحدث البيانات، وتُشارك علناً أو مع مستخدمين محددين،
+ * ويمكن استخدامها كمصدر بيانات لعناصر لوحات المستخدم (Dashboard.widgets)
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './database.js';
+import { getDatasetData } from './onDemandData.js';
+import { executeQuery, findUnknownColumns, DatasetQuery, QueryResult } from './datasetQuery.js';
+import { authorizeDatasetAccess, applyAccessDecision, visibleColumns, POLICY_SELECT } from './accessPolicy.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type QueryVisibility = 'PRIVATE' | 'SHARED' | 'PUBLIC';
+
+export interface ChartHint {
+  type: string;
+  x?: string;
+  y?: string[];
+  series?: string;
+}
+
+export interface SavedQueryRun extends QueryResult {
+  queryId: string;
+  dataset: { id: string; externalId: string; name: string; nameAr: string };
+  chartHint: ChartHint | null;
+  meta: { fetchedAt: string; source: string; sheet?: string; maskedColumns: string[] };
+}
+
+export interface WidgetSource {
+  type: 'savedQuery';
+  queryId: string;
+}
+
+export class SavedQueryError extends Error {
+  constructor(
+    message: string,
+    public messageAr: string,
+    public statusCode: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'SavedQueryError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_WIDGET_QUERIES = 20; // حد الاستعلامات المنفذة لكل لوحة
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+// Access (401 / 403 / 404) and size (413) errors keep their status when running a saved query
+function toSavedQueryError(error: unknown): never {
+  throw error instanceof AppError ? new SavedQueryError(error.message, error.messageAr, error.statusCode) : error;
+}
+
+function parseJSON<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * شرط الاستعلامات التي يحق للمستخدم رؤيتها
+ */
+export function accessibleQueriesWhere(userId?: string): Prisma.SavedQueryWhereInput {
+  if (!userId) return { visibility: 'PUBLIC' };
+  return {
+    OR: [
+      { userId },
+      { visibility: 'PUBLIC' },
+      { visibility: 'SHARED', shares: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * تحويل سجل الاستعلام المحفوظ إلى شكل الاستجابة (فك JSON)
+ */
+export function formatSavedQuery<T extends { query: string; chartHint: string | null }>(
+  savedQuery: T
+): Omit<T, 'query' | 'chartHint'> & { query: DatasetQuery; chartHint: ChartHint | null } {
+  return {
+    ...savedQuery,
+    query: parseJSON<DatasetQuery>(savedQuery.query, {}),
+    chartHint: parseJSON<ChartHint | null>(savedQuery.chartHint, null),
+  };
+}
+
+/**
+ * استخراج مصدر الاستعلام المحفوظ من عنصر لوحة
+ */
+export function getWidgetSource(widget: unknown): WidgetSource | null {
+  if (typeof widget !== 'object' || widget === null) return null;
+  const source = (widget as { source?: unknown }).source;
+  if (typeof source !== 'object' || source === null) return null;
+  const { type, queryId } = source as Record<string, unknown>;
+  return type === 'savedQuery' && typeof queryId === 'string' ? { type, queryId } : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تنفيذ استعلام محفوظ على بيانات الـ Dataset الحالية
+ */
+export async function runSavedQuery(
+  savedQuery: { id: string; datasetId: string; query: string; sheet: string | null; chartHint: string | null },
+  options: { forceRefresh?: boolean; limit?: number; offset?: number; user?: { userId: string; role: string } } = {}
+): Promise<SavedQueryRun> {
+  const dataset = await prisma.dataset.findFirst({
+    where: { id: savedQuery.datasetId, isActive: true },
+    select: { id: true, externalId: true, name: true, nameAr: true, ...POLICY_SELECT },
+  });
+
+  if (!dataset) {
+    throw new SavedQueryError('Dataset of this query is no longer available', 'مجموعة البيانات الخاصة بهذا الاستعلام لم تعد متاحة', 404);
+  }
+
+  // Shared queries still run under the viewer's own access to the dataset
+  const access = await authorizeDatasetAccess(dataset, options.user, 'QUERY').catch(toSavedQueryError);
+
+  const data = await getDatasetData(dataset.externalId, {
+    forceRefresh: options.forceRefresh === true,
+    sheet: savedQuery.sheet || undefined,
+  }).catch(toSavedQueryError);
+
+  if (!data) {
+    throw new SavedQueryError('Failed to fetch data', 'فشل في جلب البيانات', 500);
+  }
+
+  const query: DatasetQuery = {
+    ...parseJSON<DatasetQuery>(savedQuery.query, {}),
+    ...(options.limit !== undefined && { limit: options.limit }),
+    ...(options.offset !== undefined && { offset: options.offset }),
+  };
+
+  // الأعمدة قد تتغير في المصدر بعد حفظ الاستعلام
+  const unknownColumns = findUnknownColumns(query, visibleColumns(data.columns, access));
+  if (unknownColumns.length > 0) {
+    throw new SavedQueryError(
+      'Saved query references columns that no longer exist',
+      'الاستعلام المحفوظ يشير إلى أعمدة لم تعد موجودة',
+      409,
+      { unknownColumns }
+    );
+  }
+
+  const visible = applyAccessDecision(data.records, access);
+  const result = executeQuery(visible.records, query);
+
+  prisma.savedQuery.update({
+    where: { id: savedQuery.id },
+    data: { runCount: { increment: 1 }, lastRunAt: new Date() },
+  }).catch(() => {});
+
+  return {
+    queryId: savedQuery.id,
+    dataset: { id: dataset.id, externalId: dataset.externalId, name: dataset.name, nameAr: dataset.nameAr },
+    chartHint: parseJSON<ChartHint | null>(savedQuery.chartHint, null),
+    ...result,
+    meta: { fetchedAt: data.fetchedAt, source: data.source, sheet: data.sheet, maskedColumns: visible.maskedColumns },
+  };
+}
+
+/**
+ * التحقق من أن الاستعلامات المشار إليها في عناصر اللوحة متاحة للمستخدم
+ * يرجع معرفات الاستعلامات غير المتاحة
+ */
+export async function findInaccessibleWidgetQueries(widgets: unknown[], userId: string): Promise<string[]> {
+  const ids = [...new Set(widgets.map(getWidgetSource).filter((s): s is WidgetSource => !!s).map((s) => s.queryId))];
+  if (ids.length === 0) return [];
+
+  const accessible = await prisma.savedQuery.findMany({
+    where: { id: { in: ids }, ...accessibleQueriesWhere(userId) },
+    select: { id: true },
+  });
+  const found = new Set(accessible.map((q) => q.id));
+  return ids.filter((id) => !found.has(id));
+}
+
+/**
+ * تعبئة عناصر اللوحة المرتبطة باستعلامات محفوظة بنتائجها الحالية
+ * فشل عنصر واحد لا يُفشل اللوحة - يُرفق الخطأ بالعنصر
+ */
+export async function resolveDashboardWidgets(
+  widgets: unknown[],
+  userId: string | undefined,
+  options: { forceRefresh?: boolean; user?: { userId: string; role: string } } = {}
+): Promise<unknown[]> {
+  const ids = [...new Set(widgets.map(getWidgetSource).filter((s): s is WidgetSource => !!s).map((s) => s.queryId))]
+    .slice(0, MAX_WIDGET_QUERIES);
+
+  const queries = ids.length > 0
+    ? await prisma.savedQuery.findMany({ where: { id: { in: ids }, ...accessibleQueriesWhere(userId) } })
+    : [];
+
+  // كل استعلام يُنفذ مرة واحدة حتى لو استخدمته عدة عناصر، وبالتتابع لتقليل استهلاك الذاكرة
+  const runs = new Map<string, { result?: SavedQueryRun; error?: { message: string; messageAr: string } }>();
+  for (const query of queries) {
+    try {
+      runs.set(query.id, { result: await runSavedQuery(query, options) });
+    } catch (error) {
+      logger.warn(`⚠️ Widget query ${query.id} failed: ${(error as Error).message}`);
+      runs.set(query.id, {
+        error: error instanceof SavedQueryError
+          ? { message: error.message, messageAr: error.messageAr }
+          : { message: 'Failed to run query', messageAr: 'فشل في تنفيذ الاستعلام' },
+      });
+    }
+  }
+
+  return widgets.map((widget) => {
+    const source = getWidgetSource(widget);
+    if (!source) return widget;
+
+    const run = runs.get(source.queryId);
+    if (!run) {
+      return {
+        ...(widget as object),
+        error: ids.includes(source.queryId)
+          ? { message: 'Saved query not found or not shared with you', messageAr: 'الاستعلام المحفوظ غير موجود أو غير مشارك معك' }
+          : { message: 'Too many query widgets on this dashboard', messageAr: 'عدد عناصر الاستعلام في اللوحة كبير جداً' },
+      };
+    }
+
+    const { result, error } = run;
+    return { ...(widget as object), ...(result ? { data: result } : { error }) };
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  runSavedQuery,
+  resolveDashboardWidgets,
+  findInaccessibleWidgetQueries,
+  accessibleQueriesWhere,
+  formatSavedQuery,
+  getWidgetSource,
+};
@@ -0,0 +1,484 @@
+/**
+ * تقييم الإشارات - Signal Backtesting
+ *
+ * كل إشارة جديدة تُسجَّل كتوقع: الاتجاه (trend) والأفق الزمني والقيمة الأساسية من السلسلة المرتبطة.
+ * بعد انقضاء الأفق تُقارن بالقيمة الفعلية في نفس السلسلة (HIT / MISS)، ومنها تُحسب
+ * نسبة الإصابة والمعايرة (الثقة المعلنة مقابل الإصابة الفعلية) حسب النوع والقطاع والمولّد
+ */
+
+import { Signal } from '@prisma/client';
+import { prisma } from './database.js';
+import { getDatasetData, DatasetTooLargeError } from './onDemandData.js';
+import { extractTimeSeries, Granularity, SeriesAggregate, TimeSeriesError } from './timeSeries.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type SignalGenerator = 'AI' | 'RULE_BASED';
+export type OutcomeStatus = 'PENDING' | 'HIT' | 'MISS' | 'NO_DATA' | 'UNRESOLVABLE';
+
+interface PredictionSeries {
+  key: string;
+  dimension?: string | null;
+  measure: string;
+  aggregate: SeriesAggregate;
+  granularity: Granularity;
+  points: { period: string; value: number }[];
+}
+
+export interface BacktestSummary {
+  total: number;
+  pending: number;
+  resolved: number;
+  hits: number;
+  misses: number;
+  noData: number;
+  unresolvable: number;
+  hitRate: number | null; // hits / resolved
+  avgConfidence: number | null; // للإشارات المحسومة
+  brierScore: number | null; // متوسط (الثقة - النتيجة)² - الأقل أفضل
+}
+
+export interface CalibrationBucket {
+  range: string;
+  signals: number;
+  avgConfidence: number;
+  hitRate: number;
+  gap: number; // hitRate - avgConfidence (سالب = ثقة مبالغ فيها)
+}
+
+export interface BacktestFilters {
+  from?: Date;
+  to?: Date;
+  generator?: SignalGenerator;
+  type?: string;
+  sector?: string;
+}
+
+export interface BacktestReport {
+  filters: BacktestFilters;
+  overall: BacktestSummary;
+  byGenerator: (BacktestSummary & { generator: string })[];
+  byType: (BacktestSummary & { type: string })[];
+  bySector: (BacktestSummary & { sector: string })[];
+  calibration: CalibrationBucket[];
+  generatedAt: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+// الأفق حسب دقة السلسلة: الفترة التالية (بالأيام)
+const GRANULARITY_HORIZON_DAYS: Record<Granularity, number> = {
+  year: 365,
+  quarter: 92,
+  month: 31,
+  day: 7,
+};
+
+// أفق افتراضي عندما لا تُعرف السلسلة بعد (إشارات الذكاء الاصطناعي)
+const TYPE_HORIZON_DAYS: Record<string, number> = {
+  ALERT: 30,
+  OPPORTUNITY: 90,
+  RISK: 90,
+  TREND: 180,
+};
+
+const DEFAULT_HORIZON_DAYS = 90;
+const STABLE_BAND_PERCENT = 2; // تغير ضمن ±2% يُعد ثباتاً
+const NO_DATA_GRACE_FACTOR = 2; // بعد أفق × 2 بلا فترة جديدة: NO_DATA
+const EVALUATION_BATCH = 200;
+const CALIBRATION_EDGES = [0, 50, 60, 70, 80, 90, 101];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RESOLVED: OutcomeStatus[] = ['HIT', 'MISS'];
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+export function generatorOf(dataSource: string): SignalGenerator {
+  return dataSource === 'AI_ANALYSIS' ? 'AI' : 'RULE_BASED';
+}
+
+function horizonDays(type: string, granularity?: string | null): number {
+  if (granularity && granularity in GRANULARITY_HORIZON_DAYS) {
+    return GRANULARITY_HORIZON_DAYS[granularity as Granularity];
+  }
+  return TYPE_HORIZON_DAYS[type] ?? DEFAULT_HORIZON_DAYS;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * الاتجاه الفعلي من نسبة التغير
+ */
+export function realizedTrend(changePercent: number): 'UP' | 'DOWN' | 'STABLE' {
+  if (changePercent > STABLE_BAND_PERCENT) return 'UP';
+  if (changePercent < -STABLE_BAND_PERCENT) return 'DOWN';
+  return 'STABLE';
+}
+
+function parseDetails(signal: Signal): { series?: PredictionSeries | null; relatedDatasets?: string[] } {
+  try {
+    return JSON.parse(signal.details);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * ربط إشارة الذكاء الاصطناعي بمجموعة بيانات من أسماء relatedDatasets
+ */
+async function resolveRelatedDataset(names: string[] | undefined): Promise<string | null> {
+  const candidates = (names || []).filter((n) => typeof n === 'string' && n.trim().length > 0);
+  if (candidates.length === 0) return null;
+
+  const dataset = await prisma.dataset.findFirst({
+    where: {
+      OR: [{ id: { in: candidates } }, { name: { in: candidates } }, { nameAr: { in: candidates } }],
+    },
+    select: { id: true },
+  });
+  return dataset?.id ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Recording
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تسجيل توقع الإشارة عند إنشائها (أو إصدار نسخة جديدة منها)
+ * - إشارات المحرك الإحصائي: السلسلة والقيمة الأساسية من details.series
+ * - إشارات الذكاء الاصطناعي: تُربط بمجموعة بيانات، والقيمة الأساسية تُلتقط في أول تقييم
+ */
+export async function recordSignalPrediction(signal: Signal): Promise<void> {
+  const details = parseDetails(signal);
+  const series = details.series || null;
+  const baseline = series?.points?.[series.points.length - 1] ?? null;
+  const datasetId = signal.datasetId || (await resolveRelatedDataset(details.relatedDatasets));
+  const horizon = horizonDays(signal.type, series?.granularity);
+
+  await prisma.signalOutcome.upsert({
+    where: { signalId: signal.id },
+    update: {},
+    create: {
+      signalId: signal.id,
+      generator: generatorOf(signal.dataSource),
+      signalType: signal.type,
+      sector: signal.sector,
+      predictedTrend: signal.trend,
+      confidence: signal.confidence,
+      impactScore: signal.impactScore,
+      horizonDays: horizon,
+      evaluateAfter: new Date(signal.createdAt.getTime() + horizon * DAY_MS),
+      datasetId,
+      measure: series?.measure ?? null,
+      aggregate: series?.aggregate ?? null,
+      dimension: series?.dimension ?? null,
+      seriesKey: series?.key ?? null,
+      granularity: series?.granularity ?? null,
+      baselinePeriod: baseline?.period ?? null,
+      baselineValue: baseline?.value ?? null,
+      ...(datasetId ? {} : { status: 'UNRESOLVABLE', evaluatedAt: new Date(), note: 'No linked dataset' }),
+    },
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════
+
+type SeriesLookup = (options: {
+  measure?: string | null;
+  aggregate?: string | null;
+  dimension?: string | null;
+  key?: string | null;
+}) => PredictionSeries | null;
+
+/**
+ * تحميل بيانات Dataset مرة واحدة وإرجاع دالة لاستخراج السلاسل منها
+ * null = البيانات غير متاحة حالياً (يُعاد المحاولة في التشغيل التالي)
+ */
+async function loadSeriesLookup(datasetId: string): Promise<SeriesLookup | null> {
+  const dataset = await prisma.dataset.findUnique({ where: { id: datasetId }, select: { externalId: true } });
+  if (!dataset) return () => null;
+
+  // Datasets above the full-read cap can never be resolved
+  const data = await getDatasetData(dataset.externalId).catch((error) => {
+    if (error instanceof DatasetTooLargeError) return undefined;
+    throw error;
+  });
+  if (data === undefined) return () => null;
+  if (!data) return null;
+
+  return ({ measure, aggregate, dimension, key }) => {
+    try {
+      const result = extractTimeSeries(data.records, data.columns, {
+        measure: measure || undefined,
+        aggregate: (aggregate as SeriesAggregate) || undefined,
+        dimension: dimension || undefined,
+      });
+      const series = result.series.find((s) => s.key === (key || 'total')) || (key ? null : result.series[0]);
+      if (!series) return null;
+
+      return {
+        key: series.key,
+        measure: result.measure,
+        aggregate: result.aggregate,
+        dimension: result.dimension,
+        granularity: result.granularity,
+        points: series.points
+          .filter((p): p is typeof p & { value: number } => p.value !== null)
+          .map((p) => ({ period: p.period, value: p.value })),
+      };
+    } catch (error) {
+      if (error instanceof TimeSeriesError) return null;
+      throw error;
+    }
+  };
+}
+
+/**
+ * تقييم التوقعات المستحقة: مقارنة أول فترة بعد الفترة الأساسية بالقيمة الأساسية
+ */
+export async function evaluateSignalOutcomes(): Promise<{
+  evaluated: number;
+  hits: number;
+  misses: number;
+  noData: number;
+  unresolvable: number;
+  baselinesCaptured: number;
+}> {
+  const now = new Date();
+  const counts = { evaluated: 0, hits: 0, misses: 0, noData: 0, unresolvable: 0, baselinesCaptured: 0 };
+
+  const outcomes = await prisma.signalOutcome.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [{ evaluateAfter: { lte: now } }, { baselineValue: null }],
+    },
+    orderBy: { evaluateAfter: 'asc' },
+    take: EVALUATION_BATCH,
+  });
+
+  const lookups = new Map<string, SeriesLookup | null>();
+
+  for (const outcome of outcomes) {
+    try {
+      if (!lookups.has(outcome.datasetId!)) {
+        lookups.set(outcome.datasetId!, await loadSeriesLookup(outcome.datasetId!));
+      }
+      const lookup = lookups.get(outcome.datasetId!);
+      if (!lookup) continue;
+
+      const series = lookup({
+        measure: outcome.measure,
+        aggregate: outcome.aggregate,
+        dimension: outcome.dimension,
+        key: outcome.seriesKey,
+      });
+
+      if (!series || series.points.length === 0) {
+        await prisma.signalOutcome.update({
+          where: { id: outcome.id },
+          data: { status: 'UNRESOLVABLE', evaluatedAt: now, note: 'Series not found in linked dataset' },
+        });
+        counts.unresolvable++;
+        continue;
+      }
+
+      // AI signals: capture the baseline on the first pass after issue
+      if (outcome.baselineValue === null) {
+        const latest = series.points[series.points.length - 1];
+        const horizon = horizonDays(outcome.signalType, series.granularity);
+        await prisma.signalOutcome.update({
+          where: { id: outcome.id },
+          data: {
+            measure: series.measure,
+            aggregate: series.aggregate,
+            dimension: series.dimension,
+            seriesKey: series.key,
+            granularity: series.granularity,
+            baselinePeriod: latest.period,
+            baselineValue: latest.value,
+            horizonDays: horizon,
+            evaluateAfter: new Date(outcome.createdAt.getTime() + horizon * DAY_MS),
+          },
+        });
+        counts.baselinesCaptured++;
+        continue;
+      }
+
+      if (outcome.evaluateAfter > now) continue;
+
+      const realized = series.points.find((p) => p.period > outcome.baselinePeriod!);
+      if (!realized) {
+        const giveUpAt = outcome.evaluateAfter.getTime() + outcome.horizonDays * NO_DATA_GRACE_FACTOR * DAY_MS;
+        if (now.getTime() > giveUpAt) {
+          await prisma.signalOutcome.update({
+            where: { id: outcome.id },
+            data: { status: 'NO_DATA', evaluatedAt: now, note: `No period after ${outcome.baselinePeriod}` },
+          });
+          counts.noData++;
+        }
+        continue;
+      }
+
+      if (outcome.baselineValue === 0) {
+        await prisma.signalOutcome.update({
+          where: { id: outcome.id },
+          data: { status: 'UNRESOLVABLE', evaluatedAt: now, realizedPeriod: realized.period, realizedValue: realized.value, note: 'Zero baseline' },
+        });
+        counts.unresolvable++;
+        continue;
+      }
+
+      const change = ((realized.value - outcome.baselineValue) / Math.abs(outcome.baselineValue)) * 100;
+      const hit = realizedTrend(change) === outcome.predictedTrend;
+
+      await prisma.signalOutcome.update({
+        where: { id: outcome.id },
+        data: {
+          status: hit ? 'HIT' : 'MISS',
+          realizedPeriod: realized.period,
+          realizedValue: realized.value,
+          realizedChange: round(change),
+          evaluatedAt: now,
+        },
+      });
+      counts.evaluated++;
+      if (hit) counts.hits++;
+      else counts.misses++;
+    } catch (error) {
+      logger.error(`Error evaluating signal outcome ${outcome.id}:`, error);
+    }
+  }
+
+  logger.info(
+    `🎯 Signal outcomes: ${counts.evaluated} evaluated (${counts.hits} hits, ${counts.misses} misses), ` +
+      `${counts.noData} no data, ${counts.unresolvable} unresolvable, ${counts.baselinesCaptured} baselines captured`
+  );
+  return counts;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Reporting
+// ═══════════════════════════════════════════════════════════════════
+
+type OutcomeRow = {
+  generator: string;
+  signalType: string;
+  sector: string | null;
+  status: string;
+  confidence: number;
+};
+
+function summarize(rows: OutcomeRow[]): BacktestSummary {
+  const resolved = rows.filter((r) => RESOLVED.includes(r.status as OutcomeStatus));
+  const hits = resolved.filter((r) => r.status === 'HIT').length;
+  const brier = resolved.reduce((sum, r) => sum + (r.confidence / 100 - (r.status === 'HIT' ? 1 : 0)) ** 2, 0);
+
+  return {
+    total: rows.length,
+    pending: rows.filter((r) => r.status === 'PENDING').length,
+    resolved: resolved.length,
+    hits,
+    misses: resolved.length - hits,
+    noData: rows.filter((r) => r.status === 'NO_DATA').length,
+    unresolvable: rows.filter((r) => r.status === 'UNRESOLVABLE').length,
+    hitRate: resolved.length > 0 ? round((hits / resolved.length) * 100, 1) : null,
+    avgConfidence: resolved.length > 0 ? round(resolved.reduce((s, r) => s + r.confidence, 0) / resolved.length, 1) : null,
+    brierScore: resolved.length > 0 ? round(brier / resolved.length, 4) : null,
+  };
+}
+
+function groupSummaries<K extends string>(
+  rows: OutcomeRow[],
+  field: K,
+  keyOf: (row: OutcomeRow) => string
+): (BacktestSummary & Record<K, string>)[] {
+  const groups = new Map<string, OutcomeRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ [field]: key, ...summarize(group) }) as BacktestSummary & Record<K, string>)
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * المعايرة: لكل شريحة ثقة، متوسط الثقة المعلنة مقابل نسبة الإصابة الفعلية
+ */
+function calibration(rows: OutcomeRow[]): CalibrationBucket[] {
+  const resolved = rows.filter((r) => RESOLVED.includes(r.status as OutcomeStatus));
+  const buckets: CalibrationBucket[] = [];
+
+  for (let i = 0; i < CALIBRATION_EDGES.length - 1; i++) {
+    const [low, high] = [CALIBRATION_EDGES[i], CALIBRATION_EDGES[i + 1]];
+    const inBucket = resolved.filter((r) => r.confidence >= low && r.confidence < high);
+    if (inBucket.length === 0) continue;
+
+    const avgConfidence = inBucket.reduce((s, r) => s + r.confidence, 0) / inBucket.length;
+    const hitRate = (inBucket.filter((r) => r.status === 'HIT').length / inBucket.length) * 100;
+    buckets.push({
+      range: `${low}-${Math.min(high, 100)}`,
+      signals: inBucket.length,
+      avgConfidence: round(avgConfidence, 1),
+      hitRate: round(hitRate, 1),
+      gap: round(hitRate - avgConfidence, 1),
+    });
+  }
+
+  return buckets;
+}
+
+/**
+ * تقرير التقييم: نسبة الإصابة والمعايرة حسب المولّد والنوع والقطاع
+ */
+export async function getBacktestReport(filters: BacktestFilters = {}): Promise<BacktestReport> {
+  const rows = await prisma.signalOutcome.findMany({
+    where: {
+      ...(filters.generator && { generator: filters.generator }),
+      ...(filters.type && { signalType: filters.type }),
+      ...(filters.sector && { sector: filters.sector }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    },
+    select: { generator: true, signalType: true, sector: true, status: true, confidence: true },
+  });
+
+  return {
+    filters,
+    overall: summarize(rows),
+    byGenerator: groupSummaries(rows, 'generator', (r) => r.generator),
+    byType: groupSummaries(rows, 'type', (r) => r.signalType),
+    bySector: groupSummaries(rows, 'sector', (r) => r.sector || 'unknown'),
+    calibration: calibration(rows),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  recordSignalPrediction,
+  evaluateSignalOutcomes,
+  getBacktestReport,
+  generatorOf,
+  realizedTrend,
+};
@@ -0,0 +1,645 @@
+/**
+ * محرك الإشارات الإحصائية - Statistical Signal Engine
+ *
+ * يحسب الإشارات من القيم الفعلية للسلاسل الزمنية داخل الـ Datasets (وليس من أعدادها):
+ * التغير السنوي والربعي، الشذوذ بمعيار z، الاختراق فوق/تحت النطاق التاريخي،
+ * وتباعد المناطق عن المستوى الوطني. كل إشارة تحمل السلسلة والحساب المستخدم
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './database.js';
+import { getDatasetData, MAX_FULL_READ_ROWS } from './onDemandData.js';
+import { extractTimeSeries, Granularity, SeriesAggregate, TimeSeriesError } from './timeSeries.js';
+import { toNumber, isEmptyValue } from './datasetQuery.js';
+import { PUBLIC_DATASETS_WHERE } from './privateDatasets.js';
+import { FLAGGED_STATUSES } from './verificationCascade.js';
+import { evaluateAccess, applyAccessDecision, visibleColumns, PolicyDataset, POLICY_SELECT } from './accessPolicy.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type SignalMethod = 'yoy' | 'qoq' | 'zscore' | 'breakout' | 'regional_divergence';
+export type StatisticalSignalType = 'OPPORTUNITY' | 'RISK' | 'TREND' | 'ALERT';
+
+export interface SeriesPoint {
+  period: string;
+  value: number;
+}
+
+export interface SignalSeries {
+  key: string; // "total" أو اسم المنطقة
+  dimension: string | null; // عمود المنطقة للسلاسل الإقليمية
+  measure: string;
+  aggregate: SeriesAggregate;
+  granularity: Granularity;
+  points: SeriesPoint[];
+}
+
+export interface SignalComputation {
+  method: SignalMethod;
+  formula: string;
+  inputs: Record<string, unknown>;
+  result: Record<string, number | string | null>;
+  thresholds: Record<string, number>;
+}
+
+export interface StatisticalSignal {
+  method: SignalMethod;
+  type: StatisticalSignalType;
+  trend: 'UP' | 'DOWN' | 'STABLE';
+  title: string;
+  titleAr: string;
+  summary: string;
+  summaryAr: string;
+  impactScore: number;
+  confidence: number;
+  region: string | null;
+  datasetId: string;
+  datasetName: string;
+  datasetNameAr: string;
+  category: string;
+  period: string;
+  series: SignalSeries;
+  computation: SignalComputation;
+}
+
+export interface SignalEngineResult {
+  signals: StatisticalSignal[];
+  analyzed: number;
+  analyzedIds: string[];
+  seriesAnalyzed: number;
+  skipped: { datasetId: string; reason: string }[];
+}
+
+interface DatasetRef {
+  id: string;
+  externalId: string;
+  name: string;
+  nameAr: string;
+  category: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const DEFAULT_DATASET_LIMIT = 30;
+const MAX_MEASURES = 3; // أعمدة القيم المحللة لكل Dataset
+const MAX_SERIES_POINTS = 40; // النقاط المحفوظة في تفاصيل الإشارة
+
+const YOY_THRESHOLD = 10; // %
+const QOQ_THRESHOLD = 5; // %
+const Z_THRESHOLD = 2.5;
+const MIN_Z_HISTORY = 6;
+const MIN_BREAKOUT_HISTORY = 5;
+const DIVERGENCE_THRESHOLD = 10; // نقاط مئوية عن الوسيط
+const DIVERGENCE_ROBUST_Z = 2; // بُعد المنطقة عن الوسيط بوحدات MAD
+const MIN_REGIONS = 3;
+const MAX_REGIONS = 30;
+
+const REGION_COLUMN_PATTERN = /region|province|emirate|city|منطقة|المنطقة|مدينة|المدينة|محافظة|إمارة|الإمارة/i;
+const ID_COLUMN_PATTERN = /(^|[_\s])(id|code|no|number)([_\s]|$)|رمز|كود|الرقم|رقم/i;
+const AVERAGE_MEASURE_PATTERN = /rate|ratio|percent|%|index|average|avg|mean|price|معدل|نسبة|مؤشر|متوسط|سعر/i;
+
+const PERIOD_LABELS: Record<Granularity, { en: string; ar: string }> = {
+  year: { en: 'year', ar: 'السنة' },
+  quarter: { en: 'quarter', ar: 'الربع' },
+  month: { en: 'month', ar: 'الشهر' },
+  day: { en: 'day', ar: 'اليوم' },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions - Statistics
+// ═══════════════════════════════════════════════════════════════════
+
+function round(value: number, digits: number = 2): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((s, v) => s + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function confidenceFromHistory(points: number): number {
+  return clamp(Math.round(50 + points * 5), 50, 95);
+}
+
+/**
+ * الفترة السابقة بعدد خطوات (2024-Q1 - 4 = 2023-Q1)
+ */
+export function shiftPeriod(period: string, granularity: Granularity, steps: number): string | null {
+  if (granularity === 'year' && /^\d{4}$/.test(period)) {
+    return String(parseInt(period, 10) - steps);
+  }
+  const quarter = period.match(/^(\d{4})-Q([1-4])$/);
+  if (granularity === 'quarter' && quarter) {
+    const index = parseInt(quarter[1], 10) * 4 + parseInt(quarter[2], 10) - 1 - steps;
+    return `${Math.floor(index / 4)}-Q${(index % 4) + 1}`;
+  }
+  const month = period.match(/^(\d{4})-(\d{2})$/);
+  if (granularity === 'month' && month) {
+    const index = parseInt(month[1], 10) * 12 + parseInt(month[2], 10) - 1 - steps;
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+  }
+  return null;
+}
+
+export function yoyLag(granularity: Granularity): number | null {
+  if (granularity === 'year') return 1;
+  if (granularity === 'quarter') return 4;
+  if (granularity === 'month') return 12;
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Detectors (pure)
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تغير آخر فترة مقارنة بفترة سابقة (سنوي: نفس الفترة من العام الماضي، ربعي: الربع السابق)
+ */
+export function periodChange(
+  points: SeriesPoint[],
+  granularity: Granularity,
+  lag: number
+): { period: string; previousPeriod: string; current: number; previous: number; change: number; changePercent: number } | null {
+  if (points.length < 2) return null;
+  const last = points[points.length - 1];
+  const previousPeriod = shiftPeriod(last.period, granularity, lag);
+  if (!previousPeriod) return null;
+
+  const previous = points.find((p) => p.period === previousPeriod);
+  if (!previous || previous.value === 0) return null;
+
+  const change = last.value - previous.value;
+  return {
+    period: last.period,
+    previousPeriod,
+    current: last.value,
+    previous: previous.value,
+    change: round(change, 4),
+    changePercent: round((change / Math.abs(previous.value)) * 100),
+  };
+}
+
+/**
+ * معيار z لآخر قيمة مقارنة بالتاريخ السابق لها
+ */
+export function latestZScore(points: SeriesPoint[]): { z: number; mean: number; stdDev: number; n: number } | null {
+  if (points.length < MIN_Z_HISTORY + 1) return null;
+  const history = points.slice(0, -1).map((p) => p.value);
+  const sd = sampleStdDev(history);
+  if (sd === 0) return null;
+  const avg = mean(history);
+  return {
+    z: round((points[points.length - 1].value - avg) / sd),
+    mean: round(avg, 4),
+    stdDev: round(sd, 4),
+    n: history.length,
+  };
+}
+
+/**
+ * اختراق آخر قيمة لأعلى/أدنى قيمة تاريخية
+ */
+export function rangeBreakout(
+  points: SeriesPoint[]
+): { direction: 'above' | 'below'; level: number; margin: number; marginPercent: number | null; n: number } | null {
+  if (points.length < MIN_BREAKOUT_HISTORY + 1) return null;
+  const history = points.slice(0, -1).map((p) => p.value);
+  const last = points[points.length - 1].value;
+  const max = Math.max(...history);
+  const min = Math.min(...history);
+
+  if (last > max) {
+    return { direction: 'above', level: max, margin: round(last - max, 4), marginPercent: max !== 0 ? round(((last - max) / Math.abs(max)) * 100) : null, n: history.length };
+  }
+  if (last < min) {
+    return { direction: 'below', level: min, margin: round(min - last, 4), marginPercent: min !== 0 ? round(((min - last) / Math.abs(min)) * 100) : null, n: history.length };
+  }
+  return null;
+}
+
+/**
+ * المناطق التي يتباعد تغيرها السنوي عن وسيط المناطق (وسيط + MAD لمقاومة القيم الشاذة)
+ */
+export function regionalDivergence(
+  changes: { region: string; changePercent: number }[]
+): { region: string; changePercent: number; median: number; gap: number; robustZ: number }[] {
+  if (changes.length < MIN_REGIONS) return [];
+  const values = changes.map((c) => c.changePercent);
+  const med = median(values);
+  const mad = median(values.map((v) => Math.abs(v - med))) * 1.4826;
+
+  return changes
+    .map((c) => {
+      const gap = c.changePercent - med;
+      return { ...c, median: round(med), gap: round(gap), robustZ: mad > 0 ? round(gap / mad) : Infinity };
+    })
+    .filter((c) => Math.abs(c.gap) >= DIVERGENCE_THRESHOLD && Math.abs(c.robustZ) >= DIVERGENCE_ROBUST_Z);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Series extraction
+// ═══════════════════════════════════════════════════════════════════
+
+function isNumericColumn(records: Record<string, unknown>[], column: string): boolean {
+  const values = records.map((r) => r[column]).filter((v) => !isEmptyValue(v));
+  return values.length > 0 && values.filter((v) => toNumber(v) !== null).length / values.length >= 0.9;
+}
+
+function detectRegionColumn(records: Record<string, unknown>[], columns: string[]): string | null {
+  for (const column of columns.filter((c) => REGION_COLUMN_PATTERN.test(c))) {
+    const distinct = new Set(records.map((r) => r[column]).filter((v) => !isEmptyValue(v)).map(String));
+    if (distinct.size >= MIN_REGIONS && distinct.size <= MAX_REGIONS) return column;
+  }
+  return null;
+}
+
+function toPoints(points: { period: string; value: number | null }[]): SeriesPoint[] {
+  return points.filter((p): p is SeriesPoint => p.value !== null);
+}
+
+/**
+ * استخراج السلاسل القابلة للتحليل: السلسلة الإجمالية لكل عمود قيم، والسلاسل حسب المنطقة إن وُجد عمود منطقة
+ */
+export function extractSignalSeries(records: Record<string, unknown>[], columns: string[]) {
+  const sample = records.slice(0, 500);
+  const regionColumn = detectRegionColumn(sample, columns);
+
+  let base;
+  try {
+    base = extractTimeSeries(records, columns);
+  } catch (error) {
+    if (error instanceof TimeSeriesError) return { totals: [], regional: [], reason: error.message };
+    throw error;
+  }
+
+  // Wide tables have a single implicit measure (the cells)
+  const measures = base.layout === 'wide'
+    ? [base.measure]
+    : columns
+        .filter((c) => c !== base.periodColumn && c !== regionColumn && !ID_COLUMN_PATTERN.test(c))
+        .filter((c) => isNumericColumn(sample, c))
+        .slice(0, MAX_MEASURES);
+
+  const totals: SignalSeries[] = [];
+  const regional: { measure: string; aggregate: SeriesAggregate; granularity: Granularity; series: SignalSeries[] }[] = [];
+
+  for (const measure of measures) {
+    const aggregate: SeriesAggregate = AVERAGE_MEASURE_PATTERN.test(measure) ? 'avg' : 'sum';
+    const options = base.layout === 'wide' ? { aggregate } : { measure, aggregate, periodColumn: base.periodColumn! };
+
+    const total = extractTimeSeries(records, columns, options);
+    if (total.series[0]) {
+      totals.push({ key: 'total', dimension: null, measure, aggregate, granularity: total.granularity, points: toPoints(total.series[0].points) });
+    }
+
+    if (regionColumn) {
+      const byRegion = extractTimeSeries(records, columns, { ...options, dimension: regionColumn, maxSeries: MAX_REGIONS });
+      regional.push({
+        measure,
+        aggregate,
+        granularity: byRegion.granularity,
+        series: byRegion.series.map((s) => ({ key: s.key, dimension: regionColumn, measure, aggregate, granularity: byRegion.granularity, points: toPoints(s.points) })),
+      });
+    }
+  }
+
+  return { totals, regional, reason: measures.length === 0 ? 'No numeric measure column found' : null };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Signal builders
+// ═══════════════════════════════════════════════════════════════════
+
+function trimSeries(series: SignalSeries): SignalSeries {
+  return { ...series, points: series.points.slice(-MAX_SERIES_POINTS) };
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString('en-US') : String(round(value));
+}
+
+function signed(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}`;
+}
+
+function analyzeSeries(dataset: DatasetRef, series: SignalSeries): StatisticalSignal[] {
+  const signals: StatisticalSignal[] = [];
+  const { points, granularity, measure } = series;
+  if (points.length < 2) return signals;
+
+  const base = {
+    region: null,
+    datasetId: dataset.id,
+    datasetName: dataset.name,
+    datasetNameAr: dataset.nameAr,
+    category: dataset.category,
+    period: points[points.length - 1].period,
+    series: trimSeries(series),
+  };
+
+  // 1. Year-over-year
+  const lag = yoyLag(granularity);
+  const yoy = lag ? periodChange(points, granularity, lag) : null;
+  if (yoy && Math.abs(yoy.changePercent) >= YOY_THRESHOLD) {
+    const up = yoy.changePercent > 0;
+    signals.push({
+      ...base,
+      method: 'yoy',
+      type: 'TREND',
+      trend: up ? 'UP' : 'DOWN',
+      title: `${measure} ${up ? 'up' : 'down'} ${Math.abs(yoy.changePercent)}% year-over-year in ${dataset.name}`,
+      titleAr: `${measure} ${up ? 'ارتفع' : 'انخفض'} ${Math.abs(yoy.changePercent)}% على أساس سنوي في ${dataset.nameAr}`,
+      summary: `${measure} reached ${formatNumber(yoy.current)} in ${yoy.period} versus ${formatNumber(yoy.previous)} in ${yoy.previousPeriod} (${signed(yoy.changePercent)}%).`,
+      summaryAr: `بلغ ${measure} ${formatNumber(yoy.current)} في ${yoy.period} مقابل ${formatNumber(yoy.previous)} في ${yoy.previousPeriod} (${signed(yoy.changePercent)}%).`,
+      impactScore: clamp(Math.round(40 + Math.abs(yoy.changePercent)), 40, 95),
+      confidence: confidenceFromHistory(points.length),
+      computation: {
+        method: 'yoy',
+        formula: '(current - previous) / |previous| × 100',
+        inputs: { period: yoy.period, previousPeriod: yoy.previousPeriod, current: yoy.current, previous: yoy.previous, lag },
+        result: { change: yoy.change, changePercent: yoy.changePercent },
+        thresholds: { minAbsChangePercent: YOY_THRESHOLD },
+      },
+    });
+  }
+
+  // 2. Quarter-over-quarter
+  const qoq = granularity === 'quarter' ? periodChange(points, granularity, 1) : null;
+  if (qoq && Math.abs(qoq.changePercent) >= QOQ_THRESHOLD) {
+    const up = qoq.changePercent > 0;
+    signals.push({
+      ...base,
+      method: 'qoq',
+      type: 'TREND',
+      trend: up ? 'UP' : 'DOWN',
+      title: `${measure} ${up ? 'up' : 'down'} ${Math.abs(qoq.changePercent)}% quarter-over-quarter in ${dataset.name}`,
+      titleAr: `${measure} ${up ? 'ارتفع' : 'انخفض'} ${Math.abs(qoq.changePercent)}% على أساس ربعي في ${dataset.nameAr}`,
+      summary: `${measure} moved from ${formatNumber(qoq.previous)} in ${qoq.previousPeriod} to ${formatNumber(qoq.current)} in ${qoq.period} (${signed(qoq.changePercent)}%).`,
+      summaryAr: `تحرك ${measure} من ${formatNumber(qoq.previous)} في ${qoq.previousPeriod} إلى ${formatNumber(qoq.current)} في ${qoq.period} (${signed(qoq.changePercent)}%).`,
+      impactScore: clamp(Math.round(35 + Math.abs(qoq.changePercent) * 1.5), 35, 90),
+      confidence: confidenceFromHistory(points.length),
+      computation: {
+        method: 'qoq',
+        formula: '(current - previous quarter) / |previous quarter| × 100',
+        inputs: { period: qoq.period, previousPeriod: qoq.previousPeriod, current: qoq.current, previous: qoq.previous },
+        result: { change: qoq.change, changePercent: qoq.changePercent },
+        thresholds: { minAbsChangePercent: QOQ_THRESHOLD },
+      },
+    });
+  }
+
+  // 3. Z-score anomaly
+  const z = latestZScore(points);
+  if (z && Math.abs(z.z) >= Z_THRESHOLD) {
+    const up = z.z > 0;
+    const last = points[points.length - 1];
+    signals.push({
+      ...base,
+      method: 'zscore',
+      type: 'ALERT',
+      trend: up ? 'UP' : 'DOWN',
+      title: `Unusual ${up ? 'high' : 'low'} ${measure} in ${dataset.name} (z = ${z.z})`,
+      titleAr: `قيمة ${up ? 'مرتفعة' : 'منخفضة'} بشكل غير معتاد لـ ${measure} في ${dataset.nameAr} (z = ${z.z})`,
+      summary: `${measure} of ${formatNumber(last.value)} in ${last.period} is ${Math.abs(z.z)} standard deviations ${up ? 'above' : 'below'} its ${z.n}-period mean of ${formatNumber(z.mean)}.`,
+      summaryAr: `قيمة ${measure} البالغة ${formatNumber(last.value)} في ${last.period} تبعد ${Math.abs(z.z)} انحرافاً معيارياً ${up ? 'فوق' : 'تحت'} متوسط ${z.n} فترة (${formatNumber(z.mean)}).`,
+      impactScore: clamp(Math.round(40 + Math.abs(z.z) * 10), 40, 95),
+      confidence: confidenceFromHistory(z.n),
+      computation: {
+        method: 'zscore',
+        formula: '(latest - mean(history)) / stdDev(history)',
+        inputs: { period: last.period, latest: last.value, mean: z.mean, stdDev: z.stdDev, historyPoints: z.n },
+        result: { z: z.z },
+        thresholds: { minAbsZ: Z_THRESHOLD, minHistory: MIN_Z_HISTORY },
+      },
+    });
+  }
+
+  // 4. Breakout above / below the historical range
+  const breakout = rangeBreakout(points);
+  if (breakout) {
+    const above = breakout.direction === 'above';
+    const last = points[points.length - 1];
+    const label = PERIOD_LABELS[granularity];
+    signals.push({
+      ...base,
+      method: 'breakout',
+      type: above ? 'OPPORTUNITY' : 'RISK',
+      trend: above ? 'UP' : 'DOWN',
+      title: `${measure} breaks ${above ? 'above' : 'below'} its ${breakout.n}-${label.en} range in ${dataset.name}`,
+      titleAr: `${measure} يخترق ${above ? 'أعلى' : 'أدنى'} نطاقه التاريخي (${breakout.n} ${label.ar}) في ${dataset.nameAr}`,
+      summary: `${measure} of ${formatNumber(last.value)} in ${last.period} is ${above ? 'above the previous high' : 'below the previous low'} of ${formatNumber(breakout.level)}${breakout.marginPercent !== null ? ` by ${breakout.marginPercent}%` : ''}.`,
+      summaryAr: `قيمة ${measure} البالغة ${formatNumber(last.value)} في ${last.period} ${above ? 'تتجاوز أعلى' : 'تقل عن أدنى'} قيمة سابقة (${formatNumber(breakout.level)})${breakout.marginPercent !== null ? ` بنسبة ${breakout.marginPercent}%` : ''}.`,
+      impactScore: clamp(Math.round(50 + (breakout.marginPercent ?? 0)), 50, 95),
+      confidence: confidenceFromHistory(breakout.n),
+      computation: {
+        method: 'breakout',
+        formula: above ? 'latest > max(history)' : 'latest < min(history)',
+        inputs: { period: last.period, latest: last.value, level: breakout.level, historyPoints: breakout.n },
+        result: { direction: breakout.direction, margin: breakout.margin, marginPercent: breakout.marginPercent },
+        thresholds: { minHistory: MIN_BREAKOUT_HISTORY },
+      },
+    });
+  }
+
+  return signals;
+}
+
+function analyzeRegions(
+  dataset: DatasetRef,
+  group: { measure: string; aggregate: SeriesAggregate; granularity: Granularity; series: SignalSeries[] }
+): StatisticalSignal[] {
+  const lag = yoyLag(group.granularity);
+  if (!lag) return [];
+
+  // Compare regions on the same (latest common) period only
+  const changes = group.series
+    .map((s) => ({ region: s.key, series: s, change: periodChange(s.points, group.granularity, lag) }))
+    .filter((c) => c.change !== null);
+  if (changes.length < MIN_REGIONS) return [];
+
+  const latestPeriod = changes.map((c) => c.change!.period).sort().pop()!;
+  const comparable = changes.filter((c) => c.change!.period === latestPeriod);
+
+  const divergent = regionalDivergence(
+    comparable.map((c) => ({ region: c.region, changePercent: c.change!.changePercent }))
+  );
+
+  return divergent.map((d) => {
+    const source = comparable.find((c) => c.region === d.region)!;
+    const ahead = d.gap > 0;
+    return {
+      method: 'regional_divergence' as const,
+      type: 'TREND' as const,
+      trend: source.change!.changePercent > 0 ? 'UP' as const : 'DOWN' as const,
+      title: `${d.region} diverges from other regions on ${group.measure} (${signed(d.changePercent)}% vs median ${signed(d.median)}%)`,
+      titleAr: `${d.region} تتباعد عن بقية المناطق في ${group.measure} (${signed(d.changePercent)}% مقابل وسيط ${signed(d.median)}%)`,
+      summary: `Year-over-year change of ${group.measure} in ${d.region} for ${latestPeriod} is ${Math.abs(d.gap)} points ${ahead ? 'above' : 'below'} the median of ${comparable.length} regions in ${dataset.name}.`,
+      summaryAr: `التغير السنوي لـ ${group.measure} في ${d.region} لفترة ${latestPeriod} ${ahead ? 'أعلى' : 'أقل'} بـ ${Math.abs(d.gap)} نقطة من وسيط ${comparable.length} منطقة في ${dataset.nameAr}.`,
+      impactScore: clamp(Math.round(45 + Math.abs(d.gap)), 45, 95),
+      confidence: clamp(Math.round(45 + comparable.length * 4), 50, 90),
+      region: d.region,
+      datasetId: dataset.id,
+      datasetName: dataset.name,
+      datasetNameAr: dataset.nameAr,
+      category: dataset.category,
+      period: latestPeriod,
+      series: trimSeries(source.series),
+      computation: {
+        method: 'regional_divergence' as const,
+        formula: 'gap = regionYoY - median(regionsYoY); robustZ = gap / (1.4826 × MAD)',
+        inputs: {
+          period: latestPeriod,
+          regions: comparable.map((c) => ({ region: c.region, changePercent: c.change!.changePercent })),
+        },
+        result: { changePercent: d.changePercent, median: d.median, gap: d.gap, robustZ: Number.isFinite(d.robustZ) ? d.robustZ : null },
+        thresholds: { minGapPoints: DIVERGENCE_THRESHOLD, minRobustZ: DIVERGENCE_ROBUST_Z, minRegions: MIN_REGIONS },
+      },
+    };
+  });
+}
+
+/**
+ * تحليل سجلات Dataset واحد (بدون قاعدة بيانات أو شبكة)
+ */
+export function analyzeDatasetRecords(
+  dataset: DatasetRef,
+  records: Record<string, unknown>[],
+  columns: string[]
+): { signals: StatisticalSignal[]; seriesAnalyzed: number; reason: string | null } {
+  const { totals, regional, reason } = extractSignalSeries(records, columns);
+  const signals = [
+    ...totals.flatMap((s) => analyzeSeries(dataset, s)),
+    ...regional.flatMap((g) => analyzeRegions(dataset, g)),
+  ];
+  return {
+    signals,
+    seriesAnalyzed: totals.length + regional.reduce((n, g) => n + g.series.length, 0),
+    reason,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * الـ Datasets القابلة للتحليل: عامة، مُزامنة بنجاح، غير مرفوضة أو قيد المراجعة، وبحجم معقول
+ * (يستخدمها أيضاً اكتشاف الأنماط)
+ */
+export function analyzableDatasetsWhere(datasetIds?: string[]): Prisma.DatasetWhereInput {
+  return {
+    ...PUBLIC_DATASETS_WHERE,
+    isActive: true,
+    syncStatus: 'SUCCESS',
+    verificationStatus: { notIn: FLAGGED_STATUSES },
+    recordCount: { gt: 0, lte: MAX_FULL_READ_ROWS },
+    OR: [{ sensitivityLevel: null }, { sensitivityLevel: 'PUBLIC' }],
+    ...(datasetIds ? { id: { in: datasetIds } } : {}),
+  };
+}
+
+/**
+ * البيانات كما يراها الزائر: الإشارات والأنماط عامة، فتُطبق سياسة الـ Dataset (إخفاء، حجب PII، فلترة صفوف)
+ * قبل استخراج السلاسل - null إذا لم يكن الوصول مسموحاً
+ */
+export function publicView(
+  dataset: PolicyDataset,
+  data: { records: Record<string, unknown>[]; columns: string[] }
+): { records: Record<string, unknown>[]; columns: string[] } | null {
+  const access = evaluateAccess(dataset, { plan: 'FREE' });
+  if (!access) return null;
+  return {
+    records: applyAccessDecision(data.records, access).records,
+    columns: visibleColumns(data.columns, access),
+  };
+}
+
+/**
+ * تشغيل المحرك على الـ Datasets العامة (الأحدث تغيّراً أولاً)
+ */
+export async function runSignalEngine(
+  options: { datasetIds?: string[]; limit?: number } = {}
+): Promise<SignalEngineResult> {
+  const datasets = await prisma.dataset.findMany({
+    where: analyzableDatasetsWhere(options.datasetIds),
+    select: { id: true, externalId: true, name: true, nameAr: true, category: true, ...POLICY_SELECT },
+    orderBy: [{ lastChangedAt: { sort: 'desc', nulls: 'last' } }, { lastSyncAt: 'desc' }],
+    take: options.limit || DEFAULT_DATASET_LIMIT,
+  });
+
+  logger.info(`📐 Signal engine: analyzing ${datasets.length} datasets`);
+
+  const signals: StatisticalSignal[] = [];
+  const skipped: SignalEngineResult['skipped'] = [];
+  const analyzedIds: string[] = [];
+  let analyzed = 0;
+  let seriesAnalyzed = 0;
+
+  for (const dataset of datasets) {
+    try {
+      const fetched = await getDatasetData(dataset.externalId);
+      const data = fetched && publicView(dataset, fetched);
+      if (!data || data.records.length === 0) {
+        skipped.push({ datasetId: dataset.id, reason: 'No data' });
+        continue;
+      }
+
+      const result = analyzeDatasetRecords(dataset, data.records, data.columns);
+      if (result.seriesAnalyzed === 0) {
+        skipped.push({ datasetId: dataset.id, reason: result.reason || 'No time series' });
+        continue;
+      }
+
+      analyzed++;
+      analyzedIds.push(dataset.id);
+      seriesAnalyzed += result.seriesAnalyzed;
+      signals.push(...result.signals);
+    } catch (error) {
+      logger.error(`❌ Signal engine failed for ${dataset.externalId}:`, error);
+      skipped.push({ datasetId: dataset.id, reason: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  logger.info(`📐 Signal engine: ${signals.length} signals from ${seriesAnalyzed} series in ${analyzed} datasets`);
+  return { signals, analyzed, analyzedIds, seriesAnalyzed, skipped };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  runSignalEngine,
+  analyzeDatasetRecords,
+  periodChange,
+  latestZScore,
+  rangeBreakout,
+  regionalDivergence,
+  shiftPeriod,
+  yoyLag,
+  extractSignalSeries,
+  analyzableDatasetsWhere,
+  publicView,
+};
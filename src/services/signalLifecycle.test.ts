@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  subjectFromTitle,
+  buildIdentityKey,
+  defaultExpiry,
+  signalTtlDays,
+  saveSignalVersion,
+  saveSignalVersions,
+  getSignalHistory,
+  SignalInput,
+} from './signalLifecycle.js';
+
+// In-memory stand-in for the signals table (only the query shapes signalLifecycle uses)
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  const signals: Row[] = [];
+  let sequence = 0;
+  let clock = 0;
+
+  const matches = (row: Row, where: Row) => Object.entries(where).every(([key, value]) => row[key] === value);
+
+  const signal = {
+    findFirst: async ({ where, orderBy }: Row) => {
+      const found = signals.filter((r) => matches(r, where));
+      const direction = orderBy?.createdAt === 'desc' ? -1 : 1;
+      found.sort((a, b) => direction * (a.createdAt - b.createdAt));
+      return found[0] ? { ...found[0] } : null;
+    },
+    findUnique: async ({ where }: Row) => {
+      const row = signals.find((r) => r.id === where.id);
+      return row ? { ...row } : null;
+    },
+    create: async ({ data }: Row) => {
+      if (data.title === 'explode') throw new Error('insert failed');
+      const row = { id: `sig-${++sequence}`, previousId: null, supersededAt: null, createdAt: ++clock, ...data };
+      signals.push(row);
+      return { ...row };
+    },
+    update: async ({ where, data }: Row) => {
+      const row = signals.find((r) => r.id === where.id)!;
+      Object.assign(row, data);
+      return { ...row };
+    },
+  };
+
+  return { signals, signal, reset: () => { signals.length = 0; sequence = 0; clock = 0; } };
+});
+
+vi.mock('./database.js', () => ({
+  prisma: {
+    signal: db.signal,
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}));
+
+vi.mock('./cache.js', () => ({
+  cacheDel: vi.fn(async () => undefined),
+  CacheKeys: { signals: 'signals:list' },
+}));
+
+const { recordSignalPrediction, evaluateSignalAlerts } = vi.hoisted(() => ({
+  recordSignalPrediction: vi.fn(async () => undefined),
+  evaluateSignalAlerts: vi.fn(async (_signals: unknown[]) => undefined),
+}));
+
+vi.mock('./signalBacktest.js', () => ({ recordSignalPrediction }));
+vi.mock('./alertRules.js', () => ({ evaluateSignalAlerts }));
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function input(overrides: Partial<SignalInput> = {}): SignalInput {
+  return {
+    type: 'TREND',
+    title: 'Retail sales up 12%',
+    titleAr: 'ارتفاع مبيعات التجزئة 12%',
+    summary: 'Retail sales rose',
+    summaryAr: 'ارتفعت مبيعات التجزئة',
+    impactScore: 60,
+    confidence: 80,
+    trend: 'UP',
+    sector: 'Retail',
+    region: 'Riyadh',
+    datasetId: 'ds-1',
+    dataSource: 'signal_engine',
+    subject: 'ds-1:sales:yoy',
+    period: '2024-Q1',
+    details: { change: 12 },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.reset();
+  recordSignalPrediction.mockClear();
+  evaluateSignalAlerts.mockClear();
+});
+
+describe('identity and expiry', () => {
+  it('derives a subject from a title without its numbers and symbols', () => {
+    expect(subjectFromTitle('Retail sales up 12.5% (Q1)')).toBe('retail sales up q');
+    expect(subjectFromTitle('ارتفاع المبيعات ٣٠ (الربع ٢)')).toBe('ارتفاع المبيعات الربع');
+  });
+
+  it('builds the same identity key regardless of case, spacing and missing parts', () => {
+    expect(buildIdentityKey({ type: 'TREND', sector: ' Retail ', region: null, subject: 'Sales  Growth' }))
+      .toBe('trend|retail|-|sales growth');
+    expect(buildIdentityKey({ type: 'trend', sector: 'retail', region: undefined, subject: 'sales growth' }))
+      .toBe('trend|retail|-|sales growth');
+  });
+
+  it('uses the TTL of the signal type with a default for unknown types', () => {
+    expect(signalTtlDays('ALERT')).toBe(7);
+    expect(signalTtlDays('OTHER')).toBe(30);
+    expect(defaultExpiry('TREND', new Date('2024-01-01T00:00:00Z')).toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+});
+
+describe('saveSignalVersion', () => {
+  it('creates a new signal and records its prediction', async () => {
+    const { action, signal } = await saveSignalVersion(input());
+
+    expect(action).toBe('created');
+    expect(signal).toMatchObject({ identityKey: 'trend|retail|riyadh|ds-1:sales:yoy', isActive: true, previousId: null });
+    expect(JSON.parse(signal.details)).toEqual({ change: 12, period: '2024-Q1' });
+    expect(recordSignalPrediction).toHaveBeenCalledTimes(1);
+  });
+
+  it('updates the current signal in place when nothing material changed', async () => {
+    const first = await saveSignalVersion(input());
+
+    const { action, signal } = await saveSignalVersion(input({ impactScore: 65, title: 'Retail sales up 13%' }));
+
+    expect(action).toBe('updated');
+    expect(signal.id).toBe(first.signal.id);
+    expect(signal).toMatchObject({ impactScore: 65, title: 'Retail sales up 13%', isActive: true });
+    expect(db.signals).toHaveLength(1);
+    expect(recordSignalPrediction).toHaveBeenCalledTimes(1); // the original prediction stands
+  });
+
+  it.each([
+    ['the trend', { trend: 'DOWN' }],
+    ['the period', { period: '2024-Q2' }],
+    ['the impact by the material delta', { impactScore: 70 }],
+  ])('supersedes the current signal when %s changes', async (_label, change) => {
+    const first = await saveSignalVersion(input());
+
+    const { action, signal } = await saveSignalVersion(input(change));
+
+    expect(action).toBe('superseded');
+    expect(signal).toMatchObject({ previousId: first.signal.id, isActive: true });
+    expect(db.signals.find((s) => s.id === first.signal.id)).toMatchObject({ isActive: false });
+    expect(db.signals.find((s) => s.id === first.signal.id)!.supersededAt).toBeInstanceOf(Date);
+    expect(recordSignalPrediction).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps separate identities apart', async () => {
+    await saveSignalVersion(input());
+    const { action } = await saveSignalVersion(input({ region: 'Jeddah', trend: 'DOWN' }));
+
+    expect(action).toBe('created');
+    expect(db.signals.filter((s) => s.isActive)).toHaveLength(2);
+  });
+});
+
+describe('saveSignalVersions', () => {
+  it('counts each action, skips failures and alerts only on new versions', async () => {
+    await saveSignalVersion(input());
+    await saveSignalVersion(input({ subject: 'ds-1:price:yoy' }));
+
+    const counts = await saveSignalVersions([
+      input({ impactScore: 62 }), // updated
+      input({ subject: 'ds-1:price:yoy', trend: 'DOWN' }), // superseded
+      input({ subject: 'ds-2:jobs:yoy' }), // created
+      input({ subject: 'ds-3:broken', title: 'explode' }), // failed
+    ]);
+
+    expect(counts).toMatchObject({ created: 1, updated: 1, superseded: 1, failed: 1 });
+    expect(counts.keys).toHaveLength(3);
+
+    const alerted = evaluateSignalAlerts.mock.calls[0][0] as { identityKey: string }[];
+    expect(alerted.map((s) => s.identityKey)).toEqual([
+      'trend|retail|riyadh|ds-1:price:yoy',
+      'trend|retail|riyadh|ds-2:jobs:yoy',
+    ]);
+  });
+});
+
+describe('getSignalHistory', () => {
+  it('returns the version chain newest first from any version', async () => {
+    const v1 = await saveSignalVersion(input());
+    const v2 = await saveSignalVersion(input({ trend: 'DOWN' }));
+    const v3 = await saveSignalVersion(input({ trend: 'UP', period: '2024-Q2' }));
+    const ids = [v3.signal.id, v2.signal.id, v1.signal.id];
+
+    expect((await getSignalHistory(v1.signal.id))!.map((s) => s.id)).toEqual(ids);
+    expect((await getSignalHistory(v2.signal.id))!.map((s) => s.id)).toEqual(ids);
+    expect(await getSignalHistory('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * دورة حياة الإشارات - Signal Lifecycle
+ *
+ * لكل إشارة مفتاح هوية (النوع + القطاع + المنطقة + الموضوع):
+ * - نفس الهوية بدون تغيير جوهري: تُحدَّث الإشارة الحالية في مكانها وتُمدَّد صلاحيتها
+ * - تغيير جوهري (الاتجاه، الفترة، أو الأثر): نسخة جديدة مرتبطة بالسابقة التي تُعطَّل
+ * - مدة صلاحية افتراضية لكل نوع، ومهمة أرشفة تعطّل الإشارات المنتهية
+ * - كل إشارة جديدة أو نسخة جديدة تُسجَّل كتوقع يُقيَّم لاحقاً (signalBacktest)
+ *   وتُقيَّم عليها قواعد التنبيه الخاصة بالمستخدمين (alertRules)
+ */
+
+import { Signal } from '@prisma/client';
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { recordSignalPrediction } from './signalBacktest.js';
+import { evaluateSignalAlerts } from './alertRules.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type SignalSaveAction = 'created' | 'updated' | 'superseded';
+export type ArchiveReason = 'expired' | 'resolved' | 'legacy';
+
+export interface SignalInput {
+  type: string;
+  title: string;
+  titleAr: string;
+  summary: string;
+  summaryAr: string;
+  impactScore: number;
+  confidence: number;
+  trend: string;
+  region?: string | null;
+  sector?: string | null;
+  datasetId?: string | null;
+  dataSource: string;
+  subject: string; // ما تتحدث عنه الإشارة (dataset:measure:method، أو عنوان موحّد)
+  period?: string | null; // الفترة التي تصفها الإشارة - تغيّرها يعني نسخة جديدة
+  details: Record<string, unknown>;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+// مدة الصلاحية الافتراضية حسب نوع الإشارة (بالأيام)
+export const SIGNAL_TTL_DAYS: Record<string, number> = {
+  ALERT: 7,
+  OPPORTUNITY: 30,
+  RISK: 30,
+  TREND: 60,
+};
+
+const DEFAULT_TTL_DAYS = 30;
+const MATERIAL_IMPACT_DELTA = 10; // فرق الأثر الذي يستوجب نسخة جديدة
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function normalizeKeyPart(value: string | null | undefined): string {
+  return (value || '-').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * موضوع موحّد من العنوان: تُحذف الأرقام والرموز حتى لا تتغير الهوية بتغير القيم
+ */
+export function subjectFromTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[0-9٠-٩.,%+\-()=]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function buildIdentityKey(input: Pick<SignalInput, 'type' | 'sector' | 'region' | 'subject'>): string {
+  return [input.type, input.sector, input.region, input.subject].map(normalizeKeyPart).join('|');
+}
+
+export function signalTtlDays(type: string): number {
+  return SIGNAL_TTL_DAYS[type] ?? DEFAULT_TTL_DAYS;
+}
+
+export function defaultExpiry(type: string, from: Date = new Date()): Date {
+  return new Date(from.getTime() + signalTtlDays(type) * DAY_MS);
+}
+
+function storedPeriod(signal: Signal): string | null {
+  try {
+    return (JSON.parse(signal.details) as { period?: string }).period ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * هل تغيّرت الإشارة جوهرياً عن النسخة الحالية
+ */
+function isMaterialChange(current: Signal, input: SignalInput): boolean {
+  return (
+    current.trend !== input.trend ||
+    (input.period ?? null) !== storedPeriod(current) ||
+    Math.abs(current.impactScore - input.impactScore) >= MATERIAL_IMPACT_DELTA
+  );
+}
+
+function signalData(input: SignalInput, identityKey: string, now: Date) {
+  return {
+    type: input.type,
+    title: input.title,
+    titleAr: input.titleAr,
+    summary: input.summary,
+    summaryAr: input.summaryAr,
+    impactScore: input.impactScore,
+    confidence: input.confidence,
+    trend: input.trend,
+    region: input.region ?? null,
+    sector: input.sector ?? null,
+    datasetId: input.datasetId ?? null,
+    dataSource: input.dataSource,
+    details: JSON.stringify({ ...input.details, period: input.period ?? null }),
+    identityKey,
+    isActive: true,
+    lastConfirmedAt: now,
+    expiresAt: defaultExpiry(input.type, now),
+  };
+}
+
+/**
+ * تسجيل التوقع للتقييم اللاحق - فشله لا يُفشل حفظ الإشارة
+ * التحديث في المكان لا يغيّر التوقع، فيبقى التوقع الأصلي للنسخة
+ */
+async function recordPrediction(signal: Signal): Promise<void> {
+  try {
+    await recordSignalPrediction(signal);
+  } catch (error) {
+    logger.error(`Error recording prediction for signal ${signal.id}:`, error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * حفظ إشارة حسب هويتها: إنشاء، تحديث في المكان، أو إصدار نسخة جديدة تحل محل السابقة
+ */
+export async function saveSignalVersion(
+  input: SignalInput
+): Promise<{ action: SignalSaveAction; signal: Signal }> {
+  const identityKey = buildIdentityKey(input);
+  const now = new Date();
+
+  const current = await prisma.signal.findFirst({
+    where: { identityKey, isActive: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!current) {
+    const signal = await prisma.signal.create({ data: signalData(input, identityKey, now) });
+    await recordPrediction(signal);
+    return { action: 'created', signal };
+  }
+
+  if (!isMaterialChange(current, input)) {
+    const { identityKey: _key, isActive: _active, ...update } = signalData(input, identityKey, now);
+    const signal = await prisma.signal.update({ where: { id: current.id }, data: update });
+    return { action: 'updated', signal };
+  }
+
+  const [, signal] = await prisma.$transaction([
+    prisma.signal.update({
+      where: { id: current.id },
+      data: { isActive: false, supersededAt: now },
+    }),
+    prisma.signal.create({
+      data: { ...signalData(input, identityKey, now), previousId: current.id },
+    }),
+  ]);
+  await recordPrediction(signal);
+  return { action: 'superseded', signal };
+}
+
+/**
+ * حفظ مجموعة إشارات وإرجاع عدد كل نوع من العمليات
+ */
+export async function saveSignalVersions(
+  inputs: SignalInput[]
+): Promise<Record<SignalSaveAction, number> & { failed: number; keys: string[] }> {
+  const counts = { created: 0, updated: 0, superseded: 0, failed: 0, keys: [] as string[] };
+  const fresh: Signal[] = [];
+
+  for (const input of inputs) {
+    try {
+      const { action, signal } = await saveSignalVersion(input);
+      counts[action]++;
+      counts.keys.push(signal.identityKey!);
+      if (action !== 'updated') fresh.push(signal);
+    } catch (error) {
+      counts.failed++;
+      logger.error(`Error saving signal: ${input.title}`, error);
+    }
+  }
+
+  await cacheDel(CacheKeys.signals);
+  logger.info(`💾 Signals saved: ${counts.created} new, ${counts.updated} updated, ${counts.superseded} superseded`);
+
+  // Re-confirmed signals (updated in place) don't alert again
+  try {
+    await evaluateSignalAlerts(fresh);
+  } catch (error) {
+    logger.error('Error evaluating signal alert rules:', error);
+  }
+
+  return counts;
+}
+
+/**
+ * أرشفة الإشارات التي لم تعد شروطها قائمة (لم يُعِد التشغيل الأخير إنتاجها)
+ */
+export async function archiveResolvedSignals(
+  dataSource: string,
+  keepKeys: string[],
+  datasetIds: string[]
+): Promise<number> {
+  if (datasetIds.length === 0) return 0;
+
+  const { count } = await prisma.signal.updateMany({
+    where: {
+      dataSource,
+      isActive: true,
+      datasetId: { in: datasetIds },
+      identityKey: { notIn: keepKeys },
+    },
+    data: { isActive: false, archivedAt: new Date(), archiveReason: 'resolved' },
+  });
+
+  if (count > 0) {
+    logger.info(`🗄️ Archived ${count} resolved ${dataSource} signals`);
+  }
+  return count;
+}
+
+/**
+ * مهمة الأرشفة: تعطيل الإشارات المنتهية، والإشارات القديمة بلا تاريخ انتهاء حسب مدة نوعها
+ */
+export async function archiveStaleSignals(): Promise<{ expired: number; aged: number }> {
+  const now = new Date();
+
+  const expired = await prisma.signal.updateMany({
+    where: { isActive: true, expiresAt: { lt: now } },
+    data: { isActive: false, archivedAt: now, archiveReason: 'expired' },
+  });
+
+  let aged = 0;
+  const types = await prisma.signal.groupBy({
+    by: ['type'],
+    where: { isActive: true, expiresAt: null },
+  });
+
+  for (const { type } of types) {
+    const result = await prisma.signal.updateMany({
+      where: {
+        type,
+        isActive: true,
+        expiresAt: null,
+        createdAt: { lt: new Date(now.getTime() - signalTtlDays(type) * DAY_MS) },
+      },
+      data: { isActive: false, archivedAt: now, archiveReason: 'expired' },
+    });
+    aged += result.count;
+  }
+
+  if (expired.count + aged > 0) {
+    await cacheDel(CacheKeys.signals);
+    logger.info(`🗄️ Archived ${expired.count} expired and ${aged} aged signals`);
+  }
+
+  return { expired: expired.count, aged };
+}
+
+/**
+ * سلسلة نسخ الإشارة (الأحدث أولاً)
+ */
+export async function getSignalHistory(signalId: string): Promise<Signal[] | null> {
+  const signal = await prisma.signal.findUnique({ where: { id: signalId } });
+  if (!signal) return null;
+
+  // Newer versions point back to this one; walk forward to the latest first
+  const newer: Signal[] = [];
+  let cursor = signal;
+  for (;;) {
+    const next = await prisma.signal.findFirst({ where: { previousId: cursor.id }, orderBy: { createdAt: 'asc' } });
+    if (!next) break;
+    newer.unshift(next);
+    cursor = next;
+  }
+
+  const older: Signal[] = [];
+  cursor = signal;
+  while (cursor.previousId) {
+    const previous = await prisma.signal.findUnique({ where: { id: cursor.previousId } });
+    if (!previous) break;
+    older.push(previous);
+    cursor = previous;
+  }
+
+  return [...newer, signal, ...older];
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  saveSignalVersion,
+  saveSignalVersions,
+  archiveResolvedSignals,
+  archiveStaleSignals,
+  getSignalHistory,
+  buildIdentityKey,
+  subjectFromTitle,
+  defaultExpiry,
+  SIGNAL_TTL_DAYS,
+};
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizePeriod,
+  hijriToGregorian,
+  detectPeriodColumns,
+  detectWidePeriodColumns,
+  pivotWideToLong,
+  extractTimeSeries,
+  TimeSeriesError,
+} from './timeSeries.js';
+
+const period = (value: unknown, options?: { bareYears?: boolean }) => normalizePeriod(value, options)?.period ?? null;
+
+describe('hijriToGregorian', () => {
+  it('converts known Hijri dates', () => {
+    expect(hijriToGregorian(1445, 1, 1).toISOString().slice(0, 10)).toBe('2023-07-19');
+    expect(hijriToGregorian(1445, 9, 1).toISOString().slice(0, 10)).toBe('2024-03-11');
+  });
+});
+
+describe('normalizePeriod', () => {
+  it('parses Gregorian and fiscal years', () => {
+    expect(normalizePeriod('2023م')).toEqual({ period: '2023', granularity: 'year', start: '2023-01-01', calendar: 'gregorian' });
+    expect(period('FY2023')).toBe('2023');
+    expect(period('2023/24')).toBe('2023');
+    expect(period('2023/2025')).toBeNull(); // not a fiscal range
+  });
+
+  it('maps Hijri years to the Gregorian year holding their middle', () => {
+    expect(normalizePeriod('1445هـ')).toEqual({ period: '2024', granularity: 'year', start: '2024-01-01', calendar: 'hijri' });
+    expect(period('١٤٤٥ هـ')).toBe('2024');
+  });
+
+  it('accepts bare numbers as years only when asked to', () => {
+    expect(normalizePeriod(2023)).toBeNull();
+    expect(period(2023, { bareYears: true })).toBe('2023');
+    expect(normalizePeriod(1445, { bareYears: true })?.calendar).toBe('hijri');
+    expect(period('1445')).toBeNull();
+  });
+
+  it('parses English quarter labels in either order', () => {
+    expect(normalizePeriod('Q1 2023')).toEqual({ period: '2023-Q1', granularity: 'quarter', start: '2023-01-01', calendar: 'gregorian' });
+    expect(period('2023Q4')).toBe('2023-Q4');
+    expect(period('Q3-2023')).toBe('2023-Q3');
+  });
+
+  it('parses Arabic quarter labels', () => {
+    expect(period('الربع الأول 2023')).toBe('2023-Q1');
+    expect(period('2023 الربع الثالث')).toBe('2023-Q3');
+    expect(period('ر2 2023')).toBe('2023-Q2');
+    expect(normalizePeriod('الربع الخامس 2023')).toBeNull();
+  });
+
+  it('parses numeric and named months, Gregorian and Hijri', () => {
+    expect(period('2023-03')).toBe('2023-03');
+    expect(period('03/2023')).toBe('2023-03');
+    expect(period('مارس 2023')).toBe('2023-03');
+    expect(period('Mar-2023')).toBe('2023-03');
+    expect(normalizePeriod('رمضان 1445')).toEqual({ period: '2024-03', granularity: 'month', start: '2024-03-01', calendar: 'hijri' });
+    expect(period('1445-09')).toBe('2024-03');
+    expect(period('2023-13')).toBeNull();
+  });
+
+  it('parses full Hijri and Gregorian dates', () => {
+    expect(normalizePeriod('15/09/1445')).toEqual({ period: '2024-03-25', granularity: 'day', start: '2024-03-25', calendar: 'hijri' });
+    expect(period('2023-03-15')).toBe('2023-03-15');
+    expect(period(new Date('2023-03-15T00:00:00Z'))).toBe('2023-03-15');
+  });
+});
+
+describe('detectPeriodColumns', () => {
+  it('finds period columns by coverage and prefers header hints', () => {
+    const records = [
+      { 'السنة': 1443, code: 'Q1 2023', value: 5 },
+      { 'السنة': 1444, code: 'Q2 2023', value: 6 },
+      { 'السنة': 1445, code: 'Q3 2023', value: 7 },
+    ];
+
+    const detected = detectPeriodColumns(records, ['code', 'السنة', 'value']);
+
+    expect(detected.map((p) => p.column)).toEqual(['السنة', 'code']);
+    expect(detected[0]).toMatchObject({ granularity: 'year', calendar: 'hijri', coverage: 1 });
+    expect(detected[1]).toMatchObject({ granularity: 'quarter', calendar: 'gregorian' });
+  });
+});
+
+describe('wide layout', () => {
+  const records = [
+    { region: 'الرياض', '2021': 10, '2022': 12, '1445هـ': 15 },
+    { region: 'جدة', '2021': 4, '2022': '5', '1445هـ': null },
+  ];
+  const columns = ['region', '2021', '2022', '1445هـ'];
+
+  it('detects period headers and needs at least two of them', () => {
+    expect(detectWidePeriodColumns(columns).map((w) => w.period.period)).toEqual(['2021', '2022', '2024']);
+    expect(detectWidePeriodColumns(['region', '2021'])).toEqual([]);
+  });
+
+  it('pivots to one row per record and period', () => {
+    const long = pivotWideToLong(records, columns);
+
+    expect(long.columns).toEqual(['region', 'period', 'value']);
+    expect(long.records).toHaveLength(6);
+    expect(long.records[2]).toEqual({ region: 'الرياض', period: '2024', value: 15 });
+  });
+
+  it('extracts one series per dimension value', () => {
+    const result = extractTimeSeries(records, columns, { dimension: 'region' });
+
+    expect(result).toMatchObject({ layout: 'wide', granularity: 'year', periodColumns: ['2021', '2022', '1445هـ'] });
+    expect(result.series.map((s) => s.key)).toEqual(['الرياض', 'جدة']);
+    expect(result.series[1].points.map((p) => p.value)).toEqual([4, 5, null]);
+  });
+});
+
+describe('extractTimeSeries (long layout)', () => {
+  const records = [
+    { quarter: 'الربع الأول 2023', region: 'الرياض', sales: 10 },
+    { quarter: 'الربع الأول 2023', region: 'جدة', sales: 5 },
+    { quarter: 'Q2 2023', region: 'الرياض', sales: 20 },
+    { quarter: '2023 الربع الثاني', region: 'جدة', sales: 8 },
+    { quarter: 'غير معروف', region: 'الرياض', sales: 1 },
+  ];
+  const columns = ['quarter', 'region', 'sales'];
+
+  it('aggregates Arabic and English quarter labels into one ordered series', () => {
+    const result = extractTimeSeries(records, columns);
+
+    expect(result).toMatchObject({ layout: 'long', granularity: 'quarter', periodColumn: 'quarter', measure: 'sales', skippedRows: 1 });
+    expect(result.series).toEqual([{
+      key: 'total',
+      points: [
+        { period: '2023-Q1', start: '2023-01-01', value: 15, count: 2 },
+        { period: '2023-Q2', start: '2023-04-01', value: 28, count: 2 },
+      ],
+    }]);
+  });
+
+  it('supports other aggregates', () => {
+    const avg = extractTimeSeries(records, columns, { aggregate: 'avg' });
+    expect(avg.series[0].points[0].value).toBe(7.5);
+
+    const count = extractTimeSeries(records, columns, { aggregate: 'count', measure: 'sales' });
+    expect(count.series[0].points.map((p) => p.value)).toEqual([2, 2]);
+  });
+
+  it('rejects unknown columns and data without a period column', () => {
+    expect(() => extractTimeSeries(records, columns, { measure: 'missing' })).toThrow(TimeSeriesError);
+    expect(() => extractTimeSeries([{ name: 'a', v: 1 }], ['name', 'v'])).toThrow('No period column detected');
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * خدمة السلاسل الزمنية - Time Series Service
+ *
+ * تكتشف أعمدة الفترات (سنة، ربع، شهر، تاريخ) بعناوين عربية أو إنجليزية،
+ * وتوحّد التواريخ الهجرية والميلادية وتسميات الأرباع إلى فترات ISO،
+ * وتحوّل الجداول العريضة (عمود لكل سنة) إلى صيغة طويلة موحدة
+ */
+
+import { getDatasetData } from './onDemandData.js';
+import { toNumber, isEmptyValue } from './datasetQuery.js';
+import { parseGregorianDate, parseHijriDate } from './columnProfiler.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type Granularity = 'year' | 'quarter' | 'month' | 'day';
+export type SeriesAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface NormalizedPeriod {
+  period: string; // 2023 | 2023-Q1 | 2023-03 | 2023-03-15
+  granularity: Granularity;
+  start: string; // YYYY-MM-DD
+  calendar: 'gregorian' | 'hijri';
+}
+
+export interface PeriodColumn {
+  column: string;
+  granularity: Granularity;
+  coverage: number; // نسبة القيم القابلة للتحويل (0-1)
+  calendar: 'gregorian' | 'hijri';
+}
+
+export interface TimeSeriesPoint {
+  period: string;
+  start: string;
+  value: number | null;
+  count: number;
+}
+
+export interface TimeSeries {
+  key: string; // قيمة البُعد أو "total"
+  points: TimeSeriesPoint[];
+}
+
+export interface TimeSeriesResult {
+  layout: 'long' | 'wide';
+  granularity: Granularity;
+  periodColumn: string | null; // الصيغة الطويلة
+  periodColumns: string[]; // الصيغة العريضة (عمود لكل فترة)
+  measure: string;
+  dimension: string | null;
+  aggregate: SeriesAggregate;
+  series: TimeSeries[];
+  skippedRows: number;
+}
+
+export interface TimeSeriesOptions {
+  measure?: string;
+  dimension?: string;
+  periodColumn?: string;
+  aggregate?: SeriesAggregate;
+  maxSeries?: number;
+}
+
+export class TimeSeriesError extends Error {
+  constructor(
+    message: string,
+    public readonly messageAr: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'TimeSeriesError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+const PERIOD_COVERAGE_THRESHOLD = 0.8;
+const MIN_WIDE_COLUMNS = 2;
+const DEFAULT_MAX_SERIES = 50;
+const TOTAL_KEY = 'total';
+
+// عناوين تدل على عمود فترة
+const PERIOD_HEADER_PATTERN = /(^|[_\s.])(year|yr|period|fiscal|quarter|month|date)([_\s.]|$)|سنة|السنة|العام|عام|الفترة|فترة|الربع|ربع|الشهر|شهر|التاريخ|تاريخ/i;
+
+const ARABIC_QUARTERS: Record<string, number> = {
+  'الأول': 1, 'الاول': 1, 'أول': 1, 'اول': 1,
+  'الثاني': 2, 'الثانى': 2, 'ثاني': 2, 'ثانى': 2,
+  'الثالث': 3, 'ثالث': 3,
+  'الرابع': 4, 'رابع': 4,
+};
+
+const GREGORIAN_MONTHS: Record<string, number> = {
+  jan: 1, january: 1, 'يناير': 1, 'كانون الثاني': 1,
+  feb: 2, february: 2, 'فبراير': 2, 'شباط': 2,
+  mar: 3, march: 3, 'مارس': 3, 'آذار': 3, 'اذار': 3,
+  apr: 4, april: 4, 'أبريل': 4, 'ابريل': 4, 'إبريل': 4, 'نيسان': 4,
+  may: 5, 'مايو': 5, 'أيار': 5, 'ايار': 5,
+  jun: 6, june: 6, 'يونيو': 6, 'يونيه': 6, 'حزيران': 6,
+  jul: 7, july: 7, 'يوليو': 7, 'يوليه': 7, 'تموز': 7,
+  aug: 8, august: 8, 'أغسطس': 8, 'اغسطس': 8, 'آب': 8,
+  sep: 9, sept: 9, september: 9, 'سبتمبر': 9, 'أيلول': 9, 'ايلول': 9,
+  oct: 10, october: 10, 'أكتوبر': 10, 'اكتوبر': 10, 'تشرين الأول': 10,
+  nov: 11, november: 11, 'نوفمبر': 11, 'تشرين الثاني': 11,
+  dec: 12, december: 12, 'ديسمبر': 12, 'كانون الأول': 12,
+};
+
+const HIJRI_MONTHS: Record<string, number> = {
+  'محرم': 1, 'صفر': 2,
+  'ربيع الأول': 3, 'ربيع الاول': 3, 'ربيع الآخر': 4, 'ربيع الاخر': 4, 'ربيع الثاني': 4,
+  'جمادى الأولى': 5, 'جمادى الاولى': 5, 'جمادى الآخرة': 6, 'جمادى الاخرة': 6, 'جمادى الثانية': 6,
+  'رجب': 7, 'شعبان': 8, 'رمضان': 9, 'شوال': 10,
+  'ذو القعدة': 11, 'ذي القعدة': 11, 'ذو الحجة': 12, 'ذي الحجة': 12,
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function normalizeText(value: string): string {
+  return value
+    .replace(/[٠-٩۰-۹]/g, (d) => String(d.charCodeAt(0) & 0xf))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * تحويل تاريخ هجري إلى ميلادي (التقويم الهجري الجدولي)
+ */
+export function hijriToGregorian(year: number, month: number, day: number): Date {
+  const julianDay = day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) + 1948439.5 - 1;
+  const date = new Date((julianDay - 2440587.5) * 86400000);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function yearPeriod(year: number, calendar: 'gregorian' | 'hijri'): NormalizedPeriod {
+  // السنة الهجرية تُنسب للسنة الميلادية التي يقع فيها منتصفها
+  const gregorianYear = calendar === 'hijri' ? hijriToGregorian(year, 7, 1).getUTCFullYear() : year;
+  return { period: String(gregorianYear), granularity: 'year', start: `${gregorianYear}-01-01`, calendar };
+}
+
+function quarterPeriod(year: number, quarter: number): NormalizedPeriod {
+  return {
+    period: `${year}-Q${quarter}`,
+    granularity: 'quarter',
+    start: `${year}-${pad((quarter - 1) * 3 + 1)}-01`,
+    calendar: 'gregorian',
+  };
+}
+
+function monthPeriod(date: Date, calendar: 'gregorian' | 'hijri'): NormalizedPeriod {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  return { period: `${year}-${pad(month)}`, granularity: 'month', start: `${year}-${pad(month)}-01`, calendar };
+}
+
+function isGregorianYear(n: number): boolean {
+  return Number.isInteger(n) && n >= 1900 && n <= 2100;
+}
+
+function isHijriYear(n: number): boolean {
+  return Number.isInteger(n) && n >= 1300 && n < 1500;
+}
+
+function lookupMonth(name: string, table: Record<string, number>): number | null {
+  const key = name.trim().toLowerCase().replace(/\.$/, '');
+  return table[key] ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions - Period Normalization
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * توحيد قيمة فترة إلى صيغة ISO
+ * bareYears: قبول الأرقام المجردة كسنوات (فقط لأعمدة عنوانها يدل على سنة)
+ */
+export function normalizePeriod(value: unknown, options: { bareYears?: boolean } = {}): NormalizedPeriod | null {
+  if (isEmptyValue(value)) return null;
+
+  if (typeof value === 'number') {
+    if (!options.bareYears) return null;
+    if (isGregorianYear(value)) return yearPeriod(value, 'gregorian');
+    if (isHijriYear(value)) return yearPeriod(value, 'hijri');
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? null
+      : { period: isoDate(value), granularity: 'day', start: isoDate(value), calendar: 'gregorian' };
+  }
+
+  const text = normalizeText(String(value));
+  let match: RegExpMatchArray | null;
+
+  // 1. Year: "2023", "1445", "1445هـ", "2023م", "FY2023", "2023/2024" (fiscal → first year)
+  match = text.match(/^(?:fy\s*)?(\d{4})\s*(هـ|ه|م)?(?:\s*\/\s*(\d{2}|\d{4})|\s*-\s*(\d{4}))?$/i);
+  // fiscal range must end with the following year ("2023/24"), otherwise it is a month ("2023-03")
+  const fiscalEnd = match ? match[3] || match[4] : undefined;
+  if (match && (!fiscalEnd || Number(fiscalEnd) % 100 === (Number(match[1]) + 1) % 100)) {
+    const year = Number(match[1]);
+    const suffix = match[2];
+    if (suffix === 'هـ' || suffix === 'ه') return isHijriYear(year) ? yearPeriod(year, 'hijri') : null;
+    if (isGregorianYear(year)) return yearPeriod(year, 'gregorian');
+    if (isHijriYear(year) && (options.bareYears || suffix)) return yearPeriod(year, 'hijri');
+    return null;
+  }
+
+  // 2. Quarter: "Q1 2023", "2023 Q1", "2023-Q1", "2023Q1", "Q1-2023"
+  match = text.match(/^q([1-4])\s*[-/ ]?\s*(\d{4})$/i) || text.match(/^(\d{4})\s*[-/ ]?\s*q([1-4])$/i);
+  if (match) {
+    const [quarter, year] = /^q/i.test(text) ? [Number(match[1]), Number(match[2])] : [Number(match[2]), Number(match[1])];
+    return isGregorianYear(year) ? quarterPeriod(year, quarter) : null;
+  }
+
+  // 3. Arabic quarter: "الربع الأول 2023", "الربع 1 2023", "ر1 2023", "2023 الربع الثاني"
+  match = text.match(/^(?:الربع|ربع|ر(?=\s*[1-4]))\s*(\S+)\s*(?:من\s*)?(?:عام\s*)?(\d{4})\s*(هـ|ه|م)?$/) ||
+    text.match(/^(\d{4})\s*(هـ|ه|م)?\s*(?:الربع|ربع|ر(?=\s*[1-4]))\s*(\S+)$/);
+  if (match) {
+    const leadingYear = /^\d{4}/.test(text);
+    const label = leadingYear ? match[3] : match[1];
+    const year = Number(leadingYear ? match[1] : match[2]);
+    const quarter = /^[1-4]$/.test(label) ? Number(label) : ARABIC_QUARTERS[label];
+    if (quarter && isGregorianYear(year)) return quarterPeriod(year, quarter);
+  }
+
+  // 4. Month: "2023-03", "2023/3", "03/2023", "3-2023"
+  match = text.match(/^(\d{4})[-/.](\d{1,2})$/) || text.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (match) {
+    const [year, month] = match[1].length === 4 ? [Number(match[1]), Number(match[2])] : [Number(match[2]), Number(match[1])];
+    if (month < 1 || month > 12) return null;
+    if (isGregorianYear(year)) return monthPeriod(new Date(Date.UTC(year, month - 1, 1)), 'gregorian');
+    if (isHijriYear(year)) return monthPeriod(hijriToGregorian(year, month, 1), 'hijri');
+    return null;
+  }
+
+  // 5. Named month: "مارس 2023", "March 2023", "Mar-2023", "رمضان 1445"
+  match = text.match(/^(.+?)\s*[-/ ]\s*(\d{4})\s*(هـ|ه|م)?$/);
+  if (match) {
+    const year = Number(match[2]);
+    const hijriMonth = lookupMonth(match[1], HIJRI_MONTHS);
+    if (hijriMonth && isHijriYear(year)) return monthPeriod(hijriToGregorian(year, hijriMonth, 1), 'hijri');
+    const month = lookupMonth(match[1], GREGORIAN_MONTHS);
+    if (month && isGregorianYear(year)) return monthPeriod(new Date(Date.UTC(year, month - 1, 1)), 'gregorian');
+  }
+
+  // 6. Full dates (Hijri first - Gregorian DMY pattern would not match 14xx years anyway)
+  const hijri = parseHijriDate(text);
+  if (hijri) {
+    const [y, m, d] = hijri.split('-').map(Number);
+    const date = isoDate(hijriToGregorian(y, m, d));
+    return { period: date, granularity: 'day', start: date, calendar: 'hijri' };
+  }
+
+  const gregorian = parseGregorianDate(text);
+  if (gregorian) {
+    return { period: gregorian, granularity: 'day', start: gregorian, calendar: 'gregorian' };
+  }
+
+  return null;
+}
+
+/**
+ * اكتشاف أعمدة الفترات في الصيغة الطويلة (مرتبة حسب التغطية والدقة)
+ */
+export function detectPeriodColumns(records: Record<string, unknown>[], columns: string[]): PeriodColumn[] {
+  const sample = records.slice(0, 2000);
+  const detected: PeriodColumn[] = [];
+
+  for (const column of columns) {
+    const bareYears = PERIOD_HEADER_PATTERN.test(column);
+    const values = sample.map((r) => r[column]).filter((v) => !isEmptyValue(v));
+    if (values.length === 0) continue;
+
+    const periods = values.map((v) => normalizePeriod(v, { bareYears })).filter((p): p is NormalizedPeriod => p !== null);
+    const coverage = periods.length / values.length;
+    if (coverage < PERIOD_COVERAGE_THRESHOLD) continue;
+
+    const counts = new Map<Granularity, number>();
+    periods.forEach((p) => counts.set(p.granularity, (counts.get(p.granularity) || 0) + 1));
+    const granularity = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const hijri = periods.filter((p) => p.calendar === 'hijri').length;
+
+    detected.push({
+      column,
+      granularity,
+      coverage: Math.round(coverage * 10000) / 10000,
+      calendar: hijri > periods.length / 2 ? 'hijri' : 'gregorian',
+    });
+  }
+
+  // Prefer header hints, then coverage
+  return detected.sort((a, b) =>
+    Number(PERIOD_HEADER_PATTERN.test(b.column)) - Number(PERIOD_HEADER_PATTERN.test(a.column)) ||
+    b.coverage - a.coverage
+  );
+}
+
+/**
+ * اكتشاف الأعمدة العريضة التي عنوانها فترة (مثل 2019، 2020، 1441هـ)
+ */
+export function detectWidePeriodColumns(columns: string[]): { column: string; period: NormalizedPeriod }[] {
+  const wide = columns
+    .map((column) => ({ column, period: normalizePeriod(column, { bareYears: true }) }))
+    .filter((c): c is { column: string; period: NormalizedPeriod } => c.period !== null);
+
+  return wide.length >= MIN_WIDE_COLUMNS ? wide : [];
+}
+
+/**
+ * تحويل الجدول العريض إلى صيغة طويلة: صف لكل (سجل × فترة)
+ */
+export function pivotWideToLong(
+  records: Record<string, unknown>[],
+  columns: string[],
+  valueName: string = 'value'
+): { records: Record<string, unknown>[]; columns: string[] } {
+  const wide = detectWidePeriodColumns(columns);
+  if (wide.length === 0) return { records, columns };
+
+  const wideNames = new Set(wide.map((w) => w.column));
+  const idColumns = columns.filter((c) => !wideNames.has(c));
+
+  const long: Record<string, unknown>[] = [];
+  for (const record of records) {
+    for (const { column, period } of wide) {
+      const row: Record<string, unknown> = {};
+      idColumns.forEach((c) => { row[c] = record[c]; });
+      row.period = period.period;
+      row[valueName] = record[column];
+      long.push(row);
+    }
+  }
+
+  return { records: long, columns: [...idColumns, 'period', valueName] };
+}
+
+function aggregateValues(values: number[], fn: SeriesAggregate, count: number): number | null {
+  if (fn === 'count') return count;
+  if (values.length === 0) return null;
+  switch (fn) {
+    case 'avg': return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min': return values.reduce((a, b) => (b < a ? b : a), values[0]);
+    case 'max': return values.reduce((a, b) => (b > a ? b : a), values[0]);
+    case 'sum':
+    default: return values.reduce((a, b) => a + b, 0);
+  }
+}
+
+function buildSeries(
+  rows: { key: string; period: NormalizedPeriod; value: unknown }[],
+  aggregate: SeriesAggregate,
+  maxSeries: number
+): TimeSeries[] {
+  const groups = new Map<string, Map<string, { start: string; values: number[]; count: number }>>();
+
+  for (const row of rows) {
+    let points = groups.get(row.key);
+    if (!points) {
+      points = new Map();
+      groups.set(row.key, points);
+    }
+    let point = points.get(row.period.period);
+    if (!point) {
+      point = { start: row.period.start, values: [], count: 0 };
+      points.set(row.period.period, point);
+    }
+    point.count++;
+    const n = toNumber(row.value);
+    if (n !== null) point.values.push(n);
+  }
+
+  const series = [...groups.entries()].map(([key, points]) => ({
+    key,
+    points: [...points.entries()]
+      .map(([period, p]) => {
+        const value = aggregateValues(p.values, aggregate, p.count);
+        return {
+          period,
+          start: p.start,
+          value: value === null ? null : Math.round(value * 10000) / 10000,
+          count: p.count,
+        };
+      })
+      .sort((a, b) => a.start.localeCompare(b.start) || a.period.localeCompare(b.period)),
+  }));
+
+  // Keep the largest series when a dimension has too many values
+  return series
+    .sort((a, b) => b.points.reduce((s, p) => s + Math.abs(p.value ?? 0), 0) - a.points.reduce((s, p) => s + Math.abs(p.value ?? 0), 0))
+    .slice(0, maxSeries);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions - Extraction
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * استخراج سلسلة زمنية موحدة من السجلات
+ * - صيغة طويلة: عمود فترة + عمود قيمة (measure)
+ * - صيغة عريضة: عمود لكل فترة، والقيم في الخلايا
+ */
+export function extractTimeSeries(
+  records: Record<string, unknown>[],
+  columns: string[],
+  options: TimeSeriesOptions = {}
+): TimeSeriesResult {
+  const aggregate = options.aggregate || 'sum';
+  const maxSeries = options.maxSeries || DEFAULT_MAX_SERIES;
+  const { dimension } = options;
+
+  const unknown = [options.measure, dimension, options.periodColumn]
+    .filter((c): c is string => !!c && !columns.includes(c));
+
+  // 1. Wide layout: period columns in the header
+  const wide = detectWidePeriodColumns(columns);
+  if (wide.length > 0 && !options.periodColumn && (!options.measure || !columns.includes(options.measure))) {
+    if (dimension && !columns.includes(dimension)) {
+      throw new TimeSeriesError('Unknown columns', 'أعمدة غير موجودة', { unknownColumns: [dimension] });
+    }
+
+    const rows: { key: string; period: NormalizedPeriod; value: unknown }[] = [];
+    let skippedRows = 0;
+
+    for (const record of records) {
+      const key = dimension ? String(record[dimension] ?? '') : TOTAL_KEY;
+      if (dimension && isEmptyValue(record[dimension])) {
+        skippedRows++;
+        continue;
+      }
+      for (const { column, period } of wide) {
+        rows.push({ key, period, value: record[column] });
+      }
+    }
+
+    const counts = new Map<Granularity, number>();
+    wide.forEach((w) => counts.set(w.period.granularity, (counts.get(w.period.granularity) || 0) + 1));
+
+    return {
+      layout: 'wide',
+      granularity: [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      periodColumn: null,
+      periodColumns: wide.map((w) => w.column),
+      measure: options.measure || 'value',
+      dimension: dimension || null,
+      aggregate,
+      series: buildSeries(rows, aggregate, maxSeries),
+      skippedRows,
+    };
+  }
+
+  if (unknown.length > 0) {
+    throw new TimeSeriesError('Unknown columns', 'أعمدة غير موجودة', { unknownColumns: unknown });
+  }
+
+  // 2. Long layout: find the period column
+  const periodColumns = detectPeriodColumns(records, columns);
+  const periodInfo = options.periodColumn
+    ? periodColumns.find((p) => p.column === options.periodColumn)
+    : periodColumns[0];
+
+  if (!periodInfo) {
+    throw new TimeSeriesError(
+      'No period column detected',
+      'لم يتم العثور على عمود فترة زمنية',
+      { periodColumn: options.periodColumn || null, candidates: periodColumns.map((p) => p.column) }
+    );
+  }
+
+  // 3. Pick the measure: requested, or the first numeric non-period column
+  let measure = options.measure;
+  if (!measure) {
+    const sample = records.slice(0, 500);
+    measure = columns.find((c) => {
+      if (c === periodInfo.column || c === dimension) return false;
+      const values = sample.map((r) => r[c]).filter((v) => !isEmptyValue(v));
+      return values.length > 0 && values.filter((v) => toNumber(v) !== null).length / values.length >= 0.9;
+    });
+  }
+
+  if (!measure && aggregate !== 'count') {
+    throw new TimeSeriesError('No numeric measure column found', 'لم يتم العثور على عمود قيم رقمي', {
+      columns,
+    });
+  }
+
+  const bareYears = PERIOD_HEADER_PATTERN.test(periodInfo.column);
+  const rows: { key: string; period: NormalizedPeriod; value: unknown }[] = [];
+  let skippedRows = 0;
+
+  for (const record of records) {
+    const period = normalizePeriod(record[periodInfo.column], { bareYears });
+    if (!period || period.granularity !== periodInfo.granularity || (dimension && isEmptyValue(record[dimension]))) {
+      skippedRows++;
+      continue;
+    }
+    rows.push({
+      key: dimension ? String(record[dimension]) : TOTAL_KEY,
+      period,
+      value: measure ? record[measure] : 1,
+    });
+  }
+
+  return {
+    layout: 'long',
+    granularity: periodInfo.granularity,
+    periodColumn: periodInfo.column,
+    periodColumns: [],
+    measure: measure || 'count',
+    dimension: dimension || null,
+    aggregate,
+    series: buildSeries(rows, aggregate, maxSeries),
+    skippedRows,
+  };
+}
+
+/**
+ * جلب بيانات Dataset واستخراج السلسلة الزمنية منها
+ * تستخدمها لوحات البيانات والإشارات للحصول على صيغة موحدة
+ */
+export async function getDatasetTimeSeries(
+  datasetId: string,
+  options: TimeSeriesOptions & { forceRefresh?: boolean } = {}
+): Promise<(TimeSeriesResult & { fetchedAt: string; source: string }) | null> {
+  const { forceRefresh, ...seriesOptions } = options;
+  const data = await getDatasetData(datasetId, { forceRefresh });
+  if (!data) return null;
+
+  return {
+    ...extractTimeSeries(data.records, data.columns, seriesOptions),
+    fetchedAt: data.fetchedAt,
+    source: data.source,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  normalizePeriod,
+  detectPeriodColumns,
+  detectWidePeriodColumns,
+  pivotWideToLong,
+  extractTimeSeries,
+  getDatasetTimeSeries,
+  hijriToGregorian,
+};
@@ -0,0 +1,289 @@
+/**
+ * آثار تغيير حالة التحقق - Verification Cascade
+ *
+ * عند رفض Dataset أو إعادته للمراجعة:
+ * - الإشارات المبنية عليه تُعلَّم (أو تُوقف إذا كان مصدرها الأساسي مرفوضاً)
+ * - المحتوى المرتبط به (Content.datasetId) يحمل تحذيراً في الخلاصة
+ * - المهتمون (المفضلة، أصحاب المحتوى) يُبلَّغون عبر notify()
+ * عند العودة إلى VERIFIED تُستعاد الحالة، مع مراعاة بقية مصادر كل إشارة
+ */
+
+import { prisma } from './database.js';
+import { cacheDel, CacheKeys } from './cache.js';
+import { getRelatedDatasetIds } from './lineage.js';
+import { notify } from '../utils/notify.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export interface CascadeResult {
+  status: string;
+  signalsFlagged: number;
+  signalsDeactivated: number;
+  signalsRestored: number;
+  contentFlagged: number;
+  contentCleared: number;
+  usersNotified: number;
+}
+
+interface CascadeDataset {
+  id: string;
+  externalId: string;
+  name: string;
+  nameAr: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+// شدة الحالة: الأعلى يغلب عند تعدد مصادر الإشارة
+const FLAG_SEVERITY: Record<string, number> = {
+  NEEDS_REVIEW: 1,
+  REJECTED: 2,
+};
+
+// حالات التحقق التي تُعلِّم الإشارات (لا تُبنى عليها إشارات جديدة)
+export const FLAGGED_STATUSES = Object.keys(FLAG_SEVERITY);
+
+const STATUS_MESSAGES: Record<string, { title: string; titleAr: string; message: string; messageAr: string }> = {
+  REJECTED: {
+    title: 'Dataset Rejected',
+    titleAr: 'تم رفض مجموعة بيانات',
+    message: 'was rejected by reviewers. Signals and articles based on it have been flagged.',
+    messageAr: 'رُفضت من قبل المراجعين. تم تعليم الإشارات والمقالات المبنية عليها.',
+  },
+  NEEDS_REVIEW: {
+    title: 'Dataset Under Review',
+    titleAr: 'مجموعة بيانات قيد المراجعة',
+    message: 'needs review. Signals and articles based on it may be inaccurate.',
+    messageAr: 'تحتاج إلى مراجعة. قد تكون الإشارات والمقالات المبنية عليها غير دقيقة.',
+  },
+  VERIFIED: {
+    title: 'Dataset Verified',
+    titleAr: 'تم التحقق من مجموعة بيانات',
+    message: 'has been verified. Related signals and articles have been restored.',
+    messageAr: 'تم التحقق منها. أُعيدت الإشارات والمقالات المرتبطة بها.',
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function worstFlag(statuses: (string | undefined)[]): string | null {
+  let worst: string | null = null;
+  for (const status of statuses) {
+    if (status && FLAG_SEVERITY[status] && (!worst || FLAG_SEVERITY[status] > FLAG_SEVERITY[worst])) {
+      worst = status;
+    }
+  }
+  return worst;
+}
+
+/**
+ * الإشارات المرتبطة بالـ Dataset (datasetId أو details.relatedDatasets)
+ */
+async function findLinkedSignals(ids: string[]) {
+  const candidates = await prisma.signal.findMany({
+    where: {
+      OR: [
+        { datasetId: { in: ids } },
+        ...ids.map((id) => ({ details: { contains: id } })),
+      ],
+    },
+    select: {
+      id: true, datasetId: true, details: true, isActive: true,
+      verificationFlag: true, suspendedAt: true, expiresAt: true,
+    },
+  });
+
+  return candidates.filter((s) =>
+    (s.datasetId !== null && ids.includes(s.datasetId)) ||
+    getRelatedDatasetIds(s.details).some((id) => ids.includes(id))
+  );
+}
+
+/**
+ * حساب حالة كل إشارة من جميع مصادرها (وليس فقط الـ Dataset الذي تغيّر)
+ */
+async function reconcileSignals(signals: Awaited<ReturnType<typeof findLinkedSignals>>) {
+  const refs = [...new Set(signals.flatMap((s) => [
+    ...(s.datasetId ? [s.datasetId] : []),
+    ...getRelatedDatasetIds(s.details),
+  ]))];
+
+  const datasets = refs.length > 0
+    ? await prisma.dataset.findMany({
+      where: { OR: [{ id: { in: refs } }, { externalId: { in: refs } }] },
+      select: { id: true, externalId: true, verificationStatus: true },
+    })
+    : [];
+
+  const statusOf = new Map<string, string>();
+  for (const d of datasets) {
+    statusOf.set(d.id, d.verificationStatus);
+    statusOf.set(d.externalId, d.verificationStatus);
+  }
+
+  const now = new Date();
+  const counts = { flagged: 0, deactivated: 0, restored: 0 };
+
+  for (const signal of signals) {
+    const linked = [...(signal.datasetId ? [signal.datasetId] : []), ...getRelatedDatasetIds(signal.details)];
+    const flag = worstFlag(linked.map((id) => statusOf.get(id)));
+    const suspend = signal.datasetId !== null && statusOf.get(signal.datasetId) === 'REJECTED';
+
+    const data: { verificationFlag?: string | null; isActive?: boolean; suspendedAt?: Date | null } = {};
+
+    if (signal.verificationFlag !== flag) data.verificationFlag = flag;
+
+    if (suspend && signal.isActive) {
+      data.isActive = false;
+      data.suspendedAt = now;
+      counts.deactivated++;
+    } else if (!suspend && signal.suspendedAt) {
+      // فقط الإشارات التي أوقفها الرفض تُعاد، وما انتهت صلاحيته يبقى متوقفاً
+      data.suspendedAt = null;
+      if (!signal.expiresAt || signal.expiresAt > now) data.isActive = true;
+      counts.restored++;
+    } else if (!flag && signal.verificationFlag) {
+      counts.restored++;
+    }
+
+    if (flag && !signal.verificationFlag) counts.flagged++;
+
+    if (Object.keys(data).length > 0) {
+      await prisma.signal.update({ where: { id: signal.id }, data });
+      await cacheDel(CacheKeys.signal(signal.id));
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * إبلاغ المهتمين: من أضاف الـ Dataset أو إشاراته للمفضلة، وكتّاب المحتوى المرتبط
+ */
+async function notifyInterestedUsers(
+  dataset: CascadeDataset,
+  status: string,
+  signalIds: string[],
+  contentAuthorIds: string[],
+  actorId?: string
+): Promise<number> {
+  const text = STATUS_MESSAGES[status];
+  if (!text) return 0;
+
+  const favorites = await prisma.favorite.findMany({
+    where: {
+      OR: [
+        { itemType: 'DATASET', itemId: { in: [dataset.id, dataset.externalId] } },
+        ...(signalIds.length > 0 ? [{ itemType: 'SIGNAL', itemId: { in: signalIds } }] : []),
+      ],
+    },
+    select: { userId: true },
+  });
+
+  const recipients = new Set([...favorites.map((f) => f.userId), ...contentAuthorIds]);
+  if (actorId) recipients.delete(actorId);
+
+  for (const userId of recipients) {
+    await notify({
+      userId,
+      type: 'dataset',
+      title: text.title,
+      titleAr: text.titleAr,
+      message: `"${dataset.name}" ${text.message}`,
+      messageAr: `"${dataset.nameAr}" ${text.messageAr}`,
+      data: { datasetId: dataset.id, status, affectedSignals: signalIds.length },
+    });
+  }
+
+  return recipients.size;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Main Functions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * تطبيق آثار تغيير حالة التحقق على الإشارات والمحتوى وإبلاغ المستخدمين
+ */
+export async function applyVerificationCascade(
+  datasetId: string,
+  previousStatus: string,
+  actorId?: string
+): Promise<CascadeResult | null> {
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    select: { id: true, externalId: true, name: true, nameAr: true, verificationStatus: true },
+  });
+
+  if (!dataset) return null;
+
+  const status = dataset.verificationStatus;
+  const ids = [dataset.id, dataset.externalId];
+  const warning = FLAG_SEVERITY[status] ? status : null;
+
+  // 1. Signals
+  const signals = await findLinkedSignals(ids);
+  const signalCounts = await reconcileSignals(signals);
+
+  // 2. Content warning badge
+  const contents = await prisma.content.findMany({
+    where: { datasetId: { in: ids } },
+    select: { id: true, authorId: true, dataWarning: true },
+  });
+
+  const contentToUpdate = contents.filter((c) => c.dataWarning !== warning);
+  if (contentToUpdate.length > 0) {
+    await prisma.content.updateMany({
+      where: { id: { in: contentToUpdate.map((c) => c.id) } },
+      data: { dataWarning: warning },
+    });
+    for (const content of contentToUpdate) {
+      await cacheDel(CacheKeys.contentItem(content.id));
+    }
+  }
+
+  await cacheDel(CacheKeys.signals);
+  await cacheDel(CacheKeys.content);
+
+  // 3. Notifications - only on an actual transition into/out of a flagged state
+  const previousFlagged = !!FLAG_SEVERITY[previousStatus];
+  const shouldNotify = status !== previousStatus && (warning !== null || (status === 'VERIFIED' && previousFlagged));
+
+  const usersNotified = shouldNotify
+    ? await notifyInterestedUsers(
+      dataset,
+      status,
+      signals.map((s) => s.id),
+      contents.map((c) => c.authorId).filter((id): id is string => !!id),
+      actorId
+    )
+    : 0;
+
+  const result: CascadeResult = {
+    status,
+    signalsFlagged: signalCounts.flagged,
+    signalsDeactivated: signalCounts.deactivated,
+    signalsRestored: signalCounts.restored,
+    contentFlagged: warning ? contentToUpdate.length : 0,
+    contentCleared: warning ? 0 : contentToUpdate.length,
+    usersNotified,
+  };
+
+  logger.info(`🔗 Verification cascade for ${dataset.externalId} (${previousStatus} → ${status}): ${JSON.stringify(result)}`);
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  applyVerificationCascade,
+};
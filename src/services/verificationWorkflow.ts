@@ -0,0 +1,594 @@
+/**
+ * سير عمل التحقق متعدد المراجعين - Verification Workflow
+ *
+ * كل Dataset يحتاج N مراجعات مستقلة من الخبراء (لكل مراجع قائمة تحقق:
+ * أصالة المصدر، الترخيص، البيانات الشخصية). عند اكتمال النصاب:
+ * - اتفاق المراجعين ← يُعتمد القرار تلقائياً
+ * - اختلافهم ← حالة DISAGREEMENT ويحسم المشرف
+ * مع مهلة (SLA) لكل مراجعة ولكل قرار
+ */
+
+import { prisma } from './database.js';
+import { config } from '../config/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { applyVerificationCascade, CascadeResult } from './verificationCascade.js';
+import { notify } from '../utils/notify.js';
+import { logger } from '../utils/logger.js';
+
+// ═══════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════
+
+export type ReviewDecision = 'VERIFIED' | 'REJECTED' | 'NEEDS_REVIEW';
+export type ChecklistResult = 'PASS' | 'FAIL' | 'NA';
+export type ChecklistItem = (typeof CHECKLIST_ITEMS)[number]['key'];
+
+export type ReviewChecklist = Record<ChecklistItem, { result: ChecklistResult; comment?: string }>;
+
+export interface WorkflowConfig {
+  requiredReviews: number;
+  reviewSlaHours: number;
+  decisionSlaHours: number;
+}
+
+export interface ReviewInput {
+  decision: ReviewDecision;
+  checklist: ReviewChecklist;
+  note?: string;
+  noteAr?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+export const CHECKLIST_ITEMS = [
+  { key: 'sourceAuthenticity', label: 'Source authenticity', labelAr: 'أصالة المصدر' },
+  { key: 'licensing', label: 'Licensing', labelAr: 'الترخيص' },
+  { key: 'pii', label: 'Personal data (PII)', labelAr: 'البيانات الشخصية' },
+] as const;
+
+export const REVIEWER_ROLES = ['EXPERT', 'ADMIN', 'SUPER_ADMIN'];
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+const SETTINGS_GROUP = 'verification';
+const SETTING_KEYS: Record<keyof WorkflowConfig, string> = {
+  requiredReviews: 'verification.requiredReviews',
+  reviewSlaHours: 'verification.reviewSlaHours',
+  decisionSlaHours: 'verification.decisionSlaHours',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════
+// Helper Functions
+// ═══════════════════════════════════════════════════════════════════
+
+function parseChecklist(value: string): Partial<ReviewChecklist> {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+async function getDatasetOrThrow(datasetId: string) {
+  const dataset = await prisma.dataset.findFirst({
+    where: { OR: [{ id: datasetId }, { externalId: datasetId }] },
+    select: {
+      id: true, externalId: true, name: true, nameAr: true,
+      verificationStatus: true, reviewRound: true, reviewState: true, reviewStartedAt: true,
+    },
+  });
+  if (!dataset) {
+    throw new AppError('Dataset not found', 'مجموعة البيانات غير موجودة', 404);
+  }
+  return dataset;
+}
+
+function assertOpen(dataset: { reviewState: string }) {
+  if (dataset.reviewState === 'COMPLETED') {
+    throw new AppError(
+      'Review round is completed. Set the dataset to NEEDS_REVIEW to start a new round',
+      'جولة المراجعة مكتملة. غيّر الحالة إلى "تحتاج مراجعة" لبدء جولة جديدة',
+      409
+    );
+  }
+}
+
+/**
+ * المراجعات النشطة في الجولة الحالية (مسندة أو مقدمة)
+ */
+function activeRoundReviews(datasetId: string, round: number) {
+  return prisma.datasetReview.findMany({
+    where: { datasetId, round, status: { in: ['ASSIGNED', 'SUBMITTED'] } },
+    orderBy: { assignedAt: 'asc' },
+  });
+}
+
+async function notifyAdmins(dataset: { id: string; name: string; nameAr: string }): Promise<void> {
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ADMIN_ROLES }, isActive: true },
+    select: { id: true },
+  });
+
+  for (const admin of admins) {
+    await notify({
+      userId: admin.id,
+      type: 'verification',
+      title: 'Reviewers Disagree',
+      titleAr: 'اختلاف بين المراجعين',
+      message: `Reviewers disagree on "${dataset.name}". An admin decision is required.`,
+      messageAr: `اختلف المراجعون على "${dataset.nameAr}". يلزم قرار من المشرف.`,
+      data: { datasetId: dataset.id },
+    });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Workflow Configuration
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * إعدادات سير العمل: القيم المحفوظة في settings وإلا القيم الافتراضية من config
+ */
+export async function getWorkflowConfig(): Promise<WorkflowConfig> {
+  const result: WorkflowConfig = { ...config.verification };
+
+  const settings = await prisma.setting.findMany({
+    where: { groupName: SETTINGS_GROUP },
+    select: { key: true, value: true },
+  }).catch(() => []);
+
+  for (const [field, key] of Object.entries(SETTING_KEYS) as [keyof WorkflowConfig, string][]) {
+    const value = parseInt(settings.find((s) => s.key === key)?.value || '', 10);
+    if (Number.isFinite(value) && value > 0) result[field] = value;
+  }
+
+  return result;
+}
+
+export async function updateWorkflowConfig(update: Partial<WorkflowConfig>): Promise<WorkflowConfig> {
+  for (const [field, value] of Object.entries(update) as [keyof WorkflowConfig, number | undefined][]) {
+    if (value === undefined) continue;
+    await prisma.setting.upsert({
+      where: { key: SETTING_KEYS[field] },
+      create: { key: SETTING_KEYS[field], value: String(value), groupName: SETTINGS_GROUP },
+      update: { value: String(value) },
+    });
+  }
+  return getWorkflowConfig();
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Decisions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * اعتماد حالة تحقق للـ Dataset (قرار مباشر، إجماع، أو حسم المشرف)
+ * NEEDS_REVIEW / UNVERIFIED تفتح جولة مراجعة جديدة
+ */
+export async function applyVerificationDecision(params: {
+  datasetId: string;
+  status: string;
+  actorId: string;
+  note?: string | null;
+  noteAr?: string | null;
+  action: string;
+  auditDetails?: Record<string, unknown>;
+}): Promise<{ dataset: Awaited<ReturnType<typeof prisma.dataset.update>>; cascade: CascadeResult | null }> {
+  const current = await getDatasetOrThrow(params.datasetId);
+  const reopen = params.status === 'NEEDS_REVIEW' || params.status === 'UNVERIFIED';
+
+  // المراجعات المعلقة في الجولة المنتهية تُحرر من قوائم المراجعين
+  await prisma.datasetReview.updateMany({
+    where: { datasetId: current.id, round: current.reviewRound, status: 'ASSIGNED' },
+    data: { status: 'RELEASED' },
+  });
+
+  const dataset = await prisma.dataset.update({
+    where: { id: current.id },
+    data: {
+      verificationStatus: params.status,
+      verifiedBy: params.actorId,
+      verifiedAt: new Date(),
+      verificationNote: params.note || null,
+      verificationNoteAr: params.noteAr || null,
+      ...(reopen
+        ? { reviewRound: { increment: 1 }, reviewState: 'PENDING', reviewStartedAt: null }
+        : { reviewState: 'COMPLETED' }),
+    },
+  });
+
+  // Flag / deactivate dependent signals and content, notify interested users (or restore on VERIFIED)
+  const cascade = await applyVerificationCascade(current.id, current.verificationStatus, params.actorId).catch((error) => {
+    logger.error(`Verification cascade failed for ${current.id}:`, error);
+    return null;
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: params.actorId,
+      action: params.action,
+      targetType: 'DATASET',
+      targetId: current.id,
+      details: JSON.stringify({
+        previousStatus: current.verificationStatus,
+        newStatus: params.status,
+        round: current.reviewRound,
+        note: params.note,
+        ...params.auditDetails,
+        ...(cascade && { cascade }),
+      }),
+    },
+  }).catch(() => {}); // non-critical
+
+  return { dataset, cascade };
+}
+
+/**
+ * تقييم الجولة بعد كل مراجعة: الإجماع يُعتمد، والاختلاف يُحال للمشرف
+ */
+async function evaluateRound(datasetId: string, actorId: string) {
+  const dataset = await getDatasetOrThrow(datasetId);
+  const { requiredReviews } = await getWorkflowConfig();
+
+  const submitted = await prisma.datasetReview.findMany({
+    where: { datasetId: dataset.id, round: dataset.reviewRound, status: 'SUBMITTED' },
+    select: { reviewerId: true, decision: true },
+  });
+
+  if (submitted.length < requiredReviews) {
+    return { state: dataset.reviewState, submitted: submitted.length, requiredReviews };
+  }
+
+  const decisions = [...new Set(submitted.map((r) => r.decision))];
+
+  if (decisions.length === 1 && decisions[0]) {
+    await applyVerificationDecision({
+      datasetId: dataset.id,
+      status: decisions[0],
+      actorId,
+      action: `VERIFY_DATASET_CONSENSUS_${decisions[0]}`,
+      auditDetails: { reviewers: submitted.map((r) => r.reviewerId) },
+    });
+    return { state: 'COMPLETED', decision: decisions[0], submitted: submitted.length, requiredReviews };
+  }
+
+  if (dataset.reviewState !== 'DISAGREEMENT') {
+    await prisma.dataset.update({ where: { id: dataset.id }, data: { reviewState: 'DISAGREEMENT' } });
+    await notifyAdmins(dataset);
+  }
+
+  return { state: 'DISAGREEMENT', decisions, submitted: submitted.length, requiredReviews };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Reviews
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * إسناد مراجعين (المشرف) - تبدأ الجولة عند أول إسناد
+ */
+export async function assignReviewers(datasetId: string, reviewerIds: string[], assignedById: string) {
+  const dataset = await getDatasetOrThrow(datasetId);
+  assertOpen(dataset);
+  const { reviewSlaHours } = await getWorkflowConfig();
+
+  const reviewers = await prisma.user.findMany({
+    where: { id: { in: reviewerIds }, role: { in: REVIEWER_ROLES }, isActive: true },
+    select: { id: true },
+  });
+
+  const invalid = reviewerIds.filter((id) => !reviewers.some((r) => r.id === id));
+  if (invalid.length > 0) {
+    throw new AppError(
+      `Reviewers must be active experts: ${invalid.join(', ')}`,
+      'يجب أن يكون المراجعون خبراء نشطين',
+      400
+    );
+  }
+
+  const now = new Date();
+  const dueAt = new Date(now.getTime() + reviewSlaHours * HOUR_MS);
+
+  for (const reviewer of reviewers) {
+    const existing = await prisma.datasetReview.findUnique({
+      where: { datasetId_reviewerId_round: { datasetId: dataset.id, reviewerId: reviewer.id, round: dataset.reviewRound } },
+    });
+    if (existing && existing.status !== 'RELEASED') continue;
+
+    await prisma.datasetReview.upsert({
+      where: { datasetId_reviewerId_round: { datasetId: dataset.id, reviewerId: reviewer.id, round: dataset.reviewRound } },
+      create: { datasetId: dataset.id, reviewerId: reviewer.id, assignedById, round: dataset.reviewRound, dueAt },
+      update: { status: 'ASSIGNED', assignedById, assignedAt: now, dueAt },
+    });
+
+    await notify({
+      userId: reviewer.id,
+      type: 'verification',
+      title: 'Dataset Review Assigned',
+      titleAr: 'تم إسناد مراجعة مجموعة بيانات',
+      message: `You have been assigned to review "${dataset.name}" (due in ${reviewSlaHours}h)`,
+      messageAr: `أُسندت إليك مراجعة "${dataset.nameAr}" (خلال ${reviewSlaHours} ساعة)`,
+      data: { datasetId: dataset.id, dueAt },
+    });
+  }
+
+  if (dataset.reviewState === 'PENDING') {
+    await prisma.dataset.update({
+      where: { id: dataset.id },
+      data: { reviewState: 'IN_REVIEW', reviewStartedAt: dataset.reviewStartedAt || now },
+    });
+  }
+
+  return activeRoundReviews(dataset.id, dataset.reviewRound);
+}
+
+/**
+ * سحب مراجعة من قائمة الانتظار (الخبير) - ضمن النصاب المطلوب فقط
+ */
+export async function claimReview(datasetId: string, reviewerId: string) {
+  const dataset = await getDatasetOrThrow(datasetId);
+  assertOpen(dataset);
+  const { requiredReviews, reviewSlaHours } = await getWorkflowConfig();
+
+  const active = await activeRoundReviews(dataset.id, dataset.reviewRound);
+  const mine = active.find((r) => r.reviewerId === reviewerId);
+  if (mine) return mine;
+
+  if (active.length >= requiredReviews) {
+    throw new AppError('All review slots are taken', 'اكتمل عدد المراجعين لهذه المجموعة', 409);
+  }
+
+  const now = new Date();
+  const dueAt = new Date(now.getTime() + reviewSlaHours * HOUR_MS);
+
+  const review = await prisma.datasetReview.upsert({
+    where: { datasetId_reviewerId_round: { datasetId: dataset.id, reviewerId, round: dataset.reviewRound } },
+    create: { datasetId: dataset.id, reviewerId, round: dataset.reviewRound, dueAt },
+    update: { status: 'ASSIGNED', assignedAt: now, dueAt },
+  });
+
+  if (dataset.reviewState === 'PENDING') {
+    await prisma.dataset.update({
+      where: { id: dataset.id },
+      data: { reviewState: 'IN_REVIEW', reviewStartedAt: dataset.reviewStartedAt || now },
+    });
+  }
+
+  return review;
+}
+
+/**
+ * تقديم مراجعة مستقلة مع قائمة التحقق
+ * يمكن تعديلها حتى يكتمل النصاب
+ */
+export async function submitReview(datasetId: string, reviewerId: string, input: ReviewInput) {
+  const failed = CHECKLIST_ITEMS.filter((item) => input.checklist[item.key]?.result === 'FAIL');
+  if (input.decision === 'VERIFIED' && failed.length > 0) {
+    throw new AppError(
+      `Cannot verify with failed checklist items: ${failed.map((i) => i.key).join(', ')}`,
+      `لا يمكن الاعتماد مع بنود غير مستوفاة: ${failed.map((i) => i.labelAr).join('، ')}`,
+      400
+    );
+  }
+
+  const claimed = await claimReview(datasetId, reviewerId);
+  const dataset = await getDatasetOrThrow(datasetId);
+
+  if (dataset.reviewState === 'DISAGREEMENT') {
+    throw new AppError(
+      'Reviewers disagree; awaiting admin resolution',
+      'يوجد اختلاف بين المراجعين بانتظار حسم المشرف',
+      409
+    );
+  }
+
+  const review = await prisma.datasetReview.update({
+    where: { id: claimed.id },
+    data: {
+      status: 'SUBMITTED',
+      decision: input.decision,
+      checklist: JSON.stringify(input.checklist),
+      note: input.note || null,
+      noteAr: input.noteAr || null,
+      submittedAt: new Date(),
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: reviewerId,
+      action: `REVIEW_DATASET_${input.decision}`,
+      targetType: 'DATASET',
+      targetId: dataset.id,
+      details: JSON.stringify({ round: dataset.reviewRound, checklist: input.checklist, note: input.note }),
+    },
+  }).catch(() => {});
+
+  const outcome = await evaluateRound(dataset.id, reviewerId);
+  return { review: { ...review, checklist: input.checklist }, outcome };
+}
+
+/**
+ * حسم الاختلاف (المشرف)
+ */
+export async function resolveDisagreement(
+  datasetId: string,
+  adminId: string,
+  decision: ReviewDecision,
+  note?: string,
+  noteAr?: string
+) {
+  const dataset = await getDatasetOrThrow(datasetId);
+  if (dataset.reviewState !== 'DISAGREEMENT') {
+    throw new AppError('There is no disagreement to resolve', 'لا يوجد اختلاف يحتاج إلى حسم', 409);
+  }
+
+  const reviews = await prisma.datasetReview.findMany({
+    where: { datasetId: dataset.id, round: dataset.reviewRound, status: 'SUBMITTED' },
+    select: { reviewerId: true, decision: true },
+  });
+
+  return applyVerificationDecision({
+    datasetId: dataset.id,
+    status: decision,
+    actorId: adminId,
+    note,
+    noteAr,
+    action: `RESOLVE_DATASET_REVIEW_${decision}`,
+    auditDetails: { reviews },
+  });
+}
+
+/**
+ * مراجعات Dataset (كل الجولات)
+ */
+export async function getDatasetReviews(datasetId: string) {
+  const dataset = await getDatasetOrThrow(datasetId);
+  const workflow = await getWorkflowConfig();
+
+  const reviews = await prisma.datasetReview.findMany({
+    where: { datasetId: dataset.id },
+    orderBy: [{ round: 'desc' }, { assignedAt: 'asc' }],
+    include: { reviewer: { select: { id: true, name: true, nameAr: true, avatar: true, role: true } } },
+  });
+
+  const now = Date.now();
+  return {
+    dataset: {
+      id: dataset.id,
+      verificationStatus: dataset.verificationStatus,
+      reviewRound: dataset.reviewRound,
+      reviewState: dataset.reviewState,
+      reviewStartedAt: dataset.reviewStartedAt,
+      decisionDueAt: dataset.reviewStartedAt
+        ? new Date(dataset.reviewStartedAt.getTime() + workflow.decisionSlaHours * HOUR_MS)
+        : null,
+    },
+    workflow,
+    checklistItems: CHECKLIST_ITEMS,
+    reviews: reviews.map((r) => ({
+      ...r,
+      checklist: parseChecklist(r.checklist),
+      overdue: r.status === 'ASSIGNED' && !!r.dueAt && r.dueAt.getTime() < now,
+    })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Queues & SLA
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * شرط قائمة الانتظار للمراجع
+ * mine: المسندة إلي، unassigned: بلا مراجعين، overdue: متأخرة، disagreement: بانتظار الحسم
+ */
+export function reviewQueueWhere(queue: string, userId: string): Record<string, unknown> | null {
+  switch (queue) {
+    case 'mine':
+      return { reviews: { some: { reviewerId: userId, status: 'ASSIGNED' } } };
+    case 'unassigned':
+      return { reviewState: 'PENDING' };
+    case 'overdue':
+      return { reviews: { some: { status: 'ASSIGNED', dueAt: { lt: new Date() } } } };
+    case 'disagreement':
+      return { reviewState: 'DISAGREEMENT' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * مؤشرات المهلة (SLA) للمراجعات والقرارات
+ */
+export async function getVerificationSla(windowDays = 30) {
+  const workflow = await getWorkflowConfig();
+  const now = new Date();
+  const since = new Date(now.getTime() - windowDays * 24 * HOUR_MS);
+
+  const [openReviews, overdueReviews, inReview, disagreements, submitted, decided, openDatasets] = await Promise.all([
+    prisma.datasetReview.count({ where: { status: 'ASSIGNED' } }),
+    prisma.datasetReview.count({ where: { status: 'ASSIGNED', dueAt: { lt: now } } }),
+    prisma.dataset.count({ where: { isActive: true, reviewState: 'IN_REVIEW' } }),
+    prisma.dataset.count({ where: { isActive: true, reviewState: 'DISAGREEMENT' } }),
+    prisma.datasetReview.findMany({
+      where: { status: 'SUBMITTED', submittedAt: { gte: since } },
+      select: { reviewerId: true, assignedAt: true, submittedAt: true, dueAt: true },
+    }),
+    prisma.dataset.findMany({
+      where: { reviewState: 'COMPLETED', verifiedAt: { gte: since }, reviewStartedAt: { not: null } },
+      select: { reviewStartedAt: true, verifiedAt: true },
+    }),
+    prisma.dataset.findMany({
+      where: { isActive: true, reviewState: { in: ['IN_REVIEW', 'DISAGREEMENT'] }, reviewStartedAt: { not: null } },
+      select: { reviewStartedAt: true },
+    }),
+  ]);
+
+  const hours = (from: Date, to: Date) => (to.getTime() - from.getTime()) / HOUR_MS;
+  const avg = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null;
+  const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : null);
+
+  const reviewHours = submitted.map((r) => hours(r.assignedAt, r.submittedAt!));
+  const reviewsOnTime = submitted.filter((r) => !r.dueAt || r.submittedAt! <= r.dueAt).length;
+  const decisionHours = decided.map((d) => hours(d.reviewStartedAt!, d.verifiedAt!));
+  const decisionsOnTime = decisionHours.filter((h) => h <= workflow.decisionSlaHours).length;
+  const decisionsOverdue = openDatasets.filter((d) => hours(d.reviewStartedAt!, now) > workflow.decisionSlaHours).length;
+
+  // Per-reviewer throughput
+  const byReviewer = new Map<string, { submitted: number; onTime: number; hours: number[] }>();
+  for (const r of submitted) {
+    const entry = byReviewer.get(r.reviewerId) || { submitted: 0, onTime: 0, hours: [] };
+    entry.submitted++;
+    if (!r.dueAt || r.submittedAt! <= r.dueAt) entry.onTime++;
+    entry.hours.push(hours(r.assignedAt, r.submittedAt!));
+    byReviewer.set(r.reviewerId, entry);
+  }
+
+  return {
+    workflow,
+    windowDays,
+    openReviews,
+    overdueReviews,
+    inReview,
+    disagreements,
+    decisionsOverdue,
+    reviews: {
+      submitted: submitted.length,
+      avgHours: avg(reviewHours),
+      onTimeRate: percent(reviewsOnTime, submitted.length),
+    },
+    decisions: {
+      completed: decided.length,
+      avgHours: avg(decisionHours),
+      onTimeRate: percent(decisionsOnTime, decided.length),
+    },
+    reviewers: [...byReviewer.entries()].map(([reviewerId, e]) => ({
+      reviewerId,
+      submitted: e.submitted,
+      avgHours: avg(e.hours),
+      onTimeRate: percent(e.onTime, e.submitted),
+    })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════
+
+export default {
+  getWorkflowConfig,
+  updateWorkflowConfig,
+  applyVerificationDecision,
+  assignReviewers,
+  claimReview,
+  submitReview,
+  resolveDisagreement,
+  getDatasetReviews,
+  reviewQueueWhere,
+  getVerificationSla,
+  CHECKLIST_ITEMS,
+};